@@ -0,0 +1,724 @@
+// Generado por `npm run client:generate` desde la especificación OpenAPI de la API, no editar
+
+/** ISO 4217 code of the price currency, the base currency by default when creating a product */
+export type Currency = "AED" | "AFN" | "ALL" | "AMD" | "ANG" | "AOA" | "ARS" | "AUD" | "AWG" | "AZN" | "BAM" | "BBD" | "BDT" | "BGN" | "BIF" | "BMD" | "BND" | "BOB" | "BRL" | "BSD" | "BTN" | "BWP" | "BYN" | "BZD" | "CAD" | "CDF" | "CHF" | "CLP" | "CNY" | "COP" | "CRC" | "CUC" | "CUP" | "CVE" | "CZK" | "DJF" | "DKK" | "DOP" | "DZD" | "EGP" | "ERN" | "ETB" | "EUR" | "FJD" | "FKP" | "GBP" | "GEL" | "GHS" | "GIP" | "GMD" | "GNF" | "GTQ" | "GYD" | "HKD" | "HNL" | "HRK" | "HTG" | "HUF" | "IDR" | "ILS" | "INR" | "IQD" | "IRR" | "ISK" | "JMD" | "JPY" | "KES" | "KGS" | "KHR" | "KMF" | "KPW" | "KRW" | "KYD" | "KZT" | "LAK" | "LBP" | "LKR" | "LRD" | "LSL" | "MAD" | "MDL" | "MGA" | "MKD" | "MMK" | "MNT" | "MOP" | "MRU" | "MUR" | "MVR" | "MWK" | "MXN" | "MYR" | "MZN" | "NAD" | "NGN" | "NIO" | "NOK" | "NPR" | "NZD" | "PAB" | "PEN" | "PGK" | "PHP" | "PKR" | "PLN" | "PYG" | "QAR" | "RON" | "RSD" | "RUB" | "RWF" | "SAR" | "SBD" | "SCR" | "SDG" | "SEK" | "SGD" | "SHP" | "SLE" | "SLL" | "SOS" | "SRD" | "SSP" | "STN" | "SVC" | "SYP" | "SZL" | "THB" | "TJS" | "TMT" | "TOP" | "TRY" | "TTD" | "TWD" | "TZS" | "UAH" | "UGX" | "USD" | "UYU" | "UZS" | "VES" | "VND" | "VUV" | "WST" | "XAF" | "XCD" | "XCG" | "XDR" | "XOF" | "XPF" | "XSU" | "YER" | "ZAR" | "ZMW" | "ZWG" | "ZWL"
+
+export type Product = {
+    /** The product ID */
+    id: number
+    /** The product name */
+    name: string
+    /** The product price, stored as an exact decimal with 2 digits */
+    price: number
+    currency: Currency
+    /** The product availability, derived from stock: it is only true while stock is above the low stock threshold */
+    availability: boolean
+    /** Units in stock, updated through inventory movements */
+    stock: number
+    /** The product becomes unavailable when its stock is not above this value */
+    lowStockThreshold?: number | null
+    /** Incremented on every change, part of the ETag header */
+    version: number
+    createdAt?: string
+    updatedAt?: string
+    /** Only set on deleted products, listed in the trash */
+    deletedAt?: string | null
+    /** The product categories, only present when requested with include=categories */
+    categories?: Array<Category>
+    /** The product images ordered by position */
+    images?: Array<ProductImage>
+    /** The product variants */
+    variants?: Array<ProductVariant>
+    variantSummary?: VariantSummary
+    /** Upcoming scheduled changes: pending, or applied and waiting to be reverted */
+    schedules?: Array<ProductSchedule>
+}
+
+export type ProductInput = {
+    /** The product name */
+    name: string
+    /** The product price, stored as an exact decimal with 2 digits */
+    price: number
+    currency?: Currency
+    /** The product availability, derived from stock: it is only true while stock is above the low stock threshold */
+    availability?: boolean
+    /** The product becomes unavailable when its stock is not above this value */
+    lowStockThreshold?: number | null
+    /** The IDs of the product categories */
+    categories?: Array<number>
+}
+
+export type ProductUpdate = {
+    /** The product name */
+    name: string
+    /** The product price, stored as an exact decimal with 2 digits */
+    price: number
+    currency?: Currency
+    /** The product availability, derived from stock: it is only true while stock is above the low stock threshold */
+    availability: boolean
+    /** The product becomes unavailable when its stock is not above this value */
+    lowStockThreshold?: number | null
+    /** The IDs of the product categories */
+    categories?: Array<number>
+}
+
+export type ProductImage = {
+    id: number
+    /** Location of the file in the storage */
+    key: string
+    url: string
+    filename?: string
+    mimeType?: string
+    /** Size in bytes */
+    size?: number
+    /** Order in the product gallery, starting at 0 */
+    position: number
+    isPrimary: boolean
+}
+
+export type ProductImageUpdate = {
+    position?: number
+    isPrimary?: boolean
+}
+
+export type ProductVariant = {
+    id: number
+    productId?: number
+    /** Unique code of the variant */
+    sku: string
+    /** The value of each attribute */
+    options: Record<string, string>
+    /** Price in the product currency, null uses the product price */
+    price: number | null
+    availability: boolean
+}
+
+export type ProductVariantInput = {
+    /** Unique code of the variant */
+    sku: string
+    /** The value of each attribute, existing attributes with one of their allowed values */
+    options: Record<string, string>
+    /** Price in the product currency, null uses the product price */
+    price?: number | null
+    availability?: boolean
+}
+
+/** Only the fields sent are changed */
+export type ProductVariantUpdate = {
+    /** Unique code of the variant */
+    sku?: string
+    /** The value of each attribute, existing attributes with one of their allowed values */
+    options?: Record<string, string>
+    /** Price in the product currency, null uses the product price */
+    price?: number | null
+    availability?: boolean
+}
+
+export type VariantGenerationInput = {
+    /** The values of each attribute to combine */
+    attributes: Record<string, Array<string>>
+    /** P followed by the product id by default */
+    skuPrefix?: string
+    /** Price of every generated variant, null uses the product price */
+    price?: number | null
+}
+
+export type ProductSchedule = {
+    id: number
+    productId?: number
+    /** Price in the product currency, null keeps the price */
+    price: number | null
+    /** Null keeps the availability. A product without stock stays unavailable */
+    availability: boolean | null
+    startsAt: string
+    /** The previous values are restored at this date, null makes the change permanent */
+    endsAt: string | null
+    /** pending until startsAt, active until endsAt, completed once applied and reverted. Expired when the window passed before it could be applied */
+    status: "pending" | "active" | "completed" | "cancelled" | "expired"
+    /** Product price when the change was applied, restored at endsAt */
+    previousPrice?: number | null
+    /** Product availability when the change was applied, restored at endsAt */
+    previousAvailability?: boolean | null
+    appliedAt?: string | null
+    revertedAt?: string | null
+    /** The user who scheduled the change */
+    userId?: number | null
+    createdAt?: string
+    updatedAt?: string
+}
+
+/** A change of the price, the availability or both */
+export type ProductScheduleInput = {
+    /** New price in the product currency */
+    price?: number
+    /** New availability */
+    availability?: boolean
+    /** When the change is applied, must be in the future */
+    startsAt: string
+    /** When the previous values are restored, omit it to make the change permanent */
+    endsAt?: string | null
+}
+
+export type InventoryMovement = {
+    id?: number
+    productId?: number
+    type?: "receipt" | "sale" | "adjustment" | "return"
+    /** Signed change applied to the stock */
+    quantity?: number
+    /** The product stock after the movement */
+    stockAfter?: number
+    reason?: string | null
+    userId?: number | null
+    createdAt?: string
+}
+
+export type InventoryMovementInput = {
+    type: "receipt" | "sale" | "adjustment" | "return"
+    /** Units moved, adjustments accept negative values */
+    quantity: number
+    /** Required for adjustments */
+    reason?: string | null
+}
+
+export type ProductPrice = {
+    id?: number
+    productId?: number
+    priceList?: string
+    /** ISO 4217 currency code */
+    currency?: string
+    amount?: number
+}
+
+export type ProductPriceInput = {
+    amount: number
+}
+
+export type PriceHistory = {
+    id?: number
+    productId?: number
+    /** The main product price belongs to the default list */
+    priceList?: string
+    currency?: string
+    amount?: number
+    effectiveFrom?: string
+    /** Null while the price is still in effect */
+    effectiveTo?: string | null
+    userId?: number | null
+}
+
+export type ProductRevision = {
+    id?: number
+    productId?: number
+    action?: "create" | "update" | "availability" | "delete" | "restore" | "purge"
+    /** The product before the change, null for creations */
+    before?: Record<string, unknown> | null
+    /** The product after the change, null for deletions */
+    after?: Record<string, unknown> | null
+    /** Changed fields with their previous and new values */
+    changes?: Record<string, unknown>
+    userId?: number | null
+    createdAt?: string
+}
+
+export type BatchResult = {
+    /** Position of the operation in the request */
+    index?: number
+    op?: string
+    /** Status the single item endpoint would return, 424 when rolled back because of another operation */
+    status?: number
+    /** The product or the confirmation message */
+    data?: unknown
+    error?: string
+    /** Same code as the problem returned by the single item endpoint */
+    code?: string
+    errors?: Array<string>
+}
+
+export type ExchangeRate = {
+    /** ISO 4217 currency code */
+    currency?: string
+    /** Units of this currency per unit of the base currency */
+    rate?: number
+    updatedAt?: string
+}
+
+export type ExchangeRateInput = {
+    /** Units of this currency per unit of the base currency */
+    rate: number
+}
+
+/** Null when the product has no variants */
+export type VariantSummary = {
+    count: number
+    minPrice: number
+    maxPrice: number
+    /** True when the product and at least one of its variants are available */
+    availability: boolean
+} | null
+
+export type PaginationMeta = {
+    /** Total number of products matching the filters */
+    total: number
+    limit: number
+    /** Current page, null when paginating with a cursor */
+    page: number | null
+    totalPages: number
+    /** Opaque cursor to request the next page, only in the product list */
+    nextCursor?: string | null
+}
+
+export type PaginationLinks = {
+    self: string
+    first: string
+    last: string
+    prev: string | null
+    next: string | null
+}
+
+/** Error response (RFC 7807), sent as application/problem+json */
+export type Problem = {
+    type?: string
+    title?: string
+    status?: number
+    detail?: string
+    instance?: string
+    /** Stable identifier of the error */
+    code?: string
+    /** Invalid fields, only when the code is VALIDATION_FAILED */
+    errors?: Array<{
+        type?: string
+        msg?: string
+        path?: string
+        location?: string
+    }>
+}
+
+export type ApiKey = {
+    id?: number
+    name?: string
+    /** Start of the key, to recognize it */
+    prefix?: string
+    /** Requests made with the key are authenticated as this user */
+    userId?: number
+    /** Read requests (GET, HEAD, OPTIONS) per minute, the server default when null */
+    readLimit?: number | null
+    /** Write requests per minute, the server default when null */
+    writeLimit?: number | null
+    /** Requests per day (UTC), the server default when null */
+    dailyQuota?: number | null
+    revokedAt?: string | null
+    createdAt?: string
+    updatedAt?: string
+}
+
+export type ApiKeyInput = {
+    name?: string
+    readLimit?: number | null
+    writeLimit?: number | null
+    dailyQuota?: number | null
+}
+
+export type ApiKeyUsage = {
+    apiKeyId?: number
+    date?: string
+    requests?: number
+    apiKey?: {
+        id?: number
+        name?: string
+        prefix?: string
+    }
+}
+
+export type Attribute = {
+    id?: number
+    /** Key of the attribute in the variant options */
+    name?: string
+    /** The allowed values */
+    values?: Array<string>
+}
+
+export type User = {
+    /** The user ID */
+    id?: number
+    /** The user name */
+    name?: string
+    /** The user email */
+    email?: string
+    /** The user role */
+    role?: "admin" | "editor" | "viewer"
+}
+
+export type Tokens = {
+    /** Short lived token to send in the Authorization header */
+    accessToken?: string
+    /** Long lived token to request a new pair of tokens */
+    refreshToken?: string
+}
+
+export type Category = {
+    /** The category ID */
+    id?: number
+    /** The category name */
+    name?: string
+    /** The ID of the parent category */
+    parentId?: number | null
+}
+
+export type CategoryTree = Category & {
+    children?: Array<CategoryTree>
+}
+
+export type Health = {
+    status?: "ok" | "unavailable"
+    checks?: {
+        database?: "up" | "down"
+        shuttingDown?: boolean
+    }
+}
+
+export type Webhook = {
+    id?: number
+    url?: string
+    events?: Array<"product.created" | "product.updated" | "product.availability_changed" | "product.deleted">
+    active?: boolean
+    createdAt?: string
+    updatedAt?: string
+}
+
+export type WebhookInput = {
+    url: string
+    events: Array<"product.created" | "product.updated" | "product.availability_changed" | "product.deleted">
+    /** Signing key, a random one is generated when omitted */
+    secret?: string
+    active?: boolean
+}
+
+export type WebhookDelivery = {
+    id?: number
+    webhookId?: number
+    event?: string
+    /** Body sent to the subscriber with id, event, createdAt and data */
+    payload?: Record<string, unknown>
+    status?: "pending" | "succeeded" | "failed"
+    attempts?: number
+    nextAttemptAt?: string | null
+    lastAttemptAt?: string | null
+    responseStatus?: number | null
+    error?: string | null
+}
+
+export type ClientOptions = {
+    // http://localhost:4000, sin la barra final
+    baseUrl: string
+    // Access token de /api/auth/login
+    token?: string
+    apiKey?: string
+    headers?: Record<string, string>
+    fetch?: typeof fetch
+}
+
+export type RequestOptions<Query = never, Headers = never> = {
+    query?: Query
+    headers?: Headers
+    body?: unknown
+}
+
+// Respuestas de error (application/problem+json)
+export class ApiError extends Error {
+    constructor(readonly status: number, readonly problem: Problem) {
+        super(problem?.detail ?? `HTTP ${status}`)
+        this.name = 'ApiError'
+    }
+}
+
+export const createClient = ({ baseUrl, token, apiKey, headers = {}, fetch: fetcher = fetch }: ClientOptions) => {
+    // La respuesta se tipa desde la firma de cada método
+    const request = async <T>(method: string, path: string, { query, headers: requestHeaders, body }: RequestOptions<object, object>) : Promise<T> => {
+        const search = new URLSearchParams(
+            Object.entries(query ?? {})
+                .filter(([, value]) => value !== undefined && value !== null)
+                .map(([key, value]) : [string, string] => [key, String(value)])
+        ).toString()
+
+        const response = await fetcher(`${baseUrl}${path}${search ? `?${search}` : ''}`, {
+            method,
+            headers: {
+                Accept: 'application/json',
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                ...(token && { Authorization: `Bearer ${token}` }),
+                ...(apiKey && { 'X-API-Key': apiKey }),
+                ...headers,
+                ...requestHeaders
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        })
+
+        const payload = response.headers.get('Content-Type')?.includes('json') ? await response.json() : undefined
+        if(!response.ok) {
+            throw new ApiError(response.status, payload)
+        }
+        return payload as T
+    }
+
+    return {
+        /** Get a list of products */
+        listProducts: (options: RequestOptions<{
+            /** Page number (ignored when a cursor is sent) */
+            page?: number
+            /** Number of products per page */
+            limit?: number
+            /** Cursor returned in meta.nextCursor */
+            cursor?: string
+            /** Return only products whose name contains this text */
+            name?: string
+            minPrice?: number
+            maxPrice?: number
+            availability?: boolean
+            /** Comma separated list of product fields, prefix with - for descending order. Products without a value in a field go last in either order */
+            sort?: string
+            /** Related data to include in each product */
+            include?: "categories"
+            /** Convert the price to this currency with the local exchange rates */
+            currency?: Currency
+        }, {
+            /** ETag of a previous response, returns 304 when nothing changed */
+            "If-None-Match"?: string
+            /** Returns 304 when nothing changed since this date */
+            "If-Modified-Since"?: string
+        }> = {}) : Promise<{
+            data: Array<Product>
+            meta: PaginationMeta
+            links: PaginationLinks
+        }> =>
+            request('GET', `/api/products`, options),
+        /** Create a new product */
+        createProduct: (body: ProductInput, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Product
+        }> =>
+            request('POST', `/api/products`, { ...options, body }),
+        /** Search products by name */
+        searchProducts: (options: RequestOptions<{
+            q: string
+            /** Page number (ignored when a cursor is sent) */
+            page?: number
+            /** Number of products per page */
+            limit?: number
+            minPrice?: number
+            maxPrice?: number
+            availability?: boolean
+            /** Related data to include in each product */
+            include?: "categories"
+            /** Convert the price to this currency with the local exchange rates */
+            currency?: Currency
+        }, never> = {}) : Promise<{
+            data: Array<Product & {
+                relevance?: number
+                highlight?: string
+            }>
+            meta: PaginationMeta
+        }> =>
+            request('GET', `/api/products/search`, options),
+        /** Run many product operations at once */
+        batchProducts: (body: {
+            continueOnError?: boolean
+            operations: Array<{
+                op?: "create" | "update" | "delete" | "toggle"
+                /** Required for update, delete and toggle */
+                id?: number
+                /** Same body as the single product endpoints */
+                data?: Record<string, unknown>
+            }>
+        }, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Array<BatchResult>
+        }> =>
+            request('POST', `/api/products/batch`, { ...options, body }),
+        /** Get the deleted products */
+        listTrashedProducts: (options: RequestOptions<never, never> = {}) : Promise<{
+            data: Array<Product & {
+                deletedAt?: string
+            }>
+        }> =>
+            request('GET', `/api/products/trash`, options),
+        /** Get the upcoming scheduled changes of the catalog */
+        listUpcomingSchedules: (options: RequestOptions<{
+            /** Return only the scheduled changes with this status, pending and active by default */
+            status?: "pending" | "active" | "completed" | "cancelled" | "expired"
+        }, never> = {}) : Promise<{
+            data: Array<ProductSchedule & {
+                product: {
+                    id: number
+                    name: string
+                    price: number
+                    currency: string
+                    availability: boolean
+                }
+            }>
+        }> =>
+            request('GET', `/api/products/schedules`, options),
+        /** Get a product by ID */
+        getProduct: (id: number, options: RequestOptions<{
+            /** Related data to include in the product */
+            include?: "categories"
+            /** Convert the price to this currency with the local exchange rates */
+            currency?: Currency
+        }, {
+            /** ETag of a previous response, returns 304 when nothing changed */
+            "If-None-Match"?: string
+            /** Returns 304 when nothing changed since this date */
+            "If-Modified-Since"?: string
+        }> = {}) : Promise<{
+            data: Product
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}`, options),
+        /** Updates a product with user input */
+        updateProduct: (id: number, body: ProductUpdate, options: RequestOptions<never, {
+            /** ETag of the product being modified, returns 412 when it changed in the meantime */
+            "If-Match"?: string
+        }> = {}) : Promise<{
+            data: Product
+        }> =>
+            request('PUT', `/api/products/${encodeURIComponent(id)}`, { ...options, body }),
+        /** Update Product availability */
+        toggleProductAvailability: (id: number, options: RequestOptions<never, {
+            /** ETag of the product being modified, returns 412 when it changed in the meantime */
+            "If-Match"?: string
+        }> = {}) : Promise<{
+            data: Product
+        }> =>
+            request('PATCH', `/api/products/${encodeURIComponent(id)}`, options),
+        /** Delete a product by ID */
+        deleteProduct: (id: number, options: RequestOptions<never, {
+            /** ETag of the product being modified, returns 412 when it changed in the meantime */
+            "If-Match"?: string
+        }> = {}) : Promise<{
+            data: string
+        }> =>
+            request('DELETE', `/api/products/${encodeURIComponent(id)}`, options),
+        /** Get the inventory ledger of a product */
+        listMovements: (id: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Array<InventoryMovement>
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/movements`, options),
+        /** Record an inventory movement */
+        recordMovement: (id: number, body: InventoryMovementInput, options: RequestOptions<never, never> = {}) : Promise<{
+            data: {
+                movement?: InventoryMovement
+                product?: Product
+            }
+        }> =>
+            request('POST', `/api/products/${encodeURIComponent(id)}/movements`, { ...options, body }),
+        /** Get the price lists of a product */
+        listPrices: (id: number, options: RequestOptions<{
+            /** Convert every amount to this currency with the local exchange rates */
+            currency?: Currency
+        }, never> = {}) : Promise<{
+            data: Array<ProductPrice>
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/prices`, options),
+        /** Get the price history of a product */
+        getPriceHistory: (id: number, options: RequestOptions<{
+            priceList?: string
+            currency?: Currency
+            /** Date to look up */
+            at?: string
+        }, never> = {}) : Promise<{
+            data: Array<PriceHistory>
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/prices/history`, options),
+        /** Create or update a price of a product */
+        setPrice: (id: number, priceList: string, currency: Currency, body: ProductPriceInput, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductPrice
+        }> =>
+            request('PUT', `/api/products/${encodeURIComponent(id)}/prices/${encodeURIComponent(priceList)}/${encodeURIComponent(currency)}`, { ...options, body }),
+        /** Delete a price of a product */
+        deletePrice: (id: number, priceList: string, currency: Currency, options: RequestOptions<never, never> = {}) : Promise<{
+            data: string
+        }> =>
+            request('DELETE', `/api/products/${encodeURIComponent(id)}/prices/${encodeURIComponent(priceList)}/${encodeURIComponent(currency)}`, options),
+        /** Get the change history of a product */
+        getProductHistory: (id: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Array<ProductRevision>
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/history`, options),
+        /** Revert a product to a previous revision */
+        revertProduct: (id: number, revisionId: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Product
+        }> =>
+            request('POST', `/api/products/${encodeURIComponent(id)}/revert/${encodeURIComponent(revisionId)}`, options),
+        /** Restore a deleted product */
+        restoreProduct: (id: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Product
+        }> =>
+            request('POST', `/api/products/${encodeURIComponent(id)}/restore`, options),
+        /** Permanently delete a product */
+        purgeProduct: (id: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: string
+        }> =>
+            request('DELETE', `/api/products/${encodeURIComponent(id)}/purge`, options),
+        /** Reorder an image or make it the primary image */
+        updateImage: (id: number, imageId: number, body: ProductImageUpdate, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductImage
+        }> =>
+            request('PATCH', `/api/products/${encodeURIComponent(id)}/images/${encodeURIComponent(imageId)}`, { ...options, body }),
+        /** Delete a product image */
+        deleteImage: (id: number, imageId: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: string
+        }> =>
+            request('DELETE', `/api/products/${encodeURIComponent(id)}/images/${encodeURIComponent(imageId)}`, options),
+        /** Get the variants of a product */
+        listVariants: (id: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: Array<ProductVariant>
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/variants`, options),
+        /** Create a variant of a product */
+        createVariant: (id: number, body: ProductVariantInput, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductVariant
+        }> =>
+            request('POST', `/api/products/${encodeURIComponent(id)}/variants`, { ...options, body }),
+        /** Get a variant of a product */
+        getVariant: (id: number, variantId: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductVariant
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/variants/${encodeURIComponent(variantId)}`, options),
+        /** Update a variant of a product */
+        updateVariant: (id: number, variantId: number, body: ProductVariantUpdate, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductVariant
+        }> =>
+            request('PATCH', `/api/products/${encodeURIComponent(id)}/variants/${encodeURIComponent(variantId)}`, { ...options, body }),
+        /** Delete a variant of a product */
+        deleteVariant: (id: number, variantId: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: string
+        }> =>
+            request('DELETE', `/api/products/${encodeURIComponent(id)}/variants/${encodeURIComponent(variantId)}`, options),
+        /** Generate the variant matrix of a product */
+        generateVariants: (id: number, body: VariantGenerationInput, options: RequestOptions<never, never> = {}) : Promise<{
+            data?: Array<ProductVariant>
+            meta?: {
+                created?: number
+                skipped?: number
+            }
+        }> =>
+            request('POST', `/api/products/${encodeURIComponent(id)}/variants/generate`, { ...options, body }),
+        /** Get the scheduled changes of a product */
+        listSchedules: (id: number, options: RequestOptions<{
+            /** Return only the scheduled changes with this status, pending and active by default */
+            status?: "pending" | "active" | "completed" | "cancelled" | "expired"
+        }, never> = {}) : Promise<{
+            data: Array<ProductSchedule>
+        }> =>
+            request('GET', `/api/products/${encodeURIComponent(id)}/schedules`, options),
+        /** Schedule a change of the price or the availability of a product */
+        createSchedule: (id: number, body: ProductScheduleInput, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductSchedule
+        }> =>
+            request('POST', `/api/products/${encodeURIComponent(id)}/schedules`, { ...options, body }),
+        /** Cancel a scheduled change of a product */
+        cancelSchedule: (id: number, scheduleId: number, options: RequestOptions<never, never> = {}) : Promise<{
+            data: ProductSchedule
+        }> =>
+            request('DELETE', `/api/products/${encodeURIComponent(id)}/schedules/${encodeURIComponent(scheduleId)}`, options),
+    }
+}
+
+export type Client = ReturnType<typeof createClient>
+
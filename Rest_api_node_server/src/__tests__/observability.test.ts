@@ -0,0 +1,77 @@
+import request from "supertest";
+import server from "../server";
+import { logger } from "../utils/logger";
+
+// El log de acceso se escribe al cerrarse la respuesta, puede llegar después que el cliente
+const waitForCall = async (spy: jest.SpyInstance) => {
+    for(let i = 0; i < 50 && !spy.mock.calls.length; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    return spy.mock.calls
+}
+
+afterEach(() => {
+    jest.restoreAllMocks()
+})
+
+describe('Request IDs', () => {
+    it('should generate a request id', async () => {
+        const response = await request(server).get('/api/auth/user')
+        expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/)
+    })
+
+    it('should keep the request id sent by the client', async () => {
+        const response = await request(server).get('/api/auth/user').set('X-Request-Id', 'checkout-42')
+        expect(response.headers['x-request-id']).toBe('checkout-42')
+    })
+
+    it('should replace invalid request ids', async () => {
+        const response = await request(server).get('/api/auth/user').set('X-Request-Id', 'not valid\tid')
+        expect(response.headers['x-request-id']).not.toBe('not valid\tid')
+        expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/)
+    })
+})
+
+describe('Access log', () => {
+    it('should log each request with its id, route and latency', async () => {
+        const warn = jest.spyOn(logger, 'warn')
+        await request(server).get('/api/products/not-valid-url').set('X-Request-Id', 'access-log-test')
+
+        const [[entry, message]] = await waitForCall(warn)
+        expect(message).toBe('request completed')
+        expect(entry).toMatchObject({
+            requestId: 'access-log-test',
+            method: 'GET',
+            url: '/api/products/not-valid-url',
+            route: '/api/products/:id',
+            status: 400
+        })
+        expect(entry.durationMs).toEqual(expect.any(Number))
+    })
+})
+
+describe('GET /metrics', () => {
+    it('should expose request counts and latency per route and status', async () => {
+        await request(server).get('/api/auth/user')
+
+        const response = await request(server).get('/metrics')
+        expect(response.status).toBe(200)
+        expect(response.headers['content-type']).toMatch(/text\/plain/)
+        expect(response.text).toMatch(/http_requests_total\{method="GET",route="\/api\/auth\/user",status="401"\} \d+/)
+        expect(response.text).toContain('http_request_duration_seconds_bucket{le="0.005",method="GET",route="/api/auth/user",status="401"}')
+    })
+
+    it('should group unknown routes', async () => {
+        await request(server).get('/api/unknown/123')
+
+        const response = await request(server).get('/metrics')
+        expect(response.text).toMatch(/http_requests_total\{method="GET",route="unmatched",status="404"\}/)
+        expect(response.text).not.toContain('/api/unknown/123')
+    })
+
+    it('should expose the database pool stats', async () => {
+        const response = await request(server).get('/metrics')
+        expect(response.text).toMatch(/db_pool_connections\{state="max"\} \d+/)
+        expect(response.text).toContain('process_cpu_user_seconds_total')
+    })
+})
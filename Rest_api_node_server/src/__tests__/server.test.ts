@@ -1,19 +1,44 @@
 import { connectDB } from "../server";
 import db from "../config/db";
+import { logger } from "../utils/logger";
 
 
 jest.mock("../config/db")
 
+afterEach(() => {
+    jest.clearAllMocks()
+    jest.restoreAllMocks()
+})
+
 describe('connectDB', () => {
+    it('should retry until the database is available', async () => {
+        const error = new Error("connection refused")
+        const authenticate = jest.spyOn(db, 'authenticate')
+            .mockRejectedValueOnce(error)
+            .mockResolvedValueOnce(undefined)
+        const loggerSpy = jest.spyOn(logger, 'warn')
+
+        await connectDB(3, 0)
+
+        expect(authenticate).toHaveBeenCalledTimes(2)
+        expect(loggerSpy).toHaveBeenCalledWith(
+            { err: error, attempt: 1, retryIn: 0 },
+            expect.stringContaining("reintentando")
+        )
+    })
+
     it('should handle database connection errors', async () => {
-        jest.spyOn(db, 'authenticate')
-            .mockRejectedValueOnce(new Error("Hubo un error al conectar la base de datos"))
-        const consoleSpy = jest.spyOn(console,'log')
+        const error = new Error("connection refused")
+        const authenticate = jest.spyOn(db, 'authenticate')
+            .mockRejectedValue(error)
+        const loggerSpy = jest.spyOn(logger, 'error')
 
-        await connectDB()
+        await expect(connectDB(2, 0)).rejects.toThrow("connection refused")
 
-        expect(consoleSpy).toHaveBeenCalledWith(
+        expect(authenticate).toHaveBeenCalledTimes(3)
+        expect(loggerSpy).toHaveBeenCalledWith(
+            { err: error },
             expect.stringContaining("Hubo un error al conectar la base de datos")
         )
     })
-})
\ No newline at end of file
+})
@@ -0,0 +1,7 @@
+import { setting } from "./env";
+
+export const jwtSecret = () => setting('JWT_SECRET')
+
+// Vigencia de los tokens en formato de jsonwebtoken ("15m", "7d"...)
+export const accessTokenExpiration = () => setting('JWT_ACCESS_EXPIRATION')
+export const refreshTokenExpiration = () => setting('JWT_REFRESH_EXPIRATION')
@@ -0,0 +1,11 @@
+import { setting } from "./env";
+
+// Caché de respuestas: memory (predeterminado) o none para desactivarla
+export const cacheDriver = () => setting('CACHE_DRIVER')
+
+// Máximo de respuestas guardadas en memoria, se descartan las usadas hace más tiempo
+export const cacheMaxEntries = () => setting('CACHE_MAX_ENTRIES')
+
+// Tiempo de vida en segundos del listado y del detalle de productos
+export const productListTtl = () => setting('CACHE_PRODUCT_LIST_TTL')
+export const productDetailTtl = () => setting('CACHE_PRODUCT_DETAIL_TTL')
@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Moneda de referencia de las tasas de cambio y predeterminada de los productos
+export const baseCurrency = () => setting('BASE_CURRENCY')
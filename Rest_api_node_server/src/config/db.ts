@@ -1,10 +1,12 @@
 import { Sequelize } from 'sequelize-typescript'
-import dotenv from 'dotenv'
-dotenv.config()
+import { logger } from '../utils/logger'
+import { setting } from './env'
 
-const db = new Sequelize(process.env.DATABASE_URL!, {
+const db = new Sequelize(setting('DATABASE_URL'), {
     models: [__dirname + '/../models/**/*.ts'],
-    logging: false
+    // Las consultas se registran con su duración en el nivel debug
+    logging: (sql, duration) => logger.debug({ sql, durationMs: duration }, 'query'),
+    benchmark: true
 })
 
 export default db;
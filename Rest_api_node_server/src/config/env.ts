@@ -0,0 +1,174 @@
+import dotenv from "dotenv";
+import { SUPPORTED_CURRENCIES } from "../utils/money";
+dotenv.config()
+
+// Variables de entorno con su tipo y valor predeterminado. Se validan todas al arrancar el servidor
+// y los módulos de config/ las leen en cada llamada para respetar cambios en tiempo de ejecución
+
+const INVALID = Symbol('invalid')
+
+type Setting<T> = {
+    // Formato esperado, para el mensaje de error
+    expected: string
+    parse: (value: string | undefined) => T | typeof INVALID
+}
+
+export class ConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Configuración no válida:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+        this.name = 'ConfigError'
+    }
+}
+
+const integer = (fallback: number, { min = 0, max = Number.MAX_SAFE_INTEGER } = {}) : Setting<number> => ({
+    expected: `un entero entre ${min} y ${max}`,
+    parse: value => {
+        if(value === undefined) return fallback
+        const number = Number(value)
+        return Number.isInteger(number) && number >= min && number <= max ? number : INVALID
+    }
+})
+
+const decimal = (fallback: number, { min, max }: { min: number, max: number }) : Setting<number> => ({
+    expected: `un número entre ${min} y ${max}`,
+    parse: value => {
+        if(value === undefined) return fallback
+        const number = Number(value)
+        return Number.isFinite(number) && number >= min && number <= max ? number : INVALID
+    }
+})
+
+const oneOf = <T extends string>(values: readonly T[], fallback: T) : Setting<T> => ({
+    expected: `uno de: ${values.join(', ')}`,
+    parse: value => {
+        if(value === undefined) return fallback
+        return values.includes(value as T) ? value as T : INVALID
+    }
+})
+
+const optionalOneOf = <T extends string>(values: readonly T[]) : Setting<T | undefined> => ({
+    expected: `uno de: ${values.join(', ')}`,
+    parse: value => value === undefined || values.includes(value as T) ? value as T | undefined : INVALID
+})
+
+const text = (fallback: string) : Setting<string> => ({
+    expected: 'un texto',
+    parse: value => value ?? fallback
+})
+
+const required = (expected = 'un texto') : Setting<string> => ({
+    expected: `${expected} (obligatoria)`,
+    parse: value => value ?? INVALID
+})
+
+const url = (protocols: string[]) : Setting<string> => ({
+    expected: `una URL ${protocols.join(' o ')} (obligatoria)`,
+    parse: value => {
+        try {
+            return value !== undefined && protocols.includes(new URL(value).protocol) ? value : INVALID
+        } catch (error) {
+            return INVALID
+        }
+    }
+})
+
+const currency = (fallback: string) : Setting<string> => ({
+    expected: 'un código de moneda ISO 4217',
+    parse: value => {
+        if(value === undefined) return fallback
+        const code = value.toUpperCase()
+        return SUPPORTED_CURRENCIES.includes(code) ? code : INVALID
+    }
+})
+
+// Formato de jsonwebtoken: "900", "15m", "7d"...
+const duration = (fallback: string) : Setting<string> => ({
+    expected: 'una duración como 900, 15m, 12h o 7d',
+    parse: value => {
+        if(value === undefined) return fallback
+        return /^\d+(ms|s|m|h|d|w|y)?$/.test(value) ? value : INVALID
+    }
+})
+
+const settings = {
+    NODE_ENV: oneOf(['development', 'test', 'production'], 'development'),
+    PORT: integer(4000, { min: 1, max: 65535 }),
+
+    // Base de datos
+    DATABASE_URL: url(['postgres:', 'postgresql:']),
+    DB_CONNECT_RETRIES: integer(5),
+    DB_CONNECT_RETRY_DELAY: integer(1000),
+    HEALTH_CHECK_TIMEOUT: integer(2000, { min: 1 }),
+    SHUTDOWN_TIMEOUT: integer(10 * 1000, { min: 1 }),
+
+    // Autenticación
+    JWT_SECRET: required(),
+    JWT_ACCESS_EXPIRATION: duration('15m'),
+    JWT_REFRESH_EXPIRATION: duration('7d'),
+
+    LOG_LEVEL: optionalOneOf(['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent']),
+    RESPONSE_VALIDATION: optionalOneOf(['off', 'warn', 'error']),
+    // Idiomas con catálogo en src/i18n/locales, sin él cada mensaje se devuelve en su idioma original
+    DEFAULT_LOCALE: optionalOneOf(['es', 'en']),
+
+    BASE_CURRENCY: currency('USD'),
+    LOW_STOCK_THRESHOLD: integer(0),
+
+    STORAGE_DRIVER: oneOf(['local'], 'local'),
+    UPLOADS_DIR: text('uploads'),
+    UPLOADS_URL: text('/uploads'),
+    MAX_IMAGE_SIZE: integer(5 * 1024 * 1024, { min: 1 }),
+
+    WEBHOOK_MAX_ATTEMPTS: integer(8, { min: 1 }),
+    WEBHOOK_RETRY_DELAY: integer(30 * 1000),
+    WEBHOOK_TIMEOUT: integer(10 * 1000, { min: 1 }),
+    WEBHOOK_POLL_INTERVAL: integer(5 * 1000),
+
+    SCHEDULE_POLL_INTERVAL: integer(30 * 1000),
+
+    STREAM_HEARTBEAT_INTERVAL: integer(15 * 1000, { min: 1 }),
+    STREAM_REPLAY_LIMIT: integer(1000),
+
+    SEARCH_SIMILARITY_THRESHOLD: decimal(0.5, { min: 0, max: 1 }),
+
+    CACHE_DRIVER: oneOf(['memory', 'none'], 'memory'),
+    CACHE_MAX_ENTRIES: integer(500, { min: 1 }),
+    CACHE_PRODUCT_LIST_TTL: integer(60),
+    CACHE_PRODUCT_DETAIL_TTL: integer(300),
+
+    RATE_LIMIT_READ: integer(120, { min: 1 }),
+    RATE_LIMIT_WRITE: integer(30, { min: 1 }),
+    RATE_LIMIT_DAILY_QUOTA: integer(0)
+}
+
+type Settings = typeof settings
+export type SettingName = keyof Settings
+export type Config = { [K in SettingName]: Settings[K] extends Setting<infer T> ? T : never }
+
+// Las variables vacías cuentan como no definidas
+const parse = <K extends SettingName>(name: K, env: NodeJS.ProcessEnv) => {
+    const value = env[name]
+    return settings[name].parse(value === '' ? undefined : value) as Config[K] | typeof INVALID
+}
+
+const problem = (name: SettingName) => `${name} debe ser ${settings[name].expected}`
+
+export const setting = <K extends SettingName>(name: K) : Config[K] => {
+    const value = parse(name, process.env)
+    if(value === INVALID) {
+        throw new ConfigError([problem(name)])
+    }
+    return value
+}
+
+// Informa todas las variables no válidas a la vez
+export const validateConfig = (env = process.env) : Config => {
+    const names = Object.keys(settings) as SettingName[]
+    const values = names.map(name => [name, parse(name, env)] as const)
+
+    const problems = values.filter(([, value]) => value === INVALID).map(([name]) => problem(name))
+    if(problems.length) {
+        throw new ConfigError(problems)
+    }
+    return Object.fromEntries(values) as Config
+}
@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Idioma de los mensajes cuando la petición no indica uno compatible, opcional
+export const defaultLocale = () => setting('DEFAULT_LOCALE')
@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Umbral de stock usado cuando el producto no define uno propio
+export const defaultLowStockThreshold = () => setting('LOW_STOCK_THRESHOLD')
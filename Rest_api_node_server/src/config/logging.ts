@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Nivel mínimo de los logs: trace, debug, info, warn, error, fatal o silent. Las consultas SQL se registran en debug
+export const logLevel = () => setting('LOG_LEVEL') ?? (setting('NODE_ENV') === 'test' ? 'silent' : 'info')
@@ -0,0 +1,28 @@
+import path from 'node:path'
+import { QueryInterface } from 'sequelize'
+import { SequelizeStorage, Umzug } from 'umzug'
+import db from './db'
+
+export const SEED_ENVIRONMENTS = ['development', 'production', 'test'] as const
+export type SeedEnvironment = typeof SEED_ENVIRONMENTS[number]
+
+const files = (directory: string) : [string, { cwd: string, ignore: string }] => [
+    '*.{ts,js}',
+    { cwd: path.join(__dirname, '..', directory), ignore: '*.d.ts' }
+]
+
+// Migraciones versionadas, el registro de las ejecutadas queda en la tabla SequelizeMeta
+export const migrator = new Umzug<QueryInterface>({
+    migrations: { glob: files('migrations') },
+    context: db.getQueryInterface(),
+    storage: new SequelizeStorage({ sequelize: db }),
+    logger: console
+})
+
+// Datos iniciales por entorno, registrados en SequelizeData para no repetirlos
+export const seeder = (environment: SeedEnvironment) => new Umzug<QueryInterface>({
+    migrations: { glob: files(path.join('seeders', environment)) },
+    context: db.getQueryInterface(),
+    storage: new SequelizeStorage({ sequelize: db, modelName: 'SequelizeData' }),
+    logger: console
+})
@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Respuestas que no cumplen la especificación OpenAPI: off, warn (se registran) o error (responden 500). En los tests, error
+export const responseValidation = () => setting('RESPONSE_VALIDATION') ?? (setting('NODE_ENV') === 'test' ? 'error' : 'off')
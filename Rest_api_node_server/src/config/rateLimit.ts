@@ -0,0 +1,8 @@
+import { setting } from "./env";
+
+// Peticiones por minuto de cada API key, las claves pueden tener sus propios límites
+export const defaultReadLimit = () => setting('RATE_LIMIT_READ')
+export const defaultWriteLimit = () => setting('RATE_LIMIT_WRITE')
+
+// Peticiones diarias de cada API key, 0 sin límite
+export const defaultDailyQuota = () => setting('RATE_LIMIT_DAILY_QUOTA')
@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Cada cuánto el worker aplica y revierte los cambios programados, 0 lo desactiva
+export const schedulePollInterval = () => setting('SCHEDULE_POLL_INTERVAL')
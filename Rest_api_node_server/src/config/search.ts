@@ -0,0 +1,4 @@
+import { setting } from "./env";
+
+// Similitud mínima (0 a 1) de cada palabra buscada con el nombre para la coincidencia aproximada
+export const searchSimilarityThreshold = () => setting('SEARCH_SIMILARITY_THRESHOLD')
@@ -0,0 +1,13 @@
+import { setting } from "./env";
+
+export const port = () => setting('PORT')
+
+// Intentos de conexión a la base de datos al arrancar, la espera se duplica en cada reintento
+export const dbConnectRetries = () => setting('DB_CONNECT_RETRIES')
+export const dbConnectRetryDelay = () => setting('DB_CONNECT_RETRY_DELAY')
+
+// Tiempo máximo de la consulta de /health/ready
+export const healthCheckTimeout = () => setting('HEALTH_CHECK_TIMEOUT')
+
+// Espera máxima para terminar las peticiones en curso al apagar el servidor
+export const shutdownTimeout = () => setting('SHUTDOWN_TIMEOUT')
@@ -0,0 +1,12 @@
+import path from "node:path";
+import { setting } from "./env";
+
+// Adaptador de almacenamiento de archivos: local (predeterminado)
+export const storageDriver = () => setting('STORAGE_DRIVER')
+
+// Carpeta y URL pública del almacenamiento local
+export const uploadsDir = () => path.resolve(setting('UPLOADS_DIR'))
+export const uploadsUrl = () => setting('UPLOADS_URL').replace(/\/$/, '')
+
+// Tamaño máximo de cada imagen en bytes
+export const maxImageSize = () => setting('MAX_IMAGE_SIZE')
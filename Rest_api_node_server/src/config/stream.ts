@@ -0,0 +1,7 @@
+import { setting } from "./env";
+
+// Intervalo de los heartbeats de SSE y WebSocket para que los proxies no cierren conexiones inactivas
+export const streamHeartbeatInterval = () => setting('STREAM_HEARTBEAT_INTERVAL')
+
+// Máximo de eventos reenviados al reconectar con el último id recibido
+export const streamReplayLimit = () => setting('STREAM_REPLAY_LIMIT')
@@ -1,4 +1,7 @@
 import swaggerJSDoc from "swagger-jsdoc";
+import { schemas } from "../openapi/schemas";
+import { paths } from "../openapi/paths";
+import { HTTP_METHODS, jsonResponseSchema, OpenAPISpec } from "../openapi/document";
 
 const options : swaggerJSDoc.Options = {
     swaggerDefinition: {
@@ -7,19 +10,172 @@ const options : swaggerJSDoc.Options = {
             {
                 name: 'Products',
                 description: 'API opration related to products',  
+            },
+            {
+                name: 'Categories',
+                description: 'API operations related to product categories',
+            },
+            {
+                name: 'Attributes',
+                description: 'API operations related to the configurable attributes of product variants',
+            },
+            {
+                name: 'Auth',
+                description: 'API operations related to users and authentication',
+            },
+            {
+                name: 'Exchange rates',
+                description: 'API operations related to currencies and exchange rates',
+            },
+            {
+                name: 'Webhooks',
+                description: 'API operations related to webhook subscriptions and deliveries',
+            },
+            {
+                name: 'API keys',
+                description: 'API operations related to client API keys, rate limits and usage',
+            },
+            {
+                name: 'Health',
+                description: 'Liveness and readiness probes',
             }
         ],
+        // Las rutas de productos y de tipos de cambio, el resto se documentan con JSDoc en src/routes
+        paths,
+        components: {
+            schemas: {
+                ...schemas,
+                Problem: {
+                    type: 'object',
+                    description: 'Error response (RFC 7807), sent as application/problem+json',
+                    properties: {
+                        type: {
+                            type: 'string',
+                            example: 'about:blank'
+                        },
+                        title: {
+                            type: 'string',
+                            example: 'Not Found'
+                        },
+                        status: {
+                            type: 'integer',
+                            example: 404
+                        },
+                        detail: {
+                            type: 'string',
+                            example: 'Product not found'
+                        },
+                        instance: {
+                            type: 'string',
+                            example: '/api/products/1'
+                        },
+                        code: {
+                            type: 'string',
+                            description: 'Stable identifier of the error',
+                            example: 'PRODUCT_NOT_FOUND'
+                        },
+                        errors: {
+                            type: 'array',
+                            description: 'Invalid fields, only when the code is VALIDATION_FAILED',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    type: { type: 'string', example: 'field' },
+                                    msg: { type: 'string', example: 'Precio no válido' },
+                                    path: { type: 'string', example: 'price' },
+                                    location: { type: 'string', example: 'body' }
+                                }
+                            }
+                        }
+                    }
+                }
+            },
+            headers: {
+                'X-Request-Id': {
+                    description: 'Request id sent by the client or generated by the server, included in every log line of the request',
+                    schema: {
+                        type: 'string'
+                    }
+                },
+                'X-Cache': {
+                    description: 'HIT when the response was served from the cache, MISS otherwise',
+                    schema: {
+                        type: 'string',
+                        enum: ['HIT', 'MISS']
+                    }
+                },
+                'RateLimit-Limit': {
+                    description: 'Requests per minute allowed to the API key for reads or writes',
+                    schema: { type: 'integer' }
+                },
+                'RateLimit-Remaining': {
+                    description: 'Requests left before being limited',
+                    schema: { type: 'integer' }
+                },
+                'RateLimit-Reset': {
+                    description: 'Seconds until the full limit is available again',
+                    schema: { type: 'integer' }
+                }
+            },
+            responses: {
+                TooManyRequests: {
+                    description: 'Rate limit or daily quota of the API key exceeded',
+                    headers: {
+                        'Retry-After': {
+                            description: 'Seconds to wait before retrying',
+                            schema: { type: 'integer' }
+                        }
+                    },
+                    content: {
+                        'application/problem+json': {
+                            schema: { $ref: '#/components/schemas/Problem' }
+                        }
+                    }
+                }
+            },
+            securitySchemes: {
+                bearerAuth: {
+                    type: 'http',
+                    scheme: 'bearer',
+                    bearerFormat: 'JWT'
+                },
+                apiKeyAuth: {
+                    type: 'apiKey',
+                    in: 'header',
+                    name: 'X-API-Key',
+                    description: 'Authenticates as the owner of the key. Requests are limited per minute (reads and writes separately) and per day, see the RateLimit-* headers'
+                }
+            }
+        },
         info: {
             title: 'REST API Node.js / Express / TypeScript',
             version: '1.0.0',
-            description: 'API Docs for products',
+            description: 'API Docs for products. Validation and error messages are returned in Spanish (es) or English (en), negotiated from the Accept-Language header or the ?lang= query parameter. Without a supported language each message keeps its original language (errors in English, validation messages in Spanish) unless the server sets DEFAULT_LOCALE',
         }
     },
     apis: [
-        './src/router.ts'
+        './src/routes/*.ts'
     ]
 }
 
-const swaggerSpec = swaggerJSDoc(options)
+// Todas las respuestas JSON exitosas van dentro de { data }, las rutas documentan solo su contenido
+const withEnvelope = (spec: OpenAPISpec) => {
+    for(const item of Object.values(spec.paths)) {
+        for(const method of HTTP_METHODS) {
+            for(const [status, response] of Object.entries(item[method]?.responses ?? {})) {
+                const schema = jsonResponseSchema(response)
+                if(!status.startsWith('2') || !schema || schema.properties?.data) continue
+                response.content!['application/json'].schema = {
+                    type: 'object',
+                    required: ['data'],
+                    properties: { data: schema }
+                }
+            }
+        }
+    }
+    return spec
+}
+
+const swaggerSpec = withEnvelope(swaggerJSDoc(options) as OpenAPISpec)
 
 export default swaggerSpec
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { ConfigError, validateConfig } from "./env";
+
+// Se importa antes que el resto de la aplicación: con una configuración no válida el proceso
+// termina mostrando todas las variables a corregir
+try {
+    validateConfig()
+} catch (error) {
+    if(!(error instanceof ConfigError)) throw error
+    console.error(error.message)
+    process.exit(1)
+}
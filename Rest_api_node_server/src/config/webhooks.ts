@@ -0,0 +1,9 @@
+import { setting } from "./env";
+
+// Entrega de webhooks: intentos, espera entre reintentos y tiempo máximo de cada petición
+export const webhookMaxAttempts = () => setting('WEBHOOK_MAX_ATTEMPTS')
+export const webhookRetryDelay = () => setting('WEBHOOK_RETRY_DELAY')
+export const webhookTimeout = () => setting('WEBHOOK_TIMEOUT')
+
+// Cada cuánto el worker busca entregas pendientes, 0 lo desactiva
+export const webhookPollInterval = () => setting('WEBHOOK_POLL_INTERVAL')
@@ -1,10 +1,11 @@
 import { exit } from 'node:process'
 import db from '../config/db'
+import { migrator, seeder, SEED_ENVIRONMENTS, SeedEnvironment } from '../config/migrator'
+import Product from '../models/Product.model'
 
-const clearDB = async () => {
+const run = async (task: () => Promise<void>) => {
     try {
-        await db.sync({force: true})
-        console.log('Datos eliminados correctamente');
+        await task()
         exit()
     } catch (error) {
         console.log(error)
@@ -12,6 +13,80 @@ const clearDB = async () => {
     }
 }
 
-if(process.argv[2] === '--clear') {
-    clearDB()
-}
\ No newline at end of file
+// Elimina todas las tablas (incluido el registro de migraciones y seeds) y vuelve a migrar
+const clearDB = () => run(async () => {
+    const queryInterface = db.getQueryInterface()
+    await queryInterface.dropAllTables()
+    await queryInterface.dropAllEnums()
+    await migrator.up()
+    console.log('Datos eliminados correctamente');
+})
+
+const migrate = () => run(async () => {
+    const executed = await migrator.up()
+    console.log(`${executed.length} migraciones aplicadas`);
+})
+
+const rollback = (step: number) => run(async () => {
+    const reverted = await migrator.down({ step })
+    console.log(`${reverted.length} migraciones revertidas`);
+})
+
+const status = () => run(async () => {
+    const executed = await migrator.executed()
+    const pending = await migrator.pending()
+    executed.forEach(({ name }) => console.log(`[x] ${name}`))
+    pending.forEach(({ name }) => console.log(`[ ] ${name}`))
+})
+
+const seed = (environment: SeedEnvironment) => run(async () => {
+    const executed = await seeder(environment).up()
+    console.log(`${executed.length} seeds de ${environment} aplicados`);
+})
+
+const purgeTrash = (days: number) => run(async () => {
+    const deletedBefore = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const purged = await Product.purgeTrashed(deletedBefore)
+    console.log(`${purged} productos eliminados definitivamente`);
+})
+
+const parseCount = (value: string | undefined, fallback: number) => {
+    const count = Number(value ?? fallback)
+    if(!Number.isInteger(count) || count < 0) {
+        console.log('Número no válido')
+        exit(1)
+    }
+    return count
+}
+
+const [command, argument] = process.argv.slice(2)
+
+switch (command) {
+    case '--clear':
+        clearDB()
+        break
+    case '--migrate':
+        migrate()
+        break
+    // npx ts-node ./src/data --rollback 2
+    case '--rollback':
+        rollback(parseCount(argument, 1))
+        break
+    case '--status':
+        status()
+        break
+    // npx ts-node ./src/data --seed development
+    case '--seed': {
+        const environment = (argument ?? process.env.NODE_ENV ?? 'development') as SeedEnvironment
+        if(!SEED_ENVIRONMENTS.includes(environment)) {
+            console.log(`Entorno no válido, usa: ${SEED_ENVIRONMENTS.join(', ')}`)
+            exit(1)
+        }
+        seed(environment)
+        break
+    }
+    // npx ts-node ./src/data --purge 30
+    case '--purge':
+        purgeTrash(parseCount(argument, 30))
+        break
+}
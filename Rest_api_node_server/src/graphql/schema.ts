@@ -0,0 +1,310 @@
+import {
+    GraphQLBoolean,
+    GraphQLFloat,
+    GraphQLID,
+    GraphQLInputObjectType,
+    GraphQLInt,
+    GraphQLList,
+    GraphQLNonNull,
+    GraphQLObjectType,
+    GraphQLScalarType,
+    GraphQLSchema,
+    GraphQLString
+} from "graphql";
+import Product from "../models/Product.model";
+import User, { Role } from "../models/User.model";
+import * as productService from "../services/product";
+import { categoriesInclude, imagesInclude, includesOrder, ProductInput, productInCurrency, schedulesInclude, variantsInclude } from "../services/product";
+import { currencyConverter } from "../services/currency";
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from "../utils/errors";
+import { runValidation } from "../validators";
+import { createProductValidation, currencyQueryValidation, filterValidation, idValidation, paginationValidation, updateProductValidation } from "../validators/product";
+import { t } from "../i18n";
+
+// Esquema GraphQL del catálogo, reutiliza las reglas de validación y los servicios de la API REST
+
+export type GraphQLContext = {
+    user: User | null
+}
+
+const DateTime = new GraphQLScalarType({
+    name: 'DateTime',
+    description: 'ISO 8601 date and time',
+    serialize: (value: Date | string) => new Date(value).toISOString()
+})
+
+const CategoryType = new GraphQLObjectType({
+    name: 'Category',
+    fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        name: { type: new GraphQLNonNull(GraphQLString) },
+        parentId: { type: GraphQLID }
+    }
+})
+
+const ProductImageType = new GraphQLObjectType({
+    name: 'ProductImage',
+    fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        key: { type: new GraphQLNonNull(GraphQLString) },
+        url: { type: new GraphQLNonNull(GraphQLString) },
+        position: { type: new GraphQLNonNull(GraphQLInt) },
+        isPrimary: { type: new GraphQLNonNull(GraphQLBoolean) }
+    }
+})
+
+const VariantOptionType = new GraphQLObjectType({
+    name: 'VariantOption',
+    fields: {
+        name: { type: new GraphQLNonNull(GraphQLString) },
+        value: { type: new GraphQLNonNull(GraphQLString) }
+    }
+})
+
+const ProductVariantType = new GraphQLObjectType({
+    name: 'ProductVariant',
+    fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        sku: { type: new GraphQLNonNull(GraphQLString) },
+        // Las opciones son un objeto { atributo: valor }, GraphQL no tiene un tipo para mapas
+        options: {
+            type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(VariantOptionType))),
+            resolve: (variant: { options: Record<string, string> }) => Object.entries(variant.options).map(([name, value]) => ({ name, value }))
+        },
+        price: { type: GraphQLFloat, description: 'Null uses the product price' },
+        availability: { type: new GraphQLNonNull(GraphQLBoolean) }
+    }
+})
+
+const VariantSummaryType = new GraphQLObjectType({
+    name: 'VariantSummary',
+    fields: {
+        count: { type: new GraphQLNonNull(GraphQLInt) },
+        minPrice: { type: new GraphQLNonNull(GraphQLFloat) },
+        maxPrice: { type: new GraphQLNonNull(GraphQLFloat) },
+        availability: { type: new GraphQLNonNull(GraphQLBoolean) }
+    }
+})
+
+const ProductScheduleType = new GraphQLObjectType({
+    name: 'ProductSchedule',
+    fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        price: { type: GraphQLFloat, description: 'Null keeps the price' },
+        availability: { type: GraphQLBoolean, description: 'Null keeps the availability' },
+        startsAt: { type: new GraphQLNonNull(DateTime) },
+        endsAt: { type: DateTime, description: 'Null makes the change permanent' },
+        status: { type: new GraphQLNonNull(GraphQLString) }
+    }
+})
+
+const ProductType = new GraphQLObjectType({
+    name: 'Product',
+    fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        name: { type: new GraphQLNonNull(GraphQLString) },
+        price: { type: new GraphQLNonNull(GraphQLFloat) },
+        currency: { type: new GraphQLNonNull(GraphQLString) },
+        availability: { type: new GraphQLNonNull(GraphQLBoolean) },
+        stock: { type: new GraphQLNonNull(GraphQLInt) },
+        lowStockThreshold: { type: GraphQLInt },
+        version: { type: new GraphQLNonNull(GraphQLInt) },
+        categories: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(CategoryType))) },
+        images: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProductImageType))) },
+        variants: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProductVariantType))) },
+        variantSummary: { type: VariantSummaryType, description: 'Null when the product has no variants' },
+        schedules: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProductScheduleType))), description: 'Upcoming scheduled changes' },
+        createdAt: { type: new GraphQLNonNull(DateTime) },
+        updatedAt: { type: new GraphQLNonNull(DateTime) }
+    }
+})
+
+const PageMetaType = new GraphQLObjectType({
+    name: 'PageMeta',
+    fields: {
+        total: { type: new GraphQLNonNull(GraphQLInt) },
+        limit: { type: new GraphQLNonNull(GraphQLInt) },
+        page: { type: GraphQLInt, description: 'Null when paginating with a cursor' },
+        totalPages: { type: new GraphQLNonNull(GraphQLInt) },
+        nextCursor: { type: GraphQLString }
+    }
+})
+
+const ProductPageType = new GraphQLObjectType({
+    name: 'ProductPage',
+    fields: {
+        data: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProductType))) },
+        meta: { type: new GraphQLNonNull(PageMetaType) }
+    }
+})
+
+const ProductFilterType = new GraphQLInputObjectType({
+    name: 'ProductFilter',
+    fields: {
+        name: { type: GraphQLString },
+        minPrice: { type: GraphQLFloat },
+        maxPrice: { type: GraphQLFloat },
+        availability: { type: GraphQLBoolean }
+    }
+})
+
+// Todos los campos son opcionales en el esquema, las reglas de la API REST deciden cuáles son obligatorios
+const ProductInputType = new GraphQLInputObjectType({
+    name: 'ProductInput',
+    fields: {
+        name: { type: GraphQLString },
+        price: { type: GraphQLFloat },
+        currency: { type: GraphQLString },
+        availability: { type: GraphQLBoolean },
+        lowStockThreshold: { type: GraphQLInt },
+        categories: { type: new GraphQLList(new GraphQLNonNull(GraphQLInt)) }
+    }
+})
+
+const includes = [categoriesInclude, imagesInclude, variantsInclude, schedulesInclude]
+
+// Los argumentos omitidos no se envían a express-validator para que .optional() los ignore
+const present = (values: Record<string, unknown>) => Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== null)
+)
+
+const validate = async (rules: Parameters<typeof runValidation>[0], req: Record<string, unknown>) => {
+    const errors = await runValidation(rules, req)
+    if(errors.length) {
+        throw new ValidationError(errors)
+    }
+}
+
+const requireRole = (context: GraphQLContext, ...roles: Role[]) => {
+    if(!context.user) {
+        throw new UnauthorizedError()
+    }
+    if(!roles.includes(context.user.role)) {
+        throw new ForbiddenError()
+    }
+}
+
+const findProduct = async (id: string) => {
+    await validate([idValidation], { params: { id } })
+    const product = await Product.findByPk(id, { include: includes, order: includesOrder })
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    return product
+}
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+    name: 'Query',
+    fields: {
+        product: {
+            type: new GraphQLNonNull(ProductType),
+            args: {
+                id: { type: new GraphQLNonNull(GraphQLID) },
+                currency: { type: GraphQLString }
+            },
+            resolve: async (_, args) => {
+                const query = present({ currency: args.currency })
+                await validate([currencyQueryValidation], { query })
+                const product = await findProduct(args.id)
+                if(!query.currency) return product
+
+                const currency = query.currency as string
+                return productInCurrency(product, currency, await currencyConverter(currency))
+            }
+        },
+        products: {
+            type: new GraphQLNonNull(ProductPageType),
+            args: {
+                filter: { type: ProductFilterType },
+                sort: { type: GraphQLString, description: 'Same syntax as the REST list, e.g. "-price,name"' },
+                page: { type: GraphQLInt },
+                limit: { type: GraphQLInt },
+                cursor: { type: GraphQLString },
+                currency: { type: GraphQLString }
+            },
+            resolve: async (_, args) => {
+                const query = present({ ...args.filter, sort: args.sort, page: args.page, limit: args.limit, cursor: args.cursor, currency: args.currency })
+                await validate([...filterValidation, ...paginationValidation, currencyQueryValidation], { query })
+
+                const currency = query.currency as string
+                const convert = currency && await currencyConverter(currency)
+                const { data, ...meta } = await productService.findProducts({
+                    filters: query,
+                    sort: query.sort as string,
+                    cursor: query.cursor as string,
+                    page: query.page as number,
+                    limit: query.limit as number,
+                    include: includes
+                })
+
+                return {
+                    data: convert ? data.map(product => productInCurrency(product, currency, convert)) : data,
+                    meta
+                }
+            }
+        }
+    }
+})
+
+const MutationType = new GraphQLObjectType<unknown, GraphQLContext>({
+    name: 'Mutation',
+    fields: {
+        createProduct: {
+            type: new GraphQLNonNull(ProductType),
+            args: {
+                input: { type: new GraphQLNonNull(ProductInputType) }
+            },
+            resolve: async (_, args, context) => {
+                requireRole(context, 'admin', 'editor')
+                const input : ProductInput = present(args.input)
+                await validate(createProductValidation, { body: input })
+
+                const product = await productService.createProduct(input)
+                return findProduct(String(product.id))
+            }
+        },
+        updateProduct: {
+            type: new GraphQLNonNull(ProductType),
+            args: {
+                id: { type: new GraphQLNonNull(GraphQLID) },
+                input: { type: new GraphQLNonNull(ProductInputType) }
+            },
+            resolve: async (_, args, context) => {
+                requireRole(context, 'admin', 'editor')
+                const input : ProductInput = present(args.input)
+                await validate([idValidation, ...updateProductValidation], { body: input, params: { id: args.id } })
+
+                await productService.updateProduct(await findProduct(args.id), input)
+                return findProduct(args.id)
+            }
+        },
+        toggleAvailability: {
+            type: new GraphQLNonNull(ProductType),
+            args: {
+                id: { type: new GraphQLNonNull(GraphQLID) }
+            },
+            resolve: async (_, args, context) => {
+                requireRole(context, 'admin', 'editor')
+                return productService.toggleAvailability(await findProduct(args.id))
+            }
+        },
+        deleteProduct: {
+            type: new GraphQLNonNull(ProductType),
+            description: 'Moves the product to the trash and returns it',
+            args: {
+                id: { type: new GraphQLNonNull(GraphQLID) }
+            },
+            resolve: async (_, args, context) => {
+                requireRole(context, 'admin')
+                const product = await findProduct(args.id)
+                await productService.deleteProduct(product)
+                return product
+            }
+        }
+    }
+})
+
+export const schema = new GraphQLSchema({
+    query: QueryType,
+    mutation: MutationType
+})
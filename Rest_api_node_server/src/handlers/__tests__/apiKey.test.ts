@@ -0,0 +1,181 @@
+import request from "supertest";
+import server from "../../server";
+import User from "../../models/User.model";
+import ApiKey from "../../models/ApiKey.model";
+import { generateToken } from "../../utils/jwt";
+
+let adminToken: string
+let editorToken: string
+let editor: User
+
+const issueKey = async (attributes: Record<string, unknown>) => {
+    const response = await request(server)
+                            .post('/api/api-keys')
+                            .set('Authorization', `Bearer ${adminToken}`)
+                            .send(attributes)
+    return response.body.data
+}
+
+beforeAll(async () => {
+    const admin = await User.create({ name: "Admin", email: "admin@apikeys.test", password: "password123", role: 'admin' })
+    editor = await User.create({ name: "Editor", email: "editor@apikeys.test", password: "password123", role: 'editor' })
+    adminToken = generateToken(admin, 'access')
+    editorToken = generateToken(editor, 'access')
+})
+
+describe('API keys', () => {
+    let apiKey: { id: number, key: string, prefix: string }
+
+    it('should only be managed by admins', async () => {
+        const response = await request(server).get('/api/api-keys').set('Authorization', `Bearer ${editorToken}`)
+        expect(response.status).toBe(403)
+    })
+
+    it('should display validation errors', async () => {
+        const response = await request(server)
+                                .post('/api/api-keys')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: '', readLimit: 0, writeLimit: 'many', dailyQuota: -1 })
+        expect(response.status).toBe(400)
+        expect(response.body.errors.map(error => error.msg)).toEqual([
+            'El nombre no puede ir vacio',
+            'El límite de lecturas debe ser un entero positivo',
+            'El límite de escrituras debe ser un entero positivo',
+            'La cuota diaria debe ser un entero positivo'
+        ])
+    })
+
+    it('should return 404 for an unknown user', async () => {
+        const response = await request(server)
+                                .post('/api/api-keys')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: 'Orphan', userId: 999999 })
+        expect(response.status).toBe(404)
+        expect(response.body.code).toBe('USER_NOT_FOUND')
+    })
+
+    it('should issue a key that is only stored hashed', async () => {
+        const response = await request(server)
+                                .post('/api/api-keys')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: 'Store integration', userId: editor.id })
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ name: 'Store integration', userId: editor.id, readLimit: null, revokedAt: null })
+        expect(response.body.data.key).toMatch(/^pk_/)
+        expect(response.body.data.key.startsWith(response.body.data.prefix)).toBe(true)
+        expect(response.body.data).not.toHaveProperty('keyHash')
+        apiKey = response.body.data
+
+        const stored = await ApiKey.findByPk(apiKey.id)
+        expect(stored.keyHash).toHaveLength(64)
+        expect(stored.keyHash).not.toContain(apiKey.key)
+
+        const list = await request(server).get('/api/api-keys').set('Authorization', `Bearer ${adminToken}`)
+        const listed = list.body.data.find(item => item.id === apiKey.id)
+        expect(listed).not.toHaveProperty('key')
+        expect(listed).not.toHaveProperty('keyHash')
+    })
+
+    it('should authenticate as the owner of the key', async () => {
+        const response = await request(server).get('/api/auth/user').set('X-API-Key', apiKey.key)
+        expect(response.status).toBe(200)
+        expect(response.body.data.email).toBe('editor@apikeys.test')
+        expect(response.headers['ratelimit-limit']).toBe('120')
+        expect(response.headers['ratelimit-remaining']).toBe('119')
+        expect(response.headers['ratelimit-policy']).toBe('120;w=60')
+    })
+
+    it('should reject unknown keys', async () => {
+        const response = await request(server).get('/api/products').set('X-API-Key', 'pk_unknown')
+        expect(response.status).toBe(401)
+        expect(response.body.code).toBe('INVALID_API_KEY')
+    })
+
+    it('should update the limits of a key', async () => {
+        const response = await request(server)
+                                .patch(`/api/api-keys/${apiKey.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ readLimit: 500, dailyQuota: null })
+        expect(response.status).toBe(200)
+        expect(response.body.data).toMatchObject({ name: 'Store integration', readLimit: 500, writeLimit: null, dailyQuota: null })
+    })
+
+    it('should revoke a key', async () => {
+        const response = await request(server).delete(`/api/api-keys/${apiKey.id}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.revokedAt).not.toBeNull()
+
+        const rejected = await request(server).get('/api/auth/user').set('X-API-Key', apiKey.key)
+        expect(rejected.status).toBe(401)
+        expect(rejected.body.code).toBe('INVALID_API_KEY')
+    })
+})
+
+describe('Rate limits', () => {
+    it('should limit reads and writes separately', async () => {
+        const { key } = await issueKey({ name: 'Limited', readLimit: 2, writeLimit: 1 })
+
+        const first = await request(server).get('/api/auth/user').set('X-API-Key', key)
+        const second = await request(server).get('/api/auth/user').set('X-API-Key', key)
+        expect(first.headers['ratelimit-remaining']).toBe('1')
+        expect(second.status).toBe(200)
+        expect(second.headers['ratelimit-remaining']).toBe('0')
+
+        const limited = await request(server).get('/api/auth/user').set('X-API-Key', key)
+        expect(limited.status).toBe(429)
+        expect(limited.body.code).toBe('RATE_LIMITED')
+        expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0)
+        expect(limited.headers['ratelimit-limit']).toBe('2')
+
+        // Las escrituras tienen su propio bucket, la petición llega a la validación
+        const write = await request(server).post('/api/categories').set('X-API-Key', key).send({})
+        expect(write.status).toBe(400)
+        expect(write.headers['ratelimit-limit']).toBe('1')
+        expect(write.headers['ratelimit-remaining']).toBe('0')
+    })
+
+    it('should enforce the daily quota', async () => {
+        const { key } = await issueKey({ name: 'Quota', dailyQuota: 2 })
+
+        await request(server).get('/api/auth/user').set('X-API-Key', key)
+        await request(server).get('/api/auth/user').set('X-API-Key', key)
+        const response = await request(server).get('/api/auth/user').set('X-API-Key', key)
+        expect(response.status).toBe(429)
+        expect(response.body.code).toBe('QUOTA_EXCEEDED')
+        expect(Number(response.headers['retry-after'])).toBeLessThanOrEqual(24 * 60 * 60)
+    })
+
+    it('should not limit requests without an API key', async () => {
+        const response = await request(server).get('/api/auth/user').set('Authorization', `Bearer ${editorToken}`)
+        expect(response.status).toBe(200)
+        expect(response.headers).not.toHaveProperty('ratelimit-limit')
+    })
+})
+
+describe('API key usage', () => {
+    it('should report the requests of each key per day', async () => {
+        const { id, key } = await issueKey({ name: 'Reporting' })
+        for(let i = 0; i < 3; i++) {
+            await request(server).get('/api/auth/user').set('X-API-Key', key)
+        }
+
+        const response = await request(server)
+                                .get(`/api/api-keys/usage?apiKeyId=${id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toEqual([{
+            apiKeyId: id,
+            date: new Date().toISOString().slice(0, 10),
+            requests: 3,
+            apiKey: { id, name: 'Reporting', prefix: key.slice(0, 11) }
+        }])
+    })
+
+    it('should validate the date range', async () => {
+        const response = await request(server)
+                                .get('/api/api-keys/usage?from=19-10-2026')
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Fecha no válida')
+    })
+})
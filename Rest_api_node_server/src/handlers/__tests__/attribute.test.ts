@@ -0,0 +1,80 @@
+import request from "supertest";
+import server from "../../server";
+import User from "../../models/User.model";
+import { generateToken } from "../../utils/jwt";
+
+let token: string
+
+beforeAll(async () => {
+    const editor = await User.create({ name: "Editor", email: "editor@attributes.test", password: "password123", role: 'editor' })
+    token = generateToken(editor, 'access')
+})
+
+describe('POST /api/attributes', () => {
+    it('should display validation errors', async () => {
+        const response = await request(server)
+                                .post('/api/attributes')
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: "Material", values: ["madera", "madera"] })
+        expect(response.status).toBe(400)
+        expect(response.body.errors.map(error => error.msg)).toEqual([
+            'El nombre del atributo solo admite minúsculas, números y guiones bajos',
+            'Los valores deben ser una lista de textos distintos'
+        ])
+    })
+
+    it('should create an attribute', async () => {
+        const response = await request(server)
+                                .post('/api/attributes')
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: "material", values: ["madera", "metal"] })
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ name: "material", values: ["madera", "metal"] })
+    })
+
+    it('should not repeat the name of an attribute', async () => {
+        const response = await request(server)
+                                .post('/api/attributes')
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: "material", values: ["vidrio"] })
+        expect(response.status).toBe(409)
+    })
+})
+
+describe('GET /api/attributes', () => {
+    it('should return the attributes', async () => {
+        const response = await request(server).get('/api/attributes')
+        expect(response.status).toBe(200)
+        expect(response.body.data.map(attribute => attribute.name)).toContain("material")
+    })
+
+    it('should return a 404 response for a non-existent attribute', async () => {
+        const response = await request(server).get('/api/attributes/2000')
+        expect(response.status).toBe(404)
+        expect(response.body.detail).toBe('Attribute not found')
+    })
+})
+
+describe('PUT /api/attributes/:id', () => {
+    it('should change the values of an attribute without variants', async () => {
+        const { body } = await request(server).get('/api/attributes')
+        const material = body.data.find(attribute => attribute.name === "material")
+
+        const response = await request(server)
+                                .put(`/api/attributes/${material.id}`)
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: "acabado", values: ["mate", "brillante"] })
+        expect(response.status).toBe(200)
+        expect(response.body.data).toMatchObject({ name: "acabado", values: ["mate", "brillante"] })
+    })
+})
+
+describe('DELETE /api/attributes/:id', () => {
+    it('should only allow admins to delete attributes', async () => {
+        const { body } = await request(server).get('/api/attributes')
+        const finish = body.data.find(attribute => attribute.name === "acabado")
+
+        const response = await request(server).delete(`/api/attributes/${finish.id}`).set('Authorization', `Bearer ${token}`)
+        expect(response.status).toBe(403)
+    })
+})
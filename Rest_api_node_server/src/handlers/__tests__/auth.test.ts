@@ -0,0 +1,103 @@
+import request from "supertest";
+import server from "../../server";
+import User from "../../models/User.model";
+import { generateToken } from "../../utils/jwt";
+
+describe('POST /api/auth/register', () => {
+    it('should display validation errors', async () => {
+        const response = await request(server).post('/api/auth/register').send({})
+        expect(response.status).toBe(400)
+        expect(response.body).toHaveProperty('errors')
+        expect(response.body.errors).toHaveLength(3)
+    })
+
+    it('should register a new viewer without exposing the password', async () => {
+        const response = await request(server).post('/api/auth/register').send({
+            name: "Juan",
+            email: "juan@auth.test",
+            password: "password123",
+            role: "admin"
+        })
+        expect(response.status).toBe(201)
+        expect(response.body.data.role).toBe('viewer')
+        expect(response.body.data).not.toHaveProperty('password')
+    })
+
+    it('should not register the same email twice', async () => {
+        const response = await request(server).post('/api/auth/register').send({
+            name: "Juan",
+            email: "juan@auth.test",
+            password: "password123"
+        })
+        expect(response.status).toBe(409)
+        expect(response.body.detail).toBe('User already registered')
+    })
+})
+
+describe('POST /api/auth/login', () => {
+    it('should reject invalid credentials', async () => {
+        const response = await request(server).post('/api/auth/login').send({
+            email: "juan@auth.test",
+            password: "incorrecto"
+        })
+        expect(response.status).toBe(401)
+        expect(response.body).not.toHaveProperty('data')
+    })
+
+    it('should return an access and a refresh token', async () => {
+        const response = await request(server).post('/api/auth/login').send({
+            email: "juan@auth.test",
+            password: "password123"
+        })
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveProperty('accessToken')
+        expect(response.body.data).toHaveProperty('refreshToken')
+
+        const user = await request(server)
+                                .get('/api/auth/user')
+                                .set('Authorization', `Bearer ${response.body.data.accessToken}`)
+        expect(user.status).toBe(200)
+        expect(user.body.data.email).toBe('juan@auth.test')
+    })
+})
+
+describe('POST /api/auth/refresh', () => {
+    it('should not accept an access token as refresh token', async () => {
+        const user = await User.findOne({ where: { email: "juan@auth.test" } })
+        const response = await request(server).post('/api/auth/refresh').send({
+            refreshToken: generateToken(user, 'access')
+        })
+        expect(response.status).toBe(401)
+    })
+
+    it('should issue new tokens from a refresh token', async () => {
+        const user = await User.findOne({ where: { email: "juan@auth.test" } })
+        const response = await request(server).post('/api/auth/refresh').send({
+            refreshToken: generateToken(user, 'refresh')
+        })
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveProperty('accessToken')
+    })
+})
+
+describe('PATCH /api/auth/users/:id/role', () => {
+    it('should only allow admins to change roles', async () => {
+        const user = await User.findOne({ where: { email: "juan@auth.test" } })
+        const response = await request(server)
+                                .patch(`/api/auth/users/${user.id}/role`)
+                                .set('Authorization', `Bearer ${generateToken(user, 'access')}`)
+                                .send({ role: 'admin' })
+        expect(response.status).toBe(403)
+    })
+
+    it('should change the role of a user', async () => {
+        const admin = await User.create({ name: "Admin", email: "admin@auth.test", password: "password123", role: 'admin' })
+        const user = await User.findOne({ where: { email: "juan@auth.test" } })
+        const response = await request(server)
+                                .patch(`/api/auth/users/${user.id}/role`)
+                                .set('Authorization', `Bearer ${generateToken(admin, 'access')}`)
+                                .send({ role: 'editor' })
+        expect(response.status).toBe(200)
+        expect(response.body.data.role).toBe('editor')
+    })
+})
@@ -0,0 +1,91 @@
+import request from "supertest";
+import server from "../../server";
+import User from "../../models/User.model";
+import { generateToken } from "../../utils/jwt";
+
+let token: string
+
+beforeAll(async () => {
+    const editor = await User.create({ name: "Editor", email: "editor@categories.test", password: "password123", role: 'editor' })
+    token = generateToken(editor, 'access')
+})
+
+describe('POST /api/categories', () => {
+    it('should display validation errors', async () => {
+        const response = await request(server)
+                                .post('/api/categories')
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ parentId: 5000 })
+        expect(response.status).toBe(400)
+        expect(response.body.errors).toHaveLength(2)
+        expect(response.body.errors[1].msg).toBe('La categoría padre no existe')
+    })
+
+    it('should create a category tree', async () => {
+        const parent = await request(server)
+                                .post('/api/categories')
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: "Computación - Testing" })
+        expect(parent.status).toBe(201)
+        expect(parent.body.data.parentId).toBeNull()
+
+        const child = await request(server)
+                                .post('/api/categories')
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: "Monitores - Testing", parentId: parent.body.data.id })
+        expect(child.status).toBe(201)
+        expect(child.body.data.parentId).toBe(parent.body.data.id)
+    })
+})
+
+describe('GET /api/categories', () => {
+    it('should return the categories nested as a tree', async () => {
+        const response = await request(server).get('/api/categories?tree=true')
+        expect(response.status).toBe(200)
+
+        const parent = response.body.data.find(category => category.name === "Computación - Testing")
+        expect(parent.children).toHaveLength(1)
+        expect(parent.children[0].name).toBe("Monitores - Testing")
+    })
+
+    it('should return a 404 response for a non-existent category', async () => {
+        const response = await request(server).get('/api/categories/2000')
+        expect(response.status).toBe(404)
+        expect(response.body.detail).toBe('Category not found')
+    })
+})
+
+describe('PUT /api/categories/:id', () => {
+    it('should not nest a category inside one of its subcategories', async () => {
+        const { body } = await request(server).get('/api/categories?tree=true')
+        const parent = body.data.find(category => category.name === "Computación - Testing")
+
+        const response = await request(server)
+                                .put(`/api/categories/${parent.id}`)
+                                .set('Authorization', `Bearer ${token}`)
+                                .send({ name: parent.name, parentId: parent.children[0].id })
+        expect(response.status).toBe(409)
+    })
+})
+
+describe('GET /api/categories/:id/products', () => {
+    it('should return a 404 response for a non-existent category', async () => {
+        const response = await request(server).get('/api/categories/2000/products')
+        expect(response.status).toBe(404)
+    })
+
+    it('should validate the includeDescendants parameter', async () => {
+        const response = await request(server).get('/api/categories/1/products?includeDescendants=todas')
+        expect(response.status).toBe(400)
+        expect(response.body.errors).toHaveLength(1)
+    })
+})
+
+describe('DELETE /api/categories/:id', () => {
+    it('should only allow admins to delete categories', async () => {
+        const response = await request(server)
+                                .delete('/api/categories/1')
+                                .set('Authorization', `Bearer ${token}`)
+        expect(response.status).toBe(403)
+    })
+})
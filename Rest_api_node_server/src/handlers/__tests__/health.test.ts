@@ -0,0 +1,43 @@
+import request from "supertest";
+import server from "../../server";
+import db from "../../config/db";
+import { markShuttingDown } from "../../services/health";
+
+afterEach(() => {
+    jest.restoreAllMocks()
+})
+
+describe('GET /health/live', () => {
+    it('should respond while the process is running', async () => {
+        const response = await request(server).get('/health/live')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toEqual({ status: 'ok' })
+    })
+})
+
+describe('GET /health/ready', () => {
+    it('should be ready when the database answers', async () => {
+        const response = await request(server).get('/health/ready')
+        expect(response.status).toBe(200)
+        expect(response.body.data).toEqual({ status: 'ok', checks: { database: 'up', shuttingDown: false } })
+    })
+
+    it('should not be ready without database', async () => {
+        jest.spyOn(db, 'query').mockRejectedValueOnce(new Error('connection refused'))
+
+        const response = await request(server).get('/health/ready')
+        expect(response.status).toBe(503)
+        expect(response.body.data).toEqual({ status: 'unavailable', checks: { database: 'down', shuttingDown: false } })
+    })
+
+    it('should not be ready while shutting down', async () => {
+        markShuttingDown()
+
+        const response = await request(server).get('/health/ready')
+        expect(response.status).toBe(503)
+        expect(response.body.data.checks).toEqual({ database: 'up', shuttingDown: true })
+
+        const live = await request(server).get('/health/live')
+        expect(live.status).toBe(200)
+    })
+})
@@ -1,21 +1,90 @@
 import request from "supertest";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import server from "../../server";
+import db from "../../config/db";
+import Product from "../../models/Product.model";
+import User from "../../models/User.model";
+import { generateToken } from "../../utils/jwt";
+import { createLocalStorage, setStorage } from "../../services/storage";
+import { createServer, get, IncomingHttpHeaders, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { WebSocket } from "ws";
+import WebhookDelivery from "../../models/WebhookDelivery.model";
+import ProductSchedule from "../../models/ProductSchedule.model";
+import { processSchedules } from "../../services/schedule";
+import { processDeliveries, signPayload } from "../../services/webhook";
+import { attachProductSocket } from "../stream";
+import { closeProductStreams } from "../../services/productStream";
+import { ProductEvent, publishProductEvent, subscribeProductEvents } from "../../services/productEvents";
+import { logger } from "../../utils/logger";
+
+let adminToken: string
+let viewerToken: string
+
+beforeAll(async () => {
+    const admin = await User.create({ name: "Admin", email: "admin@products.test", password: "password123", role: 'admin' })
+    const viewer = await User.create({ name: "Viewer", email: "viewer@products.test", password: "password123" })
+    adminToken = generateToken(admin, 'access')
+    viewerToken = generateToken(viewer, 'access')
+})
+
+// Los productos se crean sin stock y no disponibles, los tests que cambian la disponibilidad reponen stock antes
+const restock = (id: number, quantity = 10) => request(server)
+                                .post(`/api/products/${id}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'receipt', quantity })
+
+describe('Authorization on product routes', () => {
+    it('should reject requests without a token', async () => {
+        const response = await request(server).post('/api/products').send({ name: "Mouse", price: 50 })
+        expect(response.status).toBe(401)
+        expect(response.body.detail).toBe('Not authenticated')
+    })
+
+    it('should reject an invalid token', async () => {
+        const response = await request(server)
+                                .delete('/api/products/1')
+                                .set('Authorization', 'Bearer not-a-token')
+        expect(response.status).toBe(401)
+    })
+
+    it('should not allow viewers to modify products', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${viewerToken}`)
+                                .send({ name: "Mouse", price: 50 })
+        expect(response.status).toBe(403)
+        expect(response.body.detail).toBe('Not authorized')
+    })
+
+    it('should keep reading products public', async () => {
+        const response = await request(server).get('/api/products')
+        expect(response.status).toBe(200)
+    })
+})
 
 describe('POST /api/products', () => {
     it('should display validation errors', async () => {
-        const response = await request(server).post('/api/products').send({
+        const response = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({
 
         })
         expect(response.status).toBe(400);
         expect(response.body).toHaveProperty('errors')
-        expect(response.body.errors).toHaveLength(4)
+        expect(response.body.errors).toHaveLength(2)
+        expect(response.body.errors.map(error => error.msg)).toEqual([
+            'El nombre del Producto no puede ir vacio',
+            'El precio del Producto no puede ir vacio'
+        ])
 
         expect(response.status).not.toBe(201);
         expect(response.body.errors).not.toHaveLength(3)
     })
 
     it('should create a new product', async () => {
-        const response = await request(server).post('/api/products').send({
+        const response = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({
             name: "Mouse -Testing",
             price: 50
         })
@@ -25,11 +94,11 @@ describe('POST /api/products', () => {
 
         expect(response.status).not.toBe(404)
         expect(response.status).not.toBe(200)
-        expect(response.body).not.toHaveProperty('error')
+        expect(response.body).not.toHaveProperty('detail')
     })
 
     it('should validate that the price is greater than 0', async () => {
-        const response = await request(server).post('/api/products').send({
+        const response = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({
             name: "Monitor curvo",
             price: 0
         })
@@ -42,15 +111,16 @@ describe('POST /api/products', () => {
         expect(response.body.errors).not.toHaveLength(2)
     })
 
-    it('should validate that the price is a number and greater than 0', async () => {
-        const response = await request(server).post('/api/products').send({
+    it('should validate that the price is a number', async () => {
+        const response = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({
             name: "Monitor curvo",
             price: "hola"
         })
 
         expect(response.status).toBe(400);
         expect(response.body).toHaveProperty('errors')
-        expect(response.body.errors).toHaveLength(2)
+        expect(response.body.errors).toHaveLength(1)
+        expect(response.body.errors[0].msg).toBe('Valor no válido')
 
         expect(response.status).not.toBe(201);
         expect(response.body.errors).not.toHaveLength(3)
@@ -72,6 +142,98 @@ describe('GET /api/products', () => {
         expect(response.body.data).toHaveLength(1)
         expect(response.body).not.toHaveProperty('errors')
     })
+
+    it('should return pagination metadata and links', async () => {
+        const response = await request(server).get('/api/products?limit=5')
+        expect(response.status).toBe(200)
+        expect(response.body.meta.total).toBe(1)
+        expect(response.body.meta.limit).toBe(5)
+        expect(response.body.meta.page).toBe(1)
+        expect(response.body.meta.nextCursor).toBeNull()
+        expect(response.body.links.next).toBeNull()
+        expect(response.body.links.first).toBe('/api/products?limit=5&page=1')
+    })
+
+    it('should validate the pagination and filter parameters', async () => {
+        const response = await request(server).get('/api/products?page=0&limit=500&minPrice=-1&availability=si')
+        expect(response.status).toBe(400)
+        expect(response.body).toHaveProperty('errors')
+        expect(response.body.errors).toHaveLength(4)
+        expect(response.body).not.toHaveProperty('data')
+    })
+
+    it('should reject sorting by an unknown field', async () => {
+        const response = await request(server).get('/api/products?sort=-password')
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Campo de ordenamiento no válido')
+    })
+
+    it('should reject a malformed cursor', async () => {
+        const response = await request(server).get('/api/products?cursor=not-a-cursor')
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Cursor no válido')
+    })
+
+    it('should reject a cursor whose values do not match the sort fields', async () => {
+        const cursor = (values: unknown[]) => Buffer.from(JSON.stringify(values)).toString('base64url')
+        for(const query of [`cursor=${cursor([{ a: 1 }, 2])}`, `sort=price&cursor=${cursor(["abc", 2])}`, `sort=createdAt&cursor=${cursor(["ayer", 2])}`, `sort=name&cursor=${cursor(["Mouse", 1.5])}`]) {
+            const response = await request(server).get(`/api/products?${query}`)
+            expect(response.status).toBe(400)
+            expect(response.body.errors[0].msg).toBe('Cursor no válido')
+        }
+
+        const valid = await request(server).get(`/api/products?sort=-createdAt&cursor=${cursor([new Date().toISOString(), 1])}`)
+        expect(valid.status).toBe(200)
+    })
+
+    it('should filter products by name, price and availability', async () => {
+        const byName = await request(server).get('/api/products?name=mouse')
+        expect(byName.status).toBe(200)
+        expect(byName.body.data).toHaveLength(1)
+
+        const byPrice = await request(server).get('/api/products?minPrice=100')
+        expect(byPrice.status).toBe(200)
+        expect(byPrice.body.data).toHaveLength(0)
+        expect(byPrice.body.meta.total).toBe(0)
+
+        const byAvailability = await request(server).get('/api/products?availability=true')
+        expect(byAvailability.status).toBe(200)
+        expect(byAvailability.body.data).toHaveLength(0)
+    })
+
+    it('should paginate with a cursor following the requested order', async () => {
+        await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Teclado - Testing", price: 50 })
+        await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Audífonos - Testing", price: 80 })
+
+        const first = await request(server).get('/api/products?sort=price,-name&limit=2')
+        expect(first.status).toBe(200)
+        expect(first.body.data.map(product => product.name)).toEqual(["Teclado - Testing", "Mouse -Testing"])
+        expect(first.body.meta.nextCursor).toBeTruthy()
+
+        const second = await request(server).get(`/api/products?sort=price,-name&limit=2&cursor=${first.body.meta.nextCursor}`)
+        expect(second.status).toBe(200)
+        expect(second.body.data.map(product => product.name)).toEqual(["Audífonos - Testing"])
+        expect(second.body.meta.nextCursor).toBeNull()
+        expect(second.body.meta.page).toBeNull()
+    })
+
+    it('should paginate with a cursor over fields without a value', async () => {
+        for(const product of [{ name: "Cable - Umbral", price: 5 }, { name: "Monitor - Umbral", price: 150, lowStockThreshold: 3 }, { name: "Hub - Umbral", price: 20 }]) {
+            await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send(product)
+        }
+
+        for(const sort of ['lowStockThreshold', '-lowStockThreshold']) {
+            const names: string[] = []
+            let cursor: string | null = null
+            do {
+                const response = await request(server).get(`/api/products?name=Umbral&sort=${sort}&limit=1${cursor ? `&cursor=${cursor}` : ''}`)
+                expect(response.status).toBe(200)
+                names.push(...response.body.data.map(product => product.name))
+                cursor = response.body.meta.nextCursor
+            } while(cursor)
+            expect(names).toEqual(["Monitor - Umbral", "Cable - Umbral", "Hub - Umbral"])
+        }
+    })
 })
 
 describe('GET /api/products/:id', () =>{
@@ -79,8 +241,8 @@ describe('GET /api/products/:id', () =>{
         const productId = 2000
         const response = await request(server).get(`/api/products/${productId}`)
         expect(response.status).toBe(404)
-        expect(response.body).toHaveProperty('error')
-        expect(response.body.error).toBe('Product not found')
+        expect(response.body).toHaveProperty('detail')
+        expect(response.body.detail).toBe('Product not found')
     })
 
     it('Should check a valid ID in the URL', async () => {
@@ -88,7 +250,7 @@ describe('GET /api/products/:id', () =>{
         expect(response.status).toBe(400)
         expect(response.body).toHaveProperty('errors')
         expect(response.body.errors).toHaveLength(1)
-        expect(response.body.errors[0].msg).toBe('ID in not valid')        
+        expect(response.body.errors[0].msg).toBe('Invalid ID')        
     })
 
     it('Get a JSON response for a single product', async () => {
@@ -103,6 +265,7 @@ describe('PUT /api/products/:id', () => {
     it('Should check a valid ID in the URL', async () => {
         const response = await request(server)
                                 .put('/api/products/not-valid-url')
+                                .set('Authorization', `Bearer ${adminToken}`)
                                 .send({
                                     name: "Monitor Nuevo",
                                     price: 300,
@@ -111,15 +274,15 @@ describe('PUT /api/products/:id', () => {
         expect(response.status).toBe(400)
         expect(response.body).toHaveProperty('errors')
         expect(response.body.errors).toHaveLength(1)
-        expect(response.body.errors[0].msg).toBe('ID in not valid')        
+        expect(response.body.errors[0].msg).toBe('Invalid ID')        
     })
 
     it('should display validation error messages when updating a product', async () => {
-        const response = await request(server).put('/api/products/1').send({})
+        const response = await request(server).put('/api/products/1').set('Authorization', `Bearer ${adminToken}`).send({})
         expect(response.status).toBe(400)
         expect(response.body).toHaveProperty('errors')
         expect(response.body.errors).toBeTruthy()
-        expect(response.body.errors).toHaveLength(5)
+        expect(response.body.errors).toHaveLength(3)
 
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
@@ -128,6 +291,7 @@ describe('PUT /api/products/:id', () => {
     it('should validate that the price is greater than 0', async () => {
         const response = await request(server)
                                 .put('/api/products/1')
+                                .set('Authorization', `Bearer ${adminToken}`)
                                 .send({
                                     name: "Monitor Nuevo",
                                     price: 0,
@@ -148,6 +312,7 @@ describe('PUT /api/products/:id', () => {
         const productId = 2000
         const response = await request(server)
                                 .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
                                 .send({
                                     name: "Monitor Nuevo",
                                     price: 300,
@@ -155,7 +320,7 @@ describe('PUT /api/products/:id', () => {
                                 })
 
         expect(response.status).toBe(404)
-        expect(response.body.error).toBe('Product not found')
+        expect(response.body.detail).toBe('Product not found')
 
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
@@ -164,6 +329,7 @@ describe('PUT /api/products/:id', () => {
     it('should update an existing product with valid data', async () => {
         const response = await request(server)
                                 .put('/api/products/1')
+                                .set('Authorization', `Bearer ${adminToken}`)
                                 .send({
                                     name: "Monitor Nuevo",
                                     price: 300,
@@ -181,50 +347,2000 @@ describe('PUT /api/products/:id', () => {
 describe('PATCH /api/products/:id', () => {
     it('should return 404 for a not existing product', async() => {
         const productId = 2000
-        const response = await request(server).patch(`/api/products/${productId}`)
+        const response = await request(server).patch(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
         expect(response.status).toBe(404)
-        expect(response.body).toHaveProperty('error')
-        expect(response.body.error).toBe('Product not found')
+        expect(response.body).toHaveProperty('detail')
+        expect(response.body.detail).toBe('Product not found')
 
         expect(response.status).not.toBe(200)
         expect(response.body).not.toHaveProperty('data')
     })
 
     it('should update a product avalability', async () => {
-        const response = await request(server).patch('/api/products/1')
+        await restock(1)
+        const response = await request(server).patch('/api/products/1').set('Authorization', `Bearer ${adminToken}`)
         expect(response.status).toBe(200)
         expect(response.body).toHaveProperty('data')
         expect(response.body.data.availability).toBe(false)
 
         expect(response.status).not.toBe(400)
         expect(response.status).not.toBe(404)
-        expect(response.body).not.toHaveProperty('error')
+        expect(response.body).not.toHaveProperty('detail')
     })
 })
 
 describe('DELETE /api/products/:id', () => {
     it('should check a valid id', async() => {
-        const response = await request(server).delete('/api/products/not-valid')
+        const response = await request(server).delete('/api/products/not-valid').set('Authorization', `Bearer ${adminToken}`)
         expect(response.status).toBe(400)
         expect(response.body).toHaveProperty('errors')
-        expect(response.body.errors[0].msg).toBe('ID in not valid')
+        expect(response.body.errors[0].msg).toBe('Invalid ID')
         expect(response.body.errors).toHaveLength(1)
     })
 
     it('should return 404 for a not valid product', async() => {
         const productId = 2000
-        const response = await request(server).delete(`/api/products/${productId}`)
+        const response = await request(server).delete(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
         expect(response.status).toBe(404)
-        expect(response.body).toHaveProperty('error')
-        expect(response.body.error).toBe('Product not found')
+        expect(response.body).toHaveProperty('detail')
+        expect(response.body.detail).toBe('Product not found')
         expect(response.status).not.toBe(200)
     })
 
     it('should delete a product', async() => {
-        const response = await request(server).delete('/api/products/1')
+        const response = await request(server).delete('/api/products/1').set('Authorization', `Bearer ${adminToken}`)
         expect(response.status).toBe(200)
         expect(response.body).toHaveProperty('data')
         expect(response.body.data).toBe('Producto Eliminado')
         expect(response.status).not.toBe(404)
     })
 })
+
+
+describe('Product categories', () => {
+    it('should reject unknown categories when creating a product', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Monitor", price: 300, categories: [5000] })
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Categorías no válidas')
+    })
+
+    it('should assign categories and list products of a category tree', async () => {
+        const parent = await request(server)
+                                .post('/api/categories')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Computación" })
+        const child = await request(server)
+                                .post('/api/categories')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Monitores", parentId: parent.body.data.id })
+
+        const product = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Monitor curvo", price: 300, categories: [child.body.data.id] })
+        expect(product.status).toBe(201)
+        expect(product.body.data.categories).toHaveLength(1)
+
+        const direct = await request(server).get(`/api/categories/${parent.body.data.id}/products`)
+        expect(direct.status).toBe(200)
+        expect(direct.body.data).toHaveLength(0)
+
+        const descendants = await request(server).get(`/api/categories/${parent.body.data.id}/products?includeDescendants=true`)
+        expect(descendants.status).toBe(200)
+        expect(descendants.body.data).toHaveLength(1)
+
+        const detail = await request(server).get(`/api/products/${product.body.data.id}?include=categories`)
+        expect(detail.status).toBe(200)
+        expect(detail.body.data.categories[0].name).toBe("Monitores")
+    })
+
+    it('should replace the categories when updating a product', async () => {
+        const list = await request(server).get('/api/products?include=categories&name=curvo')
+        const product = list.body.data[0]
+
+        const response = await request(server)
+                                .put(`/api/products/${product.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: product.name, price: product.price, availability: true, categories: [] })
+        expect(response.status).toBe(200)
+        expect(response.body.data.categories).toHaveLength(0)
+    })
+})
+
+describe('Inventory movements', () => {
+    let productId: number
+
+    beforeAll(async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Parlante - Inventario", price: 120, stock: 500 })
+        productId = response.body.data.id
+    })
+
+    it('should not allow setting the stock directly', async () => {
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.body.data.stock).toBe(0)
+        expect(response.body.data.availability).toBe(false)
+    })
+
+    it('should validate the movement', async () => {
+        const response = await request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'adjustment', quantity: 0 })
+        expect(response.status).toBe(400)
+        expect(response.body.errors).toHaveLength(2)
+    })
+
+    it('should not allow viewers to record movements', async () => {
+        const response = await request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${viewerToken}`)
+                                .send({ type: 'receipt', quantity: 10 })
+        expect(response.status).toBe(403)
+    })
+
+    it('should update the stock and derive the availability', async () => {
+        const receipt = await request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'receipt', quantity: 3, reason: 'Compra a proveedor' })
+        expect(receipt.status).toBe(201)
+        expect(receipt.body.data.product.stock).toBe(3)
+        expect(receipt.body.data.product.availability).toBe(true)
+        expect(receipt.body.data.movement.stockAfter).toBe(3)
+
+        const adjustment = await request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'adjustment', quantity: -1, reason: 'Unidad dañada' })
+        expect(adjustment.status).toBe(201)
+        expect(adjustment.body.data.product.stock).toBe(2)
+    })
+
+    it('should never drive the stock negative with concurrent sales', async () => {
+        const responses = await Promise.all([1, 2, 3, 4].map(() => request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'sale', quantity: 1 })
+        ))
+        expect(responses.filter(response => response.status === 201)).toHaveLength(2)
+        expect(responses.filter(response => response.status === 409)).toHaveLength(2)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.stock).toBe(0)
+        expect(product.body.data.availability).toBe(false)
+    })
+
+    it('should return the ledger of the product', async () => {
+        const response = await request(server)
+                                .get(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${viewerToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toHaveLength(4)
+        expect(response.body.data.map(movement => movement.quantity)).toEqual([-1, -1, -1, 3])
+        expect(response.body.data[3].user.name).toBe('Admin')
+    })
+
+    it('should not make a product without stock available', async () => {
+        const toggled = await request(server)
+                                .patch(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(toggled.status).toBe(409)
+        expect(toggled.body.code).toBe('OUT_OF_STOCK')
+
+        const updated = await request(server)
+                                .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Parlante - Inventario", price: 120, availability: true })
+        expect(updated.status).toBe(200)
+        expect(updated.body.data.availability).toBe(false)
+    })
+
+    it('should derive the availability again when the threshold changes, but keep an explicit withdrawal', async () => {
+        await request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'receipt', quantity: 5 })
+
+        const lowStock = await request(server)
+                                .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Parlante - Inventario", price: 120, availability: true, lowStockThreshold: 5 })
+        expect(lowStock.body.data.availability).toBe(false)
+
+        const inStock = await request(server)
+                                .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Parlante - Inventario", price: 120, availability: true, lowStockThreshold: 2 })
+        expect(inStock.body.data.availability).toBe(true)
+
+        const withdrawn = await request(server)
+                                .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Parlante - Inventario", price: 120, availability: false, lowStockThreshold: 1 })
+        expect(withdrawn.body.data.availability).toBe(false)
+    })
+
+    it('should not make a withdrawn product available again with stock movements', async () => {
+        await request(server).put(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Parlante - Inventario", price: 120, availability: true, lowStockThreshold: 1 })
+        const toggled = await request(server).patch(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(toggled.body.data.availability).toBe(false)
+
+        const sale = await request(server)
+                                .post(`/api/products/${productId}/movements`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ type: 'sale', quantity: 1 })
+        expect(sale.status).toBe(201)
+        expect((await request(server).get(`/api/products/${productId}`)).body.data.availability).toBe(false)
+
+        // Agotado y repuesto sigue retirado: no fue el stock el que lo retiró de la venta
+        await request(server).post(`/api/products/${productId}/movements`).set('Authorization', `Bearer ${adminToken}`).send({ type: 'sale', quantity: 4 })
+        await restock(productId)
+        expect((await request(server).get(`/api/products/${productId}`)).body.data.availability).toBe(false)
+    })
+
+    it('should return 404 for the ledger of a non-existent product', async () => {
+        const response = await request(server)
+                                .get('/api/products/2000/movements')
+                                .set('Authorization', `Bearer ${viewerToken}`)
+        expect(response.status).toBe(404)
+    })
+})
+
+describe('Product history', () => {
+    let productId: number
+
+    beforeAll(async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Webcam - Historial", price: 90 })
+        productId = response.body.data.id
+
+        await restock(productId)
+        await request(server)
+                .put(`/api/products/${productId}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ name: "Webcam HD - Historial", price: 75, availability: true })
+        await request(server).patch(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+        await request(server).delete(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+    })
+
+    it('should require authentication', async () => {
+        const response = await request(server).get(`/api/products/${productId}/history`)
+        expect(response.status).toBe(401)
+    })
+
+    it('should record every change with its diff and actor', async () => {
+        const response = await request(server)
+                                .get(`/api/products/${productId}/history`)
+                                .set('Authorization', `Bearer ${viewerToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.map(revision => revision.action)).toEqual(['delete', 'availability', 'update', 'update', 'create'])
+
+        const update = response.body.data[2]
+        expect(update.changes.price).toEqual({ from: 90, to: 75 })
+        expect(update.changes.name).toEqual({ from: "Webcam - Historial", to: "Webcam HD - Historial" })
+        expect(update.before.price).toBe(90)
+        expect(update.after.price).toBe(75)
+        expect(update.user.name).toBe('Admin')
+
+        expect(response.body.data[0].after).toBeNull()
+    })
+
+    it('should restore a deleted product', async () => {
+        const history = await request(server)
+                                .get(`/api/products/${productId}/history`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        const deletion = history.body.data[0]
+
+        const response = await request(server)
+                                .post(`/api/products/${productId}/revert/${deletion.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.id).toBe(productId)
+        expect(response.body.data.availability).toBe(false)
+    })
+
+    it('should revert a product to a previous revision', async () => {
+        const history = await request(server)
+                                .get(`/api/products/${productId}/history`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(history.body.data[0].action).toBe('restore')
+        const creation = history.body.data[history.body.data.length - 1]
+
+        const response = await request(server)
+                                .post(`/api/products/${productId}/revert/${creation.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.name).toBe("Webcam - Historial")
+        expect(response.body.data.price).toBe(90)
+        expect(response.body.data.availability).toBe(false)
+    })
+
+    it('should return 404 for a revision of another product', async () => {
+        const response = await request(server)
+                                .post('/api/products/2000/revert/1')
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(404)
+        expect(response.body.detail).toBe('Revision not found')
+    })
+})
+
+describe('Product trash', () => {
+    let productId: number
+
+    beforeAll(async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Micrófono - Papelera", price: 60 })
+        productId = response.body.data.id
+        await request(server).delete(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+    })
+
+    it('should hide deleted products from the list and detail', async () => {
+        const list = await request(server).get('/api/products?name=Papelera')
+        expect(list.body.data).toHaveLength(0)
+
+        const detail = await request(server).get(`/api/products/${productId}`)
+        expect(detail.status).toBe(404)
+    })
+
+    it('should list the deleted products', async () => {
+        const response = await request(server)
+                                .get('/api/products/trash')
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        const product = response.body.data.find(product => product.id === productId)
+        expect(product.deletedAt).toBeTruthy()
+    })
+
+    it('should not allow viewers to see the trash', async () => {
+        const response = await request(server)
+                                .get('/api/products/trash')
+                                .set('Authorization', `Bearer ${viewerToken}`)
+        expect(response.status).toBe(403)
+    })
+
+    it('should restore a deleted product', async () => {
+        const response = await request(server)
+                                .post(`/api/products/${productId}/restore`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.deletedAt).toBeNull()
+
+        const detail = await request(server).get(`/api/products/${productId}`)
+        expect(detail.status).toBe(200)
+    })
+
+    it('should only purge products in the trash', async () => {
+        const response = await request(server)
+                                .delete(`/api/products/${productId}/purge`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(404)
+        expect(response.body.detail).toBe('Product not found in trash')
+    })
+
+    it('should only allow admins to purge products', async () => {
+        await request(server).delete(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+        const response = await request(server)
+                                .delete(`/api/products/${productId}/purge`)
+                                .set('Authorization', `Bearer ${viewerToken}`)
+        expect(response.status).toBe(403)
+    })
+
+    it('should permanently delete a product and keep its history', async () => {
+        const response = await request(server)
+                                .delete(`/api/products/${productId}/purge`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+
+        const trash = await request(server)
+                                .get('/api/products/trash')
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(trash.body.data.find(product => product.id === productId)).toBeUndefined()
+
+        const history = await request(server)
+                                .get(`/api/products/${productId}/history`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(history.body.data[0].action).toBe('purge')
+    })
+
+    it('should recreate a purged product when reverting the purge', async () => {
+        const history = await request(server)
+                                .get(`/api/products/${productId}/history`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        const purge = history.body.data[0]
+
+        const response = await request(server)
+                                .post(`/api/products/${productId}/revert/${purge.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ id: productId, name: "Micrófono - Papelera", price: 60 })
+
+        const detail = await request(server).get(`/api/products/${productId}`)
+        expect(detail.status).toBe(200)
+    })
+})
+
+describe('Product import and export', () => {
+    const csv = [
+        'name,price,availability',
+        'Impresora - Importación,150,true',
+        '"Escáner, A4 - Importación",0,',
+        'Router - Importación,80,false'
+    ].join('\n')
+
+    it('should require a file', async () => {
+        const response = await request(server)
+                                .post('/api/products/import')
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(400)
+        expect(response.body.detail).toBe('A CSV or JSON file is required')
+    })
+
+    it('should not allow viewers to import products', async () => {
+        const response = await request(server)
+                                .post('/api/products/import')
+                                .set('Authorization', `Bearer ${viewerToken}`)
+                                .attach('file', Buffer.from(csv), 'products.csv')
+        expect(response.status).toBe(403)
+    })
+
+    it('should report the rows without saving them in dry-run mode', async () => {
+        const response = await request(server)
+                                .post('/api/products/import?dryRun=true&key=name')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .attach('file', Buffer.from(csv), 'products.csv')
+        expect(response.status).toBe(200)
+        expect(response.body.data.dryRun).toBe(true)
+        expect(response.body.data.created).toBe(2)
+        expect(response.body.data.failed).toBe(1)
+        expect(response.body.data.results[1]).toEqual({ row: 2, status: 'failed', errors: ['Precio no válido'] })
+
+        const list = await request(server).get('/api/products?name=Importación')
+        expect(list.body.data).toHaveLength(0)
+    })
+
+    it('should create and then update products by name', async () => {
+        const created = await request(server)
+                                .post('/api/products/import?key=name')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .attach('file', Buffer.from(csv), 'products.csv')
+        expect(created.status).toBe(200)
+        expect(created.body.data.created).toBe(2)
+
+        const json = JSON.stringify([{ name: 'Router - Importación', price: 95 }, { name: '', price: 10 }])
+        const updated = await request(server)
+                                .post('/api/products/import?key=name')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .attach('file', Buffer.from(json), 'products.json')
+        expect(updated.status).toBe(200)
+        expect(updated.body.data.updated).toBe(1)
+        expect(updated.body.data.failed).toBe(1)
+        expect(updated.body.data.results[1].errors).toEqual(['El nombre del Producto no puede ir vacio'])
+
+        const list = await request(server).get('/api/products?name=Router - Importación')
+        expect(list.body.data[0].price).toBe(95)
+        expect(list.body.data[0].availability).toBe(false)
+    })
+
+    it('should fail rows with an unknown id when matching by id', async () => {
+        const response = await request(server)
+                                .post('/api/products/import')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .attach('file', Buffer.from('id,name,price\n5000,Tablet,300'), 'products.csv')
+        expect(response.body.data.results[0]).toEqual({ row: 1, status: 'failed', errors: ['Product not found'] })
+    })
+
+    it('should update only the columns of the rows with an id', async () => {
+        const list = await request(server).get('/api/products?name=Impresora - Importación')
+        const { id, name } = list.body.data[0]
+
+        const response = await request(server)
+                                .post('/api/products/import')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .attach('file', Buffer.from(`id,price\n${id},175\nabc,10`), 'products.csv')
+        expect(response.status).toBe(200)
+        expect(response.body.data.results).toEqual([
+            { row: 1, status: 'updated', id },
+            { row: 2, status: 'failed', errors: ['Invalid ID'] }
+        ])
+
+        const product = await request(server).get(`/api/products/${id}`)
+        expect(product.body.data).toMatchObject({ name, price: 175 })
+    })
+
+    it('should reject a malformed JSON file', async () => {
+        const response = await request(server)
+                                .post('/api/products/import')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .attach('file', Buffer.from('[{"name": '), 'products.json')
+        expect(response.status).toBe(400)
+        expect(response.body.code).toBe('INVALID_FILE')
+        expect(response.body.detail).toBe('Invalid JSON file, it could not be read after row 0')
+    })
+
+    it('should export the filtered catalog as CSV', async () => {
+        const response = await request(server).get('/api/products/export?format=csv&name=Importación')
+        expect(response.status).toBe(200)
+        expect(response.headers['content-type']).toMatch(/csv/)
+        expect(response.headers['content-disposition']).toMatch(/products\.csv/)
+
+        const lines = response.text.trim().split('\n')
+        expect(lines[0]).toBe('id,name,price,currency,availability,stock,lowStockThreshold,createdAt,updatedAt')
+        expect(lines).toHaveLength(3)
+    })
+
+    it('should neutralize spreadsheet formulas in the CSV export', async () => {
+        for(const name of ["=HYPERLINK(\"http://example.com\") - Fórmula", "@SUM(A1) - Fórmula"]) {
+            await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name, price: 10 })
+        }
+
+        const response = await request(server).get('/api/products/export?format=csv&name=Fórmula')
+        expect(response.status).toBe(200)
+        const names = response.text.trim().split('\n').slice(1).map(line => line.split(',')[1])
+        expect(names).toEqual(expect.arrayContaining(['"\'=HYPERLINK(""http://example.com"") - Fórmula"', "'@SUM(A1) - Fórmula"]))
+    })
+
+    it('should export the catalog as JSON', async () => {
+        const response = await request(server).get('/api/products/export?format=json&maxPrice=100&name=Importación')
+        expect(response.status).toBe(200)
+        const products = JSON.parse(response.text)
+        expect(products).toHaveLength(1)
+        expect(products[0].name).toBe('Router - Importación')
+    })
+
+    it('should validate the export format', async () => {
+        const response = await request(server).get('/api/products/export?format=xml')
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Formato no válido')
+    })
+})
+
+describe('POST /api/products/batch', () => {
+    let editorToken: string
+    let productId: number
+
+    beforeAll(async () => {
+        const editor = await User.create({ name: "Editor", email: "editor@products.test", password: "password123", role: 'editor' })
+        editorToken = generateToken(editor, 'access')
+
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Tablet - Batch", price: 250 })
+        productId = response.body.data.id
+        await restock(productId)
+    })
+
+    it('should validate the list of operations', async () => {
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ operations: [{ op: 'rename' }] })
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Operación no válida')
+    })
+
+    it('should only allow admins to delete in a batch', async () => {
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${editorToken}`)
+                                .send({ operations: [{ op: 'delete', id: productId }] })
+        expect(response.status).toBe(403)
+    })
+
+    it('should not save anything when an operation is invalid', async () => {
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ operations: [
+                                    { op: 'create', data: { name: "Lápiz óptico - Batch", price: 20 } },
+                                    { op: 'update', id: productId, data: { name: "Tablet - Batch", price: 0, availability: true } }
+                                ]})
+        expect(response.status).toBe(400)
+        expect(response.body.code).toBe('BATCH_FAILED')
+        expect(response.body.results[0].status).toBe(424)
+        expect(response.body.results[1].status).toBe(400)
+        expect(response.body.results[1].errors).toEqual(['Precio no válido'])
+
+        const list = await request(server).get('/api/products?name=Lápiz óptico')
+        expect(list.body.data).toHaveLength(0)
+    })
+
+    it('should roll back every operation when one fails', async () => {
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ operations: [
+                                    { op: 'create', data: { name: "Lápiz óptico - Batch", price: 20 } },
+                                    { op: 'toggle', id: productId },
+                                    { op: 'delete', id: 5000 }
+                                ]})
+        expect(response.status).toBe(400)
+        expect(response.body.results.map(result => result.status)).toEqual([424, 424, 404])
+
+        const list = await request(server).get('/api/products?name=Lápiz óptico')
+        expect(list.body.data).toHaveLength(0)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.availability).toBe(true)
+    })
+
+    it('should apply every operation in a single transaction', async () => {
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ operations: [
+                                    { op: 'create', data: { name: "Lápiz óptico - Batch", price: 20 } },
+                                    { op: 'update', id: productId, data: { name: "Tablet Pro - Batch", price: 300, availability: true } },
+                                    { op: 'toggle', id: productId }
+                                ]})
+        expect(response.status).toBe(200)
+        expect(response.body.data.map(result => result.status)).toEqual([201, 200, 200])
+        expect(response.body.data[2].data.availability).toBe(false)
+        expect(response.body.data[2].data.name).toBe("Tablet Pro - Batch")
+    })
+
+    it('should keep the successful operations when continuing on error', async () => {
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ continueOnError: true, operations: [
+                                    { op: 'delete', id: 5000 },
+                                    { op: 'create', data: { name: "Stylus", price: -1 } },
+                                    { op: 'delete', id: productId }
+                                ]})
+        expect(response.status).toBe(207)
+        expect(response.body.data.map(result => result.status)).toEqual([404, 400, 200])
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.status).toBe(404)
+    })
+
+    it('should hide the details of unexpected errors in the results', async () => {
+        const error = new Error('connection refused')
+        jest.spyOn(Product, 'create').mockRejectedValueOnce(error)
+        const loggerSpy = jest.spyOn(logger, 'error')
+
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ continueOnError: true, operations: [
+                                    { op: 'create', data: { name: "Stylus - Batch", price: 20 } },
+                                    { op: 'delete', id: 5000 }
+                                ]})
+        expect(response.status).toBe(207)
+        expect(response.body.data[0]).toMatchObject({ status: 500, code: 'INTERNAL_ERROR' })
+        expect(response.body.data[0].error).not.toContain('connection refused')
+        expect(response.body.data[1]).toMatchObject({ status: 404, code: 'PRODUCT_NOT_FOUND' })
+        expect(loggerSpy).toHaveBeenCalledWith({ err: error }, 'unexpected error')
+    })
+
+    it('should publish the changes of a savepoint only when the outer transaction commits', async () => {
+        const events: ProductEvent[] = []
+        const unsubscribe = subscribeProductEvents(event => events.push(event))
+        const rollback = new Error('rollback')
+
+        await expect(db.transaction(async transaction => {
+            await db.transaction({ transaction }, savepoint => Product.create({ name: "Lápiz - Batch", price: 5 }, { transaction: savepoint }))
+            expect(events).toHaveLength(0)
+            throw rollback
+        })).rejects.toBe(rollback)
+        expect(events).toHaveLength(0)
+
+        await db.transaction(async transaction => {
+            await db.transaction({ transaction }, savepoint => Product.create({ name: "Lápiz - Batch", price: 5 }, { transaction: savepoint }))
+            expect(events).toHaveLength(0)
+        })
+        unsubscribe()
+        expect(events.map(event => event.event)).toEqual(['product.created'])
+    })
+})
+
+describe('Conditional requests', () => {
+    let productId: number
+    let etag: string
+
+    beforeAll(async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Silla - ETag", price: 180 })
+        productId = response.body.data.id
+        etag = response.headers['etag']
+    })
+
+    it('should return the product version as ETag', async () => {
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.status).toBe(200)
+        expect(response.headers['etag']).toBe(`"${productId}-${response.body.data.version}"`)
+        expect(response.headers['etag']).toBe(etag)
+        expect(response.headers['last-modified']).toBeTruthy()
+    })
+
+    it('should return 304 when the product did not change', async () => {
+        const byETag = await request(server)
+                                .get(`/api/products/${productId}`)
+                                .set('If-None-Match', etag)
+        expect(byETag.status).toBe(304)
+
+        const byDate = await request(server)
+                                .get(`/api/products/${productId}`)
+                                .set('If-Modified-Since', new Date(Date.now() + 60000).toUTCString())
+        expect(byDate.status).toBe(304)
+    })
+
+    it('should return 304 for an unchanged list', async () => {
+        const list = await request(server).get('/api/products')
+        expect(list.headers['etag']).toBeTruthy()
+        expect(list.headers['last-modified']).toBeTruthy()
+
+        const byETag = await request(server)
+                                .get('/api/products')
+                                .set('If-None-Match', list.headers['etag'])
+        expect(byETag.status).toBe(304)
+
+        const byDate = await request(server)
+                                .get('/api/products')
+                                .set('If-Modified-Since', list.headers['last-modified'])
+        expect(byDate.status).toBe(304)
+    })
+
+    it('should derive the list validators from the database', async () => {
+        // Cada URL tiene su propia entrada en la caché de respuestas, así se calculan de nuevo
+        const list = await request(server).get('/api/products?name=ETag')
+        const unchanged = await request(server)
+                                .get('/api/products?name=ETag&page=1')
+                                .set('If-None-Match', list.headers['etag'])
+        expect(unchanged.status).toBe(304)
+
+        // Una escritura que no pasa por los hooks, como la de otra instancia
+        await db.query(`UPDATE products SET "updatedAt" = now() + interval '1 minute' WHERE id = ${productId}`)
+        const byETag = await request(server)
+                                .get('/api/products?name=ETag&limit=10')
+                                .set('If-None-Match', list.headers['etag'])
+        expect(byETag.status).toBe(200)
+        expect(byETag.headers['etag']).not.toBe(list.headers['etag'])
+
+        const byDate = await request(server)
+                                .get('/api/products?name=ETag&limit=20')
+                                .set('If-Modified-Since', list.headers['last-modified'])
+        expect(byDate.status).toBe(200)
+    })
+
+    it('should change the ETag of the product with its categories when a category is renamed', async () => {
+        const category = await request(server)
+                                .post('/api/categories')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Sillas - ETag" })
+        const product = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Silla gamer - ETag", price: 250, categories: [category.body.data.id] })
+        const id = product.body.data.id
+
+        const plain = await request(server).get(`/api/products/${id}`)
+        const withCategories = await request(server).get(`/api/products/${id}?include=categories`)
+        expect(withCategories.headers['etag']).not.toBe(plain.headers['etag'])
+
+        await request(server)
+                .put(`/api/categories/${category.body.data.id}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ name: "Sillas de oficina - ETag" })
+
+        const renamed = await request(server)
+                                .get(`/api/products/${id}?include=categories`)
+                                .set('If-None-Match', withCategories.headers['etag'])
+        expect(renamed.status).toBe(200)
+        expect(renamed.body.data.categories[0].name).toBe("Sillas de oficina - ETag")
+
+        const update = await request(server)
+                                .put(`/api/products/${id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('If-Match', renamed.headers['etag'])
+                                .send({ name: "Silla gamer - ETag", price: 240, availability: false })
+        expect(update.status).toBe(200)
+    })
+
+    it('should update when If-Match has the current ETag', async () => {
+        const response = await request(server)
+                                .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('If-Match', etag)
+                                .send({ name: "Silla ergonómica - ETag", price: 200, availability: true })
+        expect(response.status).toBe(200)
+        expect(response.headers['etag']).not.toBe(etag)
+    })
+
+    it('should return 412 when the product changed since it was read', async () => {
+        const update = await request(server)
+                                .put(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('If-Match', etag)
+                                .send({ name: "Silla - ETag", price: 150, availability: true })
+        expect(update.status).toBe(412)
+        expect(update.body.detail).toBe('Precondition failed')
+
+        const toggle = await request(server)
+                                .patch(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('If-Match', etag)
+        expect(toggle.status).toBe(412)
+
+        const remove = await request(server)
+                                .delete(`/api/products/${productId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('If-Match', etag)
+        expect(remove.status).toBe(412)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.price).toBe(200)
+    })
+
+    it('should return the list again after a change', async () => {
+        const list = await request(server).get('/api/products')
+        await restock(productId)
+
+        const response = await request(server)
+                                .get('/api/products')
+                                .set('If-None-Match', list.headers['etag'])
+        expect(response.status).toBe(200)
+    })
+})
+
+describe('Prices and currencies', () => {
+    let productId: number
+
+    beforeAll(async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Impresora - Precios", price: 100.1 })
+        productId = response.body.data.id
+    })
+
+    it('should store prices as exact decimals', async () => {
+        await request(server)
+                .put(`/api/products/${productId}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ name: "Impresora - Precios", price: 100.2, availability: true })
+
+        const product = await Product.findByPk(productId)
+        expect(product.getDataValue('price')).toBe('100.20')
+        expect(product.price).toBe(100.2)
+        expect(product.currency).toBe('USD')
+    })
+
+    it('should reject prices with more than 2 decimals', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Tóner - Precios", price: 10.005, currency: 'XYZ' })
+        expect(response.status).toBe(400)
+        expect(response.body.errors.map(error => error.msg)).toEqual(['El precio admite hasta 2 decimales', 'Moneda no válida'])
+    })
+
+    it('should only allow admins to manage exchange rates', async () => {
+        const response = await request(server)
+                                .put('/api/exchange-rates/EUR')
+                                .set('Authorization', `Bearer ${viewerToken}`)
+                                .send({ rate: 0.9 })
+        expect(response.status).toBe(403)
+    })
+
+    it('should not accept a rate for the base currency', async () => {
+        const response = await request(server)
+                                .put('/api/exchange-rates/usd')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ rate: 1 })
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('La moneda base no tiene tasa de cambio')
+    })
+
+    it('should fail to convert without an exchange rate', async () => {
+        const response = await request(server).get(`/api/products/${productId}?currency=EUR`)
+        expect(response.status).toBe(400)
+        expect(response.body.code).toBe('EXCHANGE_RATE_NOT_FOUND')
+    })
+
+    it('should convert prices on read', async () => {
+        const rate = await request(server)
+                                .put('/api/exchange-rates/eur')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ rate: 0.92 })
+        expect(rate.status).toBe(201)
+        expect(rate.body.data.currency).toBe('EUR')
+
+        const product = await request(server).get(`/api/products/${productId}?currency=eur`)
+        expect(product.status).toBe(200)
+        expect(product.body.data.price).toBe(92.18)
+        expect(product.body.data.currency).toBe('EUR')
+        expect(product.headers['etag']).not.toMatch(/^"\d+-\d+"$/)
+
+        const list = await request(server).get('/api/products?currency=EUR&name=Precios')
+        expect(list.body.data[0].price).toBe(92.18)
+
+        const rates = await request(server).get('/api/exchange-rates')
+        expect(rates.body.data.base).toBe('USD')
+        expect(rates.body.data.rates[0]).toMatchObject({ currency: 'EUR', rate: 0.92 })
+    })
+
+    it('should manage price lists by currency', async () => {
+        const created = await request(server)
+                                .put(`/api/products/${productId}/prices/wholesale/EUR`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ amount: 80 })
+        expect(created.status).toBe(201)
+
+        const updated = await request(server)
+                                .put(`/api/products/${productId}/prices/wholesale/EUR`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ amount: 75.5 })
+        expect(updated.status).toBe(200)
+        expect(updated.body.data.amount).toBe(75.5)
+
+        const prices = await request(server).get(`/api/products/${productId}/prices?currency=USD`)
+        expect(prices.body.data).toHaveLength(1)
+        expect(prices.body.data[0]).toMatchObject({ priceList: 'wholesale', currency: 'USD', amount: 82.07 })
+    })
+
+    it('should record the price history with effective dates', async () => {
+        const history = await request(server).get(`/api/products/${productId}/prices/history`)
+        expect(history.status).toBe(200)
+        expect(history.body.data.map(price => price.amount)).toEqual([100.2, 100.1])
+        expect(history.body.data[0].effectiveTo).toBeNull()
+        expect(history.body.data[1].effectiveTo).toBe(history.body.data[0].effectiveFrom)
+
+        const at = new Date(new Date(history.body.data[1].effectiveFrom).getTime() + 1).toISOString()
+        const past = await request(server).get(`/api/products/${productId}/prices/history?at=${at}`)
+        expect(past.body.data).toHaveLength(1)
+        expect(past.body.data[0].amount).toBe(100.1)
+
+        const removed = await request(server)
+                                .delete(`/api/products/${productId}/prices/wholesale/EUR`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(removed.status).toBe(200)
+
+        const wholesale = await request(server).get(`/api/products/${productId}/prices/history?priceList=wholesale`)
+        expect(wholesale.body.data.map(price => price.amount)).toEqual([75.5, 80])
+        expect(wholesale.body.data[0].effectiveTo).not.toBeNull()
+    })
+})
+
+describe('Product images', () => {
+    const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)])
+    let directory: string
+    let productId: number
+
+    beforeAll(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'uploads-'))
+        setStorage(createLocalStorage(directory, '/uploads'))
+
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Cámara - Imágenes", price: 500 })
+        productId = response.body.data.id
+    })
+
+    afterAll(async () => {
+        setStorage(null)
+        await rm(directory, { recursive: true, force: true })
+    })
+
+    const upload = (fields: Record<string, string> = {}, file = png, contentType = 'image/png') => {
+        const req = request(server)
+                        .post(`/api/products/${productId}/images`)
+                        .set('Authorization', `Bearer ${adminToken}`)
+        Object.entries(fields).forEach(([name, value]) => req.field(name, value))
+        return req.attach('image', file, { filename: 'camara.png', contentType })
+    }
+
+    it('should store the first image as the primary image', async () => {
+        const response = await upload()
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ position: 0, isPrimary: true, mimeType: 'image/png', size: png.length })
+        expect(response.body.data.url).toBe(`/uploads/${response.body.data.key}`)
+        expect(existsSync(path.join(directory, response.body.data.key))).toBe(true)
+    })
+
+    it('should reject files that are not images', async () => {
+        const response = await upload({}, Buffer.from('no soy una imagen'))
+        expect(response.status).toBe(415)
+        expect(response.body.code).toBe('UNSUPPORTED_IMAGE_TYPE')
+    })
+
+    it('should reject images larger than the limit', async () => {
+        process.env.MAX_IMAGE_SIZE = '16'
+        const response = await upload()
+        delete process.env.MAX_IMAGE_SIZE
+
+        expect(response.status).toBe(413)
+        expect(response.body.code).toBe('IMAGE_TOO_LARGE')
+    })
+
+    it('should include the ordered images in the product', async () => {
+        const response = await upload({ position: '0', isPrimary: 'true' })
+        expect(response.status).toBe(201)
+
+        const product = await request(server).get(`/api/products/${productId}`)
+        expect(product.body.data.images).toHaveLength(2)
+        expect(product.body.data.images.map(image => image.id)).toEqual([response.body.data.id, product.body.data.images[1].id])
+        expect(product.body.data.images.map(image => image.isPrimary)).toEqual([true, false])
+        expect(product.body.data.images.map(image => image.position)).toEqual([0, 1])
+    })
+
+    it('should reorder the images', async () => {
+        const product = await request(server).get(`/api/products/${productId}`)
+        const [first, second] = product.body.data.images
+
+        const response = await request(server)
+                                .patch(`/api/products/${productId}/images/${second.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ position: 0, isPrimary: true })
+        expect(response.status).toBe(200)
+
+        const updated = await request(server).get(`/api/products/${productId}`)
+        expect(updated.body.data.images.map(image => image.id)).toEqual([second.id, first.id])
+        expect(updated.body.data.images.map(image => image.isPrimary)).toEqual([true, false])
+        expect(updated.headers['etag']).not.toBe(product.headers['etag'])
+    })
+
+    it('should delete an image and its file', async () => {
+        const product = await request(server).get(`/api/products/${productId}`)
+        const [primary, other] = product.body.data.images
+
+        const response = await request(server)
+                                .delete(`/api/products/${productId}/images/${primary.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(existsSync(path.join(directory, primary.key))).toBe(false)
+
+        const updated = await request(server).get(`/api/products/${productId}`)
+        expect(updated.body.data.images).toHaveLength(1)
+        expect(updated.body.data.images[0]).toMatchObject({ id: other.id, position: 0, isPrimary: true })
+    })
+
+    it('should keep the files in the trash and remove them on purge', async () => {
+        const product = await request(server).get(`/api/products/${productId}`)
+        const file = path.join(directory, product.body.data.images[0].key)
+
+        await request(server).delete(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(existsSync(file)).toBe(true)
+
+        const response = await request(server).delete(`/api/products/${productId}/purge`).set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(existsSync(file)).toBe(false)
+    })
+})
+
+describe('Product variants', () => {
+    let productId: number
+    let size: number
+
+    beforeAll(async () => {
+        const attribute = await request(server)
+                                .post('/api/attributes')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "talla", values: ["24", "27", "32"] })
+        size = attribute.body.data.id
+        await request(server)
+                .post('/api/attributes')
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ name: "color", values: ["negro", "blanco"] })
+
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "Monitor - Variantes", price: 300 })
+        productId = response.body.data.id
+        await restock(productId)
+    })
+
+    const generate = (attributes: unknown, extra = {}) => request(server)
+                                .post(`/api/products/${productId}/variants/generate`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ attributes, ...extra })
+
+    it('should generate the variant matrix', async () => {
+        const response = await generate({ talla: ["24", "27"], color: ["negro", "blanco"] })
+        expect(response.status).toBe(201)
+        expect(response.body.meta).toEqual({ created: 4, skipped: 0 })
+        expect(response.body.data.map(variant => variant.sku)).toEqual([
+            `P${productId}-24-NEGRO`, `P${productId}-24-BLANCO`, `P${productId}-27-NEGRO`, `P${productId}-27-BLANCO`
+        ])
+        expect(response.body.data[0]).toMatchObject({ options: { talla: "24", color: "negro" }, price: null, availability: true })
+    })
+
+    it('should only create the missing combinations', async () => {
+        const response = await generate({ color: ["negro"], talla: ["27", "32"] }, { skuPrefix: "MON", price: 350 })
+        expect(response.status).toBe(201)
+        expect(response.body.meta).toEqual({ created: 1, skipped: 1 })
+        expect(response.body.data[0]).toMatchObject({ sku: "MON-NEGRO-32", price: 350 })
+
+        const again = await generate({ talla: ["32"], color: ["negro"] })
+        expect(again.status).toBe(200)
+        expect(again.body.meta).toEqual({ created: 0, skipped: 1 })
+    })
+
+    it('should reject values that are not allowed', async () => {
+        const response = await generate({ talla: ["40"] })
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('Indique los valores permitidos de cada atributo')
+
+        const unknown = await generate({ peso: ["1kg"] })
+        expect(unknown.status).toBe(400)
+    })
+
+    it('should summarize the variant prices and availability in the product', async () => {
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data.variants).toHaveLength(5)
+        expect(response.body.data.variantSummary).toEqual({ count: 5, minPrice: 300, maxPrice: 350, availability: true })
+
+        const list = await request(server).get('/api/products?name=Variantes')
+        expect(list.body.data[0].variantSummary).toEqual({ count: 5, minPrice: 300, maxPrice: 350, availability: true })
+
+        const other = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Cable - Variantes", price: 10 })
+        const withoutVariants = await request(server).get(`/api/products/${other.body.data.id}`)
+        expect(withoutVariants.body.data.variants).toEqual([])
+        expect(withoutVariants.body.data.variantSummary).toBeNull()
+    })
+
+    it('should convert the variant prices to the requested currency', async () => {
+        await request(server).put('/api/exchange-rates/MXN').set('Authorization', `Bearer ${adminToken}`).send({ rate: 20 })
+
+        const response = await request(server).get(`/api/products/${productId}?currency=MXN`)
+        expect(response.body.data.variantSummary).toMatchObject({ minPrice: 6000, maxPrice: 7000 })
+        expect(response.body.data.variants.find(variant => variant.sku === "MON-NEGRO-32").price).toBe(7000)
+    })
+
+    it('should create and update a variant', async () => {
+        const invalid = await request(server)
+                                .post(`/api/products/${productId}/variants`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ sku: "MON 24", options: { talla: "24", color: "rojo" } })
+        expect(invalid.status).toBe(400)
+        expect(invalid.body.errors.map(error => error.msg)).toEqual([
+            'SKU no válido',
+            'Las opciones deben usar atributos existentes y sus valores permitidos'
+        ])
+
+        const response = await request(server)
+                                .post(`/api/products/${productId}/variants`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ sku: "MON-24", options: { talla: "24" }, price: 280 })
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ productId, sku: "MON-24", options: { talla: "24" }, price: 280, availability: true })
+
+        const updated = await request(server)
+                                .patch(`/api/products/${productId}/variants/${response.body.data.id}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ price: null, availability: false })
+        expect(updated.status).toBe(200)
+        expect(updated.body.data).toMatchObject({ sku: "MON-24", price: null, availability: false })
+
+        const variant = await request(server).get(`/api/products/${productId}/variants/${response.body.data.id}`)
+        expect(variant.body.data).toMatchObject({ price: null, availability: false })
+    })
+
+    it('should not repeat a SKU or a combination of options', async () => {
+        const variants = await request(server).get(`/api/products/${productId}/variants`)
+        const [first] = variants.body.data
+
+        const sameSku = await request(server)
+                                .post(`/api/products/${productId}/variants`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ sku: first.sku, options: { talla: "32", color: "blanco" } })
+        expect(sameSku.status).toBe(409)
+
+        const sameOptions = await request(server)
+                                .post(`/api/products/${productId}/variants`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ sku: "MON-OTRO", options: { color: first.options.color, talla: first.options.talla } })
+        expect(sameOptions.status).toBe(409)
+    })
+
+    it('should change the product ETag when a variant changes', async () => {
+        const before = await request(server).get(`/api/products/${productId}`)
+        const { body } = await request(server).get(`/api/products/${productId}/variants`)
+
+        await request(server)
+                .patch(`/api/products/${productId}/variants/${body.data[0].id}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ availability: false })
+
+        const after = await request(server).get(`/api/products/${productId}`).set('If-None-Match', before.headers['etag'])
+        expect(after.status).toBe(200)
+        expect(after.body.data.variants[0].availability).toBe(false)
+    })
+
+    it('should report the product as unavailable when no variant is available', async () => {
+        const { body } = await request(server).get(`/api/products/${productId}/variants`)
+        for(const variant of body.data) {
+            await request(server)
+                    .patch(`/api/products/${productId}/variants/${variant.id}`)
+                    .set('Authorization', `Bearer ${adminToken}`)
+                    .send({ availability: false })
+        }
+
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.body.data.availability).toBe(true)
+        expect(response.body.data.variantSummary.availability).toBe(false)
+    })
+
+    it('should not rename or remove attribute values used by variants', async () => {
+        const rename = await request(server)
+                                .put(`/api/attributes/${size}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "tamano", values: ["24", "27", "32"] })
+        expect(rename.status).toBe(409)
+        expect(rename.body.code).toBe('ATTRIBUTE_IN_USE')
+
+        const remove = await request(server)
+                                .put(`/api/attributes/${size}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "talla", values: ["24", "27"] })
+        expect(remove.status).toBe(409)
+
+        const add = await request(server)
+                                .put(`/api/attributes/${size}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ name: "talla", values: ["24", "27", "32", "40"] })
+        expect(add.status).toBe(200)
+
+        const destroy = await request(server).delete(`/api/attributes/${size}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(destroy.status).toBe(409)
+    })
+
+    it('should delete a variant', async () => {
+        const { body } = await request(server).get(`/api/products/${productId}/variants`)
+        const forbidden = await request(server).delete(`/api/products/${productId}/variants/${body.data[0].id}`).set('Authorization', `Bearer ${viewerToken}`)
+        expect(forbidden.status).toBe(403)
+
+        const response = await request(server).delete(`/api/products/${productId}/variants/${body.data[0].id}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toBe('Variante Eliminada')
+
+        const missing = await request(server).get(`/api/products/${productId}/variants/${body.data[0].id}`)
+        expect(missing.status).toBe(404)
+        expect(missing.body.code).toBe('VARIANT_NOT_FOUND')
+    })
+})
+
+describe('GraphQL', () => {
+    const graphql = (query: string, variables?: object, token?: string) => {
+        const req = request(server).post('/graphql').send({ query, variables })
+        return token ? req.set('Authorization', `Bearer ${token}`) : req
+    }
+
+    const productFields = 'id name price currency availability version createdAt images { id } categories { id }'
+    let productId: string
+
+    it('should create a product with the same rules as REST', async () => {
+        const response = await graphql(`mutation ($input: ProductInput!) { createProduct(input: $input) { ${productFields} } }`, {
+            input: { name: "Monitor - GraphQL", price: 300.5 }
+        }, adminToken)
+        expect(response.status).toBe(200)
+        expect(response.body.errors).toBeUndefined()
+        expect(response.body.data.createProduct).toMatchObject({ name: "Monitor - GraphQL", price: 300.5, availability: false, images: [], categories: [] })
+        expect(new Date(response.body.data.createProduct.createdAt).toISOString()).toBe(response.body.data.createProduct.createdAt)
+        productId = response.body.data.createProduct.id
+    })
+
+    it('should return validation errors with the REST messages', async () => {
+        const response = await graphql(`mutation { createProduct(input: { price: 10.123 }) { id } }`, {}, adminToken)
+        expect(response.body.data).toBeNull()
+        expect(response.body.errors[0].extensions).toMatchObject({ code: 'VALIDATION_FAILED', status: 400 })
+        expect(response.body.errors[0].extensions.errors).toEqual(expect.arrayContaining([
+            'El nombre del Producto no puede ir vacio',
+            'El precio admite hasta 2 decimales'
+        ]))
+    })
+
+    it('should require a token and the right role for mutations', async () => {
+        const anonymous = await graphql(`mutation { toggleAvailability(id: ${productId}) { id } }`)
+        expect(anonymous.body.errors[0].extensions).toMatchObject({ code: 'NOT_AUTHENTICATED', status: 401 })
+
+        const viewer = await graphql(`mutation { deleteProduct(id: ${productId}) { id } }`, {}, viewerToken)
+        expect(viewer.body.errors[0].extensions).toMatchObject({ code: 'NOT_AUTHORIZED', status: 403 })
+    })
+
+    it('should fetch a product by id', async () => {
+        const response = await graphql(`query ($id: ID!) { product(id: $id) { ${productFields} } }`, { id: productId })
+        expect(response.body.data.product).toMatchObject({ id: productId, name: "Monitor - GraphQL" })
+
+        const missing = await graphql(`{ product(id: 999999) { id } }`)
+        expect(missing.body.errors[0].extensions).toMatchObject({ code: 'PRODUCT_NOT_FOUND', status: 404 })
+        expect(missing.body.errors[0].path).toEqual(['product'])
+    })
+
+    it('should filter and paginate products', async () => {
+        const response = await graphql(`{
+            products(filter: { name: "GraphQL", minPrice: 300 }, sort: "name", limit: 1) {
+                data { id name }
+                meta { total limit page totalPages nextCursor }
+            }
+        }`)
+        expect(response.body.data.products.data).toEqual([{ id: productId, name: "Monitor - GraphQL" }])
+        expect(response.body.data.products.meta).toEqual({ total: 1, limit: 1, page: 1, totalPages: 1, nextCursor: null })
+
+        const invalid = await graphql(`{ products(limit: 1000) { meta { total } } }`)
+        expect(invalid.body.errors[0].extensions.errors).toEqual(['El límite debe estar entre 1 y 100'])
+    })
+
+    it('should update, toggle and delete a product', async () => {
+        await restock(Number(productId))
+        const updated = await graphql(`mutation ($id: ID!) { updateProduct(id: $id, input: { name: "Monitor 4K - GraphQL", price: 350, availability: true }) { name price version } }`, { id: productId }, adminToken)
+        expect(updated.body.data.updateProduct).toEqual({ name: "Monitor 4K - GraphQL", price: 350, version: 2 })
+
+        const toggled = await graphql(`mutation ($id: ID!) { toggleAvailability(id: $id) { availability } }`, { id: productId }, adminToken)
+        expect(toggled.body.data.toggleAvailability.availability).toBe(false)
+
+        const deleted = await graphql(`mutation ($id: ID!) { deleteProduct(id: $id) { id } }`, { id: productId }, adminToken)
+        expect(deleted.body.data.deleteProduct.id).toBe(productId)
+
+        const response = await request(server).get(`/api/products/${productId}`)
+        expect(response.status).toBe(404)
+    })
+
+    it('should serve GraphiQL to browsers', async () => {
+        const response = await request(server).get('/graphql').set('Accept', 'text/html')
+        expect(response.status).toBe(200)
+        expect(response.text).toContain('GraphiQL')
+    })
+})
+
+describe('Product webhooks', () => {
+    const secret = 'product-events-signing-key'
+    const received : { headers: IncomingHttpHeaders, body: string }[] = []
+    let receiver: Server
+    let webhookId: number
+
+    beforeAll(async () => {
+        receiver = createServer((req, res) => {
+            let body = ''
+            req.on('data', chunk => body += chunk)
+            req.on('end', () => {
+                received.push({ headers: req.headers, body })
+                res.writeHead(204).end()
+            })
+        })
+        await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve))
+
+        const response = await request(server)
+                                .post('/api/webhooks')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({
+                                    url: `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`,
+                                    events: ['product.created', 'product.updated', 'product.availability_changed', 'product.deleted'],
+                                    secret
+                                })
+        webhookId = response.body.data.id
+    })
+
+    afterAll(async () => {
+        await request(server).delete(`/api/webhooks/${webhookId}`).set('Authorization', `Bearer ${adminToken}`)
+        await new Promise(resolve => receiver.close(resolve))
+    })
+
+    it('should queue an event for each change of the product lifecycle', async () => {
+        const product = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Webcam - Webhooks", price: 40 })
+        const productId = product.body.data.id
+        await restock(productId)
+        await request(server).put(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`).send({ name: "Webcam HD - Webhooks", price: 45, availability: true })
+        await request(server).patch(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+        await request(server).delete(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+
+        const deliveries = await WebhookDelivery.findAll({ where: { webhookId }, order: [['id', 'ASC']] })
+        expect(deliveries.map(delivery => delivery.event)).toEqual([
+            'product.created',
+            'product.updated',
+            'product.updated',
+            'product.availability_changed',
+            'product.deleted'
+        ])
+        expect(deliveries[2].payload.data).toMatchObject({
+            product: { id: productId, name: "Webcam HD - Webhooks" },
+            changes: { name: { from: "Webcam - Webhooks", to: "Webcam HD - Webhooks" } }
+        })
+        expect(deliveries.every(delivery => delivery.status === 'pending')).toBe(true)
+    })
+
+    it('should not queue events for changes that are rolled back', async () => {
+        const before = await WebhookDelivery.count({ where: { webhookId } })
+        const response = await request(server)
+                                .post('/api/products/batch')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ operations: [
+                                    { op: 'create', data: { name: "Micrófono - Webhooks", price: 60 } },
+                                    { op: 'update', id: 999999, data: { name: "No existe", price: 10, availability: true } }
+                                ] })
+        expect(response.status).toBe(400)
+        expect(await WebhookDelivery.count({ where: { webhookId } })).toBe(before)
+    })
+
+    it('should deliver the queued events signed with the webhook secret', async () => {
+        await processDeliveries()
+
+        const deliveries = await WebhookDelivery.findAll({ where: { webhookId } })
+        expect(deliveries.every(delivery => delivery.status === 'succeeded' && delivery.responseStatus === 204)).toBe(true)
+        expect(received.map(({ headers }) => headers['x-webhook-event'])).toEqual([
+            'product.created',
+            'product.updated',
+            'product.updated',
+            'product.availability_changed',
+            'product.deleted'
+        ])
+        received.forEach(({ headers, body }) => {
+            expect(headers['x-webhook-signature']).toBe(`sha256=${signPayload(secret, Number(headers['x-webhook-timestamp']), body)}`)
+        })
+    })
+})
+
+describe('Live product stream', () => {
+    let httpServer: Server
+    let baseUrl: string
+    let productId: number
+    let otherId: number
+
+    const waitFor = async (check: () => boolean, timeout = 3000) => {
+        const start = Date.now()
+        while(!check()) {
+            if(Date.now() - start > timeout) throw new Error('Timed out waiting for the stream')
+            await new Promise(resolve => setTimeout(resolve, 20))
+        }
+    }
+
+    // Conexión SSE que acumula el texto recibido
+    const openEventStream = (path: string, headers = {}) => new Promise<{ status: number, text: () => string, events: () => Record<string, string>[], ended: () => boolean }>((resolve, reject) => {
+        get(`${baseUrl}${path}`, { headers }, response => {
+            let text = ''
+            let ended = false
+            response.setEncoding('utf8')
+            response.on('data', chunk => text += chunk)
+            response.on('end', () => ended = true)
+            resolve({
+                status: response.statusCode,
+                text: () => text,
+                events: () => text.split('\n\n')
+                    .filter(block => block.startsWith('id:'))
+                    .map(block => Object.fromEntries(block.split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]))),
+                ended: () => ended
+            })
+        }).on('error', reject)
+    })
+
+    const toggle = (id: number) => request(server).patch(`/api/products/${id}`).set('Authorization', `Bearer ${adminToken}`)
+
+    beforeAll(async () => {
+        process.env.STREAM_HEARTBEAT_INTERVAL = '50'
+        httpServer = createServer(server)
+        attachProductSocket(httpServer)
+        await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+        baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`
+
+        const product = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Lector - Stream", price: 25 })
+        const other = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Escáner - Stream", price: 90 })
+        productId = product.body.data.id
+        otherId = other.body.data.id
+        await restock(productId)
+        await restock(otherId)
+    })
+
+    afterAll(async () => {
+        delete process.env.STREAM_HEARTBEAT_INTERVAL
+        closeProductStreams()
+        await new Promise(resolve => httpServer.close(resolve))
+    })
+
+    it('should reject invalid filters', async () => {
+        const response = await request(server).get('/api/products/stream?ids=1,abc')
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('IDs no válidos')
+    })
+
+    it('should push the changes of the selected products with heartbeats', async () => {
+        const stream = await openEventStream(`/api/products/stream?ids=${productId}`)
+        expect(stream.status).toBe(200)
+
+        await toggle(otherId)
+        await toggle(productId)
+        await waitFor(() => stream.events().length === 1 && stream.text().includes(': heartbeat'))
+
+        const [event] = stream.events()
+        expect(event.event).toBe('product.availability_changed')
+        expect(JSON.parse(event.data)).toMatchObject({
+            productId,
+            product: { id: productId, availability: false },
+            changes: { availability: { from: true, to: false } }
+        })
+    })
+
+    it('should resume after the last event id', async () => {
+        const first = await openEventStream(`/api/products/stream?ids=${productId}`)
+        await toggle(productId)
+        await request(server).put(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`).send({ name: "Lector USB - Stream", price: 30, availability: true })
+        await waitFor(() => first.events().length === 2)
+        const [received, missed] = first.events()
+
+        const resumed = await openEventStream(`/api/products/stream?ids=${productId}`, { 'Last-Event-ID': received.id })
+        await waitFor(() => resumed.events().length === 1)
+        expect(resumed.events()[0]).toMatchObject({ id: missed.id, event: 'product.updated' })
+    })
+
+    it('should not drop an event that commits after one with a higher id', async () => {
+        const stream = await openEventStream(`/api/products/stream?ids=${productId}`)
+        const event = (id: number) => ({
+            id,
+            event: 'product.updated' as const,
+            productId,
+            data: { product: { id: productId }, changes: {}, createdAt: new Date().toISOString() }
+        })
+        publishProductEvent(event(900002))
+        publishProductEvent(event(900001))
+
+        await waitFor(() => stream.events().length === 2)
+        expect(stream.events().map(received => received.id)).toEqual(['900002', '900001'])
+    })
+
+    it('should push changes over WebSocket', async () => {
+        const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/api/products/stream?ids=${productId}`)
+        const messages = []
+        socket.on('message', data => messages.push(JSON.parse(data.toString())))
+        await new Promise(resolve => socket.once('open', resolve))
+
+        await toggle(productId)
+        await waitFor(() => messages.length === 1)
+        expect(messages[0]).toMatchObject({ event: 'product.availability_changed', productId, data: { product: { id: productId } } })
+
+        const closed = new Promise<number>(resolve => socket.once('close', resolve))
+        const stream = await openEventStream('/api/products/stream')
+        closeProductStreams()
+        expect(await closed).toBe(1001)
+        await waitFor(() => stream.ended())
+    })
+})
+
+describe('GET /api/products/search', () => {
+    beforeAll(async () => {
+        for(const data of [
+            { name: "Proyector Holográfico 4K", price: 900 },
+            { name: "Proyector Portátil", price: 300 },
+            { name: "Cámara Térmica", price: 450 }
+        ]) {
+            await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send(data)
+        }
+    })
+
+    it('should require the search text', async () => {
+        const response = await request(server).get('/api/products/search?q=%20')
+        expect(response.status).toBe(400)
+        expect(response.body.errors[0].msg).toBe('La búsqueda no puede ir vacía')
+    })
+
+    it('should rank the best matches first and highlight them', async () => {
+        const response = await request(server).get('/api/products/search?q=proyector holografico')
+        expect(response.status).toBe(200)
+        expect(response.body.meta).toMatchObject({ total: 1, page: 1 })
+        expect(response.body.data[0]).toMatchObject({ name: "Proyector Holográfico 4K", highlight: expect.stringContaining('<mark>Proyector</mark>') })
+
+        const both = await request(server).get('/api/products/search?q=proyectores')
+        expect(both.body.data.map(product => product.name).sort()).toEqual(["Proyector Holográfico 4K", "Proyector Portátil"])
+        expect(both.body.data[0].relevance).toBeGreaterThanOrEqual(both.body.data[1].relevance)
+    })
+
+    it('should ignore accents and case', async () => {
+        for(const q of ['camara termica', 'CÁMARA TÉRMICA']) {
+            const response = await request(server).get(`/api/products/search?q=${encodeURIComponent(q)}`)
+            expect(response.body.data.map(product => product.name)).toEqual(["Cámara Térmica"])
+        }
+    })
+
+    it('should find products with typos', async () => {
+        const response = await request(server).get('/api/products/search?q=proyectr holografco')
+        expect(response.body.data.map(product => product.name)).toEqual(["Proyector Holográfico 4K"])
+    })
+
+    it('should apply the list filters', async () => {
+        const response = await request(server).get('/api/products/search?q=proyector&maxPrice=500')
+        expect(response.body.data.map(product => product.name)).toEqual(["Proyector Portátil"])
+    })
+})
+
+describe('Response cache', () => {
+    let productId: number
+
+    beforeAll(async () => {
+        const response = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Parlante - Cache", price: 70 })
+        productId = response.body.data.id
+        await restock(productId)
+    })
+
+    it('should serve repeated reads from the cache', async () => {
+        const first = await request(server).get(`/api/products/${productId}`)
+        expect(first.headers['x-cache']).toBe('MISS')
+
+        const second = await request(server).get(`/api/products/${productId}`)
+        expect(second.headers['x-cache']).toBe('HIT')
+        expect(second.body).toEqual(first.body)
+        expect(second.headers['etag']).toBe(first.headers['etag'])
+
+        const notModified = await request(server).get(`/api/products/${productId}`).set('If-None-Match', first.headers['etag'])
+        expect(notModified.headers['x-cache']).toBe('HIT')
+        expect(notModified.status).toBe(304)
+    })
+
+    it('should key list responses by their query parameters', async () => {
+        await request(server).get('/api/products?limit=2&page=1')
+        const same = await request(server).get('/api/products?page=1&limit=2')
+        expect(same.headers['x-cache']).toBe('HIT')
+
+        const other = await request(server).get('/api/products?page=2&limit=2')
+        expect(other.headers['x-cache']).toBe('MISS')
+    })
+
+    it('should invalidate the cache when a product changes', async () => {
+        await request(server).get(`/api/products/${productId}`)
+        await request(server).get('/api/products?name=Cache')
+        await request(server).patch(`/api/products/${productId}`).set('Authorization', `Bearer ${adminToken}`)
+
+        const detail = await request(server).get(`/api/products/${productId}`)
+        expect(detail.headers['x-cache']).toBe('MISS')
+        expect(detail.body.data.availability).toBe(false)
+
+        const list = await request(server).get('/api/products?name=Cache')
+        expect(list.headers['x-cache']).toBe('MISS')
+        expect(list.body.data[0].availability).toBe(false)
+    })
+
+    it('should invalidate converted prices when an exchange rate changes', async () => {
+        await request(server).put('/api/exchange-rates/MXN').set('Authorization', `Bearer ${adminToken}`).send({ rate: 20 })
+        const first = await request(server).get(`/api/products/${productId}?currency=MXN`)
+        expect(first.body.data.price).toBe(1400)
+
+        await request(server).put('/api/exchange-rates/MXN').set('Authorization', `Bearer ${adminToken}`).send({ rate: 10 })
+        const second = await request(server).get(`/api/products/${productId}?currency=MXN`)
+        expect(second.headers['x-cache']).toBe('MISS')
+        expect(second.body.data.price).toBe(700)
+    })
+
+    it('should not cache error responses', async () => {
+        await request(server).get('/api/products/999999')
+        const response = await request(server).get('/api/products/999999')
+        expect(response.status).toBe(404)
+        expect(response.headers['x-cache']).toBe('MISS')
+    })
+})
+
+describe('Error responses', () => {
+    it('should describe errors as problem details', async () => {
+        const response = await request(server).get('/api/products/5000')
+        expect(response.status).toBe(404)
+        expect(response.headers['content-type']).toMatch(/application\/problem\+json/)
+        expect(response.body).toEqual({
+            type: 'about:blank',
+            title: 'Not Found',
+            status: 404,
+            detail: 'Product not found',
+            instance: '/api/products/5000',
+            code: 'PRODUCT_NOT_FOUND'
+        })
+    })
+
+    it('should include the invalid fields in validation errors', async () => {
+        const response = await request(server).get('/api/products/not-valid-url')
+        expect(response.status).toBe(400)
+        expect(response.body.code).toBe('VALIDATION_FAILED')
+        expect(response.body.errors[0].msg).toBe('Invalid ID')
+    })
+
+    it('should reject a malformed JSON body', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('Content-Type', 'application/json')
+                                .send('{"name": ')
+        expect(response.status).toBe(400)
+        expect(response.body.code).toBe('MALFORMED_JSON')
+    })
+
+    it('should answer unknown routes with a problem', async () => {
+        const response = await request(server).get('/api/unknown')
+        expect(response.status).toBe(404)
+        expect(response.body.code).toBe('ROUTE_NOT_FOUND')
+    })
+
+    it('should hide the details of unexpected errors', async () => {
+        const error = new Error('connection refused')
+        jest.spyOn(Product, 'findByPk').mockRejectedValueOnce(error)
+        const loggerSpy = jest.spyOn(logger, 'error')
+
+        const response = await request(server).get('/api/products/1?lang=es')
+        expect(response.status).toBe(500)
+        expect(response.body.code).toBe('INTERNAL_ERROR')
+        expect(response.body.detail).toBe('Ocurrió un error inesperado')
+        expect(loggerSpy).toHaveBeenCalledWith({ err: error }, 'unexpected error')
+    })
+})
+
+describe('Localized messages', () => {
+    it('should keep the original language of each message when no language is requested', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({})
+        expect(response.status).toBe(400)
+        expect(response.headers['content-language']).toBeUndefined()
+        expect(response.headers['vary']).toMatch(/Accept-Language/)
+        expect(response.body.detail).toBe('The request contains invalid data')
+        expect(response.body.errors.map(error => error.msg)).toContain('El nombre del Producto no puede ir vacio')
+    })
+
+    it('should use Spanish when requested', async () => {
+        const response = await request(server)
+                                .get('/api/products/5000')
+                                .set('Accept-Language', 'es-AR, es;q=0.9')
+        expect(response.headers['content-language']).toBe('es')
+        expect(response.body.detail).toBe('Producto no encontrado')
+    })
+
+    it('should negotiate the language from Accept-Language', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('Accept-Language', 'fr-FR, en-US;q=0.8, es;q=0.5')
+                                .send({})
+        expect(response.status).toBe(400)
+        expect(response.headers['content-language']).toBe('en')
+        expect(response.body.detail).toBe('The request contains invalid data')
+        expect(response.body.errors.map(error => error.msg)).toContain('The product name is required')
+    })
+
+    it('should let ?lang= override Accept-Language', async () => {
+        const response = await request(server)
+                                .get('/api/products/5000?lang=en')
+                                .set('Accept-Language', 'es')
+        expect(response.headers['content-language']).toBe('en')
+        expect(response.body.detail).toBe('Product not found')
+    })
+
+    it('should keep the original languages when no requested language is supported', async () => {
+        const response = await request(server)
+                                .get('/api/products/not-valid-url?lang=fr')
+                                .set('Accept-Language', 'de')
+        expect(response.headers['content-language']).toBeUndefined()
+        expect(response.body.errors[0].msg).toBe('Invalid ID')
+    })
+
+    it('should fall back to the configured default language', async () => {
+        process.env.DEFAULT_LOCALE = 'es'
+        const response = await request(server)
+                                .get('/api/products/5000')
+                                .set('Accept-Language', 'de')
+        delete process.env.DEFAULT_LOCALE
+
+        expect(response.headers['content-language']).toBe('es')
+        expect(response.body.detail).toBe('Producto no encontrado')
+    })
+
+    it('should translate body parser errors', async () => {
+        const response = await request(server)
+                                .post('/api/products')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .set('Content-Type', 'application/json')
+                                .set('Accept-Language', 'en')
+                                .send('{"name": ')
+        expect(response.body.detail).toBe('Malformed JSON body')
+    })
+
+    it('should translate GraphQL errors', async () => {
+        const response = await request(server)
+                                .post('/graphql?lang=en')
+                                .send({ query: '{ product(id: 5000) { id } }' })
+        expect(response.body.errors[0].message).toBe('Product not found')
+    })
+})
+
+describe('Scheduled changes', () => {
+    let productId: number
+
+    const hours = (count: number) => new Date(Date.now() + count * 60 * 60 * 1000).toISOString()
+
+    const schedule = (data: Record<string, unknown>, id = productId) => request(server)
+                                .post(`/api/products/${id}/schedules`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send(data)
+
+    // Las fechas de inicio deben ser futuras, los tests las mueven al pasado para que venzan
+    const moveTo = (id: number, dates: { startsAt?: string, endsAt?: string }) => ProductSchedule.update(dates, { where: { id } })
+
+    const getProduct = async (id = productId) => (await request(server).get(`/api/products/${id}`)).body.data
+
+    beforeAll(async () => {
+        const response = await request(server).post('/api/products').set('Authorization', `Bearer ${adminToken}`).send({ name: "Teclado - Programado", price: 300 })
+        productId = response.body.data.id
+        await restock(productId)
+    })
+
+    it('should validate the scheduled change', async () => {
+        const empty = await schedule({})
+        expect(empty.status).toBe(400)
+        expect(empty.body.errors.map(error => error.msg)).toEqual([
+            'La fecha de inicio no puede ir vacía',
+            'Indique el precio, la disponibilidad o ambos'
+        ])
+
+        const invalid = await schedule({ price: 0, startsAt: "mañana" })
+        expect(invalid.body.errors.map(error => error.msg)).toEqual(['Precio no válido', 'Fecha no válida, use el formato ISO 8601'])
+
+        const dates = await schedule({ availability: false, startsAt: hours(-1), endsAt: hours(-2) })
+        expect(dates.body.errors.map(error => error.msg)).toEqual([
+            'La fecha de inicio debe ser futura',
+            'La fecha de fin debe ser posterior a la de inicio'
+        ])
+
+        const forbidden = await request(server)
+                                .post(`/api/products/${productId}/schedules`)
+                                .set('Authorization', `Bearer ${viewerToken}`)
+                                .send({ price: 250, startsAt: hours(1) })
+        expect(forbidden.status).toBe(403)
+    })
+
+    it('should schedule a change and show it in the product', async () => {
+        const response = await schedule({ price: 250, startsAt: hours(1), endsAt: hours(2) })
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ productId, price: 250, availability: null, status: 'pending', previousPrice: null })
+
+        const product = await getProduct()
+        expect(product.price).toBe(300)
+        expect(product.schedules).toEqual([
+            { id: response.body.data.id, price: 250, availability: null, startsAt: response.body.data.startsAt, endsAt: response.body.data.endsAt, status: 'pending' }
+        ])
+    })
+
+    it('should not overlap changes of the same field', async () => {
+        const overlapping = await schedule({ price: 200, availability: false, startsAt: hours(1.5), endsAt: hours(3) })
+        expect(overlapping.status).toBe(409)
+        expect(overlapping.body.code).toBe('SCHEDULE_CONFLICT')
+        expect(overlapping.body.detail).toBe('There is already a scheduled change of price between those dates')
+
+        const permanent = await schedule({ price: 200, startsAt: hours(1.5) })
+        expect(permanent.status).toBe(409)
+
+        const otherField = await schedule({ availability: false, startsAt: hours(1.5), endsAt: hours(3) })
+        expect(otherField.status).toBe(201)
+
+        const afterwards = await schedule({ price: 280, startsAt: hours(2) })
+        expect(afterwards.status).toBe(201)
+
+        const list = await request(server).get(`/api/products/${productId}/schedules`).set('Authorization', `Bearer ${adminToken}`)
+        expect(list.body.data.map(change => [change.price, change.availability])).toEqual([[250, null], [null, false], [280, null]])
+
+        await request(server).delete(`/api/products/${productId}/schedules/${otherField.body.data.id}`).set('Authorization', `Bearer ${adminToken}`)
+        await request(server).delete(`/api/products/${productId}/schedules/${afterwards.body.data.id}`).set('Authorization', `Bearer ${adminToken}`)
+    })
+
+    it('should apply the change at the start and revert it at the end', async () => {
+        const [sale] = (await getProduct()).schedules
+        const before = await request(server).get(`/api/products/${productId}`)
+
+        await moveTo(sale.id, { startsAt: hours(-1) })
+        const applied = await processSchedules()
+        expect(applied.map(change => change.id)).toEqual([sale.id])
+
+        const during = await request(server).get(`/api/products/${productId}`).set('If-None-Match', before.headers['etag'])
+        expect(during.status).toBe(200)
+        expect(during.body.data.price).toBe(250)
+        expect(during.body.data.schedules[0]).toMatchObject({ id: sale.id, status: 'active' })
+        expect(await ProductSchedule.findByPk(sale.id)).toMatchObject({ status: 'active', previousPrice: 300, previousAvailability: null })
+
+        // Sin cambios vencidos la siguiente ronda no hace nada
+        expect(await processSchedules()).toEqual([])
+
+        await moveTo(sale.id, { endsAt: hours(-0.5) })
+        await processSchedules()
+
+        const after = await getProduct()
+        expect(after.price).toBe(300)
+        expect(after.schedules).toEqual([])
+
+        const history = await request(server).get(`/api/products/${productId}/history`).set('Authorization', `Bearer ${adminToken}`)
+        expect(history.body.data.slice(0, 2).map(revision => revision.changes.price)).toEqual([
+            { from: 250, to: 300 },
+            { from: 300, to: 250 }
+        ])
+        expect(history.body.data[0].userId).toEqual(expect.any(Number))
+    })
+
+    it('should keep a manual change made while the change was active', async () => {
+        const response = await schedule({ availability: false, startsAt: hours(1), endsAt: hours(2) })
+        await moveTo(response.body.data.id, { startsAt: hours(-1) })
+        await processSchedules()
+        expect((await getProduct()).availability).toBe(false)
+
+        await request(server)
+                .patch(`/api/products/${productId}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+        expect((await getProduct()).availability).toBe(true)
+
+        await moveTo(response.body.data.id, { endsAt: hours(-0.5) })
+        await processSchedules()
+        expect((await getProduct()).availability).toBe(true)
+        expect(await ProductSchedule.findByPk(response.body.data.id)).toMatchObject({ status: 'completed', revertedAt: expect.any(Date) })
+    })
+
+    it('should keep a scheduled unavailability after a sale', async () => {
+        const response = await schedule({ availability: false, startsAt: hours(1), endsAt: hours(2) })
+        await moveTo(response.body.data.id, { startsAt: hours(-1) })
+        await processSchedules()
+
+        await request(server)
+                .post(`/api/products/${productId}/movements`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ type: 'sale', quantity: 1 })
+        expect((await getProduct()).availability).toBe(false)
+
+        await moveTo(response.body.data.id, { endsAt: hours(-0.5) })
+        await processSchedules()
+        expect((await getProduct()).availability).toBe(true)
+    })
+
+    it('should apply each change once with several workers', async () => {
+        const response = await schedule({ price: 320, startsAt: hours(1) })
+        await moveTo(response.body.data.id, { startsAt: hours(-1) })
+
+        const rounds = await Promise.all([processSchedules(), processSchedules(), processSchedules()])
+        expect(rounds.flat().map(change => change.id)).toEqual([response.body.data.id])
+        expect(await ProductSchedule.findByPk(response.body.data.id)).toMatchObject({ status: 'completed', previousPrice: 300 })
+        expect((await getProduct()).price).toBe(320)
+    })
+
+    it('should expire a change whose window passed before it was applied', async () => {
+        const response = await schedule({ price: 100, startsAt: hours(1), endsAt: hours(2) })
+        await moveTo(response.body.data.id, { startsAt: hours(-2), endsAt: hours(-1) })
+        await processSchedules()
+
+        expect(await ProductSchedule.findByPk(response.body.data.id)).toMatchObject({ status: 'expired', appliedAt: null })
+        expect((await getProduct()).price).toBe(320)
+    })
+
+    it('should list the upcoming changes and cancel the pending ones', async () => {
+        const response = await schedule({ price: 299.99, startsAt: hours(24) })
+
+        const upcoming = await request(server).get('/api/products/schedules').set('Authorization', `Bearer ${adminToken}`)
+        expect(upcoming.status).toBe(200)
+        expect(upcoming.body.data.find(change => change.id === response.body.data.id)).toMatchObject({
+            price: 299.99,
+            product: { id: productId, name: "Teclado - Programado", price: 320 }
+        })
+
+        const forbidden = await request(server).delete(`/api/products/${productId}/schedules/${response.body.data.id}`).set('Authorization', `Bearer ${viewerToken}`)
+        expect(forbidden.status).toBe(403)
+
+        const cancelled = await request(server).delete(`/api/products/${productId}/schedules/${response.body.data.id}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(cancelled.status).toBe(200)
+        expect(cancelled.body.data.status).toBe('cancelled')
+        expect((await getProduct()).schedules).toEqual([])
+
+        const again = await request(server).delete(`/api/products/${productId}/schedules/${response.body.data.id}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(again.status).toBe(409)
+        expect(again.body.code).toBe('SCHEDULE_NOT_PENDING')
+
+        const history = await request(server).get(`/api/products/${productId}/schedules?status=cancelled`).set('Authorization', `Bearer ${adminToken}`)
+        expect(history.body.data.map(change => change.id)).toContain(response.body.data.id)
+
+        const missing = await request(server).delete(`/api/products/${productId}/schedules/5000`).set('Authorization', `Bearer ${adminToken}`)
+        expect(missing.status).toBe(404)
+        expect(missing.body.code).toBe('SCHEDULE_NOT_FOUND')
+    })
+})
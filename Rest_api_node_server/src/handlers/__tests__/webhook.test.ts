@@ -0,0 +1,166 @@
+import request from "supertest";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import server from "../../server";
+import User from "../../models/User.model";
+import WebhookDelivery from "../../models/WebhookDelivery.model";
+import { generateToken } from "../../utils/jwt";
+import { signPayload } from "../../services/webhook";
+
+let adminToken: string
+let editorToken: string
+
+// Receptor local que guarda las peticiones y responde con el código configurado
+let receiver: Server
+let receiverUrl: string
+let responseStatus = 200
+const received : { headers: IncomingHttpHeaders, body: string }[] = []
+
+beforeAll(async () => {
+    const admin = await User.create({ name: "Admin", email: "admin@webhooks.test", password: "password123", role: 'admin' })
+    const editor = await User.create({ name: "Editor", email: "editor@webhooks.test", password: "password123", role: 'editor' })
+    adminToken = generateToken(admin, 'access')
+    editorToken = generateToken(editor, 'access')
+
+    receiver = createServer((req, res) => {
+        let body = ''
+        req.on('data', chunk => body += chunk)
+        req.on('end', () => {
+            received.push({ headers: req.headers, body })
+            res.writeHead(responseStatus).end()
+        })
+    })
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve))
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`
+})
+
+afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve))
+})
+
+describe('Webhook subscriptions', () => {
+    let webhookId: number
+
+    it('should only be managed by admins', async () => {
+        const response = await request(server).get('/api/webhooks').set('Authorization', `Bearer ${editorToken}`)
+        expect(response.status).toBe(403)
+    })
+
+    it('should display validation errors', async () => {
+        const response = await request(server)
+                                .post('/api/webhooks')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ url: 'ftp://example.com', events: ['product.sold'], secret: 'short' })
+        expect(response.status).toBe(400)
+        expect(response.body.errors.map(error => error.msg)).toEqual([
+            'URL no válida',
+            'Evento no válido',
+            'El secreto debe tener entre 16 y 100 caracteres'
+        ])
+    })
+
+    it('should create a webhook and return its secret only once', async () => {
+        const response = await request(server)
+                                .post('/api/webhooks')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ url: 'https://store.example.com/hooks', events: ['product.updated'] })
+        expect(response.status).toBe(201)
+        expect(response.body.data).toMatchObject({ url: 'https://store.example.com/hooks', events: ['product.updated'], active: true })
+        expect(response.body.data.secret).toHaveLength(64)
+        webhookId = response.body.data.id
+
+        const webhook = await request(server).get(`/api/webhooks/${webhookId}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(webhook.status).toBe(200)
+        expect(webhook.body.data).not.toHaveProperty('secret')
+    })
+
+    it('should update a webhook', async () => {
+        const response = await request(server)
+                                .put(`/api/webhooks/${webhookId}`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ url: 'https://store.example.com/hooks/v2', events: ['product.created', 'product.deleted'], active: false })
+        expect(response.status).toBe(200)
+        expect(response.body.data).toMatchObject({ url: 'https://store.example.com/hooks/v2', events: ['product.created', 'product.deleted'], active: false })
+    })
+
+    it('should delete a webhook', async () => {
+        const response = await request(server).delete(`/api/webhooks/${webhookId}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+
+        const missing = await request(server).get(`/api/webhooks/${webhookId}`).set('Authorization', `Bearer ${adminToken}`)
+        expect(missing.status).toBe(404)
+        expect(missing.body.code).toBe('WEBHOOK_NOT_FOUND')
+    })
+})
+
+describe('Webhook deliveries', () => {
+    const secret = 'a-very-secret-signing-key'
+    let webhookId: number
+    let delivery: WebhookDelivery
+
+    beforeAll(async () => {
+        // Suscripción inactiva para no recibir los eventos de otras pruebas
+        const response = await request(server)
+                                .post('/api/webhooks')
+                                .set('Authorization', `Bearer ${adminToken}`)
+                                .send({ url: receiverUrl, events: ['product.updated'], secret, active: false })
+        webhookId = response.body.data.id
+        delivery = await WebhookDelivery.create({
+            webhookId,
+            event: 'product.updated',
+            payload: { id: 'test-event', event: 'product.updated', createdAt: new Date().toISOString(), data: { product: { id: 1 } } },
+            status: 'failed',
+            attempts: 8
+        })
+    })
+
+    it('should list the delivery log filtered by status', async () => {
+        const failed = await request(server)
+                                .get(`/api/webhooks/${webhookId}/deliveries?status=failed`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(failed.status).toBe(200)
+        expect(failed.body.data).toHaveLength(1)
+        expect(failed.body.data[0]).toMatchObject({ id: delivery.id, status: 'failed', attempts: 8 })
+
+        const succeeded = await request(server)
+                                .get(`/api/webhooks/${webhookId}/deliveries?status=succeeded`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(succeeded.body.data).toHaveLength(0)
+
+        const invalid = await request(server)
+                                .get(`/api/webhooks/${webhookId}/deliveries?status=lost`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(invalid.status).toBe(400)
+    })
+
+    it('should redeliver a failed delivery with a signed payload', async () => {
+        const response = await request(server)
+                                .post(`/api/webhooks/${webhookId}/deliveries/${delivery.id}/redeliver`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(200)
+        expect(response.body.data).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200, error: null, nextAttemptAt: null })
+
+        const [{ headers, body }] = received
+        expect(headers['x-webhook-event']).toBe('product.updated')
+        expect(headers['x-webhook-delivery']).toBe(String(delivery.id))
+        expect(headers['x-webhook-signature']).toBe(`sha256=${signPayload(secret, Number(headers['x-webhook-timestamp']), body)}`)
+        expect(JSON.parse(body)).toMatchObject({ id: 'test-event', event: 'product.updated', data: { product: { id: 1 } } })
+    })
+
+    it('should schedule a retry when the subscriber fails', async () => {
+        responseStatus = 503
+        const response = await request(server)
+                                .post(`/api/webhooks/${webhookId}/deliveries/${delivery.id}/redeliver`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.body.data).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503 })
+        expect(new Date(response.body.data.nextAttemptAt).getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('should return 404 for a delivery of another webhook', async () => {
+        const response = await request(server)
+                                .post(`/api/webhooks/${webhookId + 1000}/deliveries/${delivery.id}/redeliver`)
+                                .set('Authorization', `Bearer ${adminToken}`)
+        expect(response.status).toBe(404)
+        expect(response.body.code).toBe('DELIVERY_NOT_FOUND')
+    })
+})
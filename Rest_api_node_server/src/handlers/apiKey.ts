@@ -0,0 +1,81 @@
+import { Request, Response } from "express"
+import { Op } from "sequelize";
+import ApiKey from "../models/ApiKey.model";
+import ApiKeyUsage from "../models/ApiKeyUsage.model";
+import User from "../models/User.model";
+import { resetRateLimit } from "../services/rateLimit";
+import { NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+// Días que muestra el reporte de uso si no se indica el rango
+const USAGE_DAYS = 30
+
+const findApiKey = async (id: string) => {
+    const apiKey = await ApiKey.findByPk(id)
+    if(!apiKey) {
+        throw new NotFoundError(t('errors.apiKeyNotFound'), 'API_KEY_NOT_FOUND')
+    }
+    return apiKey
+}
+
+export const getApiKeys = async (req: Request, res: Response) => {
+    const apiKeys = await ApiKey.findAll({
+        order: [
+            ['id', 'ASC']
+        ]
+    })
+    res.json({data: apiKeys})
+}
+
+export const createApiKey = async (req: Request, res: Response) => {
+    const { name, readLimit, writeLimit, dailyQuota } = req.body
+    const userId = req.body.userId ?? req.user.id
+
+    if(!await User.findByPk(userId)) {
+        throw new NotFoundError(t('errors.userNotFound'), 'USER_NOT_FOUND')
+    }
+    const { apiKey, key } = await ApiKey.issue({ name, userId, readLimit, writeLimit, dailyQuota })
+
+    // Única respuesta que incluye la clave
+    res.status(201).json({data: { ...apiKey.toJSON(), key }})
+}
+
+// null vuelve a los límites predeterminados
+export const updateApiKey = async (req: Request, res: Response) => {
+    const apiKey = await findApiKey(req.params.id)
+    const { name, readLimit, writeLimit, dailyQuota } = req.body
+    await apiKey.update({ name, readLimit, writeLimit, dailyQuota })
+    res.json({data: apiKey})
+}
+
+// Las claves revocadas se conservan para el reporte de uso
+export const revokeApiKey = async (req: Request, res: Response) => {
+    const apiKey = await findApiKey(req.params.id)
+    if(!apiKey.revokedAt) {
+        await apiKey.update({ revokedAt: new Date() })
+        resetRateLimit(`${apiKey.id}:`)
+    }
+    res.json({data: apiKey})
+}
+
+export const getUsage = async (req: Request, res: Response) => {
+    const { apiKeyId, from, to } = req.query as Record<string, string>
+    const since = new Date()
+    since.setUTCDate(since.getUTCDate() - USAGE_DAYS + 1)
+
+    const usage = await ApiKeyUsage.findAll({
+        where: {
+            ...(apiKeyId && { apiKeyId }),
+            date: {
+                [Op.gte]: from ?? since.toISOString().slice(0, 10),
+                ...(to && { [Op.lte]: to })
+            }
+        },
+        include: [{ model: ApiKey, attributes: ['id', 'name', 'prefix'] }],
+        order: [
+            ['date', 'DESC'],
+            ['apiKeyId', 'ASC']
+        ]
+    })
+    res.json({data: usage})
+}
@@ -0,0 +1,59 @@
+import { Request, Response } from "express"
+import Attribute from "../models/Attribute.model";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+const findAttribute = async (id: string) => {
+    const attribute = await Attribute.findByPk(id)
+    if(!attribute) {
+        throw new NotFoundError(t('errors.attributeNotFound'), 'ATTRIBUTE_NOT_FOUND')
+    }
+    return attribute
+}
+
+export const getAttributes = async (req: Request, res: Response) => {
+    const attributes = await Attribute.findAll({
+        order: [
+            ['name', 'ASC']
+        ]
+    })
+    res.json({data: attributes})
+}
+
+export const getAttributeById = async (req: Request, res: Response) => {
+    res.json({data: await findAttribute(req.params.id)})
+}
+
+export const createAttribute = async (req: Request, res: Response) => {
+    const { name, values } = req.body
+    const attribute = await Attribute.create({ name, values })
+    res.status(201).json({data: attribute});
+}
+
+export const updateAttribute = async (req: Request, res: Response) => {
+    const attribute = await findAttribute(req.params.id)
+    const { name, values } = req.body
+
+    // Las variantes guardan el nombre y el valor, no se pueden renombrar ni quitar si están en uso
+    const removed = attribute.values.filter(value => !values.includes(value))
+    const inUse = name !== attribute.name
+        ? await attribute.countVariants()
+        : removed.length && await attribute.countVariants(removed)
+    if(inUse) {
+        throw new ConflictError(t('errors.attributeInUse'), 'ATTRIBUTE_IN_USE')
+    }
+
+    await attribute.update({ name, values })
+    res.json({data: attribute})
+}
+
+export const deleteAttribute = async (req: Request, res: Response) => {
+    const attribute = await findAttribute(req.params.id)
+
+    if(await attribute.countVariants()) {
+        throw new ConflictError(t('errors.attributeInUse'), 'ATTRIBUTE_IN_USE')
+    }
+
+    await attribute.destroy()
+    res.json({data: 'Atributo Eliminado'})
+}
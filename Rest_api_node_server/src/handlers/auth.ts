@@ -0,0 +1,56 @@
+import { Request, Response } from "express"
+import User from "../models/User.model";
+import { generateTokens, verifyToken } from "../utils/jwt";
+import { ConflictError, NotFoundError, UnauthorizedError } from "../utils/errors";
+import { t } from "../i18n";
+
+export const register = async (req: Request, res: Response) => {
+    const { name, email, password } = req.body
+
+    const userExists = await User.findOne({ where: { email } })
+    if(userExists) {
+        throw new ConflictError(t('errors.userAlreadyRegistered'), 'USER_ALREADY_REGISTERED')
+    }
+
+    // Los usuarios nuevos siempre son de solo lectura
+    const user = await User.create({ name, email, password, role: 'viewer' })
+    res.status(201).json({data: user})
+}
+
+export const login = async (req: Request, res: Response) => {
+    const { email, password } = req.body
+    const user = await User.findOne({ where: { email } })
+
+    if(!user || !await user.checkPassword(password)) {
+        throw new UnauthorizedError(t('errors.invalidCredentials'), 'INVALID_CREDENTIALS')
+    }
+    res.json({data: generateTokens(user)})
+}
+
+export const refresh = async (req: Request, res: Response) => {
+    const payload = verifyToken(req.body.refreshToken, 'refresh')
+    const user = payload && await User.findByPk(payload.id)
+
+    if(!user) {
+        throw new UnauthorizedError(t('errors.invalidRefreshToken'), 'INVALID_REFRESH_TOKEN')
+    }
+    res.json({data: generateTokens(user)})
+}
+
+export const getAuthenticatedUser = async (req: Request, res: Response) => {
+    res.json({data: req.user})
+}
+
+export const updateRole = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const user = await User.findByPk(id)
+
+    if(!user) {
+        throw new NotFoundError(t('errors.userNotFound'), 'USER_NOT_FOUND')
+    }
+
+    user.role = req.body.role
+    await user.save()
+
+    res.json({data: user})
+}
@@ -0,0 +1,143 @@
+import { Request, Response } from "express"
+import { Transaction } from "sequelize";
+import db from "../config/db";
+import Product from "../models/Product.model";
+import * as productService from "../services/product";
+import { BadRequestError, ForbiddenError, toAppError } from "../utils/errors";
+import { runValidation } from "../validators";
+import { createProductValidation, idValidation, updateProductValidation } from "../validators/product";
+import { t } from "../i18n";
+
+export const BATCH_OPERATIONS = ['create', 'update', 'delete', 'toggle'] as const
+export const MAX_BATCH_SIZE = 100
+
+type BatchOperation = {
+    op: typeof BATCH_OPERATIONS[number]
+    id?: number
+    data?: productService.ProductInput
+}
+
+type BatchResult = {
+    index: number
+    op: BatchOperation['op']
+    status: number
+    data?: unknown
+    error?: string
+    code?: string
+    errors?: string[]
+}
+
+// Operación revertida porque otra del lote falló
+const FAILED_DEPENDENCY = 424
+
+class BatchAborted extends Error {}
+
+class BatchFailedError extends BadRequestError {
+    constructor(results: BatchResult[]) {
+        super(t('errors.batchFailed'), 'BATCH_FAILED', { results })
+    }
+}
+
+const rules = {
+    create: createProductValidation,
+    update: [idValidation, ...updateProductValidation],
+    delete: [idValidation],
+    toggle: [idValidation]
+}
+
+// Ejecuta una operación y devuelve el mismo código que su endpoint individual
+const runOperation = async ({ op, id, data }: BatchOperation, transaction: Transaction) : Promise<Omit<BatchResult, 'index' | 'op'>> => {
+    if(op === 'create') {
+        const product = await productService.createProduct(data, { transaction })
+        return { status: 201, data: product }
+    }
+
+    const product = await Product.findByPk(id, { transaction })
+    if(!product) {
+        return { status: 404, error: t('errors.productNotFound'), code: 'PRODUCT_NOT_FOUND' }
+    }
+
+    if(op === 'update') {
+        await productService.updateProduct(product, data, { transaction })
+        return { status: 200, data: product }
+    }
+    if(op === 'toggle') {
+        await productService.toggleAvailability(product, { transaction })
+        return { status: 200, data: product }
+    }
+    await productService.deleteProduct(product, { transaction })
+    return { status: 200, data: 'Producto Eliminado' }
+}
+
+// Mismo estado, detalle y código que la respuesta problem+json del endpoint individual.
+// toAppError deja en el log el error original de los fallos inesperados, con el id de la petición
+const failure = (error: unknown) : Omit<BatchResult, 'index' | 'op'> => {
+    const problem = toAppError(error)
+    return { status: problem.status, error: problem.message, code: problem.code }
+}
+
+export const batchProducts = async (req: Request, res: Response) => {
+    const operations : BatchOperation[] = req.body.operations
+    const continueOnError = Boolean(req.body.continueOnError)
+
+    // Mismos permisos que DELETE /api/products/:id
+    if(req.user.role !== 'admin' && operations.some(operation => operation.op === 'delete')) {
+        throw new ForbiddenError()
+    }
+
+    // Validar todas las operaciones antes de tocar la base de datos
+    const results : BatchResult[] = []
+    for(const [index, operation] of operations.entries()) {
+        const errors = await runValidation(rules[operation.op], { body: operation.data ?? {}, params: { id: operation.id } })
+        results.push(errors.length
+            ? { index, op: operation.op, status: 400, errors }
+            : { index, op: operation.op, status: null }
+        )
+    }
+
+    const isFailed = (result: BatchResult) => result.status >= 400
+
+    if(!continueOnError && results.some(isFailed)) {
+        results.filter(result => !isFailed(result)).forEach(result => result.status = FAILED_DEPENDENCY)
+        throw new BatchFailedError(results)
+    }
+
+    try {
+        await db.transaction(async transaction => {
+            for(const result of results.filter(result => !isFailed(result))) {
+                const operation = operations[result.index]
+
+                if(!continueOnError) {
+                    try {
+                        Object.assign(result, await runOperation(operation, transaction))
+                    } catch (error) {
+                        Object.assign(result, failure(error))
+                    }
+                    if(isFailed(result)) throw new BatchAborted()
+                    continue
+                }
+
+                // Cada operación en su propio savepoint para poder descartarla sola
+                try {
+                    await db.transaction({ transaction }, async savepoint => {
+                        Object.assign(result, await runOperation(operation, savepoint))
+                    })
+                } catch (error) {
+                    Object.assign(result, failure(error))
+                }
+            }
+        })
+    } catch (error) {
+        if(!(error instanceof BatchAborted)) throw error
+
+        results
+            .filter(result => !isFailed(result))
+            .forEach(result => {
+                result.status = FAILED_DEPENDENCY
+                delete result.data
+            })
+        throw new BatchFailedError(results)
+    }
+
+    res.status(results.some(isFailed) ? 207 : 200).json({ data: results })
+}
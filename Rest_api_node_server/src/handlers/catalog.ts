@@ -0,0 +1,168 @@
+import { Request, Response } from "express"
+import { once } from "node:events";
+import { Readable } from "node:stream";
+import { Op } from "sequelize";
+import { parse } from "csv-parse";
+import StreamArray from "stream-json/streamers/StreamArray";
+import Product from "../models/Product.model";
+import { buildFilters, editableFields } from "../services/product";
+import { BadRequestError, toAppError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { readUpload } from "../utils/upload";
+import { importRowValidation, importUpdateRowValidation } from "../validators/product";
+import { runValidation } from "../validators";
+import { t } from "../i18n";
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const
+export const IMPORT_KEYS = ['id', 'name'] as const
+
+const EXPORT_BATCH_SIZE = 500
+const EXPORT_COLUMNS = ['id', 'name', 'price', 'currency', 'availability', 'stock', 'lowStockThreshold', 'createdAt', 'updatedAt']
+
+type ImportRow = Record<string, unknown>
+
+type ImportResult = {
+    row: number
+    status: 'created' | 'updated' | 'failed'
+    id?: number
+    errors?: string[]
+}
+
+// Las hojas de cálculo interpretan como fórmula los textos que empiezan con = + - @ (o tabulador y retorno de carro):
+// se les antepone un apóstrofo. Solo a los textos, los números negativos se exportan tal cual
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const toCSV = (values: unknown[]) => {
+    return values.map(value => {
+        if(value === null || value === undefined) return ''
+        const text = value instanceof Date ? value.toISOString()
+            : typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}`
+            : String(value)
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }).join(',') + '\n'
+}
+
+// Recorre el catálogo por lotes para no cargar todos los productos en memoria
+async function* productBatches(query: Request['query']) {
+    const filters = buildFilters(query)
+    let lastId = 0
+    while(true) {
+        const products = await Product.findAll({
+            where: { [Op.and]: [filters, { id: { [Op.gt]: lastId } }] },
+            attributes: EXPORT_COLUMNS,
+            order: [
+                ['id', 'ASC']
+            ],
+            limit: EXPORT_BATCH_SIZE
+        })
+        if(!products.length) return
+        yield products
+        lastId = products[products.length - 1].id
+    }
+}
+
+export const exportProducts = async (req: Request, res: Response) => {
+    const format = req.query.format ?? 'csv'
+
+    res.status(200)
+    res.attachment(`products.${format}`)
+
+    const write = async (chunk: string) => {
+        if(!res.write(chunk)) await once(res, 'drain')
+    }
+
+    let first = true
+    await write(format === 'csv' ? toCSV(EXPORT_COLUMNS) : '[')
+    for await (const products of productBatches(req.query)) {
+        for(const product of products) {
+            await write(format === 'csv'
+                ? toCSV(EXPORT_COLUMNS.map(column => product.get(column)))
+                : `${first ? '' : ','}${JSON.stringify(product)}`
+            )
+            first = false
+        }
+    }
+    res.end(format === 'csv' ? '' : ']')
+}
+
+const parseRows = (file: Readable, format: string) : AsyncIterable<ImportRow> => {
+    if(format === 'json') {
+        return file
+            .pipe(StreamArray.withParser())
+            .map(({ value }) => value)
+    }
+    return file.pipe(parse({ columns: true, trim: true, skip_empty_lines: true }))
+}
+
+const findExisting = (row: ImportRow, key: string) => {
+    const value = row[key]
+    if(value === undefined || value === '') return null
+    return Product.findOne({ where: { [key]: value } })
+}
+
+export const importProducts = async (req: Request, res: Response) => {
+    const { key = 'id', dryRun } = req.query as Record<string, string>
+    const upload = await readUpload(req)
+
+    if(!upload) {
+        throw new BadRequestError(t('errors.fileRequired'), 'FILE_REQUIRED')
+    }
+
+    const format = String(req.query.format ?? (upload.info.mimeType.includes('json') || upload.info.filename?.endsWith('.json') ? 'json' : 'csv'))
+    const results : ImportResult[] = []
+    let row = 0
+
+    try {
+        for await (const data of parseRows(upload.file, format)) {
+            row++
+            // Mismas reglas que las rutas de productos, una fila con id es una actualización parcial
+            const partial = key === 'id' && data.id !== undefined && data.id !== ''
+            const errors = await runValidation(partial ? importUpdateRowValidation : importRowValidation, { body: data })
+            if(errors.length) {
+                results.push({ row, status: 'failed', errors })
+                continue
+            }
+
+            const values = Object.fromEntries(
+                editableFields
+                    .filter(field => data[field] !== undefined && data[field] !== '')
+                    .map(field => [field, data[field]])
+            )
+
+            try {
+                const product = await findExisting(data, key)
+                if(!product && partial) {
+                    results.push({ row, status: 'failed', errors: [t('errors.productNotFound')] })
+                    continue
+                }
+
+                if(dryRun) {
+                    results.push({ row, status: product ? 'updated' : 'created', id: product?.id })
+                } else if(product) {
+                    await product.update(values, { fields: editableFields })
+                    results.push({ row, status: 'updated', id: product.id })
+                } else {
+                    const created = await Product.create(values, { fields: editableFields })
+                    results.push({ row, status: 'created', id: created.id })
+                }
+            } catch (error) {
+                // Mismo detalle que la respuesta problem+json de las rutas de productos
+                results.push({ row, status: 'failed', errors: [toAppError(error).message] })
+            }
+        }
+    } catch (error) {
+        // El archivo no se pudo leer, se informa lo procesado hasta el momento. El error del parser queda en el log
+        logger.warn({ err: error, row }, 'import file could not be read')
+        throw new BadRequestError(t('errors.invalidFile', { format: format.toUpperCase(), row }), 'INVALID_FILE', { results })
+    }
+
+    res.json({
+        data: {
+            dryRun: Boolean(dryRun),
+            created: results.filter(result => result.status === 'created').length,
+            updated: results.filter(result => result.status === 'updated').length,
+            failed: results.filter(result => result.status === 'failed').length,
+            results
+        }
+    })
+}
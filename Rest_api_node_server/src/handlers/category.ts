@@ -0,0 +1,112 @@
+import { Request, Response } from "express"
+import Category from "../models/Category.model";
+import Product from "../models/Product.model";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+type CategoryNode = ReturnType<Category['toJSON']> & { children: CategoryNode[] }
+
+const buildTree = (categories: Category[], parentId: number | null = null) : CategoryNode[] => {
+    return categories
+        .filter(category => category.parentId === parentId)
+        .map(category => ({
+            ...category.toJSON(),
+            children: buildTree(categories, category.id)
+        }))
+}
+
+export const getCategories = async (req: Request, res: Response) => {
+    const categories = await Category.findAll({
+        order: [
+            ['name', 'ASC']
+        ]
+    })
+
+    if(req.query.tree) {
+        return res.json({data: buildTree(categories)})
+    }
+    res.json({data: categories})
+}
+
+export const getCategoryById = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const category = await Category.findByPk(id, {
+        include: ['parent', 'children']
+    })
+
+    if(!category) {
+        throw new NotFoundError(t('errors.categoryNotFound'), 'CATEGORY_NOT_FOUND')
+    }
+    res.json({data: category})
+}
+
+export const createCategory = async (req: Request, res: Response) => {
+    const { name, parentId } = req.body
+    const category = await Category.create({ name, parentId })
+    res.status(201).json({data: category});
+}
+
+export const updateCategory = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const category = await Category.findByPk(id)
+
+    if(!category) {
+        throw new NotFoundError(t('errors.categoryNotFound'), 'CATEGORY_NOT_FOUND')
+    }
+
+    // Una categoría no puede moverse dentro de sí misma ni de sus subcategorías
+    const { name, parentId = null } = req.body
+    if(parentId !== null) {
+        const descendants = await Category.getDescendantIds(category.id)
+        if(descendants.includes(Number(parentId))) {
+            throw new ConflictError(t('errors.categoryCycle'), 'CATEGORY_CYCLE')
+        }
+    }
+
+    await category.update({ name, parentId })
+    res.json({data: category})
+}
+
+export const deleteCategory = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const category = await Category.findByPk(id, {
+        include: ['children']
+    })
+
+    if(!category) {
+        throw new NotFoundError(t('errors.categoryNotFound'), 'CATEGORY_NOT_FOUND')
+    }
+
+    if(category.children.length) {
+        throw new ConflictError(t('errors.categoryHasChildren'), 'CATEGORY_HAS_CHILDREN')
+    }
+
+    await category.destroy()
+    res.json({data: 'Categoría Eliminada'})
+}
+
+export const getCategoryProducts = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const category = await Category.findByPk(id)
+
+    if(!category) {
+        throw new NotFoundError(t('errors.categoryNotFound'), 'CATEGORY_NOT_FOUND')
+    }
+
+    const categoryIds = req.query.includeDescendants
+        ? await Category.getDescendantIds(category.id)
+        : [category.id]
+
+    const products = await Product.findAll({
+        include: [{
+            model: Category,
+            where: { id: categoryIds },
+            attributes: ['id', 'name'],
+            through: { attributes: [] }
+        }],
+        order: [
+            ['price', 'DESC']
+        ]
+    })
+    res.json({data: products})
+}
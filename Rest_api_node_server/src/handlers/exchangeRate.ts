@@ -0,0 +1,34 @@
+import { Request, Response } from "express"
+import ExchangeRate from "../models/ExchangeRate.model";
+import { baseCurrency } from "../config/currency";
+import { NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+export const getExchangeRates = async (req: Request, res: Response) => {
+    const rates = await ExchangeRate.findAll({
+        order: [
+            ['currency', 'ASC']
+        ]
+    })
+    res.json({data: { base: baseCurrency(), rates }})
+}
+
+export const setExchangeRate = async (req: Request, res: Response) => {
+    const { currency } = req.params
+    const [rate, created] = await ExchangeRate.findOrBuild({ where: { currency } })
+    rate.rate = req.body.rate
+    await rate.save()
+
+    res.status(created ? 201 : 200).json({data: rate})
+}
+
+export const deleteExchangeRate = async (req: Request, res: Response) => {
+    const rate = await ExchangeRate.findByPk(req.params.currency)
+
+    if(!rate) {
+        throw new NotFoundError(t('errors.exchangeRateNotFound'), 'EXCHANGE_RATE_NOT_FOUND')
+    }
+
+    await rate.destroy()
+    res.json({data: 'Tasa de Cambio Eliminada'})
+}
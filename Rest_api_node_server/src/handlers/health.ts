@@ -0,0 +1,22 @@
+import { Request, Response } from "express"
+import { checkDatabase, isShuttingDown } from "../services/health";
+
+// El proceso responde, no depende de servicios externos
+export const getLiveness = async (req: Request, res: Response) => {
+    res.json({data: { status: 'ok' }})
+}
+
+// Puede recibir tráfico: conectado a la base y sin apagarse
+export const getReadiness = async (req: Request, res: Response) => {
+    const database = await checkDatabase()
+    const shuttingDown = isShuttingDown()
+    const ready = database && !shuttingDown
+
+    res.status(ready ? 200 : 503).json({data: {
+        status: ready ? 'ok' : 'unavailable',
+        checks: {
+            database: database ? 'up' : 'down',
+            shuttingDown
+        }
+    }})
+}
@@ -0,0 +1,161 @@
+import { Request, Response } from "express"
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import { Transaction } from "sequelize";
+import db from "../config/db";
+import { maxImageSize } from "../config/storage";
+import Product from "../models/Product.model";
+import ProductImage from "../models/ProductImage.model";
+import { storage } from "../services/storage";
+import { touchProduct } from "../services/product";
+import { BadRequestError, NotFoundError, PayloadTooLargeError, UnsupportedMediaTypeError } from "../utils/errors";
+import { readUpload } from "../utils/upload";
+import { t } from "../i18n";
+
+// Formatos aceptados y su firma al inicio del archivo, no se confía solo en el Content-Type
+export const IMAGE_TYPES = {
+    'image/jpeg': { extension: '.jpg', matches: (data: Buffer) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+    'image/png': { extension: '.png', matches: (data: Buffer) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    'image/gif': { extension: '.gif', matches: (data: Buffer) => data.subarray(0, 4).toString('latin1') === 'GIF8' },
+    'image/webp': { extension: '.webp', matches: (data: Buffer) => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP' }
+}
+
+const findProduct = async (id: string, transaction?: Transaction) => {
+    const product = await Product.findByPk(id, { transaction })
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    return product
+}
+
+const findImage = async (productId: string, imageId: string, transaction?: Transaction) => {
+    const image = await ProductImage.findOne({ where: { id: imageId, productId }, transaction })
+    if(!image) {
+        throw new NotFoundError(t('errors.imageNotFound'), 'IMAGE_NOT_FOUND')
+    }
+    return image
+}
+
+// Reubica la imagen y renumera la galería sin huecos
+const reorder = async (productId: number, image: ProductImage | null, position: number | undefined, transaction: Transaction) => {
+    const images = (await ProductImage.findAll({
+        where: { productId },
+        order: [
+            ['position', 'ASC'],
+            ['id', 'ASC']
+        ],
+        transaction
+    })).filter(current => current.id !== image?.id)
+
+    if(image) {
+        images.splice(Math.min(position ?? images.length, images.length), 0, image)
+    }
+    for(const [index, current] of images.entries()) {
+        if(current.position !== index) {
+            await current.update({ position: index }, { transaction })
+        }
+    }
+}
+
+// Una sola imagen principal por producto, la primera de la galería si no se eligió otra
+const ensurePrimary = async (productId: number, primary: ProductImage | null, transaction: Transaction) => {
+    if(primary) {
+        await ProductImage.update({ isPrimary: false }, { where: { productId }, transaction })
+        await primary.update({ isPrimary: true }, { transaction })
+        return
+    }
+    const current = await ProductImage.findOne({ where: { productId, isPrimary: true }, transaction })
+    if(current) return
+
+    const first = await ProductImage.findOne({ where: { productId }, order: [['position', 'ASC']], transaction })
+    await first?.update({ isPrimary: true }, { transaction })
+}
+
+export const uploadImage = async (req: Request, res: Response) => {
+    const product = await findProduct(req.params.id)
+    const upload = await readUpload(req, 'image', { fileSize: maxImageSize() })
+
+    if(!upload) {
+        throw new BadRequestError(t('errors.imageRequired'), 'FILE_REQUIRED')
+    }
+
+    const chunks : Buffer[] = []
+    for await (const chunk of upload.file) {
+        chunks.push(chunk)
+    }
+    if((upload.file as Readable & { truncated?: boolean }).truncated) {
+        throw new PayloadTooLargeError(t('errors.imageTooLarge', { size: maxImageSize() }), 'IMAGE_TOO_LARGE')
+    }
+
+    const data = Buffer.concat(chunks)
+    const type = IMAGE_TYPES[upload.info.mimeType]
+    if(!type || !type.matches(data)) {
+        throw new UnsupportedMediaTypeError(t('errors.unsupportedImageType', { types: Object.keys(IMAGE_TYPES).join(', ') }), 'UNSUPPORTED_IMAGE_TYPE')
+    }
+
+    const { position, isPrimary } = upload.fields
+    if(position !== undefined && !/^\d+$/.test(position)) {
+        throw new BadRequestError(t('errors.invalidPosition'), 'INVALID_POSITION')
+    }
+
+    const key = `products/${product.id}/${randomUUID()}${type.extension}`
+    await storage().put(key, data, upload.info.mimeType)
+
+    try {
+        const image = await db.transaction(async transaction => {
+            const image = await ProductImage.create({
+                productId: product.id,
+                key,
+                filename: upload.info.filename,
+                mimeType: upload.info.mimeType,
+                size: data.length,
+                position: await ProductImage.count({ where: { productId: product.id }, transaction })
+            }, { transaction })
+
+            await reorder(product.id, image, position === undefined ? undefined : Number(position), transaction)
+            await ensurePrimary(product.id, isPrimary === 'true' ? image : null, transaction)
+            await touchProduct(product, transaction)
+            return image.reload({ transaction })
+        })
+        res.status(201).json({data: image})
+    } catch (error) {
+        // Sin registro en la base de datos el archivo quedaría huérfano
+        await storage().delete(key)
+        throw error
+    }
+}
+
+export const updateImage = async (req: Request, res: Response) => {
+    const { id, imageId } = req.params
+    const { position, isPrimary } = req.body
+
+    const image = await db.transaction(async transaction => {
+        const product = await findProduct(id, transaction)
+        const image = await findImage(id, imageId, transaction)
+
+        if(position !== undefined) {
+            await reorder(product.id, image, Number(position), transaction)
+        }
+        if(isPrimary === true) {
+            await ensurePrimary(product.id, image, transaction)
+        }
+        await touchProduct(product, transaction)
+        return image.reload({ transaction })
+    })
+    res.json({data: image})
+}
+
+export const deleteImage = async (req: Request, res: Response) => {
+    const { id, imageId } = req.params
+
+    await db.transaction(async transaction => {
+        const product = await findProduct(id, transaction)
+        const image = await findImage(id, imageId, transaction)
+
+        await image.destroy({ transaction })
+        await reorder(product.id, null, undefined, transaction)
+        await ensurePrimary(product.id, null, transaction)
+        await touchProduct(product, transaction)
+    })
+    res.json({data: 'Imagen Eliminada'})
+}
@@ -0,0 +1,68 @@
+import { Request, Response } from "express"
+import db from "../config/db";
+import Product from "../models/Product.model";
+import InventoryMovement, { MovementType } from "../models/InventoryMovement.model";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+// Signo que aplica cada tipo de movimiento sobre el stock
+const direction : Record<MovementType, number> = {
+    receipt: 1,
+    return: 1,
+    sale: -1,
+    adjustment: 1
+}
+
+export const recordMovement = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const { type, quantity, reason } = req.body
+
+    const data = await db.transaction(async transaction => {
+        // Bloquear la fila para que movimientos concurrentes esperen su turno
+        const product = await Product.findByPk(id, { lock: transaction.LOCK.UPDATE, transaction })
+        if(!product) {
+            throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+        }
+
+        const delta = direction[type] * Number(quantity)
+        if(product.stock + delta < 0) {
+            throw new ConflictError(t('errors.insufficientStock'), 'INSUFFICIENT_STOCK')
+        }
+
+        // La disponibilidad se recalcula en el hook BeforeSave del producto
+        product.stock += delta
+        await product.save({ transaction })
+
+        const movement = await InventoryMovement.create({
+            productId: product.id,
+            type,
+            quantity: delta,
+            stockAfter: product.stock,
+            reason,
+            userId: req.user?.id
+        }, { transaction })
+
+        return { movement, product }
+    })
+
+    res.status(201).json({data})
+}
+
+export const getMovements = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const product = await Product.findByPk(id)
+
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+
+    const movements = await InventoryMovement.findAll({
+        where: { productId: product.id },
+        include: [{ association: 'user', attributes: ['id', 'name'] }],
+        order: [
+            ['createdAt', 'DESC'],
+            ['id', 'DESC']
+        ]
+    })
+    res.json({data: movements})
+}
@@ -0,0 +1,82 @@
+import { Request, Response } from "express"
+import Product from "../models/Product.model";
+import ProductPrice from "../models/ProductPrice.model";
+import PriceHistory, { BASE_PRICE_LIST } from "../models/PriceHistory.model";
+import { currencyConverter, inCurrency } from "../services/currency";
+import { NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+const findProduct = async (id: string) => {
+    const product = await Product.findByPk(id)
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    return product
+}
+
+export const getPrices = async (req: Request, res: Response) => {
+    const product = await findProduct(req.params.id)
+    const currency = req.query.currency as string
+    const convert = currency && await currencyConverter(currency)
+
+    const prices = await ProductPrice.findAll({
+        where: { productId: product.id },
+        order: [
+            ['priceList', 'ASC'],
+            ['currency', 'ASC']
+        ]
+    })
+    res.json({data: convert ? prices.map(price => inCurrency(price, 'amount', currency, convert)) : prices})
+}
+
+export const setPrice = async (req: Request, res: Response) => {
+    const product = await findProduct(req.params.id)
+    const { priceList, currency } = req.params
+
+    const [price, created] = await ProductPrice.findOrBuild({
+        where: { productId: product.id, priceList, currency }
+    })
+    price.amount = req.body.amount
+    await price.save()
+
+    res.status(created ? 201 : 200).json({data: price})
+}
+
+export const deletePrice = async (req: Request, res: Response) => {
+    const { id, priceList, currency } = req.params
+    const price = await ProductPrice.findOne({
+        where: { productId: id, priceList, currency }
+    })
+
+    if(!price) {
+        throw new NotFoundError(t('errors.priceNotFound'), 'PRICE_NOT_FOUND')
+    }
+
+    await price.destroy()
+    res.json({data: 'Precio Eliminado'})
+}
+
+export const getPriceHistory = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const { priceList = BASE_PRICE_LIST, currency, at } = req.query as Record<string, string>
+
+    // El historial se conserva aunque el producto haya sido eliminado
+    const history = await PriceHistory.findAll({
+        where: {
+            productId: id,
+            priceList,
+            ...(currency && { currency }),
+            ...(at && PriceHistory.effectiveAt(new Date(at)))
+        },
+        include: [{ association: 'user', attributes: ['id', 'name'] }],
+        order: [
+            ['effectiveFrom', 'DESC'],
+            ['id', 'DESC']
+        ]
+    })
+
+    if(!history.length && !await Product.findByPk(id, { paranoid: false })) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    res.json({data: history})
+}
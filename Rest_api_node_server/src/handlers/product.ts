@@ -1,28 +1,110 @@
 import { Request, Response } from "express"
+import { Op } from "sequelize";
 import Product from "../models/Product.model";
+import * as productService from "../services/product";
+import { categoriesInclude, imagesInclude, includesOrder, productInCurrency, schedulesInclude, variantsInclude } from "../services/product";
+import { currencyConverter } from "../services/currency";
+import { ifMatchFails, productETag, setListHeaders, setProductHeaders } from "../utils/etag";
+import { NotFoundError, PreconditionFailedError } from "../utils/errors";
+import { t } from "../i18n";
+
+const buildLink = (req: Request, params: Record<string, string | number | undefined>) => {
+    const query = new URLSearchParams()
+    Object.entries({ ...req.query, ...params }).forEach(([key, value]) => {
+        if(value !== undefined) query.set(key, String(value))
+    })
+    return `${req.baseUrl}?${query.toString()}`
+}
+
+const includes = (req: Request) => req.query.include === 'categories'
+    ? [categoriesInclude, imagesInclude, variantsInclude, schedulesInclude]
+    : [imagesInclude, variantsInclude, schedulesInclude]
 
 export const getProducts = async (req: Request, res: Response) => {
-    const products = await Product.findAll({
-        order: [
-            ['price', 'DESC']
-        ]
+    const { sort, cursor, currency } = req.query as Record<string, string>
+    const convert = currency && await currencyConverter(currency)
+
+    // Los validadores salen de agregados de la base de datos, se responde 304 sin cargar la lista
+    setListHeaders(res, await productService.productListState({
+        filters: req.query,
+        withCategories: req.query.include === 'categories',
+        withRates: Boolean(currency)
+    }))
+    if(req.fresh) {
+        return res.status(304).end()
+    }
+
+    const { data, total, limit, page, totalPages, nextCursor } = await productService.findProducts({
+        filters: req.query,
+        sort,
+        cursor,
+        page: req.query.page ? Number(req.query.page) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        include: includes(req)
+    })
+
+    res.json({
+        data: convert ? data.map(product => productInCurrency(product, currency, convert)) : data,
+        meta: {
+            total,
+            limit,
+            page,
+            totalPages,
+            nextCursor
+        },
+        links: {
+            self: buildLink(req, {}),
+            first: buildLink(req, { page: 1, cursor: undefined }),
+            last: buildLink(req, { page: Math.max(totalPages, 1), cursor: undefined }),
+            prev: page > 1 ? buildLink(req, { page: page - 1 }) : null,
+            next: nextCursor ? buildLink(req, cursor ? { cursor: nextCursor } : { page: page + 1 }) : null
+        }
+    })
+}
+export const searchProducts = async (req: Request, res: Response) => {
+    const { q, currency } = req.query as Record<string, string>
+    const convert = currency && await currencyConverter(currency)
+
+    const { data, ...meta } = await productService.searchProducts({
+        q,
+        filters: req.query,
+        page: req.query.page ? Number(req.query.page) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        include: includes(req)
+    })
+
+    res.json({
+        data: convert ? data.map(product => productInCurrency(product, currency, convert)) : data,
+        meta
     })
-    res.json({data: products})
 }
+
 export const getProductById = async (req: Request, res: Response) => {
     const { id } = req.params
-    const product = await Product.findByPk(id)
+    const currency = req.query.currency as string
+    const convert = currency && await currencyConverter(currency)
+    const product = await Product.findByPk(id, {
+        include: includes(req),
+        order: includesOrder
+    })
 
     if(!product) {
-        return res.status(404).json({
-            error: "Product not found"
-        })
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
     }
+
+    // El precio convertido depende de las tasas, no solo de la versión del producto
+    if(convert) {
+        return res.json({data: productInCurrency(product, currency, convert)})
+    }
+
+    // Express responde 304 si coincide If-None-Match o If-Modified-Since
+    setProductHeaders(res, product, req.query.include === 'categories')
     res.json({data: product})
 }
 
 export const createProduct = async (req: Request, res: Response) => {
-    const product = await Product.create(req.body)
+    const product = await productService.createProduct(req.body)
+    setProductHeaders(res, product)
     res.status(201).json({data: product});
 }
 
@@ -31,15 +113,17 @@ export const updateProduct = async (req: Request, res: Response) => {
     const product = await Product.findByPk(id)
 
     if(!product) {
-        return res.status(404).json({
-            error: "Product not found"
-        })
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+
+    if(ifMatchFails(req, productETag(product))) {
+        throw new PreconditionFailedError()
     }
-    res.json({data: product})
 
     // Actualizar product
-    await product.update(req.body)
-    await product.save()
+    await productService.updateProduct(product, req.body)
+    setProductHeaders(res, product)
+    res.json({data: product})
 }
 
 export const updateAvailability = async (req: Request, res: Response) => {
@@ -47,14 +131,16 @@ export const updateAvailability = async (req: Request, res: Response) => {
     const product = await Product.findByPk(id)
 
     if(!product) {
-        return res.status(404).json({
-            error: "Product not found"
-        })
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+
+    if(ifMatchFails(req, productETag(product))) {
+        throw new PreconditionFailedError()
     }
 
     // Actualizar product
-    product.availability = !product.dataValues.availability
-    await product.save()
+    await productService.toggleAvailability(product)
+    setProductHeaders(res, product)
 
     res.json({data: product})
 }
@@ -64,11 +150,54 @@ export const deleteProduct = async (req: Request, res: Response) => {
     const product = await Product.findByPk(id)
 
     if(!product) {
-        return res.status(404).json({
-            error: "Product not found"
-        })
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+
+    if(ifMatchFails(req, productETag(product))) {
+        throw new PreconditionFailedError()
     }
 
-    await product.destroy()
+    await productService.deleteProduct(product)
     res.json({data: 'Producto Eliminado'})
+}
+
+export const getTrashedProducts = async (req: Request, res: Response) => {
+    const products = await Product.findAll({
+        where: { deletedAt: { [Op.ne]: null } },
+        paranoid: false,
+        order: [
+            ['deletedAt', 'DESC']
+        ]
+    })
+    res.json({data: products})
+}
+
+export const restoreProduct = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const product = await Product.findOne({
+        where: { id, deletedAt: { [Op.ne]: null } },
+        paranoid: false
+    })
+
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotInTrash'), 'PRODUCT_NOT_IN_TRASH')
+    }
+
+    await product.restore()
+    res.json({data: product})
+}
+
+export const purgeProduct = async (req: Request, res: Response) => {
+    const { id } = req.params
+    const product = await Product.findOne({
+        where: { id, deletedAt: { [Op.ne]: null } },
+        paranoid: false
+    })
+
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotInTrash'), 'PRODUCT_NOT_IN_TRASH')
+    }
+
+    await product.destroy({ force: true })
+    res.json({data: 'Producto Eliminado Definitivamente'})
 }
\ No newline at end of file
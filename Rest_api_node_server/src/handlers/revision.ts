@@ -0,0 +1,58 @@
+import { Request, Response } from "express"
+import db from "../config/db";
+import Product from "../models/Product.model";
+import ProductRevision from "../models/ProductRevision.model";
+import { editableFields } from "../services/product";
+import { NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+export const getProductHistory = async (req: Request, res: Response) => {
+    const { id } = req.params
+
+    // El historial se conserva aunque el producto haya sido eliminado
+    const revisions = await ProductRevision.findAll({
+        where: { productId: id },
+        include: [{ association: 'user', attributes: ['id', 'name'] }],
+        order: [
+            ['createdAt', 'DESC'],
+            ['id', 'DESC']
+        ]
+    })
+
+    if(!revisions.length) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    res.json({data: revisions})
+}
+
+export const revertProduct = async (req: Request, res: Response) => {
+    const { id, revisionId } = req.params
+    const revision = await ProductRevision.findOne({
+        where: { id: revisionId, productId: id }
+    })
+
+    if(!revision) {
+        throw new NotFoundError(t('errors.revisionNotFound'), 'REVISION_NOT_FOUND')
+    }
+
+    // Una eliminación (a la papelera o definitiva) se revierte restaurando el estado previo, el resto al estado resultante
+    const snapshot = ['delete', 'purge'].includes(revision.action) ? revision.before : revision.after
+    const values = Object.fromEntries(editableFields.map(field => [field, snapshot[field]]))
+
+    // Restaurar y actualizar en la misma transacción, un fallo no deja el producto restaurado a medias
+    const { product, created } = await db.transaction(async transaction => {
+        const product = await Product.findByPk(id, { paranoid: false, transaction })
+        if(!product) {
+            // El producto fue eliminado definitivamente, se vuelve a crear con el mismo ID
+            const restored = await Product.create({ ...values, id: revision.productId }, { fields: ['id', ...editableFields], transaction })
+            return { product: restored, created: true }
+        }
+
+        if(product.deletedAt) {
+            await product.restore({ transaction })
+        }
+        await product.update(values, { fields: editableFields, transaction })
+        return { product, created: false }
+    })
+    res.status(created ? 201 : 200).json({data: product})
+}
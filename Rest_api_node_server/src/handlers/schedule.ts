@@ -0,0 +1,103 @@
+import { Request, Response } from "express"
+import { Transaction } from "sequelize";
+import db from "../config/db";
+import Product from "../models/Product.model";
+import ProductSchedule, { SCHEDULED_FIELDS, ScheduleStatus, UPCOMING_STATUSES } from "../models/ProductSchedule.model";
+import { touchProduct } from "../services/product";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+// Cambios programados de precio y disponibilidad, los aplica y revierte el worker de services/schedule.ts
+
+const findProduct = async (id: string, transaction?: Transaction) => {
+    // Dentro de una transacción bloquea el producto, así dos cambios que se solapan no se programan a la vez
+    const product = await Product.findByPk(id, { transaction, lock: transaction?.LOCK.UPDATE })
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    return product
+}
+
+const statusFilter = (req: Request) => req.query.status ? [req.query.status as ScheduleStatus] : UPCOMING_STATUSES
+
+// Cambios pendientes y activos de todo el catálogo por la fecha en que empiezan, sin los productos en la papelera
+export const getUpcomingSchedules = async (req: Request, res: Response) => {
+    const schedules = await ProductSchedule.findAll({
+        where: { status: statusFilter(req) },
+        include: [{ model: Product, attributes: ['id', 'name', 'price', 'currency', 'availability'], required: true }],
+        order: [
+            ['startsAt', 'ASC'],
+            ['id', 'ASC']
+        ]
+    })
+    res.json({data: schedules})
+}
+
+export const getSchedules = async (req: Request, res: Response) => {
+    const product = await findProduct(req.params.id)
+    const schedules = await ProductSchedule.findAll({
+        where: { productId: product.id, status: statusFilter(req) },
+        order: [
+            ['startsAt', 'ASC'],
+            ['id', 'ASC']
+        ]
+    })
+    res.json({data: schedules})
+}
+
+export const createSchedule = async (req: Request, res: Response) => {
+    const { price = null, availability = null, startsAt, endsAt = null } = req.body
+
+    const schedule = await db.transaction(async transaction => {
+        const product = await findProduct(req.params.id, transaction)
+        const start = new Date(startsAt)
+        const end = endsAt ? new Date(endsAt) : null
+
+        const fields = SCHEDULED_FIELDS.filter(field => req.body[field] !== undefined && req.body[field] !== null)
+        const conflict = await ProductSchedule.conflicting(product.id, fields, start, end, transaction)
+        if(conflict) {
+            const overlapping = conflict.fields.filter(field => fields.includes(field))
+            throw new ConflictError(t('errors.scheduleConflict', { fields: overlapping.join(', ') }), 'SCHEDULE_CONFLICT')
+        }
+
+        const schedule = await ProductSchedule.create({
+            productId: product.id,
+            price,
+            availability,
+            startsAt: start,
+            endsAt: end,
+            userId: req.user.id
+        }, { transaction })
+        // Las respuestas del producto muestran los cambios programados
+        await touchProduct(product, transaction)
+        return schedule
+    })
+    res.status(201).json({data: schedule})
+}
+
+// Solo se cancelan los cambios que todavía no se aplicaron
+export const cancelSchedule = async (req: Request, res: Response) => {
+    const { id, scheduleId } = req.params
+
+    const schedule = await db.transaction(async transaction => {
+        // Primero el cambio y después el producto, en el mismo orden que el worker
+        const product = await findProduct(id)
+        const schedule = await ProductSchedule.findOne({
+            where: { id: scheduleId, productId: product.id },
+            lock: transaction.LOCK.UPDATE,
+            transaction
+        })
+        if(!schedule) {
+            throw new NotFoundError(t('errors.scheduleNotFound'), 'SCHEDULE_NOT_FOUND')
+        }
+        await product.reload({ lock: transaction.LOCK.UPDATE, transaction })
+        if(schedule.status !== 'pending') {
+            throw new ConflictError(t('errors.scheduleNotPending'), 'SCHEDULE_NOT_PENDING')
+        }
+
+        await schedule.update({ status: 'cancelled' }, { transaction })
+        await touchProduct(product, transaction)
+        return schedule
+    })
+    res.json({data: schedule})
+}
@@ -0,0 +1,89 @@
+import { Request, Response } from "express"
+import { Server } from "node:http";
+import { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { openProductStream, StreamOptions } from "../services/productStream";
+import { ProductEvent } from "../services/productEvents";
+import { logger } from "../utils/logger";
+
+export const STREAM_PATH = '/api/products/stream'
+
+// "1,2,3" => [1, 2, 3]
+const streamOptions = (ids?: string, lastEventId?: string) : StreamOptions => ({
+    ids: ids ? ids.split(',').map(Number) : undefined,
+    lastEventId: lastEventId ? Number(lastEventId) : undefined
+})
+
+// Server-Sent Events: el navegador reconecta solo y envía el header Last-Event-ID
+export const streamProducts = async (req: Request, res: Response) => {
+    const { ids, lastEventId } = req.query as Record<string, string>
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // Evita que nginx acumule la respuesta
+        'X-Accel-Buffering': 'no'
+    })
+    res.write('retry: 3000\n\n')
+
+    const close = await openProductStream({
+        send: ({ id, event, productId, data }: ProductEvent) => {
+            res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify({ productId, ...data })}\n\n`)
+        },
+        heartbeat: () => res.write(': heartbeat\n\n'),
+        close: () => res.end()
+    }, streamOptions(ids, req.get('Last-Event-ID') ?? lastEventId))
+
+    res.on('close', close)
+    if(!res.socket || res.socket.destroyed) close()
+}
+
+const isValidQuery = (url: URL) => {
+    const ids = url.searchParams.get('ids')
+    const lastEventId = url.searchParams.get('lastEventId')
+    return (ids === null || /^\d+(,\d+)*$/.test(ids)) && (lastEventId === null || /^\d+$/.test(lastEventId))
+}
+
+const reject = (socket: Duplex, status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+}
+
+// WebSocket en la misma ruta que SSE, mensajes JSON con { id, event, productId, data }
+export const attachProductSocket = (server: Server) => {
+    const wss = new WebSocketServer({ noServer: true })
+
+    server.on('upgrade', (req, socket, head) => {
+        const url = new URL(req.url ?? '/', 'http://localhost')
+        if(url.pathname !== STREAM_PATH) {
+            return reject(socket, '404 Not Found')
+        }
+        if(!isValidQuery(url)) {
+            return reject(socket, '400 Bad Request')
+        }
+
+        wss.handleUpgrade(req, socket, head, async ws => {
+            // Sin respuesta al ping anterior la conexión se da por perdida
+            let alive = true
+            ws.on('pong', () => alive = true)
+
+            try {
+                const close = await openProductStream({
+                    send: event => ws.send(JSON.stringify(event)),
+                    heartbeat: () => {
+                        if(!alive) return ws.terminate()
+                        alive = false
+                        ws.ping()
+                    },
+                    close: () => ws.close(1001, 'Server shutting down')
+                }, streamOptions(url.searchParams.get('ids'), url.searchParams.get('lastEventId')))
+                ws.on('close', close)
+                if(ws.readyState !== WebSocket.OPEN) close()
+            } catch (error) {
+                logger.error({ err: error }, 'product socket failed')
+                ws.close(1011, 'Unexpected error')
+            }
+        })
+    })
+    return wss
+}
@@ -0,0 +1,121 @@
+import { Request, Response } from "express"
+import { Transaction } from "sequelize";
+import db from "../config/db";
+import Product from "../models/Product.model";
+import ProductVariant, { AttributeSelection, SKU_LENGTH, variantSku } from "../models/ProductVariant.model";
+import { touchProduct } from "../services/product";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+import { t } from "../i18n";
+
+// Variantes que se pueden generar en una sola petición
+export const MAX_GENERATED_VARIANTS = 100
+
+const editableFields = ['sku', 'options', 'price', 'availability']
+
+const findProduct = async (id: string, transaction?: Transaction) => {
+    const product = await Product.findByPk(id, { transaction })
+    if(!product) {
+        throw new NotFoundError(t('errors.productNotFound'), 'PRODUCT_NOT_FOUND')
+    }
+    return product
+}
+
+const findVariant = async (productId: string, variantId: string, transaction?: Transaction) => {
+    const variant = await ProductVariant.findOne({ where: { id: variantId, productId }, transaction })
+    if(!variant) {
+        throw new NotFoundError(t('errors.variantNotFound'), 'VARIANT_NOT_FOUND')
+    }
+    return variant
+}
+
+export const getVariants = async (req: Request, res: Response) => {
+    const product = await findProduct(req.params.id)
+    const variants = await ProductVariant.findAll({
+        where: { productId: product.id },
+        order: [
+            ['id', 'ASC']
+        ]
+    })
+    res.json({data: variants})
+}
+
+export const getVariant = async (req: Request, res: Response) => {
+    const { id, variantId } = req.params
+    await findProduct(id)
+    res.json({data: await findVariant(id, variantId)})
+}
+
+export const createVariant = async (req: Request, res: Response) => {
+    const variant = await db.transaction(async transaction => {
+        const product = await findProduct(req.params.id, transaction)
+        const variant = await ProductVariant.create({ ...req.body, productId: product.id }, {
+            fields: [...editableFields, 'productId'],
+            transaction
+        })
+        await touchProduct(product, transaction)
+        return variant
+    })
+    res.status(201).json({data: variant})
+}
+
+// Crea una variante por cada combinación de los valores elegidos, las combinaciones existentes se conservan
+export const generateVariants = async (req: Request, res: Response) => {
+    const { attributes, skuPrefix, price = null } = req.body as { attributes: AttributeSelection, skuPrefix?: string, price?: number | null }
+
+    const { variants, skipped } = await db.transaction(async transaction => {
+        const product = await findProduct(req.params.id, transaction)
+        const combinations = await ProductVariant.missingCombinations(product.id, attributes, transaction)
+
+        const records = combinations.map(options => ({
+            productId: product.id,
+            sku: variantSku(skuPrefix ?? `P${product.id}`, options),
+            options,
+            price
+        }))
+        const tooLong = records.find(record => record.sku.length > SKU_LENGTH)
+        if(tooLong) {
+            throw new BadRequestError(t('errors.skuTooLong', { sku: tooLong.sku, max: SKU_LENGTH }), 'SKU_TOO_LONG')
+        }
+
+        const variants = await ProductVariant.bulkCreate(records, { transaction })
+        if(variants.length) {
+            await touchProduct(product, transaction)
+        }
+        return { variants, skipped: ProductVariant.combinations(attributes).length - variants.length }
+    })
+
+    res.status(variants.length ? 201 : 200).json({
+        data: variants,
+        meta: {
+            created: variants.length,
+            skipped
+        }
+    })
+}
+
+export const updateVariant = async (req: Request, res: Response) => {
+    const { id, variantId } = req.params
+
+    const variant = await db.transaction(async transaction => {
+        const product = await findProduct(id, transaction)
+        const variant = await findVariant(id, variantId, transaction)
+
+        await variant.update(req.body, { fields: editableFields, transaction })
+        await touchProduct(product, transaction)
+        return variant
+    })
+    res.json({data: variant})
+}
+
+export const deleteVariant = async (req: Request, res: Response) => {
+    const { id, variantId } = req.params
+
+    await db.transaction(async transaction => {
+        const product = await findProduct(id, transaction)
+        const variant = await findVariant(id, variantId, transaction)
+
+        await variant.destroy({ transaction })
+        await touchProduct(product, transaction)
+    })
+    res.json({data: 'Variante Eliminada'})
+}
@@ -0,0 +1,80 @@
+import { Request, Response } from "express"
+import { randomBytes } from "node:crypto";
+import Webhook from "../models/Webhook.model";
+import WebhookDelivery from "../models/WebhookDelivery.model";
+import { deliver } from "../services/webhook";
+import { NotFoundError } from "../utils/errors";
+import { DEFAULT_LIMIT } from "../utils/pagination";
+import { t } from "../i18n";
+
+const findWebhook = async (id: string) => {
+    const webhook = await Webhook.findByPk(id)
+    if(!webhook) {
+        throw new NotFoundError(t('errors.webhookNotFound'), 'WEBHOOK_NOT_FOUND')
+    }
+    return webhook
+}
+
+export const getWebhooks = async (req: Request, res: Response) => {
+    const webhooks = await Webhook.findAll({
+        order: [
+            ['id', 'ASC']
+        ]
+    })
+    res.json({data: webhooks})
+}
+
+export const getWebhookById = async (req: Request, res: Response) => {
+    res.json({data: await findWebhook(req.params.id)})
+}
+
+export const createWebhook = async (req: Request, res: Response) => {
+    const { url, events, active } = req.body
+    const secret = req.body.secret ?? randomBytes(32).toString('hex')
+    const webhook = await Webhook.create({ url, events, secret, active })
+
+    // Única respuesta que incluye el secreto
+    res.status(201).json({data: { ...webhook.toJSON(), secret }})
+}
+
+export const updateWebhook = async (req: Request, res: Response) => {
+    const webhook = await findWebhook(req.params.id)
+    const { url, events, active, secret } = req.body
+    await webhook.update({ url, events, ...(active !== undefined && { active }), ...(secret && { secret }) })
+    res.json({data: webhook})
+}
+
+export const deleteWebhook = async (req: Request, res: Response) => {
+    const webhook = await findWebhook(req.params.id)
+    await webhook.destroy()
+    res.json({data: 'Webhook Eliminado'})
+}
+
+export const getDeliveries = async (req: Request, res: Response) => {
+    const webhook = await findWebhook(req.params.id)
+    const { status } = req.query as Record<string, string>
+    const deliveries = await WebhookDelivery.findAll({
+        where: { webhookId: webhook.id, ...(status && { status }) },
+        order: [
+            ['createdAt', 'DESC'],
+            ['id', 'DESC']
+        ],
+        limit: req.query.limit ? Number(req.query.limit) : DEFAULT_LIMIT
+    })
+    res.json({data: deliveries})
+}
+
+// Intenta la entrega en el momento, si vuelve a fallar se reprograma con un ciclo de reintentos nuevo
+export const redeliver = async (req: Request, res: Response) => {
+    const { id, deliveryId } = req.params
+    const delivery = await WebhookDelivery.findOne({
+        where: { id: deliveryId, webhookId: id }
+    })
+
+    if(!delivery) {
+        throw new NotFoundError(t('errors.deliveryNotFound'), 'DELIVERY_NOT_FOUND')
+    }
+
+    delivery.attempts = 0
+    res.json({data: await deliver(delivery)})
+}
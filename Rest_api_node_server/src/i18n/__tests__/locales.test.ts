@@ -0,0 +1,33 @@
+import { baselineLocale, catalogs, LOCALES, MessageKey, t } from "..";
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort()
+
+describe('Message catalogs', () => {
+    const keys = Object.keys(catalogs.es) as MessageKey[]
+
+    it.each(LOCALES)('should define every message in %s', locale => {
+        expect(Object.keys(catalogs[locale]).sort()).toEqual([...keys].sort())
+        keys.forEach(key => {
+            expect(catalogs[locale][key].trim()).not.toBe('')
+        })
+    })
+
+    it.each(LOCALES)('should use the same parameters in %s', locale => {
+        keys.forEach(key => {
+            expect({ key, params: placeholders(catalogs[locale][key]) }).toEqual({ key, params: placeholders(catalogs.es[key]) })
+        })
+    })
+
+    it('should replace the parameters of a message', () => {
+        expect(t('validation.limitRange', { max: 100 }, 'es')).toBe('El límite debe estar entre 1 y 100')
+        expect(t('validation.limitRange', { max: 100 }, 'en')).toBe('The limit must be between 1 and 100')
+    })
+
+    it('should keep the original language of each message without a locale', () => {
+        expect(baselineLocale('errors.productNotFound')).toBe('en')
+        expect(baselineLocale('validation.invalidId')).toBe('en')
+        expect(baselineLocale('validation.productNameRequired')).toBe('es')
+        expect(t('errors.productNotFound')).toBe('Product not found')
+        expect(t('validation.limitRange', { max: 100 })).toBe('El límite debe estar entre 1 y 100')
+    })
+})
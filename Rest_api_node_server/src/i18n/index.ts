@@ -0,0 +1,41 @@
+import { Request } from "express";
+import es from "./locales/es";
+import en from "./locales/en";
+import { requestContext } from "../utils/context";
+import { defaultLocale } from "../config/i18n";
+
+// Mensajes de validación y de error en el idioma de cada petición
+
+export type MessageKey = keyof typeof es
+export type Catalog = Record<MessageKey, string>
+export type MessageParams = Record<string, string | number>
+
+export const catalogs = { es, en } satisfies Record<string, Catalog>
+
+export type Locale = keyof typeof catalogs
+export const LOCALES = Object.keys(catalogs) as Locale[]
+
+export const isLocale = (value: unknown) : value is Locale => LOCALES.includes(value as Locale)
+
+// Idioma de cada mensaje antes de traducirlos: los errores en inglés y las validaciones en español, salvo la del id.
+// Se mantiene para los clientes que no piden un idioma mientras no se configure DEFAULT_LOCALE
+export const baselineLocale = (key: MessageKey) : Locale => {
+    return key.startsWith('errors.') || key === 'validation.invalidId' ? 'en' : 'es'
+}
+
+// ?lang= tiene prioridad sobre Accept-Language, sin coincidencias se usa el idioma predeterminado si lo hay
+export const negotiateLocale = (req: Request) : Locale | undefined => {
+    if(isLocale(req.query.lang)) return req.query.lang
+    const accepted = req.get('Accept-Language') && req.acceptsLanguages(...LOCALES)
+    return isLocale(accepted) ? accepted : defaultLocale()
+}
+
+export const currentLocale = () => requestContext.getStore()?.locale ?? defaultLocale()
+
+// "Hasta {max} caracteres" con { max: 100 } => "Hasta 100 caracteres"
+export const t = (key: MessageKey, params: MessageParams = {}, locale = currentLocale()) => {
+    return catalogs[locale ?? baselineLocale(key)][key].replace(/\{(\w+)\}/g, (placeholder, name) => name in params ? String(params[name]) : placeholder)
+}
+
+// Para withMessage de express-validator: se traduce al validar, con el idioma de la petición
+export const message = (key: MessageKey, params?: MessageParams) => () => t(key, params)
@@ -0,0 +1,148 @@
+import { Catalog } from "..";
+
+const en : Catalog = {
+    // Validaciones comunes
+    'validation.invalidId': 'Invalid ID',
+    'validation.invalidValue': 'Invalid value',
+    'validation.invalidDate': 'Invalid date',
+    'validation.invalidFormat': 'Invalid format',
+    'validation.invalidCurrency': 'Invalid currency',
+    'validation.invalidPriceList': 'Invalid price list',
+    'validation.invalidPrice': 'Invalid price',
+    'validation.priceDecimals': 'The price allows up to {scale} decimals',
+    'validation.invalidPage': 'Invalid page',
+    'validation.limitRange': 'The limit must be between 1 and {max}',
+    'validation.invalidCursor': 'Invalid cursor',
+    'validation.invalidSort': 'Invalid sort field',
+    'validation.invalidInclude': 'Invalid relation',
+    'validation.invalidStatus': 'Invalid status',
+    'validation.nameRequired': 'The name is required',
+
+    // Productos
+    'validation.productNameRequired': 'The product name is required',
+    'validation.productNameTooLong': 'The product name allows up to {max} characters',
+    'validation.productPriceRequired': 'The product price is required',
+    'validation.invalidAvailability': 'Invalid value for availability',
+    'validation.invalidLowStockThreshold': 'Invalid stock threshold',
+    'validation.categoriesNotList': 'Categories must be a list',
+    'validation.invalidCategories': 'Invalid categories',
+    'validation.invalidMinPrice': 'Invalid minimum price',
+    'validation.invalidMaxPrice': 'Invalid maximum price',
+    'validation.searchRequired': 'The search is required',
+    'validation.searchTooLong': 'The search allows up to {max} characters',
+    'validation.invalidImportKey': 'Invalid lookup field',
+    'validation.invalidDryRun': 'Invalid value for dry run',
+    'validation.batchSize': 'Between 1 and {max} operations are required',
+    'validation.invalidOperation': 'Invalid operation',
+    'validation.invalidContinueOnError': 'Invalid value for continueOnError',
+    'validation.invalidIds': 'Invalid IDs',
+    'validation.invalidEventId': 'Invalid event ID',
+    'validation.invalidMovementType': 'Invalid movement type',
+    'validation.invalidQuantity': 'Invalid quantity',
+    'validation.reasonRequired': 'Adjustments require a reason',
+    'validation.invalidReason': 'Invalid reason',
+    'validation.invalidImageId': 'Invalid image ID',
+    'validation.invalidPosition': 'Invalid position',
+    'validation.invalidPrimary': 'Invalid value for primary image',
+
+    // Variantes y atributos
+    'validation.invalidVariantId': 'Invalid variant ID',
+    'validation.invalidSku': 'Invalid SKU',
+    'validation.invalidSkuPrefix': 'Invalid SKU prefix',
+    'validation.invalidOptions': 'The options must use existing attributes and their allowed values',
+    'validation.invalidSelection': 'Provide the allowed values of each attribute',
+    'validation.matrixSize': 'Up to {max} variants can be generated',
+    'validation.invalidAttributeName': 'The attribute name only accepts lowercase letters, numbers and underscores',
+    'validation.invalidAttributeValues': 'The values must be a list of distinct texts',
+
+    // Cambios programados
+    'validation.invalidScheduleId': 'Invalid scheduled change ID',
+    'validation.scheduleStartRequired': 'The start date is required',
+    'validation.invalidScheduleDate': 'Invalid date, use the ISO 8601 format',
+    'validation.scheduleStartInPast': 'The start date must be in the future',
+    'validation.scheduleEndBeforeStart': 'The end date must be after the start date',
+    'validation.scheduleChangeRequired': 'Provide the price, the availability or both',
+    'validation.invalidScheduleStatus': 'Invalid scheduled change status',
+
+    // Categorías
+    'validation.categoryNameRequired': 'The category name is required',
+    'validation.invalidParent': 'Invalid parent category',
+    'validation.parentNotFound': 'The parent category does not exist',
+    'validation.invalidTree': 'Invalid value for tree',
+    'validation.invalidDescendants': 'Invalid value for descendants',
+
+    // Tasas de cambio
+    'validation.baseCurrencyRate': 'The base currency has no exchange rate',
+    'validation.invalidRate': 'Invalid exchange rate',
+
+    // Usuarios
+    'validation.invalidEmail': 'Invalid email',
+    'validation.passwordRequired': 'The password is required',
+    'validation.passwordLength': 'The password must have at least {min} characters',
+    'validation.tokenRequired': 'The token is required',
+    'validation.invalidRole': 'Invalid role',
+
+    // Webhooks
+    'validation.invalidUrl': 'Invalid URL',
+    'validation.eventsRequired': 'At least one event is required',
+    'validation.invalidEvent': 'Invalid event',
+    'validation.secretLength': 'The secret must have between {min} and {max} characters',
+    'validation.invalidActive': 'Invalid value for active',
+
+    // API keys
+    'validation.invalidUser': 'Invalid user',
+    'validation.readLimit': 'The read limit must be a positive integer',
+    'validation.writeLimit': 'The write limit must be a positive integer',
+    'validation.dailyQuota': 'The daily quota must be a positive integer',
+
+    // Errores
+    'errors.validationFailed': 'The request contains invalid data',
+    'errors.notAuthenticated': 'Not authenticated',
+    'errors.notAuthorized': 'Not authorized',
+    'errors.preconditionFailed': 'Precondition failed',
+    'errors.routeNotFound': 'Cannot {method} {url}',
+    'errors.resourceExists': 'The resource already exists',
+    'errors.resourceReferenced': 'The resource is referenced by other records',
+    'errors.malformedJson': 'Malformed JSON body',
+    'errors.unexpected': 'An unexpected error occurred',
+    'errors.responseValidationFailed': 'The response does not match the API specification',
+    'errors.productNotFound': 'Product not found',
+    'errors.productNotInTrash': 'Product not found in trash',
+    'errors.revisionNotFound': 'Revision not found',
+    'errors.imageNotFound': 'Image not found',
+    'errors.imageRequired': 'An image file is required',
+    'errors.imageTooLarge': 'The image exceeds {size} bytes',
+    'errors.unsupportedImageType': 'Allowed image types: {types}',
+    'errors.invalidPosition': 'Invalid image position',
+    'errors.priceNotFound': 'Price not found',
+    'errors.variantNotFound': 'Variant not found',
+    'errors.skuTooLong': 'The SKU {sku} is longer than {max} characters',
+    'errors.scheduleNotFound': 'Scheduled change not found',
+    'errors.scheduleConflict': 'There is already a scheduled change of {fields} between those dates',
+    'errors.scheduleNotPending': 'Only scheduled changes that have not started can be cancelled',
+    'errors.attributeNotFound': 'Attribute not found',
+    'errors.attributeInUse': 'The attribute or its values are used by variants',
+    'errors.insufficientStock': 'Insufficient stock',
+    'errors.outOfStock': 'The product is out of stock and cannot be made available',
+    'errors.fileRequired': 'A CSV or JSON file is required',
+    'errors.invalidFile': 'Invalid {format} file, it could not be read after row {row}',
+    'errors.batchFailed': 'No operation was applied because at least one of them failed',
+    'errors.categoryNotFound': 'Category not found',
+    'errors.categoryCycle': "A category can't be nested inside itself",
+    'errors.categoryHasChildren': 'Category has subcategories',
+    'errors.exchangeRateNotFound': 'Exchange rate not found',
+    'errors.noExchangeRate': 'There is no exchange rate for {currency}',
+    'errors.userNotFound': 'User not found',
+    'errors.userAlreadyRegistered': 'User already registered',
+    'errors.invalidCredentials': 'Invalid credentials',
+    'errors.invalidRefreshToken': 'Invalid refresh token',
+    'errors.webhookNotFound': 'Webhook not found',
+    'errors.deliveryNotFound': 'Delivery not found',
+    'errors.apiKeyNotFound': 'API key not found',
+    'errors.invalidApiKey': 'Invalid or revoked API key',
+    'errors.readRateLimited': 'Rate limit of {limit} read requests per minute exceeded',
+    'errors.writeRateLimited': 'Rate limit of {limit} write requests per minute exceeded',
+    'errors.quotaExceeded': 'Daily quota of {quota} requests exceeded'
+}
+
+export default en
@@ -0,0 +1,147 @@
+// Catálogo de referencia: el resto de idiomas deben tener las mismas claves y los mismos parámetros
+const es = {
+    // Validaciones comunes
+    'validation.invalidId': 'ID no válido',
+    'validation.invalidValue': 'Valor no válido',
+    'validation.invalidDate': 'Fecha no válida',
+    'validation.invalidFormat': 'Formato no válido',
+    'validation.invalidCurrency': 'Moneda no válida',
+    'validation.invalidPriceList': 'Lista de precios no válida',
+    'validation.invalidPrice': 'Precio no válido',
+    'validation.priceDecimals': 'El precio admite hasta {scale} decimales',
+    'validation.invalidPage': 'Página no válida',
+    'validation.limitRange': 'El límite debe estar entre 1 y {max}',
+    'validation.invalidCursor': 'Cursor no válido',
+    'validation.invalidSort': 'Campo de ordenamiento no válido',
+    'validation.invalidInclude': 'Relación no válida',
+    'validation.invalidStatus': 'Estado no válido',
+    'validation.nameRequired': 'El nombre no puede ir vacio',
+
+    // Productos
+    'validation.productNameRequired': 'El nombre del Producto no puede ir vacio',
+    'validation.productNameTooLong': 'El nombre del Producto admite hasta {max} caracteres',
+    'validation.productPriceRequired': 'El precio del Producto no puede ir vacio',
+    'validation.invalidAvailability': 'Valor no válido para disponibilidad',
+    'validation.invalidLowStockThreshold': 'Umbral de stock no válido',
+    'validation.categoriesNotList': 'Las categorías deben ser una lista',
+    'validation.invalidCategories': 'Categorías no válidas',
+    'validation.invalidMinPrice': 'Precio mínimo no válido',
+    'validation.invalidMaxPrice': 'Precio máximo no válido',
+    'validation.searchRequired': 'La búsqueda no puede ir vacía',
+    'validation.searchTooLong': 'La búsqueda admite hasta {max} caracteres',
+    'validation.invalidImportKey': 'Campo de búsqueda no válido',
+    'validation.invalidDryRun': 'Valor no válido para simulación',
+    'validation.batchSize': 'Se requieren entre 1 y {max} operaciones',
+    'validation.invalidOperation': 'Operación no válida',
+    'validation.invalidContinueOnError': 'Valor no válido para continueOnError',
+    'validation.invalidIds': 'IDs no válidos',
+    'validation.invalidEventId': 'Id de evento no válido',
+    'validation.invalidMovementType': 'Tipo de movimiento no válido',
+    'validation.invalidQuantity': 'Cantidad no válida',
+    'validation.reasonRequired': 'Los ajustes requieren un motivo',
+    'validation.invalidReason': 'Motivo no válido',
+    'validation.invalidImageId': 'ID de imagen no válido',
+    'validation.invalidPosition': 'Posición no válida',
+    'validation.invalidPrimary': 'Valor no válido para imagen principal',
+
+    // Variantes y atributos
+    'validation.invalidVariantId': 'ID de variante no válido',
+    'validation.invalidSku': 'SKU no válido',
+    'validation.invalidSkuPrefix': 'Prefijo de SKU no válido',
+    'validation.invalidOptions': 'Las opciones deben usar atributos existentes y sus valores permitidos',
+    'validation.invalidSelection': 'Indique los valores permitidos de cada atributo',
+    'validation.matrixSize': 'Se pueden generar hasta {max} variantes',
+    'validation.invalidAttributeName': 'El nombre del atributo solo admite minúsculas, números y guiones bajos',
+    'validation.invalidAttributeValues': 'Los valores deben ser una lista de textos distintos',
+
+    // Cambios programados
+    'validation.invalidScheduleId': 'ID de cambio programado no válido',
+    'validation.scheduleStartRequired': 'La fecha de inicio no puede ir vacía',
+    'validation.invalidScheduleDate': 'Fecha no válida, use el formato ISO 8601',
+    'validation.scheduleStartInPast': 'La fecha de inicio debe ser futura',
+    'validation.scheduleEndBeforeStart': 'La fecha de fin debe ser posterior a la de inicio',
+    'validation.scheduleChangeRequired': 'Indique el precio, la disponibilidad o ambos',
+    'validation.invalidScheduleStatus': 'Estado de cambio programado no válido',
+
+    // Categorías
+    'validation.categoryNameRequired': 'El nombre de la Categoría no puede ir vacio',
+    'validation.invalidParent': 'Categoría padre no válida',
+    'validation.parentNotFound': 'La categoría padre no existe',
+    'validation.invalidTree': 'Valor no válido para árbol',
+    'validation.invalidDescendants': 'Valor no válido para subcategorías',
+
+    // Tasas de cambio
+    'validation.baseCurrencyRate': 'La moneda base no tiene tasa de cambio',
+    'validation.invalidRate': 'Tasa de cambio no válida',
+
+    // Usuarios
+    'validation.invalidEmail': 'Email no válido',
+    'validation.passwordRequired': 'El password no puede ir vacio',
+    'validation.passwordLength': 'El password debe tener al menos {min} caracteres',
+    'validation.tokenRequired': 'El token no puede ir vacio',
+    'validation.invalidRole': 'Rol no válido',
+
+    // Webhooks
+    'validation.invalidUrl': 'URL no válida',
+    'validation.eventsRequired': 'Debe indicar al menos un evento',
+    'validation.invalidEvent': 'Evento no válido',
+    'validation.secretLength': 'El secreto debe tener entre {min} y {max} caracteres',
+    'validation.invalidActive': 'Valor no válido para activo',
+
+    // API keys
+    'validation.invalidUser': 'Usuario no válido',
+    'validation.readLimit': 'El límite de lecturas debe ser un entero positivo',
+    'validation.writeLimit': 'El límite de escrituras debe ser un entero positivo',
+    'validation.dailyQuota': 'La cuota diaria debe ser un entero positivo',
+
+    // Errores
+    'errors.validationFailed': 'La petición contiene datos no válidos',
+    'errors.notAuthenticated': 'No autenticado',
+    'errors.notAuthorized': 'No autorizado',
+    'errors.preconditionFailed': 'La precondición no se cumple',
+    'errors.routeNotFound': 'No se puede {method} {url}',
+    'errors.resourceExists': 'El recurso ya existe',
+    'errors.resourceReferenced': 'El recurso está referenciado por otros registros',
+    'errors.malformedJson': 'El cuerpo JSON está mal formado',
+    'errors.unexpected': 'Ocurrió un error inesperado',
+    'errors.responseValidationFailed': 'La respuesta no cumple la especificación de la API',
+    'errors.productNotFound': 'Producto no encontrado',
+    'errors.productNotInTrash': 'El producto no está en la papelera',
+    'errors.revisionNotFound': 'Revisión no encontrada',
+    'errors.imageNotFound': 'Imagen no encontrada',
+    'errors.imageRequired': 'Se requiere un archivo de imagen',
+    'errors.imageTooLarge': 'La imagen supera los {size} bytes',
+    'errors.unsupportedImageType': 'Tipos de imagen permitidos: {types}',
+    'errors.invalidPosition': 'Posición de imagen no válida',
+    'errors.priceNotFound': 'Precio no encontrado',
+    'errors.variantNotFound': 'Variante no encontrada',
+    'errors.skuTooLong': 'El SKU {sku} supera los {max} caracteres',
+    'errors.scheduleNotFound': 'Cambio programado no encontrado',
+    'errors.scheduleConflict': 'Ya hay un cambio programado de {fields} entre esas fechas',
+    'errors.scheduleNotPending': 'Solo se pueden cancelar los cambios que todavía no empezaron',
+    'errors.attributeNotFound': 'Atributo no encontrado',
+    'errors.attributeInUse': 'El atributo o sus valores están en uso por variantes',
+    'errors.insufficientStock': 'Stock insuficiente',
+    'errors.outOfStock': 'El producto no tiene stock, no se puede marcar como disponible',
+    'errors.fileRequired': 'Se requiere un archivo CSV o JSON',
+    'errors.invalidFile': 'Archivo {format} no válido, no se pudo leer después de la fila {row}',
+    'errors.batchFailed': 'No se aplicó ninguna operación porque al menos una falló',
+    'errors.categoryNotFound': 'Categoría no encontrada',
+    'errors.categoryCycle': 'Una categoría no puede estar dentro de sí misma',
+    'errors.categoryHasChildren': 'La categoría tiene subcategorías',
+    'errors.exchangeRateNotFound': 'Tasa de cambio no encontrada',
+    'errors.noExchangeRate': 'No hay tasa de cambio para {currency}',
+    'errors.userNotFound': 'Usuario no encontrado',
+    'errors.userAlreadyRegistered': 'El usuario ya está registrado',
+    'errors.invalidCredentials': 'Credenciales no válidas',
+    'errors.invalidRefreshToken': 'Token de renovación no válido',
+    'errors.webhookNotFound': 'Webhook no encontrado',
+    'errors.deliveryNotFound': 'Entrega no encontrada',
+    'errors.apiKeyNotFound': 'API key no encontrada',
+    'errors.invalidApiKey': 'API key no válida o revocada',
+    'errors.readRateLimited': 'Se superó el límite de {limit} lecturas por minuto',
+    'errors.writeRateLimited': 'Se superó el límite de {limit} escrituras por minuto',
+    'errors.quotaExceeded': 'Se superó la cuota diaria de {quota} peticiones'
+}
+
+export default es
@@ -1,7 +1,63 @@
-import colors from 'colors';
-import server from "./server";
+import "./config/validate";
+import server, { connectDB } from "./server";
+import db from "./config/db";
+import { port, shutdownTimeout } from "./config/server";
+import { attachProductSocket } from "./handlers/stream";
+import { closeProductStreams } from "./services/productStream";
+import { startDeliveryWorker, stopDeliveryWorker } from "./services/webhook";
+import { startScheduleWorker, stopScheduleWorker } from "./services/schedule";
+import { isShuttingDown, markShuttingDown } from "./services/health";
+import { logger } from "./utils/logger";
 
-const port = process.env.PORT || 4000
-server.listen(4000, () => {
-    console.log(colors.cyan.bold(`REST API en el puerto ${port}`));
-});
\ No newline at end of file
+const start = async () => {
+    // Sin base de datos el servidor no arranca
+    await connectDB()
+
+    const httpServer = server.listen(port(), () => {
+        logger.info({ port: port() }, `REST API en el puerto ${port()}`)
+    })
+
+    // WebSocket de cambios de productos
+    attachProductSocket(httpServer)
+
+    // Entregas pendientes de webhooks
+    startDeliveryWorker()
+
+    // Cambios programados de precio y disponibilidad
+    startScheduleWorker()
+
+    // Deja de aceptar conexiones, espera las peticiones en curso y cierra el pool de la base
+    const shutdown = async (signal: string) => {
+        if(isShuttingDown()) return
+        markShuttingDown()
+        logger.info({ signal }, 'Apagando el servidor')
+
+        setTimeout(() => {
+            logger.error('Las peticiones en curso no terminaron a tiempo, se fuerza el cierre')
+            process.exit(1)
+        }, shutdownTimeout()).unref()
+
+        // Las conexiones de streaming no terminan solas
+        const closed = new Promise<void>((resolve, reject) => httpServer.close(error => error ? reject(error) : resolve()))
+        closeProductStreams()
+        await stopDeliveryWorker()
+        await stopScheduleWorker()
+        await closed
+        await db.close()
+
+        logger.info('Servidor detenido')
+        process.exit(0)
+    }
+
+    const onSignal = (signal: string) => shutdown(signal).catch(error => {
+        logger.error({ err: error }, 'Error al apagar el servidor')
+        process.exit(1)
+    })
+    process.on('SIGTERM', onSignal)
+    process.on('SIGINT', onSignal)
+}
+
+start().catch(error => {
+    logger.fatal({ err: error }, 'No se pudo iniciar el servidor')
+    process.exit(1)
+})
@@ -1,11 +1,264 @@
-import { Request, Response, NextFunction } from "express";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { randomUUID } from "node:crypto";
 import { validationResult } from "express-validator"
+import User, { Role } from "../models/User.model";
+import ApiKey, { RateLimitGroup } from "../models/ApiKey.model";
+import ApiKeyUsage from "../models/ApiKeyUsage.model";
+import { RATE_LIMIT_WINDOW, takeToken } from "../services/rateLimit";
+import { recordRequest } from "../services/metrics";
+import { logger } from "../utils/logger";
+import { verifyToken } from "../utils/jwt";
+import { requestContext } from "../utils/context";
+import { cache } from "../services/cache";
+import { catalogGeneration } from "../services/catalogCache";
+import { ForbiddenError, NotFoundError, ResponseValidationError, toAppError, TooManyRequestsError, UnauthorizedError, ValidationError } from "../utils/errors";
+import { negotiateLocale, t } from "../i18n";
+import { responseValidation } from "../config/openapi";
+import { validateResponse } from "../openapi/responses";
+import { HttpMethod, toSpecPath } from "../openapi/document";
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: User
+            apiKey?: ApiKey
+        }
+    }
+}
+
+// Express 4 no captura promesas rechazadas, se envían al middleware de errores
+export const asyncHandler = (handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>) : RequestHandler => {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next)
+    }
+}
 
 export const handleInputErrors = (req: Request, res: Response, next: NextFunction) => {
 
     let errors = validationResult(req)
     if(!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() })
+        return next(new ValidationError(errors.array()))
+    }
+    next()
+}
+
+// Ids de petición que se aceptan del cliente o de un proxy, si no se genera uno
+const REQUEST_ID = /^[\w.:-]{1,128}$/
+
+// Id de la petición e idioma negociado para los mensajes, el resto del contexto se completa al autenticar
+export const createRequestContext = (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('X-Request-Id')
+    const requestId = header && REQUEST_ID.test(header) ? header : randomUUID()
+    const locale = negotiateLocale(req)
+
+    // Sin idioma negociado los mensajes pueden mezclar idiomas, no se indica ninguno
+    res.set({ 'X-Request-Id': requestId, ...(locale && { 'Content-Language': locale }) }).vary('Accept-Language')
+    requestContext.run({ requestId, locale }, next)
+}
+
+// Express restaura req.baseUrl al salir de un router con un error, se guarda para las métricas
+export const recordMountPath = (req: Request, res: Response, next: NextFunction) => {
+    res.locals.mountPath = req.baseUrl
+    next()
+}
+
+// Plantilla de la ruta ("/api/products/:id") para no crear una serie por cada URL
+const routeLabel = (req: Request, res: Response) => {
+    if(!req.route) return 'unmatched'
+    const mountPath = res.locals.mountPath ?? req.baseUrl
+    return req.route.path === '/' && mountPath ? mountPath : `${mountPath}${req.route.path}`
+}
+
+// Log de acceso y métricas de cada petición, al terminar la respuesta o cerrarse la conexión
+export const observeRequests = (req: Request, res: Response, next: NextFunction) => {
+    const start = process.hrtime.bigint()
+    const requestId = requestContext.getStore()?.requestId
+
+    res.on('close', () => {
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9
+        const status = res.writableFinished ? res.statusCode : 499
+        recordRequest(req.method, routeLabel(req, res), status, seconds)
+
+        const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info'
+        logger[level]({
+            requestId,
+            method: req.method,
+            url: req.originalUrl,
+            route: routeLabel(req, res),
+            status,
+            durationMs: Math.round(seconds * 1e6) / 1e3,
+            userId: req.user?.id,
+            apiKeyId: req.apiKey?.id,
+            ip: req.ip,
+            userAgent: req.get('User-Agent')
+        }, 'request completed')
+    })
+    next()
+}
+
+const setUser = (req: Request, user: User) => {
+    req.user = user
+    const context = requestContext.getStore()
+    if(context) context.user = user
+}
+
+// Usuario del header Authorization o dueño de la API key, null si no hay credenciales válidas
+export const userFromRequest = async (req: Request) => {
+    if(req.apiKey) return req.user ?? null
+
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ')
+    const payload = scheme === 'Bearer' && token ? verifyToken(token, 'access') : null
+
+    // Se consulta el usuario para respetar cambios de rol o cuentas eliminadas
+    const user = payload && await User.findByPk(payload.id)
+    if(user) setUser(req, user)
+    return user ?? null
+}
+
+// Clientes que se identifican con el header X-API-Key, sin él la petición sigue como anónima o con JWT
+export const identifyClient = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get('X-API-Key')
+    if(!key) return next()
+
+    const apiKey = await ApiKey.findByKey(key)
+    if(!apiKey) {
+        throw new UnauthorizedError(t('errors.invalidApiKey'), 'INVALID_API_KEY')
+    }
+    req.apiKey = apiKey
+    setUser(req, apiKey.user)
+    next()
+})
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Segundos hasta la medianoche UTC, cuando se reinicia la cuota diaria
+const secondsUntilTomorrow = () => {
+    const tomorrow = new Date()
+    tomorrow.setUTCHours(24, 0, 0, 0)
+    return Math.ceil((tomorrow.getTime() - Date.now()) / 1000)
+}
+
+// Límites por minuto separados para lecturas y escrituras, y cuota diaria de cada API key
+export const rateLimit = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { apiKey } = req
+    if(!apiKey) return next()
+
+    const group : RateLimitGroup = READ_METHODS.includes(req.method) ? 'read' : 'write'
+    const { allowed, limit, remaining, reset, retryAfter } = takeToken(`${apiKey.id}:${group}`, apiKey.rateLimit(group))
+    res.set({
+        'RateLimit-Limit': String(limit),
+        'RateLimit-Remaining': String(remaining),
+        'RateLimit-Reset': String(reset),
+        'RateLimit-Policy': `${limit};w=${RATE_LIMIT_WINDOW}`
+    })
+    if(!allowed) {
+        res.set('Retry-After', String(retryAfter))
+        throw new TooManyRequestsError(t(group === 'read' ? 'errors.readRateLimited' : 'errors.writeRateLimited', { limit }))
+    }
+
+    if(!await ApiKeyUsage.track(apiKey.id, apiKey.quota())) {
+        res.set('Retry-After', String(secondsUntilTomorrow()))
+        throw new TooManyRequestsError(t('errors.quotaExceeded', { quota: apiKey.quota() }), 'QUOTA_EXCEEDED')
+    }
+    next()
+})
+
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    if(!await userFromRequest(req)) {
+        throw new UnauthorizedError()
+    }
+    next()
+})
+
+export const authorize = (...roles: Role[]) => (req: Request, res: Response, next: NextFunction) => {
+    if(!req.user || !roles.includes(req.user.role)) {
+        return next(new ForbiddenError())
+    }
+    next()
+}
+
+type CachedResponse = {
+    body: string
+    headers: Record<string, string>
+}
+
+// Headers de la respuesta original que se repiten en cada acierto (validación condicional)
+const CACHED_HEADERS = ['ETag', 'Last-Modified']
+
+// Guarda las respuestas 200 de lectura del catálogo, la clave incluye los parámetros de la query ordenados
+export const cacheCatalog = (ttl: () => number) => asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const query = new URLSearchParams(
+        Object.entries(req.query)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, value]) : [string, string] => [key, String(value)])
+    )
+    const key = `catalog:${await catalogGeneration()}:${req.baseUrl}${req.path}?${query}`
+
+    const cached = await cache().get<CachedResponse>(key)
+    if(cached) {
+        // send() responde 304 si coincide If-None-Match o If-Modified-Since
+        return res.set('X-Cache', 'HIT').set(cached.headers).type('json').send(cached.body)
+    }
+
+    res.set('X-Cache', 'MISS')
+    const json = res.json.bind(res)
+    res.json = (data: unknown) => {
+        if(res.statusCode === 200) {
+            const headers = Object.fromEntries(CACHED_HEADERS.filter(header => res.get(header)).map(header => [header, res.get(header)]))
+            cache().set(key, { body: JSON.stringify(data), headers }, ttl()).catch(error => logger.error({ err: error }, 'cache write failed'))
+        }
+        return json(data)
     }
     next()
-}
\ No newline at end of file
+})
+
+// Compara las respuestas JSON exitosas con la especificación OpenAPI, según RESPONSE_VALIDATION
+export const validateResponses = (req: Request, res: Response, next: NextFunction) => {
+    const mode = responseValidation()
+    if(mode === 'off') return next()
+
+    const json = res.json.bind(res)
+    res.json = (data: unknown) => {
+        if(res.statusCode < 200 || res.statusCode >= 300 || typeof req.route?.path !== 'string') {
+            return json(data)
+        }
+        const method = req.method.toLowerCase() as HttpMethod
+        const path = toSpecPath(req.baseUrl + req.route.path)
+        const errors = validateResponse(method, path, res.statusCode, data)
+        if(!errors.length) {
+            return json(data)
+        }
+        if(mode === 'warn') {
+            logger.warn({ method, path, status: res.statusCode, errors }, 'response does not match the OpenAPI spec')
+            return json(data)
+        }
+        next(new ResponseValidationError(errors))
+        return res
+    }
+    next()
+}
+
+export const notFound = (req: Request, res: Response, next: NextFunction) => {
+    next(new NotFoundError(t('errors.routeNotFound', { method: req.method, url: req.originalUrl }), 'ROUTE_NOT_FOUND'))
+}
+
+// Todas las respuestas de error usan application/problem+json (RFC 7807)
+export const errorHandler = (error: unknown, req: Request, res: Response, next: NextFunction) => {
+    // Si la respuesta ya comenzó (descargas en streaming) Express cierra la conexión
+    if(res.headersSent) {
+        return next(error)
+    }
+
+    const problem = toAppError(error)
+    res.status(problem.status)
+        .type('application/problem+json')
+        .json({
+            type: 'about:blank',
+            title: problem.title,
+            status: problem.status,
+            detail: problem.message,
+            instance: req.originalUrl,
+            code: problem.code,
+            ...problem.extensions
+        })
+}
@@ -0,0 +1,34 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('products', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        name: {
+            type: DataTypes.STRING(100)
+        },
+        price: {
+            type: DataTypes.FLOAT
+        },
+        availability: {
+            type: DataTypes.BOOLEAN,
+            defaultValue: true
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('products')
+}
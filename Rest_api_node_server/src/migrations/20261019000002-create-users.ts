@@ -0,0 +1,40 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('users', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        name: {
+            type: DataTypes.STRING(100)
+        },
+        email: {
+            type: DataTypes.STRING(100),
+            unique: true
+        },
+        password: {
+            type: DataTypes.STRING(60)
+        },
+        role: {
+            type: DataTypes.ENUM('admin', 'editor', 'viewer'),
+            defaultValue: 'viewer'
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    // Con opciones, Postgres también elimina los ENUM del modelo asociado a la tabla
+    await queryInterface.dropTable('users', {})
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_users_role"')
+}
@@ -0,0 +1,51 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('categories', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        name: {
+            type: DataTypes.STRING(100)
+        },
+        parentId: {
+            type: DataTypes.INTEGER,
+            references: { model: 'categories', key: 'id' },
+            onDelete: 'RESTRICT',
+            onUpdate: 'CASCADE'
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    await queryInterface.createTable('product_categories', {
+        productId: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            references: { model: 'products', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        categoryId: {
+            type: DataTypes.INTEGER,
+            primaryKey: true,
+            references: { model: 'categories', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('product_categories')
+    await queryInterface.dropTable('categories')
+}
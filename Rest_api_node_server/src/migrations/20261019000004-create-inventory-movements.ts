@@ -0,0 +1,59 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.addColumn('products', 'stock', {
+        type: DataTypes.INTEGER,
+        defaultValue: 0
+    })
+    await queryInterface.addColumn('products', 'lowStockThreshold', {
+        type: DataTypes.INTEGER
+    })
+
+    await queryInterface.createTable('inventory_movements', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        productId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: { model: 'products', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        type: {
+            type: DataTypes.ENUM('receipt', 'sale', 'adjustment', 'return'),
+            allowNull: false
+        },
+        quantity: {
+            type: DataTypes.INTEGER,
+            allowNull: false
+        },
+        stockAfter: {
+            type: DataTypes.INTEGER,
+            allowNull: false
+        },
+        reason: {
+            type: DataTypes.STRING(255)
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+            onUpdate: 'CASCADE'
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('inventory_movements', {})
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_inventory_movements_type"')
+    await queryInterface.removeColumn('products', 'lowStockThreshold')
+    await queryInterface.removeColumn('products', 'stock')
+}
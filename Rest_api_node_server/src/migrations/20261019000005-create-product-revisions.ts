@@ -0,0 +1,46 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    // productId sin llave foránea: el historial sobrevive a la eliminación del producto
+    await queryInterface.createTable('product_revisions', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        productId: {
+            type: DataTypes.INTEGER,
+            allowNull: false
+        },
+        action: {
+            type: DataTypes.ENUM('create', 'update', 'availability', 'delete', 'restore', 'purge'),
+            allowNull: false
+        },
+        before: {
+            type: DataTypes.JSONB
+        },
+        after: {
+            type: DataTypes.JSONB
+        },
+        changes: {
+            type: DataTypes.JSONB,
+            allowNull: false
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+            onUpdate: 'CASCADE'
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('product_revisions', {})
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_product_revisions_action"')
+}
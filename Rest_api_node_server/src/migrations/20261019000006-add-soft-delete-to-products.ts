@@ -0,0 +1,12 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.addColumn('products', 'deletedAt', {
+        type: DataTypes.DATE
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.removeColumn('products', 'deletedAt')
+}
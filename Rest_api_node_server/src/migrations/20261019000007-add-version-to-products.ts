@@ -0,0 +1,14 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.addColumn('products', 'version', {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.removeColumn('products', 'version')
+}
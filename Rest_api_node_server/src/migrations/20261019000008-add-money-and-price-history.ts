@@ -0,0 +1,129 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    // FLOAT => DECIMAL exacto, los valores existentes se redondean a 2 decimales
+    await queryInterface.changeColumn('products', 'price', {
+        type: DataTypes.DECIMAL(12, 2)
+    })
+    await queryInterface.addColumn('products', 'currency', {
+        type: DataTypes.CHAR(3),
+        allowNull: false,
+        defaultValue: 'USD'
+    })
+
+    await queryInterface.createTable('product_prices', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        productId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: { model: 'products', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        priceList: {
+            type: DataTypes.STRING(50),
+            allowNull: false
+        },
+        currency: {
+            type: DataTypes.CHAR(3),
+            allowNull: false
+        },
+        amount: {
+            type: DataTypes.DECIMAL(12, 2),
+            allowNull: false
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+    await queryInterface.addIndex('product_prices', ['productId', 'priceList', 'currency'], { unique: true })
+
+    await queryInterface.createTable('exchange_rates', {
+        currency: {
+            type: DataTypes.CHAR(3),
+            primaryKey: true
+        },
+        rate: {
+            type: DataTypes.DECIMAL(18, 8),
+            allowNull: false
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    // productId sin llave foránea: el historial sobrevive a la eliminación del producto
+    await queryInterface.createTable('price_history', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        productId: {
+            type: DataTypes.INTEGER,
+            allowNull: false
+        },
+        priceList: {
+            type: DataTypes.STRING(50),
+            allowNull: false
+        },
+        currency: {
+            type: DataTypes.CHAR(3),
+            allowNull: false
+        },
+        amount: {
+            type: DataTypes.DECIMAL(12, 2),
+            allowNull: false
+        },
+        effectiveFrom: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        effectiveTo: {
+            type: DataTypes.DATE
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+            onUpdate: 'CASCADE'
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    // Los precios actuales rigen desde la última modificación del producto
+    await queryInterface.sequelize.query(`
+        INSERT INTO price_history ("productId", "priceList", currency, amount, "effectiveFrom", "createdAt")
+        SELECT id, 'default', currency, price, "updatedAt", NOW()
+        FROM products
+        WHERE price IS NOT NULL
+    `)
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('price_history')
+    await queryInterface.dropTable('exchange_rates')
+    await queryInterface.dropTable('product_prices')
+    await queryInterface.removeColumn('products', 'currency')
+    await queryInterface.changeColumn('products', 'price', {
+        type: DataTypes.FLOAT
+    })
+}
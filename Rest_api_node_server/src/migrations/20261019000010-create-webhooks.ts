@@ -0,0 +1,99 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('webhooks', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        url: {
+            type: DataTypes.STRING(2048),
+            allowNull: false
+        },
+        events: {
+            type: DataTypes.ARRAY(DataTypes.STRING(50)),
+            allowNull: false
+        },
+        secret: {
+            type: DataTypes.STRING(100),
+            allowNull: false
+        },
+        active: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: true
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    await queryInterface.createTable('webhook_deliveries', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        webhookId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: { model: 'webhooks', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        event: {
+            type: DataTypes.STRING(50),
+            allowNull: false
+        },
+        payload: {
+            type: DataTypes.JSONB,
+            allowNull: false
+        },
+        status: {
+            type: DataTypes.ENUM('pending', 'succeeded', 'failed'),
+            allowNull: false,
+            defaultValue: 'pending'
+        },
+        attempts: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0
+        },
+        nextAttemptAt: {
+            type: DataTypes.DATE
+        },
+        lastAttemptAt: {
+            type: DataTypes.DATE
+        },
+        responseStatus: {
+            type: DataTypes.INTEGER
+        },
+        error: {
+            type: DataTypes.TEXT
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    // El worker busca las entregas pendientes cuyo próximo intento ya venció
+    await queryInterface.addIndex('webhook_deliveries', ['status', 'nextAttemptAt'])
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('webhook_deliveries', {})
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_webhook_deliveries_status"')
+    await queryInterface.dropTable('webhooks')
+}
@@ -0,0 +1,40 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    const query = (sql: string) => queryInterface.sequelize.query(sql)
+
+    await query('CREATE EXTENSION IF NOT EXISTS unaccent')
+    await query('CREATE EXTENSION IF NOT EXISTS pg_trgm')
+
+    // Configuración en español que ignora acentos: "cámara" y "camara" generan el mismo lexema
+    await query('DROP TEXT SEARCH CONFIGURATION IF EXISTS product_search')
+    await query('CREATE TEXT SEARCH CONFIGURATION product_search (COPY = spanish)')
+    await query('ALTER TEXT SEARCH CONFIGURATION product_search ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem')
+
+    // unaccent() no es IMMUTABLE, con el diccionario explícito sí puede usarse en índices
+    await query(`
+        CREATE OR REPLACE FUNCTION product_search_text(value text) RETURNS text AS $$
+            SELECT lower(public.unaccent('public.unaccent'::regdictionary, value))
+        $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+    `)
+
+    // Postgres mantiene la columna en cada INSERT y UPDATE. Los acentos se quitan antes
+    // de analizar el texto porque con el locale C el parser parte las palabras acentuadas
+    await query(`
+        ALTER TABLE products ADD COLUMN "searchVector" tsvector
+            GENERATED ALWAYS AS (to_tsvector('product_search', coalesce(product_search_text(name), ''))) STORED
+    `)
+    await query('CREATE INDEX products_search_vector ON products USING GIN ("searchVector")')
+    await query('CREATE INDEX products_name_trigram ON products USING GIN (product_search_text(name) gin_trgm_ops)')
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    const query = (sql: string) => queryInterface.sequelize.query(sql)
+
+    await query('DROP INDEX IF EXISTS products_name_trigram')
+    await query('DROP INDEX IF EXISTS products_search_vector')
+    await queryInterface.removeColumn('products', 'searchVector')
+    await query('DROP FUNCTION IF EXISTS product_search_text(text)')
+    await query('DROP TEXT SEARCH CONFIGURATION IF EXISTS product_search')
+}
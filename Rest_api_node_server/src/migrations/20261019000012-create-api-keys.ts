@@ -0,0 +1,78 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('api_keys', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        name: {
+            type: DataTypes.STRING(100),
+            allowNull: false
+        },
+        prefix: {
+            type: DataTypes.STRING(20),
+            allowNull: false
+        },
+        keyHash: {
+            type: DataTypes.STRING(64),
+            allowNull: false,
+            unique: true
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        readLimit: {
+            type: DataTypes.INTEGER
+        },
+        writeLimit: {
+            type: DataTypes.INTEGER
+        },
+        dailyQuota: {
+            type: DataTypes.INTEGER
+        },
+        revokedAt: {
+            type: DataTypes.DATE
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    await queryInterface.createTable('api_key_usage', {
+        apiKeyId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            primaryKey: true,
+            references: { model: 'api_keys', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        date: {
+            type: DataTypes.DATEONLY,
+            allowNull: false,
+            primaryKey: true
+        },
+        requests: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0
+        }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('api_key_usage')
+    await queryInterface.dropTable('api_keys')
+}
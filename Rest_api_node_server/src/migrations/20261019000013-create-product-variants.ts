@@ -0,0 +1,77 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('attributes', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        name: {
+            type: DataTypes.STRING(50),
+            allowNull: false,
+            unique: true
+        },
+        values: {
+            type: DataTypes.ARRAY(DataTypes.STRING(50)),
+            allowNull: false
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    await queryInterface.createTable('product_variants', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        productId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: { model: 'products', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        sku: {
+            type: DataTypes.STRING(64),
+            allowNull: false,
+            unique: true
+        },
+        options: {
+            type: DataTypes.JSONB,
+            allowNull: false
+        },
+        price: {
+            type: DataTypes.DECIMAL(12, 2)
+        },
+        availability: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: true
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    // jsonb se compara sin importar el orden de las claves, una combinación de valores por producto
+    await queryInterface.addIndex('product_variants', ['productId', 'options'], { unique: true })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('product_variants')
+    await queryInterface.dropTable('attributes')
+}
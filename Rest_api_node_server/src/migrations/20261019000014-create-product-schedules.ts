@@ -0,0 +1,72 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.createTable('product_schedules', {
+        id: {
+            type: DataTypes.INTEGER,
+            autoIncrement: true,
+            primaryKey: true
+        },
+        productId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            references: { model: 'products', key: 'id' },
+            onDelete: 'CASCADE',
+            onUpdate: 'CASCADE'
+        },
+        price: {
+            type: DataTypes.DECIMAL(12, 2)
+        },
+        availability: {
+            type: DataTypes.BOOLEAN
+        },
+        startsAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        endsAt: {
+            type: DataTypes.DATE
+        },
+        status: {
+            type: DataTypes.ENUM('pending', 'active', 'completed', 'cancelled', 'expired'),
+            allowNull: false,
+            defaultValue: 'pending'
+        },
+        previousPrice: {
+            type: DataTypes.DECIMAL(12, 2)
+        },
+        previousAvailability: {
+            type: DataTypes.BOOLEAN
+        },
+        appliedAt: {
+            type: DataTypes.DATE
+        },
+        revertedAt: {
+            type: DataTypes.DATE
+        },
+        userId: {
+            type: DataTypes.INTEGER,
+            references: { model: 'users', key: 'id' },
+            onDelete: 'SET NULL',
+            onUpdate: 'CASCADE'
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false
+        }
+    })
+
+    // El worker busca los cambios pendientes y activos por fecha
+    await queryInterface.addIndex('product_schedules', ['status', 'startsAt'])
+    await queryInterface.addIndex('product_schedules', ['productId', 'status'])
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.dropTable('product_schedules')
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_product_schedules_status"')
+}
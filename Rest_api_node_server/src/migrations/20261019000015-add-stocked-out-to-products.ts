@@ -0,0 +1,21 @@
+import { DataTypes, QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import { defaultLowStockThreshold } from '../config/inventory'
+
+export const up: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.addColumn('products', 'stockedOut', {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+    })
+
+    // Hasta ahora la disponibilidad de un producto sin stock solo se desactivaba por el stock
+    await queryInterface.sequelize.query(`
+        UPDATE products SET "stockedOut" = true
+        WHERE NOT availability AND stock <= COALESCE("lowStockThreshold", :threshold)
+    `, { replacements: { threshold: defaultLowStockThreshold() } })
+}
+
+export const down: MigrationFn<QueryInterface> = async ({ context: queryInterface }) => {
+    await queryInterface.removeColumn('products', 'stockedOut')
+}
@@ -0,0 +1,101 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, HasMany } from "sequelize-typescript";
+import { createHash, randomBytes } from "node:crypto";
+import User from "./User.model";
+import ApiKeyUsage from "./ApiKeyUsage.model";
+import { defaultDailyQuota, defaultReadLimit, defaultWriteLimit } from "../config/rateLimit";
+
+export type RateLimitGroup = 'read' | 'write'
+
+// Solo se guarda el hash, la clave completa se muestra una única vez al emitirla
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex')
+
+@Table({
+    tableName: 'api_keys'
+})
+
+class ApiKey extends Model {
+    @Column({
+        type: DataType.STRING(100),
+        allowNull: false
+    })
+    declare name: string
+
+    // Inicio de la clave para reconocerla en los listados
+    @Column({
+        type: DataType.STRING(20),
+        allowNull: false
+    })
+    declare prefix: string
+
+    @Column({
+        type: DataType.STRING(64),
+        allowNull: false,
+        unique: true
+    })
+    declare keyHash: string
+
+    // Las peticiones con la clave se autentican como este usuario
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare userId: number
+
+    @BelongsTo(() => User, { onDelete: 'CASCADE' })
+    declare user: User
+
+    // Peticiones por minuto, null usa el límite predeterminado
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare readLimit: number | null
+
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare writeLimit: number | null
+
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare dailyQuota: number | null
+
+    @Column({
+        type: DataType.DATE
+    })
+    declare revokedAt: Date | null
+
+    @HasMany(() => ApiKeyUsage)
+    declare usage: ApiKeyUsage[]
+
+    rateLimit(group: RateLimitGroup) {
+        return group === 'read' ? this.readLimit ?? defaultReadLimit() : this.writeLimit ?? defaultWriteLimit()
+    }
+
+    quota() {
+        return this.dailyQuota ?? defaultDailyQuota()
+    }
+
+    toJSON() {
+        const { keyHash, ...apiKey } = this.get()
+        return apiKey
+    }
+
+    // Devuelve la clave en texto plano junto al registro, no se puede recuperar después
+    static async issue(attributes: Partial<Pick<ApiKey, 'name' | 'userId' | 'readLimit' | 'writeLimit' | 'dailyQuota'>>) {
+        const key = `pk_${randomBytes(24).toString('base64url')}`
+        const apiKey = await ApiKey.create({ ...attributes, prefix: key.slice(0, 11), keyHash: hashKey(key) })
+        return { apiKey, key }
+    }
+
+    // Clave vigente con su usuario, null si no existe o fue revocada
+    static findByKey(key: string) {
+        return ApiKey.findOne({
+            where: { keyHash: hashKey(key), revokedAt: null },
+            include: [User]
+        })
+    }
+}
+
+export default ApiKey;
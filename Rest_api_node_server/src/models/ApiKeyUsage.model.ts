@@ -0,0 +1,48 @@
+import { Table, Column, Model, DataType, Default, ForeignKey, BelongsTo, PrimaryKey } from "sequelize-typescript";
+import { QueryTypes } from "sequelize";
+import ApiKey from "./ApiKey.model";
+
+// Peticiones de cada API key por día (UTC)
+@Table({
+    tableName: 'api_key_usage',
+    timestamps: false
+})
+
+class ApiKeyUsage extends Model {
+    @PrimaryKey
+    @ForeignKey(() => ApiKey)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare apiKeyId: number
+
+    @BelongsTo(() => ApiKey, { onDelete: 'CASCADE' })
+    declare apiKey: ApiKey
+
+    @PrimaryKey
+    @Column({
+        type: DataType.DATEONLY
+    })
+    declare date: string
+
+    @Default(0)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare requests: number
+
+    // Suma la petición si no se superó la cuota diaria (0 sin límite), false si se rechaza
+    static async track(apiKeyId: number, quota: number) {
+        const rows = await ApiKeyUsage.sequelize!.query(`
+            INSERT INTO api_key_usage ("apiKeyId", "date", "requests")
+            VALUES (:apiKeyId, (now() AT TIME ZONE 'UTC')::date, 1)
+            ON CONFLICT ("apiKeyId", "date") DO UPDATE
+                SET "requests" = api_key_usage."requests" + 1
+                WHERE :quota = 0 OR api_key_usage."requests" < :quota
+            RETURNING "requests"
+        `, { replacements: { apiKeyId, quota }, type: QueryTypes.SELECT })
+        return rows.length > 0
+    }
+}
+
+export default ApiKeyUsage;
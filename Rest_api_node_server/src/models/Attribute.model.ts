@@ -0,0 +1,40 @@
+import { Table, Column, Model, DataType } from "sequelize-typescript";
+import { Op } from "sequelize";
+import ProductVariant, { AttributeSelection } from "./ProductVariant.model";
+
+// Atributos configurables de las variantes (talla, color...) con sus valores permitidos
+@Table({
+    tableName: 'attributes'
+})
+
+class Attribute extends Model {
+    // Clave de las opciones de cada variante: { "size": "27", "color": "black" }
+    @Column({
+        type: DataType.STRING(50),
+        allowNull: false,
+        unique: true
+    })
+    declare name: string
+
+    @Column({
+        type: DataType.ARRAY(DataType.STRING(50)),
+        allowNull: false
+    })
+    declare values: string[]
+
+    // Cada clave es un atributo existente y cada valor uno de sus valores permitidos
+    static async allowsValues(selection: AttributeSelection) {
+        const names = Object.keys(selection)
+        const attributes = await Attribute.findAll({ where: { name: names } })
+        return attributes.length === names.length && attributes.every(attribute => selection[attribute.name].every(value => attribute.values.includes(value)))
+    }
+
+    // Variantes que usan el atributo, o solo alguno de los valores indicados
+    countVariants(values?: string[]) {
+        return ProductVariant.count({
+            where: { options: { [this.name]: values ? { [Op.in]: values } : { [Op.ne]: null } } }
+        })
+    }
+}
+
+export default Attribute;
@@ -0,0 +1,43 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, HasMany, BelongsToMany } from "sequelize-typescript";
+import Product from "./Product.model";
+import ProductCategory from "./ProductCategory.model";
+
+@Table({
+    tableName: 'categories'
+})
+
+class Category extends Model {
+    @Column({
+        type: DataType.STRING(100)
+    })
+    declare name: string
+
+    @ForeignKey(() => Category)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare parentId: number | null
+
+    @BelongsTo(() => Category, { foreignKey: 'parentId', onDelete: 'RESTRICT' })
+    declare parent: Category
+
+    @HasMany(() => Category, 'parentId')
+    declare children: Category[]
+
+    @BelongsToMany(() => Product, () => ProductCategory)
+    declare products: Product[]
+
+    // Devuelve los ids de la categoría y de todas sus subcategorías
+    static async getDescendantIds(id: number) {
+        const categories = await Category.findAll({ attributes: ['id', 'parentId'] })
+        const ids = [Number(id)]
+        for(let i = 0; i < ids.length; i++) {
+            categories
+                .filter(category => category.parentId === ids[i])
+                .forEach(category => ids.push(category.id))
+        }
+        return ids
+    }
+}
+
+export default Category;
@@ -0,0 +1,24 @@
+import { Table, Column, Model, DataType, PrimaryKey } from "sequelize-typescript";
+import { decimalAccessors, RATE_SCALE } from "../utils/money";
+
+// Tasas locales: unidades de la moneda por cada unidad de la moneda base
+@Table({
+    tableName: 'exchange_rates'
+})
+
+class ExchangeRate extends Model {
+    @PrimaryKey
+    @Column({
+        type: DataType.CHAR(3)
+    })
+    declare currency: string
+
+    @Column({
+        type: DataType.DECIMAL(18, RATE_SCALE),
+        allowNull: false,
+        ...decimalAccessors('rate', RATE_SCALE)
+    })
+    declare rate: number
+}
+
+export default ExchangeRate;
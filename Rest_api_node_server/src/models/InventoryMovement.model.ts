@@ -0,0 +1,67 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, BeforeUpdate, BeforeDestroy, BeforeBulkUpdate, BeforeBulkDestroy } from "sequelize-typescript";
+import Product from "./Product.model";
+import User from "./User.model";
+
+export const MOVEMENT_TYPES = ['receipt', 'sale', 'adjustment', 'return'] as const
+export type MovementType = typeof MOVEMENT_TYPES[number]
+
+@Table({
+    tableName: 'inventory_movements',
+    updatedAt: false
+})
+
+class InventoryMovement extends Model {
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { onDelete: 'CASCADE' })
+    declare product: Product
+
+    @Column({
+        type: DataType.ENUM(...MOVEMENT_TYPES),
+        allowNull: false
+    })
+    declare type: MovementType
+
+    // Cantidad con signo: positiva suma stock, negativa lo descuenta
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare quantity: number
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare stockAfter: number
+
+    @Column({
+        type: DataType.STRING(255)
+    })
+    declare reason: string
+
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare userId: number
+
+    @BelongsTo(() => User, { onDelete: 'SET NULL' })
+    declare user: User
+
+    // El ledger es de solo escritura, los errores se corrigen con un nuevo movimiento
+    @BeforeUpdate
+    @BeforeDestroy
+    @BeforeBulkUpdate
+    @BeforeBulkDestroy
+    static preventChanges() {
+        throw new Error('Inventory movements are append-only')
+    }
+}
+
+export default InventoryMovement;
@@ -0,0 +1,104 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo } from "sequelize-typescript";
+import { Op, Transaction } from "sequelize";
+import Product from "./Product.model";
+import User from "./User.model";
+import { getCurrentUser } from "../utils/context";
+import { decimalAccessors, toDecimal } from "../utils/money";
+
+// Lista a la que pertenece el precio principal del producto (products.price)
+export const BASE_PRICE_LIST = 'default'
+
+@Table({
+    tableName: 'price_history',
+    updatedAt: false
+})
+
+class PriceHistory extends Model {
+    // Sin restricción de llave foránea para conservar el historial de productos eliminados
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { constraints: false })
+    declare product: Product
+
+    @Column({
+        type: DataType.STRING(50),
+        allowNull: false
+    })
+    declare priceList: string
+
+    @Column({
+        type: DataType.CHAR(3),
+        allowNull: false
+    })
+    declare currency: string
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+        ...decimalAccessors('amount')
+    })
+    declare amount: number
+
+    // El precio rige desde effectiveFrom (incluido) hasta effectiveTo (excluido)
+    @Column({
+        type: DataType.DATE,
+        allowNull: false
+    })
+    declare effectiveFrom: Date
+
+    @Column({
+        type: DataType.DATE
+    })
+    declare effectiveTo: Date | null
+
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare userId: number
+
+    @BelongsTo(() => User, { onDelete: 'SET NULL' })
+    declare user: User
+
+    // Cierra el precio vigente y abre uno nuevo; amount null indica que el precio dejó de existir
+    static async record(productId: number, priceList: string, currency: string, amount: number | null, transaction?: Transaction) {
+        const current = await PriceHistory.findOne({
+            where: { productId, priceList, currency, effectiveTo: null },
+            transaction
+        })
+        if(current && toDecimal(current.amount) === toDecimal(amount)) return
+
+        const now = new Date()
+        if(current) {
+            await current.update({ effectiveTo: now }, { transaction })
+        }
+        if(amount !== null) {
+            await PriceHistory.create({
+                productId,
+                priceList,
+                currency,
+                amount,
+                effectiveFrom: now,
+                userId: getCurrentUser()?.id
+            }, { transaction })
+        }
+    }
+
+    // Precios que regían en una fecha
+    static effectiveAt(date: Date) {
+        return {
+            effectiveFrom: { [Op.lte]: date },
+            [Op.or]: [
+                { effectiveTo: null },
+                { effectiveTo: { [Op.gt]: date } }
+            ]
+        }
+    }
+}
+
+export default PriceHistory;
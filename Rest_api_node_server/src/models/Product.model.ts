@@ -1,7 +1,34 @@
-import { Table, Column, Model, DataType, Default } from "sequelize-typescript";
+import { Table, Column, Model, DataType, Default, BelongsToMany, HasMany, BeforeSave, AfterCreate, AfterUpdate, BeforeDestroy, AfterDestroy, BeforeRestore, AfterRestore, BeforeBulkUpdate, BeforeBulkDestroy, BeforeBulkRestore } from "sequelize-typescript";
+import { CreateOptions, DestroyOptions, InstanceRestoreOptions, Op, RestoreOptions, SaveOptions, UpdateOptions } from "sequelize";
+import Category from "./Category.model";
+import ProductCategory from "./ProductCategory.model";
+import InventoryMovement from "./InventoryMovement.model";
+import ProductRevision, { ProductSnapshot } from "./ProductRevision.model";
+import ProductPrice from "./ProductPrice.model";
+import ProductImage from "./ProductImage.model";
+import ProductVariant from "./ProductVariant.model";
+import ProductSchedule from "./ProductSchedule.model";
+import PriceHistory, { BASE_PRICE_LIST } from "./PriceHistory.model";
+import { baseCurrency } from "../config/currency";
+import { defaultLowStockThreshold } from "../config/inventory";
+import { decimalAccessors, toAmount } from "../utils/money";
+
+// Columnas que no se exponen en las respuestas, el historial ni el orden de los listados
+export const INTERNAL_FIELDS = ['stockedOut']
+
+// Resumen de las variantes en las respuestas del producto
+export type VariantSummary = {
+    count: number
+    minPrice: number
+    maxPrice: number
+    // Disponible si el producto lo está y al menos una de sus variantes
+    availability: boolean
+}
 
 @Table({
-    tableName: 'products'
+    tableName: 'products',
+    paranoid: true,
+    version: true
 })
 
 class Product extends Model {
@@ -11,15 +38,202 @@ class Product extends Model {
     declare name: string
 
     @Column({
-        type: DataType.FLOAT
+        type: DataType.DECIMAL(12, 2),
+        ...decimalAccessors('price')
     })
     declare price: number
-    
+
+    @Default(baseCurrency)
+    @Column({
+        type: DataType.CHAR(3),
+        allowNull: false
+    })
+    declare currency: string
+
+    // Asignar la disponibilidad es una decisión explícita: deja de estar retirada por falta de stock
     @Default(true)
     @Column({
-        type: DataType.BOOLEAN
+        type: DataType.BOOLEAN,
+        set(this: Product, value: boolean) {
+            this.setDataValue('availability', value)
+            this.setDataValue('stockedOut', false)
+        }
     })
     declare availability: boolean
+
+    // Se retiró de la venta porque se agotó el stock, vuelve a estar disponible al reponerlo.
+    // Uso interno: no forma parte de las respuestas ni del historial
+    @Default(false)
+    @Column({
+        type: DataType.BOOLEAN,
+        allowNull: false
+    })
+    declare stockedOut: boolean
+
+    @Default(0)
+    @Column({
+        type: DataType.INTEGER,
+        validate: { min: 0 }
+    })
+    declare stock: number
+
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare lowStockThreshold: number | null
+
+    @BelongsToMany(() => Category, () => ProductCategory)
+    declare categories: Category[]
+
+    @HasMany(() => InventoryMovement)
+    declare movements: InventoryMovement[]
+
+    @HasMany(() => ProductPrice)
+    declare prices: ProductPrice[]
+
+    @HasMany(() => ProductImage)
+    declare images: ProductImage[]
+
+    @HasMany(() => ProductVariant)
+    declare variants: ProductVariant[]
+
+    @HasMany(() => ProductSchedule)
+    declare schedules: ProductSchedule[]
+
+    declare deletedAt: Date | null
+
+    // Se incrementa en cada guardado, Sequelize rechaza guardar una instancia desactualizada
+    declare version: number
+
+    private trashedAt: Date | null
+
+    // Elimina definitivamente los productos que están en la papelera desde antes de la fecha
+    static async purgeTrashed(deletedBefore = new Date()) {
+        const products = await Product.findAll({
+            where: { deletedAt: { [Op.lt]: deletedBefore } },
+            paranoid: false
+        })
+        for(const product of products) {
+            await product.destroy({ force: true })
+        }
+        return products.length
+    }
+
+    // Hay stock por encima del umbral propio o del predeterminado (LOW_STOCK_THRESHOLD)
+    get inStock() {
+        return this.stock > (this.lowStockThreshold ?? defaultLowStockThreshold())
+    }
+
+    // Solo si se cargaron las variantes, null cuando el producto no tiene variantes
+    get variantSummary() : VariantSummary | null | undefined {
+        if(!this.variants) return undefined
+        if(!this.variants.length) return null
+
+        // Las variantes sin precio propio usan el del producto
+        const prices = this.variants.map(variant => variant.price ?? this.price)
+        return {
+            count: this.variants.length,
+            minPrice: Math.min(...prices),
+            maxPrice: Math.max(...prices),
+            availability: this.availability && this.variants.some(variant => variant.availability)
+        }
+    }
+
+    toJSON() {
+        const values = Object.entries(this.get()).filter(([field]) => !INTERNAL_FIELDS.includes(field))
+        return { ...Object.fromEntries(values), variantSummary: this.variantSummary }
+    }
+
+    // Solo las columnas, sin asociaciones cargadas con include
+    snapshot(values = this.get()) : ProductSnapshot {
+        const attributes = Product.getAttributes()
+        return Object.fromEntries(
+            Object.keys(attributes).filter(field => !INTERNAL_FIELDS.includes(field)).map(field => [
+                field,
+                // previous() devuelve el DECIMAL tal como llegó de la base de datos
+                attributes[field].type instanceof DataType.DECIMAL ? toAmount(values[field]) : values[field] ?? null
+            ])
+        )
+    }
+
+    // La disponibilidad combina la decisión manual (o programada) con el stock: un producto sin stock nunca está
+    // disponible, y al reponerlo solo vuelve a estarlo si fue el stock el que lo retiró de la venta
+    @BeforeSave
+    static deriveAvailability(product: Product, options: SaveOptions) {
+        if(!product.inStock) {
+            if(product.availability) {
+                product.setDataValue('availability', false)
+                product.stockedOut = true
+            }
+        } else if(product.stockedOut) {
+            product.setDataValue('availability', true)
+            product.stockedOut = false
+        }
+        // Los servicios guardan solo los campos editables y Sequelize no agrega los que cambian el setter o el hook
+        if(options.fields && product.changed('stockedOut') && !options.fields.includes('stockedOut')) {
+            options.fields = [...options.fields, 'stockedOut']
+        }
+    }
+
+    // Historial de cambios: se registra desde el ciclo de vida del modelo
+    // para que ningún handler pueda saltárselo
+    @AfterCreate
+    static async auditCreate(product: Product, options: CreateOptions) {
+        await ProductRevision.record(product.id, null, product.snapshot(), options.transaction)
+    }
+
+    @AfterUpdate
+    static async auditUpdate(product: Product, options: UpdateOptions) {
+        const before = product.snapshot({ ...product.get(), ...product.previous() })
+        await ProductRevision.record(product.id, before, product.snapshot(), options.transaction)
+    }
+
+    // Al eliminar definitivamente se borran las imágenes con sus archivos,
+    // en la papelera se conservan para poder restaurar el producto
+    @BeforeDestroy
+    static async removeImages(product: Product, options: DestroyOptions) {
+        if(!options.force) return
+        await ProductImage.destroy({ where: { productId: product.id }, transaction: options.transaction })
+    }
+
+    @AfterDestroy
+    static async auditDestroy(product: Product, options: DestroyOptions) {
+        const before = product.snapshot({ ...product.get(), deletedAt: options.force ? product.deletedAt : null })
+        await ProductRevision.record(product.id, before, null, options.transaction, options.force ? 'purge' : 'delete')
+    }
+
+    // Historial de precios con fechas de vigencia
+    @AfterCreate
+    static async trackCreatedPrice(product: Product, options: CreateOptions) {
+        await PriceHistory.record(product.id, BASE_PRICE_LIST, product.currency, product.price, options.transaction)
+    }
+
+    @AfterUpdate
+    static async trackUpdatedPrice(product: Product, options: UpdateOptions) {
+        if(!product.changed('price') && !product.changed('currency')) return
+        if(product.changed('currency')) {
+            await PriceHistory.record(product.id, BASE_PRICE_LIST, product.previous('currency'), null, options.transaction)
+        }
+        await PriceHistory.record(product.id, BASE_PRICE_LIST, product.currency, product.price, options.transaction)
+    }
+
+    @BeforeRestore
+    static rememberTrashedAt(product: Product) {
+        product.trashedAt = product.deletedAt
+    }
+
+    @AfterRestore
+    static async auditRestore(product: Product, options: InstanceRestoreOptions) {
+        const before = product.snapshot({ ...product.get(), deletedAt: product.trashedAt })
+        await ProductRevision.record(product.id, before, product.snapshot(), options.transaction, 'restore')
+    }
+
+    @BeforeBulkUpdate
+    @BeforeBulkDestroy
+    @BeforeBulkRestore
+    static auditBulk(options: UpdateOptions | DestroyOptions | RestoreOptions) {
+        options.individualHooks = true
+    }
 }
 
 export default Product;
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Table, Column, Model, DataType, ForeignKey } from "sequelize-typescript";
+import Product from "./Product.model";
+import Category from "./Category.model";
+
+@Table({
+    tableName: 'product_categories',
+    timestamps: false
+})
+
+class ProductCategory extends Model {
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare productId: number
+
+    @ForeignKey(() => Category)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare categoryId: number
+}
+
+export default ProductCategory;
@@ -0,0 +1,82 @@
+import { Table, Column, Model, DataType, Default, ForeignKey, BelongsTo, AfterDestroy, BeforeBulkDestroy } from "sequelize-typescript";
+import { DestroyOptions } from "sequelize";
+import Product from "./Product.model";
+import { storage } from "../services/storage";
+import { logger } from "../utils/logger";
+import { onCommit } from "../utils/transaction";
+
+@Table({
+    tableName: 'product_images'
+})
+
+class ProductImage extends Model {
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { onDelete: 'CASCADE' })
+    declare product: Product
+
+    // Ubicación del archivo dentro del almacenamiento
+    @Column({
+        type: DataType.STRING(255),
+        allowNull: false
+    })
+    declare key: string
+
+    @Column({
+        type: DataType.STRING(255)
+    })
+    declare filename: string
+
+    @Column({
+        type: DataType.STRING(50),
+        allowNull: false
+    })
+    declare mimeType: string
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare size: number
+
+    // Orden de la galería, empezando en 0
+    @Default(0)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare position: number
+
+    @Default(false)
+    @Column({
+        type: DataType.BOOLEAN,
+        allowNull: false
+    })
+    declare isPrimary: boolean
+
+    @Column({
+        type: DataType.VIRTUAL,
+        get(this: ProductImage) {
+            return storage().url(this.getDataValue('key'))
+        }
+    })
+    declare url: string
+
+    // El archivo se borra cuando la eliminación queda confirmada
+    @AfterDestroy
+    static removeFile(image: ProductImage, options: DestroyOptions) {
+        return onCommit(options.transaction, () => storage().delete(image.key).catch(error => logger.error({ err: error, key: image.key }, 'image file removal failed')))
+    }
+
+    @BeforeBulkDestroy
+    static removeFiles(options: DestroyOptions) {
+        options.individualHooks = true
+    }
+}
+
+export default ProductImage;
@@ -0,0 +1,63 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, AfterCreate, AfterUpdate, AfterDestroy, BeforeBulkUpdate, BeforeBulkDestroy } from "sequelize-typescript";
+import { CreateOptions, DestroyOptions, UpdateOptions } from "sequelize";
+import Product from "./Product.model";
+import PriceHistory from "./PriceHistory.model";
+import { decimalAccessors } from "../utils/money";
+
+// Precios adicionales del producto por lista (mayorista, minorista...) y moneda
+@Table({
+    tableName: 'product_prices',
+    indexes: [
+        { unique: true, fields: ['productId', 'priceList', 'currency'] }
+    ]
+})
+
+class ProductPrice extends Model {
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { onDelete: 'CASCADE' })
+    declare product: Product
+
+    @Column({
+        type: DataType.STRING(50),
+        allowNull: false
+    })
+    declare priceList: string
+
+    @Column({
+        type: DataType.CHAR(3),
+        allowNull: false
+    })
+    declare currency: string
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+        ...decimalAccessors('amount')
+    })
+    declare amount: number
+
+    @AfterCreate
+    @AfterUpdate
+    static async trackPrice(price: ProductPrice, options: CreateOptions | UpdateOptions) {
+        await PriceHistory.record(price.productId, price.priceList, price.currency, price.amount, options.transaction)
+    }
+
+    @AfterDestroy
+    static async trackRemoval(price: ProductPrice, options: DestroyOptions) {
+        await PriceHistory.record(price.productId, price.priceList, price.currency, null, options.transaction)
+    }
+
+    @BeforeBulkUpdate
+    @BeforeBulkDestroy
+    static trackBulk(options: UpdateOptions | DestroyOptions) {
+        options.individualHooks = true
+    }
+}
+
+export default ProductPrice;
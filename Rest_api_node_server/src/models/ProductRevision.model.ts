@@ -0,0 +1,135 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, AfterCreate } from "sequelize-typescript";
+import { CreateOptions, Transaction } from "sequelize";
+import Product from "./Product.model";
+import User from "./User.model";
+import WebhookDelivery from "./WebhookDelivery.model";
+import { WebhookEvent } from "./Webhook.model";
+import { ProductEvent, publishProductEvent } from "../services/productEvents";
+import { getCurrentUser } from "../utils/context";
+import { onCommit } from "../utils/transaction";
+
+export const REVISION_ACTIONS = ['create', 'update', 'availability', 'delete', 'restore', 'purge'] as const
+export type RevisionAction = typeof REVISION_ACTIONS[number]
+
+// Eventos de cada acción para webhooks y streams, restaurar y purgar no se notifican
+export const PRODUCT_EVENTS : Partial<Record<RevisionAction, WebhookEvent>> = {
+    create: 'product.created',
+    update: 'product.updated',
+    availability: 'product.availability_changed',
+    delete: 'product.deleted'
+}
+
+export type ProductSnapshot = Record<string, unknown>
+export type ProductDiff = Record<string, { from: unknown, to: unknown }>
+
+@Table({
+    tableName: 'product_revisions',
+    updatedAt: false
+})
+
+class ProductRevision extends Model {
+    // Sin restricción de llave foránea para conservar el historial de productos eliminados
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { constraints: false })
+    declare product: Product
+
+    @Column({
+        type: DataType.ENUM(...REVISION_ACTIONS),
+        allowNull: false
+    })
+    declare action: RevisionAction
+
+    @Column({
+        type: DataType.JSONB
+    })
+    declare before: ProductSnapshot | null
+
+    @Column({
+        type: DataType.JSONB
+    })
+    declare after: ProductSnapshot | null
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false
+    })
+    declare changes: ProductDiff
+
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare userId: number
+
+    @BelongsTo(() => User, { onDelete: 'SET NULL' })
+    declare user: User
+
+    static diff(before: ProductSnapshot | null, after: ProductSnapshot | null) : ProductDiff {
+        const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+        const changes : ProductDiff = {}
+        fields.forEach(field => {
+            const from = before?.[field] ?? null
+            const to = after?.[field] ?? null
+            if(JSON.stringify(from) !== JSON.stringify(to)) {
+                changes[field] = { from, to }
+            }
+        })
+        return changes
+    }
+
+    static async record(productId: number, before: ProductSnapshot | null, after: ProductSnapshot | null, transaction?: Transaction, action?: RevisionAction) {
+        const changes = ProductRevision.diff(before, after)
+        const fields = Object.keys(changes).filter(field => !['updatedAt', 'version'].includes(field))
+
+        // Cambios sin efecto real no generan revisión
+        if(before && after && fields.length === 0) return
+
+        await ProductRevision.create({
+            productId,
+            action: action ?? (
+                !before ? 'create'
+                : !after ? 'delete'
+                : fields.length === 1 && fields[0] === 'availability' ? 'availability'
+                : 'update'
+            ),
+            before,
+            after,
+            changes,
+            userId: getCurrentUser()?.id
+        }, { transaction })
+    }
+
+    toEvent() : ProductEvent | null {
+        const event = PRODUCT_EVENTS[this.action]
+        if(!event) return null
+        return {
+            id: this.id,
+            event,
+            productId: this.productId,
+            data: {
+                product: this.after ?? this.before,
+                changes: this.changes,
+                createdAt: new Date(this.createdAt).toISOString()
+            }
+        }
+    }
+
+    // Cada revisión es un cambio real del producto, se notifica a los webhooks y a los streams en vivo
+    @AfterCreate
+    static async notifyChange(revision: ProductRevision, options: CreateOptions) {
+        const event = revision.toEvent()
+        if(!event) return
+
+        await WebhookDelivery.enqueue(event.event, { product: event.data.product, changes: event.data.changes }, options.transaction)
+
+        onCommit(options.transaction, () => publishProductEvent(event))
+    }
+}
+
+export default ProductRevision;
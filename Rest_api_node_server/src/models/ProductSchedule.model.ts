@@ -0,0 +1,140 @@
+import { Table, Column, Model, DataType, Default, ForeignKey, BelongsTo } from "sequelize-typescript";
+import { Op, Transaction } from "sequelize";
+import Product from "./Product.model";
+import User from "./User.model";
+import { decimalAccessors } from "../utils/money";
+
+export const SCHEDULE_STATUSES = ['pending', 'active', 'completed', 'cancelled', 'expired'] as const
+export type ScheduleStatus = typeof SCHEDULE_STATUSES[number]
+
+// Cambios que todavía se aplicarán o se revertirán
+export const UPCOMING_STATUSES : ScheduleStatus[] = ['pending', 'active']
+
+// Campos del producto que se pueden programar
+export const SCHEDULED_FIELDS = ['price', 'availability'] as const
+export type ScheduledField = typeof SCHEDULED_FIELDS[number]
+
+// Cambio programado de precio y/o disponibilidad: se aplica en startsAt y, si tiene endsAt, se revierte entonces.
+// pending => active (aplicado, pendiente de revertir) => completed; cancelled si se cancela antes de empezar
+// y expired si el worker no lo aplicó hasta después de endsAt
+@Table({
+    tableName: 'product_schedules',
+    indexes: [
+        { fields: ['status', 'startsAt'] },
+        { fields: ['productId', 'status'] }
+    ]
+})
+
+class ProductSchedule extends Model {
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { onDelete: 'CASCADE' })
+    declare product: Product
+
+    // Precio en la moneda del producto, null no lo cambia
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        ...decimalAccessors('price')
+    })
+    declare price: number | null
+
+    // null no cambia la disponibilidad
+    @Column({
+        type: DataType.BOOLEAN
+    })
+    declare availability: boolean | null
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false
+    })
+    declare startsAt: Date
+
+    // Sin fecha de fin el cambio es permanente
+    @Column({
+        type: DataType.DATE
+    })
+    declare endsAt: Date | null
+
+    @Default('pending')
+    @Column({
+        type: DataType.ENUM(...SCHEDULE_STATUSES),
+        allowNull: false
+    })
+    declare status: ScheduleStatus
+
+    // Valores que tenía el producto al aplicar el cambio, se restauran en endsAt
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        ...decimalAccessors('previousPrice')
+    })
+    declare previousPrice: number | null
+
+    @Column({
+        type: DataType.BOOLEAN
+    })
+    declare previousAvailability: boolean | null
+
+    @Column({
+        type: DataType.DATE
+    })
+    declare appliedAt: Date | null
+
+    @Column({
+        type: DataType.DATE
+    })
+    declare revertedAt: Date | null
+
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare userId: number | null
+
+    @BelongsTo(() => User, { onDelete: 'SET NULL' })
+    declare user: User
+
+    // Campos que cambia: price, availability o ambos
+    get fields() : ScheduledField[] {
+        return SCHEDULED_FIELDS.filter(field => this[field] !== null && this[field] !== undefined)
+    }
+
+    // Cambio pendiente o activo del producto que modifica alguno de los campos en un periodo que se solapa.
+    // Un cambio sin fecha de fin ocupa solo el instante startsAt: dos cambios permanentes en fechas distintas no chocan
+    static conflicting(productId: number, fields: ScheduledField[], startsAt: Date, endsAt: Date | null, transaction?: Transaction) {
+        const overlap = endsAt
+            ? {
+                startsAt: { [Op.lt]: endsAt },
+                [Op.or]: [
+                    { endsAt: { [Op.gt]: startsAt } },
+                    { endsAt: null, startsAt: { [Op.gte]: startsAt } }
+                ]
+            }
+            : {
+                [Op.or]: [
+                    { startsAt: { [Op.lte]: startsAt }, endsAt: { [Op.gt]: startsAt } },
+                    { startsAt, endsAt: null }
+                ]
+            }
+
+        return ProductSchedule.findOne({
+            where: {
+                productId,
+                status: UPCOMING_STATUSES,
+                [Op.and]: [
+                    { [Op.or]: fields.map(field => ({ [field]: { [Op.ne]: null } })) },
+                    overlap
+                ]
+            },
+            order: [['startsAt', 'ASC']],
+            transaction
+        })
+    }
+}
+
+export default ProductSchedule;
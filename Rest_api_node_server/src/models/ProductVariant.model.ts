@@ -0,0 +1,88 @@
+import { Table, Column, Model, DataType, Default, ForeignKey, BelongsTo } from "sequelize-typescript";
+import { Transaction } from "sequelize";
+import Product from "./Product.model";
+import { decimalAccessors } from "../utils/money";
+
+export const SKU_LENGTH = 64
+
+// Valor elegido de cada atributo: { "size": "27", "color": "black" }
+export type VariantOptions = Record<string, string>
+
+// Valores de cada atributo con los que se genera la matriz de variantes
+export type AttributeSelection = Record<string, string[]>
+
+// Misma combinación sin importar el orden de las claves
+const optionsKey = (options: VariantOptions) => JSON.stringify(Object.keys(options).sort().map(name => [name, options[name]]))
+
+// "P1" y { size: "27\"", color: "Negro mate" } => "P1-27-NEGROMATE"
+export const variantSku = (prefix: string, options: VariantOptions) => {
+    const parts = Object.values(options).map(value => value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Za-z0-9]+/g, '')
+        .toUpperCase())
+    return [prefix, ...parts].join('-')
+}
+
+@Table({
+    tableName: 'product_variants',
+    indexes: [
+        { unique: true, fields: ['productId', 'options'] }
+    ]
+})
+
+class ProductVariant extends Model {
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare productId: number
+
+    @BelongsTo(() => Product, { onDelete: 'CASCADE' })
+    declare product: Product
+
+    @Column({
+        type: DataType.STRING(SKU_LENGTH),
+        allowNull: false,
+        unique: true
+    })
+    declare sku: string
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false
+    })
+    declare options: VariantOptions
+
+    // Precio propio de la variante en la moneda del producto, null usa el precio del producto
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        ...decimalAccessors('price')
+    })
+    declare price: number | null
+
+    @Default(true)
+    @Column({
+        type: DataType.BOOLEAN,
+        allowNull: false
+    })
+    declare availability: boolean
+
+    // Producto cartesiano de los valores: { size: ["24", "27"], color: ["black"] } => 2 combinaciones
+    static combinations(selection: AttributeSelection) {
+        return Object.entries(selection).reduce<VariantOptions[]>(
+            (combinations, [name, values]) => combinations.flatMap(options => values.map(value => ({ ...options, [name]: value }))),
+            [{}]
+        )
+    }
+
+    // Combinaciones de la selección que el producto todavía no tiene como variante
+    static async missingCombinations(productId: number, selection: AttributeSelection, transaction?: Transaction) {
+        const variants = await ProductVariant.findAll({ where: { productId }, attributes: ['options'], transaction })
+        const existing = new Set(variants.map(variant => optionsKey(variant.options)))
+        return ProductVariant.combinations(selection).filter(options => !existing.has(optionsKey(options)))
+    }
+}
+
+export default ProductVariant;
@@ -0,0 +1,52 @@
+import { Table, Column, Model, DataType, Default, Unique, BeforeSave } from "sequelize-typescript";
+import bcrypt from "bcryptjs";
+
+export const ROLES = ['admin', 'editor', 'viewer'] as const
+export type Role = typeof ROLES[number]
+
+@Table({
+    tableName: 'users'
+})
+
+class User extends Model {
+    @Column({
+        type: DataType.STRING(100)
+    })
+    declare name: string
+
+    @Unique
+    @Column({
+        type: DataType.STRING(100)
+    })
+    declare email: string
+
+    @Column({
+        type: DataType.STRING(60)
+    })
+    declare password: string
+
+    @Default('viewer')
+    @Column({
+        type: DataType.ENUM(...ROLES)
+    })
+    declare role: Role
+
+    @BeforeSave
+    static async hashPassword(user: User) {
+        if(user.changed('password')) {
+            user.password = await bcrypt.hash(user.password, 10)
+        }
+    }
+
+    checkPassword(password: string) {
+        return bcrypt.compare(password, this.password)
+    }
+
+    // Nunca exponer el hash del password
+    toJSON() {
+        const { password, ...user } = this.get()
+        return user
+    }
+}
+
+export default User;
@@ -0,0 +1,47 @@
+import { Table, Column, Model, DataType, Default, HasMany } from "sequelize-typescript";
+import WebhookDelivery from "./WebhookDelivery.model";
+
+export const WEBHOOK_EVENTS = ['product.created', 'product.updated', 'product.availability_changed', 'product.deleted'] as const
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+@Table({
+    tableName: 'webhooks'
+})
+
+class Webhook extends Model {
+    @Column({
+        type: DataType.STRING(2048),
+        allowNull: false
+    })
+    declare url: string
+
+    @Column({
+        type: DataType.ARRAY(DataType.STRING(50)),
+        allowNull: false
+    })
+    declare events: WebhookEvent[]
+
+    // Clave con la que se firma cada entrega (HMAC-SHA256)
+    @Column({
+        type: DataType.STRING(100),
+        allowNull: false
+    })
+    declare secret: string
+
+    @Default(true)
+    @Column({
+        type: DataType.BOOLEAN
+    })
+    declare active: boolean
+
+    @HasMany(() => WebhookDelivery)
+    declare deliveries: WebhookDelivery[]
+
+    // El secreto solo se muestra al crear la suscripción
+    toJSON() {
+        const { secret, ...webhook } = this.get()
+        return webhook
+    }
+}
+
+export default Webhook;
@@ -0,0 +1,94 @@
+import { Table, Column, Model, DataType, Default, ForeignKey, BelongsTo } from "sequelize-typescript";
+import { Op, Transaction } from "sequelize";
+import { randomUUID } from "node:crypto";
+import Webhook, { WebhookEvent } from "./Webhook.model";
+
+export const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number]
+
+export type WebhookPayload = {
+    id: string
+    event: WebhookEvent
+    createdAt: string
+    data: Record<string, unknown>
+}
+
+// Cola persistente: cada evento genera una entrega por suscripción
+@Table({
+    tableName: 'webhook_deliveries'
+})
+
+class WebhookDelivery extends Model {
+    @ForeignKey(() => Webhook)
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false
+    })
+    declare webhookId: number
+
+    @BelongsTo(() => Webhook, { onDelete: 'CASCADE' })
+    declare webhook: Webhook
+
+    @Column({
+        type: DataType.STRING(50),
+        allowNull: false
+    })
+    declare event: WebhookEvent
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false
+    })
+    declare payload: WebhookPayload
+
+    @Default('pending')
+    @Column({
+        type: DataType.ENUM(...DELIVERY_STATUSES)
+    })
+    declare status: DeliveryStatus
+
+    @Default(0)
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare attempts: number
+
+    @Column({
+        type: DataType.DATE
+    })
+    declare nextAttemptAt: Date | null
+
+    @Column({
+        type: DataType.DATE
+    })
+    declare lastAttemptAt: Date | null
+
+    @Column({
+        type: DataType.INTEGER
+    })
+    declare responseStatus: number | null
+
+    @Column({
+        type: DataType.TEXT
+    })
+    declare error: string | null
+
+    // Se guarda en la misma transacción que el cambio, si se revierte no se envía nada
+    static async enqueue(event: WebhookEvent, data: Record<string, unknown>, transaction?: Transaction) {
+        const webhooks = await Webhook.findAll({
+            where: { active: true, events: { [Op.contains]: [event] } },
+            transaction
+        })
+        if(!webhooks.length) return []
+
+        const payload : WebhookPayload = { id: randomUUID(), event, createdAt: new Date().toISOString(), data }
+        return WebhookDelivery.bulkCreate(webhooks.map(webhook => ({
+            webhookId: webhook.id,
+            event,
+            payload,
+            nextAttemptAt: new Date()
+        })), { transaction })
+    }
+}
+
+export default WebhookDelivery;
@@ -0,0 +1,107 @@
+import express from "express";
+import request from "supertest";
+import { readFile } from "node:fs/promises";
+import server from "../../server";
+import swaggerSpec from "../../config/swagger";
+import { errorHandler, validateResponses } from "../../middleware";
+import { logger } from "../../utils/logger";
+import { schemas } from "../schemas";
+import { compareRoutes } from "../routes";
+import { createResponseValidator } from "../responses";
+import { CLIENT_PATH, generateClient } from "../client";
+
+const product = { id: 1, name: "Monitor", price: 300, currency: 'USD', availability: true, stock: 0, version: 0 }
+
+// Rutas de prueba con respuestas fuera del contrato
+const invalidApp = () => {
+    const app = express()
+    app.use(validateResponses)
+    app.get('/api/products/:id', (req, res) => {
+        res.json({ data: { ...product, price: "300" } })
+    })
+    app.use(errorHandler)
+    return app
+}
+
+afterEach(() => {
+    delete process.env.RESPONSE_VALIDATION
+    jest.restoreAllMocks()
+})
+
+describe('OpenAPI spec', () => {
+    it('should document every route and route every documented operation', () => {
+        expect(compareRoutes(server, swaggerSpec)).toEqual({ undocumented: [], unrouted: [] })
+    })
+
+    it('should publish the product schemas used to validate requests', () => {
+        expect(swaggerSpec.components.schemas.ProductInput).toEqual(schemas.ProductInput)
+        expect(swaggerSpec.paths['/api/products'].post.requestBody.content['application/json'].schema)
+            .toEqual({ $ref: '#/components/schemas/ProductInput' })
+        expect(swaggerSpec.paths['/api/products/{id}'].put.requestBody.content['application/json'].schema)
+            .toEqual({ $ref: '#/components/schemas/ProductUpdate' })
+    })
+
+    it('should wrap successful JSON responses in data, except downloads', () => {
+        expect(swaggerSpec.paths['/api/products/{id}'].get.responses[200].content['application/json'].schema).toEqual({
+            type: 'object',
+            required: ['data'],
+            properties: { data: { $ref: '#/components/schemas/Product' } }
+        })
+        expect(swaggerSpec.paths['/api/products/export'].get.responses[200].content['application/json'].schema.type).toBe('array')
+    })
+
+    it('should serve the spec in the docs', async () => {
+        const response = await request(server).get('/docs/swagger-ui-init.js')
+        expect(response.status).toBe(200)
+        expect(response.text).toContain('"operationId": "createProduct"')
+    })
+})
+
+describe('Response validation', () => {
+    const validate = createResponseValidator(swaggerSpec)
+
+    it('should accept responses that match the spec', () => {
+        expect(validate('get', '/api/products/{id}', 200, { data: product })).toEqual([])
+        expect(validate('delete', '/api/products/{id}', 200, { data: 'Producto Eliminado' })).toEqual([])
+    })
+
+    it('should report the fields that do not match', () => {
+        expect(validate('get', '/api/products/{id}', 200, { data: { ...product, price: 0, stock: undefined } })).toEqual([
+            { path: '/data', message: "must have required property 'stock'" },
+            { path: '/data/price', message: 'must be > 0' }
+        ])
+        expect(validate('get', '/api/products/{id}', 201, { data: product })).toEqual([
+            { path: '', message: 'status 201 is not documented' }
+        ])
+    })
+
+    it('should fail the request when enforced', async () => {
+        const response = await request(invalidApp()).get('/api/products/1')
+        expect(response.status).toBe(500)
+        expect(response.body.code).toBe('RESPONSE_VALIDATION_FAILED')
+        expect(response.body.errors).toEqual([{ path: '/data/price', message: 'must be number' }])
+    })
+
+    it('should only log the mismatch in warn mode', async () => {
+        process.env.RESPONSE_VALIDATION = 'warn'
+        const warn = jest.spyOn(logger, 'warn').mockImplementation()
+
+        const response = await request(invalidApp()).get('/api/products/1')
+        expect(response.status).toBe(200)
+        expect(warn).toHaveBeenCalledWith(expect.objectContaining({ path: '/api/products/{id}', status: 200 }), expect.any(String))
+    })
+})
+
+describe('Generated client', () => {
+    it('should be up to date with the spec, run npm run client:generate otherwise', async () => {
+        expect(await readFile(CLIENT_PATH, 'utf8')).toBe(generateClient(swaggerSpec))
+    })
+
+    it('should include the JSON operations with an operationId', () => {
+        const source = generateClient(swaggerSpec)
+        expect(source).toContain("createProduct: (body: ProductInput, ")
+        expect(source).toContain("getProduct: (id: number, ")
+        expect(source).not.toContain('exportProducts')
+        expect(source).not.toContain('uploadImage')
+    })
+})
@@ -0,0 +1,155 @@
+import path from "node:path";
+import { jsonResponseSchema, OpenAPISpec, OperationObject, operations, ParameterObject } from "./document";
+import { SchemaObject } from "./schemas";
+
+// Genera el cliente TypeScript (client/src/index.ts): un tipo por esquema de componentes y un método
+// por operación con operationId cuyo cuerpo y respuesta son JSON
+
+export const CLIENT_PATH = path.resolve(__dirname, '../../client/src/index.ts')
+
+const identifier = /^[A-Za-z_$][\w$]*$/
+
+const propertyName = (name: string) => identifier.test(name) ? name : JSON.stringify(name)
+
+const indent = (level: number) => '    '.repeat(level)
+
+const typeOf = (schema: SchemaObject | undefined, level = 0) : string => {
+    if(!schema) return 'unknown'
+    const type = baseType(schema, level)
+    return schema.nullable ? `${type} | null` : type
+}
+
+const baseType = (schema: SchemaObject, level: number) : string => {
+    if(schema.$ref) return schema.$ref.split('/').pop()!
+    if(schema.allOf) return schema.allOf.map(part => typeOf(part, level)).join(' & ')
+    if(schema.oneOf) return schema.oneOf.map(part => typeOf(part, level)).join(' | ')
+    if(schema.enum) return schema.enum.map(value => JSON.stringify(value)).join(' | ')
+
+    switch(schema.type) {
+        case 'string': return 'string'
+        case 'number':
+        case 'integer': return 'number'
+        case 'boolean': return 'boolean'
+        case 'array': return `Array<${typeOf(schema.items, level)}>`
+    }
+    if(schema.properties) return objectType(schema, level)
+    if(typeof schema.additionalProperties === 'object') return `Record<string, ${typeOf(schema.additionalProperties, level)}>`
+    return schema.type === 'object' ? 'Record<string, unknown>' : 'unknown'
+}
+
+const objectType = (schema: SchemaObject, level: number) => {
+    const members = Object.entries(schema.properties!).map(([name, property]) => {
+        const optional = schema.required?.includes(name) ? '' : '?'
+        const comment = property.description ? `${indent(level + 1)}/** ${property.description} */\n` : ''
+        return `${comment}${indent(level + 1)}${propertyName(name)}${optional}: ${typeOf(property, level + 1)}`
+    })
+    return `{\n${members.join('\n')}\n${indent(level)}}`
+}
+
+const parametersType = (parameters: ParameterObject[]) => objectType({
+    properties: Object.fromEntries(parameters.map(parameter => [parameter.name, { ...parameter.schema, description: parameter.description }])),
+    required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name)
+}, 2)
+
+// Las descargas, los streams y las subidas de archivos quedan fuera del cliente
+const isJsonOperation = (operation: OperationObject) => {
+    const request = operation.requestBody?.content
+    if(request && !request['application/json']) return false
+    return Object.entries(operation.responses ?? {}).some(([status, response]) => status.startsWith('2') && jsonResponseSchema(response))
+}
+
+const operationMethod = (path: string, method: string, operation: OperationObject) => {
+    const name = operation.operationId!
+    const parameters = operation.parameters ?? []
+    const pathParameters = parameters.filter(parameter => parameter.in === 'path')
+    const query = parameters.filter(parameter => parameter.in === 'query')
+    const headers = parameters.filter(parameter => parameter.in === 'header')
+
+    const responses = Object.entries(operation.responses ?? {})
+        .filter(([status]) => status.startsWith('2'))
+        .map(([, response]) => jsonResponseSchema(response))
+        .filter(schema => schema)
+    const responseType = [...new Set(responses.map(schema => typeOf(schema, 2)))].join(' | ')
+
+    const args = [
+        ...pathParameters.map(parameter => `${parameter.name}: ${typeOf(parameter.schema)}`),
+        ...(operation.requestBody ? [`body${operation.requestBody.required ? '' : '?'}: ${typeOf(operation.requestBody.content!['application/json'].schema, 2)}`] : []),
+        `options: RequestOptions<${query.length ? parametersType(query) : 'never'}, ${headers.length ? parametersType(headers) : 'never'}> = {}`
+    ]
+    const url = path.replace(/\{(\w+)\}/g, (_, parameter) => `\${encodeURIComponent(${parameter})}`)
+    const comment = operation.summary ? `${indent(2)}/** ${operation.summary} */\n` : ''
+
+    return `${comment}${indent(2)}${name}: (${args.join(', ')}) : Promise<${responseType}> =>\n`
+        + `${indent(3)}request('${method.toUpperCase()}', \`${url}\`, ${operation.requestBody ? '{ ...options, body }' : 'options'}),`
+}
+
+const runtime = `export type ClientOptions = {
+    // http://localhost:4000, sin la barra final
+    baseUrl: string
+    // Access token de /api/auth/login
+    token?: string
+    apiKey?: string
+    headers?: Record<string, string>
+    fetch?: typeof fetch
+}
+
+export type RequestOptions<Query = never, Headers = never> = {
+    query?: Query
+    headers?: Headers
+    body?: unknown
+}
+
+// Respuestas de error (application/problem+json)
+export class ApiError extends Error {
+    constructor(readonly status: number, readonly problem: Problem) {
+        super(problem?.detail ?? \`HTTP \${status}\`)
+        this.name = 'ApiError'
+    }
+}
+
+export const createClient = ({ baseUrl, token, apiKey, headers = {}, fetch: fetcher = fetch }: ClientOptions) => {
+    // La respuesta se tipa desde la firma de cada método
+    const request = async <T>(method: string, path: string, { query, headers: requestHeaders, body }: RequestOptions<object, object>) : Promise<T> => {
+        const search = new URLSearchParams(
+            Object.entries(query ?? {})
+                .filter(([, value]) => value !== undefined && value !== null)
+                .map(([key, value]) : [string, string] => [key, String(value)])
+        ).toString()
+
+        const response = await fetcher(\`\${baseUrl}\${path}\${search ? \`?\${search}\` : ''}\`, {
+            method,
+            headers: {
+                Accept: 'application/json',
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                ...(token && { Authorization: \`Bearer \${token}\` }),
+                ...(apiKey && { 'X-API-Key': apiKey }),
+                ...headers,
+                ...requestHeaders
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        })
+
+        const payload = response.headers.get('Content-Type')?.includes('json') ? await response.json() : undefined
+        if(!response.ok) {
+            throw new ApiError(response.status, payload)
+        }
+        return payload as T
+    }`
+
+export const generateClient = (spec: OpenAPISpec) => {
+    const types = Object.entries(spec.components.schemas)
+        .map(([name, schema]) => `${schema.description ? `/** ${schema.description} */\n` : ''}export type ${name} = ${typeOf(schema)}`)
+
+    const methods = operations(spec)
+        .filter(({ operation }) => operation.operationId && isJsonOperation(operation))
+        .map(({ path, method, operation }) => operationMethod(path, method, operation))
+
+    return [
+        `// Generado por \`npm run client:generate\` desde la especificación OpenAPI de la API, no editar`,
+        ...types,
+        `${runtime}\n\n${indent(1)}return {\n${methods.join('\n')}\n${indent(1)}}\n}`,
+        `export type Client = ReturnType<typeof createClient>`,
+        ''
+    ].join('\n\n')
+}
+
@@ -0,0 +1,69 @@
+import { SchemaObject } from "./schemas";
+
+// Tipos mínimos del documento OpenAPI 3.0 que genera config/swagger.ts
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const
+export type HttpMethod = typeof HTTP_METHODS[number]
+
+export type MediaTypeObject = {
+    schema?: SchemaObject
+}
+
+export type ParameterObject = {
+    in: 'path' | 'query' | 'header' | 'cookie'
+    name: string
+    description?: string
+    required?: boolean
+    schema?: SchemaObject
+}
+
+export type ResponseObject = {
+    $ref?: string
+    description?: string
+    headers?: Record<string, unknown>
+    content?: Record<string, MediaTypeObject>
+}
+
+export type OperationObject = {
+    operationId?: string
+    summary?: string
+    description?: string
+    tags?: string[]
+    security?: Record<string, string[]>[]
+    parameters?: ParameterObject[]
+    requestBody?: {
+        required?: boolean
+        content?: Record<string, MediaTypeObject>
+    }
+    responses?: Record<string, ResponseObject>
+}
+
+export type PathItemObject = Partial<Record<HttpMethod, OperationObject>>
+
+export type OpenAPISpec = {
+    openapi: string
+    info: Record<string, unknown>
+    paths: Record<string, PathItemObject>
+    components: {
+        schemas: Record<string, SchemaObject>
+        [component: string]: Record<string, unknown>
+    }
+}
+
+export const operations = (spec: OpenAPISpec) => {
+    return Object.entries(spec.paths).flatMap(([path, item]) => HTTP_METHODS
+        .filter(method => item[method])
+        .map(method => ({ path, method, operation: item[method]! }))
+    )
+}
+
+// /api/products/:id => /api/products/{id}
+export const toSpecPath = (path: string) => {
+    return path.replace(/:(\w+)(\([^)]*\))?\??/g, '{$1}').replace(/(.)\/$/, '$1')
+}
+
+// Descargas (Content-Disposition) y respuestas que no son JSON quedan fuera del sobre { data }
+export const jsonResponseSchema = (response: ResponseObject) => {
+    if(response.headers?.['Content-Disposition']) return undefined
+    return response.content?.['application/json']?.schema
+}
@@ -0,0 +1,54 @@
+import { exit } from 'node:process'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import server from '../server'
+import swaggerSpec from '../config/swagger'
+import { compareRoutes } from './routes'
+import { CLIENT_PATH, generateClient } from './client'
+
+const run = async (task: () => Promise<boolean>) => {
+    try {
+        exit(await task() ? 0 : 1)
+    } catch (error) {
+        console.log(error)
+        exit(1)
+    }
+}
+
+// Falla si hay rutas sin documentar u operaciones documentadas sin ruta
+const check = () => run(async () => {
+    const { undocumented, unrouted } = compareRoutes(server, swaggerSpec)
+    undocumented.forEach(route => console.log(`Sin documentar: ${route}`))
+    unrouted.forEach(operation => console.log(`Sin ruta: ${operation}`))
+    if(!undocumented.length && !unrouted.length) {
+        console.log('Las rutas y la especificación coinciden')
+    }
+    return !undocumented.length && !unrouted.length
+})
+
+const client = () => run(async () => {
+    const source = generateClient(swaggerSpec)
+    const current = await readFile(CLIENT_PATH, 'utf8').catch(() => null)
+    if(current === source) {
+        console.log('El cliente está actualizado')
+        return true
+    }
+    await mkdir(path.dirname(CLIENT_PATH), { recursive: true })
+    await writeFile(CLIENT_PATH, source)
+    console.log(`Cliente generado en ${path.relative(process.cwd(), CLIENT_PATH)}`)
+    return true
+})
+
+const [command] = process.argv.slice(2)
+
+switch (command) {
+    case '--check':
+        check()
+        break
+    case '--client':
+        client()
+        break
+    default:
+        console.log('Comando no válido, use --check o --client')
+        exit(1)
+}
@@ -0,0 +1,1093 @@
+import { EXPORT_FORMATS, IMPORT_KEYS } from "../handlers/catalog";
+import { BATCH_OPERATIONS, MAX_BATCH_SIZE } from "../handlers/batch";
+import { SCHEDULE_STATUSES } from "../models/ProductSchedule.model";
+import { HttpMethod, OperationObject, ParameterObject, PathItemObject, ResponseObject } from "./document";
+import { parameters, ref, SchemaObject } from "./schemas";
+
+// Operaciones de las rutas de productos y de tipos de cambio. config/swagger.ts las publica en /docs y cada
+// ruta valida con la misma definición sus parámetros y su cuerpo (operationValidation de validators/schema.ts).
+// Las respuestas JSON se documentan sin el sobre { data }, lo añade config/swagger.ts
+
+type Operation = OperationObject & {
+    method: HttpMethod
+    path: string
+}
+
+const bearerAuth = [{ bearerAuth: [] }]
+
+const json = (description: string, schema: SchemaObject, headers?: ResponseObject['headers']) : ResponseObject => ({
+    description,
+    ...(headers && { headers }),
+    content: {
+        'application/json': { schema }
+    }
+})
+
+const problem = (description: string) : ResponseObject => ({
+    description,
+    content: {
+        'application/problem+json': { schema: ref('Problem') }
+    }
+})
+
+const jsonBody = (schema: SchemaObject) : Operation['requestBody'] => ({
+    required: true,
+    content: {
+        'application/json': { schema }
+    }
+})
+
+const list = (items: SchemaObject) : SchemaObject => ({ type: 'array', items })
+
+// Listas paginadas, ya dentro del sobre junto a la paginación
+const paginated = (items: SchemaObject, links = true) : SchemaObject => ({
+    type: 'object',
+    required: ['data', 'meta', ...(links ? ['links'] : [])],
+    properties: {
+        data: list(items),
+        meta: ref('PaginationMeta'),
+        ...(links && { links: ref('PaginationLinks') })
+    }
+})
+
+// Respuesta de las operaciones que no devuelven el recurso
+const confirmation = (example: string) : SchemaObject => ({ type: 'string', example })
+
+const xCache = { 'X-Cache': { $ref: '#/components/headers/X-Cache' } }
+
+const notAuthenticated = problem('Not authenticated')
+const notAuthorized = problem('Not authorized')
+const invalidId = problem('Bad request - Invalid Id')
+const invalidInput = problem('Bad request - Invalid Id or invalid input data')
+const productNotFound = problem('Product not found')
+
+const pathId = (name: string, message: 'validation.invalidId' | 'validation.invalidImageId' | 'validation.invalidVariantId' | 'validation.invalidScheduleId', description?: string) : ParameterObject => ({
+    in: 'path',
+    name,
+    ...(description && { description }),
+    required: true,
+    schema: {
+        type: 'integer',
+        'x-messages': { type: message }
+    }
+})
+
+// Lecturas condicionales, 304 si no cambió nada
+const conditionalGet : ParameterObject[] = [
+    {
+        in: 'header',
+        name: 'If-None-Match',
+        description: 'ETag of a previous response, returns 304 when nothing changed',
+        schema: { type: 'string' }
+    },
+    {
+        in: 'header',
+        name: 'If-Modified-Since',
+        description: 'Returns 304 when nothing changed since this date',
+        schema: { type: 'string' }
+    }
+]
+
+const ifMatch : ParameterObject = {
+    in: 'header',
+    name: 'If-Match',
+    description: 'ETag of the product being modified, returns 412 when it changed in the meantime',
+    schema: { type: 'string', example: '"1-3"' }
+}
+
+const modifiedByOther = problem('Precondition failed - The product was modified by someone else')
+
+const scheduleStatus : ParameterObject = {
+    in: 'query',
+    name: 'status',
+    description: 'Return only the scheduled changes with this status, pending and active by default',
+    schema: {
+        type: 'string',
+        enum: [...SCHEDULE_STATUSES],
+        'x-messages': {
+            type: 'validation.invalidScheduleStatus',
+            enum: 'validation.invalidScheduleStatus'
+        }
+    }
+}
+
+const format = (description?: string, defaultFormat?: string) : ParameterObject => ({
+    in: 'query',
+    name: 'format',
+    ...(description && { description }),
+    schema: {
+        type: 'string',
+        enum: [...EXPORT_FORMATS],
+        ...(defaultFormat && { default: defaultFormat }),
+        'x-messages': {
+            type: 'validation.invalidFormat',
+            enum: 'validation.invalidFormat'
+        }
+    }
+})
+
+const priceList = (location: 'path' | 'query') : ParameterObject => ({
+    in: location,
+    name: 'priceList',
+    ...(location === 'path' && { required: true }),
+    schema: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 50,
+        ...(location === 'path' ? { example: 'wholesale' } : { default: 'default' }),
+        'x-messages': {
+            type: 'validation.invalidPriceList',
+            minLength: 'validation.invalidPriceList',
+            maxLength: 'validation.invalidPriceList'
+        }
+    }
+})
+
+const currency = (location: 'path' | 'query', description?: string) : ParameterObject => ({
+    in: location,
+    name: 'currency',
+    ...(description && { description }),
+    ...(location === 'path' && { required: true }),
+    schema: ref('Currency')
+})
+
+const eventId = (location: 'query' | 'header', name: string) : ParameterObject => ({
+    in: location,
+    name,
+    schema: {
+        type: 'integer',
+        minimum: 0,
+        'x-messages': {
+            type: 'validation.invalidEventId',
+            minimum: 'validation.invalidEventId'
+        }
+    }
+})
+
+const nameFilter = (description: string, example?: string) : ParameterObject => ({
+    in: 'query',
+    name: 'name',
+    description,
+    schema: { type: 'string', ...(example && { example }) }
+})
+
+const filters = [parameters.minPrice, parameters.maxPrice, parameters.availability]
+
+const variantMatrix = (example?: number) : SchemaObject => ({
+    type: 'object',
+    properties: {
+        data: list(ref('ProductVariant')),
+        meta: {
+            type: 'object',
+            properties: {
+                created: { type: 'integer', ...(example !== undefined && { example }) },
+                skipped: { type: 'integer', ...(example !== undefined && { example: 0 }) }
+            }
+        }
+    }
+})
+
+export const operations = {
+    listProducts: {
+        method: 'get',
+        path: '/api/products',
+        operationId: 'listProducts',
+        summary: 'Get a list of products',
+        tags: ['Products'],
+        description: 'Return a paginated list of products, optionally filtered and sorted',
+        parameters: [
+            parameters.page,
+            parameters.limit,
+            parameters.cursor,
+            nameFilter('Return only products whose name contains this text', 'monitor'),
+            ...filters,
+            parameters.sort,
+            parameters.include,
+            parameters.currency,
+            ...conditionalGet
+        ],
+        responses: {
+            200: json('Successful response', paginated(ref('Product')), xCache),
+            304: { description: 'Not modified' },
+            400: problem('Bad Request - Invalid query parameters')
+        }
+    },
+    searchProducts: {
+        method: 'get',
+        path: '/api/products/search',
+        operationId: 'searchProducts',
+        summary: 'Search products by name',
+        tags: ['Products'],
+        description: 'Full-text search in Spanish with fuzzy matching for typos, accents are ignored ("camara" finds "Cámara").\n'
+            + 'Results are sorted by relevance and each product includes its relevance and the name with the matching words\n'
+            + 'wrapped in <mark> tags. Accepts the same filters as the product list.\n',
+        parameters: [
+            {
+                in: 'query',
+                name: 'q',
+                required: true,
+                schema: {
+                    type: 'string',
+                    minLength: 1,
+                    maxLength: 100,
+                    example: 'monitor curvo',
+                    'x-messages': {
+                        required: 'validation.searchRequired',
+                        type: 'validation.searchRequired',
+                        minLength: 'validation.searchRequired',
+                        maxLength: 'validation.searchTooLong'
+                    },
+                    'x-sanitizers': ['trim']
+                }
+            },
+            parameters.page,
+            parameters.limit,
+            ...filters,
+            parameters.include,
+            parameters.currency
+        ],
+        responses: {
+            200: json('Successful response', paginated({
+                allOf: [
+                    ref('Product'),
+                    {
+                        type: 'object',
+                        properties: {
+                            relevance: { type: 'number', example: 0.93 },
+                            highlight: { type: 'string', example: '<mark>Monitor</mark> <mark>Curvo</mark> 49 pulgadas' }
+                        }
+                    }
+                ]
+            }, false)),
+            400: problem('Bad Request - Missing search text or invalid query parameters')
+        }
+    },
+    exportProducts: {
+        method: 'get',
+        path: '/api/products/export',
+        operationId: 'exportProducts',
+        summary: 'Export the product catalog',
+        tags: ['Products'],
+        description: 'Streams every product matching the filters as a CSV or JSON file',
+        parameters: [
+            format(undefined, 'csv'),
+            nameFilter('Export only products whose name contains this text'),
+            ...filters
+        ],
+        responses: {
+            200: {
+                description: 'Successful response',
+                headers: {
+                    'Content-Disposition': {
+                        description: 'Downloaded as products.csv or products.json',
+                        schema: { type: 'string', example: 'attachment; filename="products.csv"' }
+                    }
+                },
+                content: {
+                    'text/csv': {
+                        schema: { type: 'string', example: 'id,name,price,availability,stock,lowStockThreshold,createdAt,updatedAt' }
+                    },
+                    'application/json': {
+                        schema: list(ref('Product'))
+                    }
+                }
+            },
+            400: problem('Bad Request - Invalid query parameters')
+        }
+    },
+    importProducts: {
+        method: 'post',
+        path: '/api/products/import',
+        operationId: 'importProducts',
+        summary: 'Import products from a file',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Creates or updates products from a CSV or JSON file, validating each row with the same rules as the product routes. Rows are processed as the file is read. When matching by id, a row with an id updates that product and only needs the columns to change',
+        parameters: [
+            {
+                in: 'query',
+                name: 'key',
+                description: 'Field used to find existing products to update',
+                schema: {
+                    type: 'string',
+                    enum: [...IMPORT_KEYS],
+                    default: 'id',
+                    'x-messages': {
+                        type: 'validation.invalidImportKey',
+                        enum: 'validation.invalidImportKey'
+                    }
+                }
+            },
+            {
+                in: 'query',
+                name: 'dryRun',
+                description: 'Validate the file and report what would happen without saving',
+                schema: {
+                    type: 'boolean',
+                    'x-messages': {
+                        type: 'validation.invalidDryRun'
+                    }
+                }
+            },
+            format('File format, detected from the file when omitted')
+        ],
+        requestBody: {
+            required: true,
+            content: {
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            file: { type: 'string', format: 'binary' }
+                        }
+                    }
+                }
+            }
+        },
+        responses: {
+            200: json('Import report', {
+                type: 'object',
+                properties: {
+                    dryRun: { type: 'boolean' },
+                    created: { type: 'integer', example: 2 },
+                    updated: { type: 'integer', example: 1 },
+                    failed: { type: 'integer', example: 1 },
+                    results: list({
+                        type: 'object',
+                        properties: {
+                            row: { type: 'integer', example: 4 },
+                            status: { type: 'string', enum: ['created', 'updated', 'failed'] },
+                            id: { type: 'integer' },
+                            errors: { type: 'array', items: { type: 'string' }, example: ['Precio no válido'] }
+                        }
+                    })
+                }
+            }),
+            400: problem('Bad Request - Missing or unreadable file'),
+            401: notAuthenticated,
+            403: notAuthorized
+        }
+    },
+    batchProducts: {
+        method: 'post',
+        path: '/api/products/batch',
+        operationId: 'batchProducts',
+        summary: 'Run many product operations at once',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Creates, updates, deletes or toggles the availability of many products in a single transaction. By default nothing is saved if any operation fails; with continueOnError each operation is applied on its own',
+        requestBody: jsonBody({
+            type: 'object',
+            required: ['operations'],
+            properties: {
+                continueOnError: {
+                    type: 'boolean',
+                    default: false,
+                    'x-messages': {
+                        type: 'validation.invalidContinueOnError'
+                    }
+                },
+                operations: {
+                    type: 'array',
+                    minItems: 1,
+                    maxItems: MAX_BATCH_SIZE,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            op: { type: 'string', enum: [...BATCH_OPERATIONS] },
+                            id: { type: 'integer', description: 'Required for update, delete and toggle' },
+                            data: { type: 'object', description: 'Same body as the single product endpoints' }
+                        }
+                    },
+                    example: [
+                        { op: 'create', data: { name: 'Monitor Curvo 49 pulgadas', price: 399 } },
+                        { op: 'toggle', id: 1 }
+                    ],
+                    'x-messages': {
+                        required: 'validation.batchSize',
+                        type: 'validation.batchSize',
+                        minItems: 'validation.batchSize',
+                        maxItems: 'validation.batchSize',
+                        items: 'validation.invalidOperation'
+                    }
+                }
+            }
+        }),
+        responses: {
+            200: json('Every operation was applied', list(ref('BatchResult'))),
+            207: { description: 'Some operations failed, only with continueOnError' },
+            400: problem('Bad request - Invalid operations, nothing was saved. The results member holds a BatchResult per operation'),
+            401: notAuthenticated,
+            403: problem('Not authorized, deleting requires the admin role')
+        }
+    },
+    streamProducts: {
+        method: 'get',
+        path: '/api/products/stream',
+        operationId: 'streamProducts',
+        summary: 'Stream product changes',
+        tags: ['Products'],
+        description: 'Server-Sent Events with the events product.created, product.updated, product.availability_changed and product.deleted.\n'
+            + 'The event id can be sent back as Last-Event-ID (or ?lastEventId) to receive the events missed while disconnected.\n'
+            + 'A comment is sent periodically as heartbeat. The same path accepts WebSocket connections with the same query\n'
+            + 'parameters, each message is a JSON object with id, event, productId and data.\n',
+        parameters: [
+            {
+                in: 'query',
+                name: 'ids',
+                description: 'Comma separated product IDs, all products when omitted',
+                schema: {
+                    type: 'string',
+                    pattern: '^\\d+(,\\d+)*$',
+                    example: '1,2,3',
+                    'x-messages': {
+                        type: 'validation.invalidIds',
+                        pattern: 'validation.invalidIds'
+                    }
+                }
+            },
+            eventId('query', 'lastEventId'),
+            eventId('header', 'Last-Event-ID')
+        ],
+        responses: {
+            200: {
+                description: 'Event stream',
+                content: {
+                    'text/event-stream': {
+                        schema: {
+                            type: 'string',
+                            example: 'id: 42\nevent: product.availability_changed\ndata: {"productId":1,"product":{...},"changes":{...},"createdAt":"..."}'
+                        }
+                    }
+                }
+            },
+            400: problem('Bad request - Invalid IDs or event id')
+        }
+    },
+    listTrashedProducts: {
+        method: 'get',
+        path: '/api/products/trash',
+        operationId: 'listTrashedProducts',
+        summary: 'Get the deleted products',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Return the products in the trash, most recently deleted first',
+        responses: {
+            200: json('Successful response', list({
+                allOf: [
+                    ref('Product'),
+                    {
+                        type: 'object',
+                        properties: {
+                            deletedAt: { type: 'string', format: 'date-time' }
+                        }
+                    }
+                ]
+            })),
+            401: notAuthenticated,
+            403: notAuthorized
+        }
+    },
+    listUpcomingSchedules: {
+        method: 'get',
+        path: '/api/products/schedules',
+        operationId: 'listUpcomingSchedules',
+        summary: 'Get the upcoming scheduled changes of the catalog',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Return the scheduled changes of every product, ordered by start date. Products in the trash are left out',
+        parameters: [scheduleStatus],
+        responses: {
+            200: json('Successful response', list({
+                allOf: [
+                    ref('ProductSchedule'),
+                    {
+                        type: 'object',
+                        required: ['product'],
+                        properties: {
+                            product: {
+                                type: 'object',
+                                required: ['id', 'name', 'price', 'currency', 'availability'],
+                                properties: {
+                                    id: { type: 'integer', example: 1 },
+                                    name: { type: 'string', example: 'Monitor curvo de 40 pulgadas' },
+                                    price: { type: 'number', example: 300 },
+                                    currency: { type: 'string', example: 'USD' },
+                                    availability: { type: 'boolean', example: true }
+                                }
+                            }
+                        }
+                    }
+                ]
+            })),
+            400: problem('Bad request - Invalid status'),
+            401: notAuthenticated,
+            403: notAuthorized
+        }
+    },
+    getProduct: {
+        method: 'get',
+        path: '/api/products/{id}',
+        operationId: 'getProduct',
+        summary: 'Get a product by ID',
+        tags: ['Products'],
+        description: 'Return a product based on its unique ID',
+        parameters: [
+            parameters.productId,
+            { ...parameters.include, description: 'Related data to include in the product' },
+            parameters.currency,
+            ...conditionalGet
+        ],
+        responses: {
+            200: json('Successful response', ref('Product'), xCache),
+            304: { description: 'Not modified' },
+            400: problem('Bad Request - Invalid ID'),
+            404: problem('Not found')
+        }
+    },
+    createProduct: {
+        method: 'post',
+        path: '/api/products',
+        operationId: 'createProduct',
+        summary: 'Create a new product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Return a new record in the database',
+        requestBody: jsonBody(ref('ProductInput')),
+        responses: {
+            201: json('Successful response', ref('Product')),
+            400: problem('Bad Request - invalid input data'),
+            401: notAuthenticated,
+            403: notAuthorized
+        }
+    },
+    updateProduct: {
+        method: 'put',
+        path: '/api/products/{id}',
+        operationId: 'updateProduct',
+        summary: 'Updates a product with user input',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Returns the updated product',
+        parameters: [parameters.productId, ifMatch],
+        requestBody: jsonBody(ref('ProductUpdate')),
+        responses: {
+            200: json('Successful response', ref('Product')),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            412: modifiedByOther
+        }
+    },
+    toggleProductAvailability: {
+        method: 'patch',
+        path: '/api/products/{id}',
+        operationId: 'toggleProductAvailability',
+        summary: 'Update Product availability',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Returns the updated availability',
+        parameters: [parameters.productId, ifMatch],
+        responses: {
+            200: json('Successful response', ref('Product')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            409: problem('Conflict - A product without stock cannot be made available'),
+            412: modifiedByOther
+        }
+    },
+    deleteProduct: {
+        method: 'delete',
+        path: '/api/products/{id}',
+        operationId: 'deleteProduct',
+        summary: 'Delete a product by ID',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Moves the product to the trash and returns a confirmation message',
+        parameters: [parameters.productId, ifMatch],
+        responses: {
+            200: json('Successful response', confirmation('Producto Eliminado')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            412: modifiedByOther
+        }
+    },
+    listMovements: {
+        method: 'get',
+        path: '/api/products/{id}/movements',
+        operationId: 'listMovements',
+        summary: 'Get the inventory ledger of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Returns every stock movement of the product, newest first',
+        parameters: [parameters.productId],
+        responses: {
+            200: json('Successful response', list(ref('InventoryMovement'))),
+            400: invalidId,
+            401: notAuthenticated,
+            404: productNotFound
+        }
+    },
+    recordMovement: {
+        method: 'post',
+        path: '/api/products/{id}/movements',
+        operationId: 'recordMovement',
+        summary: 'Record an inventory movement',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Updates the product stock and availability and appends the movement to the ledger',
+        parameters: [parameters.productId],
+        requestBody: jsonBody(ref('InventoryMovementInput')),
+        responses: {
+            201: json('Successful response', {
+                type: 'object',
+                properties: {
+                    movement: ref('InventoryMovement'),
+                    product: ref('Product')
+                }
+            }),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            409: problem('Not enough stock for the movement')
+        }
+    },
+    listPrices: {
+        method: 'get',
+        path: '/api/products/{id}/prices',
+        operationId: 'listPrices',
+        summary: 'Get the price lists of a product',
+        tags: ['Products'],
+        description: 'Returns the additional prices of the product by price list and currency',
+        parameters: [
+            parameters.productId,
+            currency('query', 'Convert every amount to this currency with the local exchange rates')
+        ],
+        responses: {
+            200: json('Successful response', list(ref('ProductPrice'))),
+            400: problem('Bad request - Invalid Id, invalid currency or missing exchange rate'),
+            404: productNotFound
+        }
+    },
+    getPriceHistory: {
+        method: 'get',
+        path: '/api/products/{id}/prices/history',
+        operationId: 'getPriceHistory',
+        summary: 'Get the price history of a product',
+        tags: ['Products'],
+        description: 'Returns every price the product had with its effective dates, newest first. With the at parameter only the prices in effect on that date are returned',
+        parameters: [
+            parameters.productId,
+            priceList('query'),
+            currency('query'),
+            {
+                in: 'query',
+                name: 'at',
+                description: 'Date to look up',
+                schema: {
+                    type: 'string',
+                    format: 'date-time',
+                    'x-messages': {
+                        type: 'validation.invalidDate',
+                        format: 'validation.invalidDate'
+                    }
+                }
+            }
+        ],
+        responses: {
+            200: json('Successful response', list(ref('PriceHistory'))),
+            400: problem('Bad request - Invalid Id or invalid filters'),
+            404: productNotFound
+        }
+    },
+    setPrice: {
+        method: 'put',
+        path: '/api/products/{id}/prices/{priceList}/{currency}',
+        operationId: 'setPrice',
+        summary: 'Create or update a price of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Sets the amount of the product in a price list and currency, the change is added to the price history',
+        parameters: [parameters.productId, priceList('path'), currency('path')],
+        requestBody: jsonBody(ref('ProductPriceInput')),
+        responses: {
+            200: json('The price was updated', ref('ProductPrice')),
+            201: json('The price was created', ref('ProductPrice')),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound
+        }
+    },
+    deletePrice: {
+        method: 'delete',
+        path: '/api/products/{id}/prices/{priceList}/{currency}',
+        operationId: 'deletePrice',
+        summary: 'Delete a price of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Removes the price from the price list, the price history keeps it',
+        parameters: [parameters.productId, priceList('path'), currency('path')],
+        responses: {
+            200: json('Successful response', confirmation('Precio Eliminado')),
+            400: problem('Bad request - Invalid Id, price list or currency'),
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Price not found')
+        }
+    },
+    getProductHistory: {
+        method: 'get',
+        path: '/api/products/{id}/history',
+        operationId: 'getProductHistory',
+        summary: 'Get the change history of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Returns every revision of the product, newest first, even if it was deleted',
+        parameters: [parameters.productId],
+        responses: {
+            200: json('Successful response', list(ref('ProductRevision'))),
+            400: invalidId,
+            401: notAuthenticated,
+            404: productNotFound
+        }
+    },
+    revertProduct: {
+        method: 'post',
+        path: '/api/products/{id}/revert/{revisionId}',
+        operationId: 'revertProduct',
+        summary: 'Revert a product to a previous revision',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Restores the product as it was after the revision, or before it when the revision is a deletion, taking it out of the trash if needed. Stock is not reverted, it only changes through inventory movements',
+        parameters: [parameters.productId, pathId('revisionId', 'validation.invalidId', 'The Id of the revision to restore')],
+        responses: {
+            200: json('Successful response', ref('Product')),
+            201: json('The purged product was created again', ref('Product')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Revision not found')
+        }
+    },
+    restoreProduct: {
+        method: 'post',
+        path: '/api/products/{id}/restore',
+        operationId: 'restoreProduct',
+        summary: 'Restore a deleted product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Moves a product out of the trash',
+        parameters: [parameters.productId],
+        responses: {
+            200: json('Successful response', ref('Product')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product not found in trash')
+        }
+    },
+    purgeProduct: {
+        method: 'delete',
+        path: '/api/products/{id}/purge',
+        operationId: 'purgeProduct',
+        summary: 'Permanently delete a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Removes a product in the trash from the database, its history is kept',
+        parameters: [parameters.productId],
+        responses: {
+            200: json('Successful response', confirmation('Producto Eliminado Definitivamente')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product not found in trash')
+        }
+    },
+    uploadImage: {
+        method: 'post',
+        path: '/api/products/{id}/images',
+        operationId: 'uploadImage',
+        summary: 'Upload a product image',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Stores a JPEG, PNG, GIF or WebP image. The first image of a product becomes the primary image',
+        parameters: [parameters.productId],
+        requestBody: {
+            required: true,
+            content: {
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        description: 'The text fields must be sent before the image',
+                        properties: {
+                            position: { type: 'integer', description: 'Position in the gallery, at the end by default' },
+                            isPrimary: { type: 'boolean' },
+                            image: { type: 'string', format: 'binary' }
+                        }
+                    }
+                }
+            }
+        },
+        responses: {
+            201: json('Successful response', ref('ProductImage')),
+            400: problem('Bad request - Invalid Id, missing image or invalid position'),
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            413: problem('The image is too large'),
+            415: problem('The file is not a supported image')
+        }
+    },
+    updateImage: {
+        method: 'patch',
+        path: '/api/products/{id}/images/{imageId}',
+        operationId: 'updateImage',
+        summary: 'Reorder an image or make it the primary image',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Returns the updated image',
+        parameters: [parameters.productId, pathId('imageId', 'validation.invalidImageId')],
+        requestBody: jsonBody(ref('ProductImageUpdate')),
+        responses: {
+            200: json('Successful response', ref('ProductImage')),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product or image not found')
+        }
+    },
+    deleteImage: {
+        method: 'delete',
+        path: '/api/products/{id}/images/{imageId}',
+        operationId: 'deleteImage',
+        summary: 'Delete a product image',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Removes the image and its file. When it was the primary image the next one in the gallery takes its place',
+        parameters: [parameters.productId, pathId('imageId', 'validation.invalidImageId')],
+        responses: {
+            200: json('Successful response', confirmation('Imagen Eliminada')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product or image not found')
+        }
+    },
+    listVariants: {
+        method: 'get',
+        path: '/api/products/{id}/variants',
+        operationId: 'listVariants',
+        summary: 'Get the variants of a product',
+        tags: ['Products'],
+        parameters: [parameters.productId],
+        responses: {
+            200: json('Successful response', list(ref('ProductVariant'))),
+            400: invalidId,
+            404: productNotFound
+        }
+    },
+    getVariant: {
+        method: 'get',
+        path: '/api/products/{id}/variants/{variantId}',
+        operationId: 'getVariant',
+        summary: 'Get a variant of a product',
+        tags: ['Products'],
+        parameters: [parameters.productId, pathId('variantId', 'validation.invalidVariantId')],
+        responses: {
+            200: json('Successful response', ref('ProductVariant')),
+            400: invalidId,
+            404: problem('Product or variant not found')
+        }
+    },
+    createVariant: {
+        method: 'post',
+        path: '/api/products/{id}/variants',
+        operationId: 'createVariant',
+        summary: 'Create a variant of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'The options must use existing attributes and one of their allowed values, each combination can only be used once per product',
+        parameters: [parameters.productId],
+        requestBody: jsonBody(ref('ProductVariantInput')),
+        responses: {
+            201: json('Successful response', ref('ProductVariant')),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            409: problem('The SKU or the combination of options already exists')
+        }
+    },
+    generateVariants: {
+        method: 'post',
+        path: '/api/products/{id}/variants/generate',
+        operationId: 'generateVariants',
+        summary: 'Generate the variant matrix of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Creates a variant for every combination of the selected attribute values. Combinations the product already has are skipped. The SKU is built from the prefix and the values, e.g. P1-27-BLACK',
+        parameters: [parameters.productId],
+        requestBody: jsonBody(ref('VariantGenerationInput')),
+        responses: {
+            200: json('Every combination already existed', variantMatrix()),
+            201: json('The missing variants were created', variantMatrix(4)),
+            400: problem('Bad request - Invalid Id, invalid selection or too many combinations'),
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            409: problem('A generated SKU already exists')
+        }
+    },
+    updateVariant: {
+        method: 'patch',
+        path: '/api/products/{id}/variants/{variantId}',
+        operationId: 'updateVariant',
+        summary: 'Update a variant of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Only the fields sent are changed',
+        parameters: [parameters.productId, pathId('variantId', 'validation.invalidVariantId')],
+        requestBody: jsonBody(ref('ProductVariantUpdate')),
+        responses: {
+            200: json('Successful response', ref('ProductVariant')),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product or variant not found'),
+            409: problem('The SKU or the combination of options already exists')
+        }
+    },
+    deleteVariant: {
+        method: 'delete',
+        path: '/api/products/{id}/variants/{variantId}',
+        operationId: 'deleteVariant',
+        summary: 'Delete a variant of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        parameters: [parameters.productId, pathId('variantId', 'validation.invalidVariantId')],
+        responses: {
+            200: json('Successful response', confirmation('Variante Eliminada')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product or variant not found')
+        }
+    },
+    listSchedules: {
+        method: 'get',
+        path: '/api/products/{id}/schedules',
+        operationId: 'listSchedules',
+        summary: 'Get the scheduled changes of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Return the scheduled changes of the product ordered by start date, pending and active by default',
+        parameters: [parameters.productId, scheduleStatus],
+        responses: {
+            200: json('Successful response', list(ref('ProductSchedule'))),
+            400: problem('Bad request - Invalid Id or status'),
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound
+        }
+    },
+    createSchedule: {
+        method: 'post',
+        path: '/api/products/{id}/schedules',
+        operationId: 'createSchedule',
+        summary: 'Schedule a change of the price or the availability of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'The change is applied at startsAt and, when endsAt is set, the previous values are restored at endsAt unless the field was changed again in the meantime. Changes of the same field can\'t overlap',
+        parameters: [parameters.productId],
+        requestBody: jsonBody(ref('ProductScheduleInput')),
+        responses: {
+            201: json('Successful response', ref('ProductSchedule')),
+            400: invalidInput,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: productNotFound,
+            409: problem('Another scheduled change of the same field overlaps')
+        }
+    },
+    cancelSchedule: {
+        method: 'delete',
+        path: '/api/products/{id}/schedules/{scheduleId}',
+        operationId: 'cancelSchedule',
+        summary: 'Cancel a scheduled change of a product',
+        tags: ['Products'],
+        security: bearerAuth,
+        description: 'Only pending changes can be cancelled, the cancelled change is returned',
+        parameters: [parameters.productId, pathId('scheduleId', 'validation.invalidScheduleId')],
+        responses: {
+            200: json('Successful response', ref('ProductSchedule')),
+            400: invalidId,
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Product or scheduled change not found'),
+            409: problem('The change was already applied, completed or cancelled')
+        }
+    },
+    // Sin operationId: el cliente generado solo cubre los productos
+    listExchangeRates: {
+        method: 'get',
+        path: '/api/exchange-rates',
+        summary: 'Get the exchange rates',
+        tags: ['Exchange rates'],
+        description: 'Returns the base currency and the local rates used to convert prices with ?currency=',
+        responses: {
+            200: json('Successful response', {
+                type: 'object',
+                properties: {
+                    base: { type: 'string', example: 'USD' },
+                    rates: list(ref('ExchangeRate'))
+                }
+            })
+        }
+    },
+    setExchangeRate: {
+        method: 'put',
+        path: '/api/exchange-rates/{currency}',
+        summary: 'Create or update an exchange rate',
+        tags: ['Exchange rates'],
+        security: bearerAuth,
+        description: 'Returns the saved exchange rate',
+        parameters: [currency('path', 'ISO 4217 code, other than the base currency')],
+        requestBody: jsonBody(ref('ExchangeRateInput')),
+        responses: {
+            200: json('The exchange rate was updated', ref('ExchangeRate')),
+            201: json('The exchange rate was created', ref('ExchangeRate')),
+            400: problem('Bad request - Invalid currency or rate'),
+            401: notAuthenticated,
+            403: notAuthorized
+        }
+    },
+    deleteExchangeRate: {
+        method: 'delete',
+        path: '/api/exchange-rates/{currency}',
+        summary: 'Delete an exchange rate',
+        tags: ['Exchange rates'],
+        security: bearerAuth,
+        description: 'Prices can no longer be converted to or from this currency',
+        parameters: [currency('path')],
+        responses: {
+            200: json('Successful response', confirmation('Tasa de Cambio Eliminada')),
+            400: problem('Bad request - Invalid currency'),
+            401: notAuthenticated,
+            403: notAuthorized,
+            404: problem('Exchange rate not found')
+        }
+    }
+} satisfies Record<string, Operation>
+
+// Agrupadas por ruta en el orden en que se declaran
+export const paths = Object.values(operations).reduce<Record<string, PathItemObject>>((paths, { method, path, ...operation }) => {
+    paths[path] = { ...paths[path], [method]: operation }
+    return paths
+}, {})
@@ -0,0 +1,55 @@
+import Ajv, { ValidateFunction } from "ajv";
+import swaggerSpec from "../config/swagger";
+import { HttpMethod, jsonResponseSchema, OpenAPISpec } from "./document";
+
+// Validación de las respuestas con Ajv contra los esquemas del documento servido en /docs
+
+export type ResponseProblem = {
+    path: string
+    message: string
+}
+
+// Ajv sigue JSON Schema: exclusiveMinimum es el límite, no un booleano junto a minimum como en OpenAPI 3.0
+const toJSONSchema = (value: unknown) : unknown => {
+    if(Array.isArray(value)) return value.map(toJSONSchema)
+    if(typeof value !== 'object' || value === null) return value
+
+    const { minimum, exclusiveMinimum, ...rest } = value as Record<string, unknown>
+    const schema = Object.fromEntries(Object.entries(rest).map(([key, child]) => [key, toJSONSchema(child)]))
+    if(exclusiveMinimum === true) return { ...schema, exclusiveMinimum: minimum }
+    return minimum === undefined ? schema : { ...schema, minimum }
+}
+
+// ["paths", "/api/products/{id}"] => "#/paths/~1api~1products~1%7Bid%7D"
+const pointer = (segments: string[]) => {
+    return '#/' + segments.map(segment => encodeURIComponent(segment.replace(/~/g, '~0').replace(/\//g, '~1'))).join('/')
+}
+
+export const createResponseValidator = (spec: OpenAPISpec) => {
+    const ajv = new Ajv({ strict: false, allErrors: true, validateSchema: false, validateFormats: false, multipleOfPrecision: 8 })
+    ajv.addSchema(toJSONSchema(spec) as object, 'openapi')
+    const validators = new Map<string, ValidateFunction | undefined>()
+
+    // Sin problemas devuelve una lista vacía, las operaciones no documentadas las detecta la comprobación de rutas
+    return (method: HttpMethod, path: string, status: number, body: unknown) : ResponseProblem[] => {
+        const operation = spec.paths[path]?.[method]
+        if(!operation) return []
+
+        const documented = [String(status), 'default'].find(code => operation.responses?.[code])
+        if(!documented) {
+            return [{ path: '', message: `status ${status} is not documented` }]
+        }
+        if(!jsonResponseSchema(operation.responses![documented])) return []
+
+        const key = `${method} ${path} ${status}`
+        if(!validators.has(key)) {
+            validators.set(key, ajv.getSchema(`openapi${pointer(['paths', path, method, 'responses', documented, 'content', 'application/json', 'schema'])}`))
+        }
+        const validate = validators.get(key)!
+        // Se valida el JSON que recibe el cliente, no las instancias de los modelos
+        if(validate(JSON.parse(JSON.stringify(body)))) return []
+        return validate.errors!.map(error => ({ path: error.instancePath, message: error.message ?? error.keyword }))
+    }
+}
+
+export const validateResponse = createResponseValidator(swaggerSpec)
@@ -0,0 +1,49 @@
+import { Express } from "express";
+import { HTTP_METHODS, HttpMethod, OpenAPISpec, operations, toSpecPath } from "./document";
+
+// Compara las rutas registradas en Express con las operaciones de la especificación
+
+// Rutas que no forman parte de la API REST documentada
+export const UNDOCUMENTED_PATHS = ['/graphql', '/metrics']
+
+type Layer = {
+    name: string
+    regexp: RegExp & { fast_slash?: boolean }
+    route?: { path: string, methods: Record<string, boolean> }
+    handle: { stack?: Layer[] }
+}
+
+// /^\/api\/products\/?(?=\/|$)/i => /api/products
+const mountPath = (layer: Layer) => {
+    if(layer.regexp.fast_slash) return ''
+    return layer.regexp.source
+        .replace(/^\^/, '')
+        .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+        .replace(/\\(.)/g, '$1')
+}
+
+const listRoutes = (stack: Layer[], prefix = '') : string[] => stack.flatMap(layer => {
+    if(layer.route) {
+        const path = toSpecPath(prefix + layer.route.path)
+        return Object.keys(layer.route.methods)
+            .filter((method) : method is HttpMethod => HTTP_METHODS.includes(method as HttpMethod))
+            .map(method => `${method.toUpperCase()} ${path}`)
+    }
+    if(layer.name === 'router' && layer.handle.stack) {
+        return listRoutes(layer.handle.stack, prefix + mountPath(layer))
+    }
+    return []
+})
+
+export const compareRoutes = (app: Express, spec: OpenAPISpec) => {
+    const routes = new Set(listRoutes(app._router.stack)
+        .filter(route => !UNDOCUMENTED_PATHS.some(path => route.split(' ')[1].startsWith(path))))
+    const documented = new Set(operations(spec).map(({ method, path }) => `${method.toUpperCase()} ${path}`))
+
+    return {
+        // Rutas sin documentar
+        undocumented: [...routes].filter(route => !documented.has(route)),
+        // Operaciones documentadas que ninguna ruta atiende
+        unrouted: [...documented].filter(operation => !routes.has(operation))
+    }
+}
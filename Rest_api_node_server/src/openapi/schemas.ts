@@ -0,0 +1,1012 @@
+import { PRICE_SCALE, SUPPORTED_CURRENCIES } from "../utils/money";
+import { MAX_LIMIT } from "../utils/pagination";
+import { DEFAULT_SORT } from "../services/product";
+import { SCHEDULE_STATUSES } from "../models/ProductSchedule.model";
+import { MOVEMENT_TYPES } from "../models/InventoryMovement.model";
+import { SKU_LENGTH } from "../models/ProductVariant.model";
+import { REVISION_ACTIONS } from "../models/ProductRevision.model";
+import type { ParameterObject } from "./document";
+import { MessageKey } from "../i18n";
+
+// Fuente única de los esquemas de productos: se publican en /docs, validan las peticiones
+// (validators/schema.ts) y las respuestas (middleware de contrato) y generan el cliente
+
+export type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+
+// Reglas de la validación de peticiones, cada una con su mensaje
+export type SchemaRule = 'required' | 'type' | 'format' | 'minLength' | 'maxLength' | 'minimum' | 'maximum' | 'multipleOf' | 'pattern'
+    | 'enum' | 'items' | 'minItems' | 'maxItems' | 'minProperties' | 'additionalProperties' | 'after'
+
+export type SchemaObject = {
+    $ref?: string
+    type?: SchemaType
+    description?: string
+    format?: string
+    example?: unknown
+    default?: unknown
+    nullable?: boolean
+    readOnly?: boolean
+    properties?: Record<string, SchemaObject>
+    required?: string[]
+    additionalProperties?: SchemaObject | boolean
+    items?: SchemaObject
+    allOf?: SchemaObject[]
+    oneOf?: SchemaObject[]
+    enum?: (string | number)[]
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: boolean
+    minLength?: number
+    maxLength?: number
+    minItems?: number
+    maxItems?: number
+    uniqueItems?: boolean
+    minProperties?: number
+    multipleOf?: number
+    pattern?: string
+    // Mensaje de error de cada regla en la validación de peticiones
+    'x-messages'?: Partial<Record<SchemaRule, MessageKey>>
+    // Se aplican una vez comprobado el tipo
+    'x-sanitizers'?: ('trim' | 'toUpperCase')[]
+    // Fechas posteriores a ahora ('now') o a otro campo de la petición
+    'x-after'?: string
+}
+
+export const ref = (name: string) : SchemaObject => ({ $ref: `#/components/schemas/${name}` })
+
+// Campos de escritura de un producto
+const productFields = {
+    name: {
+        type: 'string',
+        maxLength: 100,
+        description: 'The product name',
+        example: 'Monitor curvo de 40 pulgadas',
+        'x-messages': {
+            required: 'validation.productNameRequired',
+            maxLength: 'validation.productNameTooLong'
+        }
+    },
+    price: {
+        type: 'number',
+        minimum: 0,
+        exclusiveMinimum: true,
+        multipleOf: 10 ** -PRICE_SCALE,
+        description: `The product price, stored as an exact decimal with ${PRICE_SCALE} digits`,
+        example: 300,
+        'x-messages': {
+            required: 'validation.productPriceRequired',
+            type: 'validation.invalidValue',
+            minimum: 'validation.invalidPrice',
+            multipleOf: 'validation.priceDecimals'
+        }
+    },
+    currency: ref('Currency'),
+    availability: {
+        type: 'boolean',
+        description: 'The product availability, derived from stock: it is only true while stock is above the low stock threshold',
+        example: true,
+        'x-messages': {
+            required: 'validation.invalidAvailability',
+            type: 'validation.invalidAvailability'
+        }
+    },
+    lowStockThreshold: {
+        type: 'integer',
+        minimum: 0,
+        nullable: true,
+        description: 'The product becomes unavailable when its stock is not above this value',
+        example: 5,
+        'x-messages': {
+            type: 'validation.invalidLowStockThreshold',
+            minimum: 'validation.invalidLowStockThreshold'
+        }
+    }
+} satisfies Record<string, SchemaObject>
+
+const categoryIds: SchemaObject = {
+    type: 'array',
+    description: 'The IDs of the product categories',
+    items: { type: 'integer' },
+    example: [1, 2],
+    'x-messages': {
+        type: 'validation.categoriesNotList',
+        items: 'validation.invalidCategories'
+    }
+}
+
+// Importe en la moneda del producto: precios de las listas y de las variantes
+const amount = {
+    type: 'number',
+    minimum: 0,
+    exclusiveMinimum: true,
+    multipleOf: 10 ** -PRICE_SCALE,
+    'x-messages': {
+        required: 'validation.invalidPrice',
+        type: 'validation.invalidPrice',
+        minimum: 'validation.invalidPrice',
+        multipleOf: 'validation.priceDecimals'
+    }
+} satisfies SchemaObject
+
+// Campos de escritura de una variante
+const variantFields = {
+    sku: {
+        type: 'string',
+        maxLength: SKU_LENGTH,
+        pattern: '^[A-Za-z0-9][\\w.-]*$',
+        description: 'Unique code of the variant',
+        example: 'MON-27-BLACK',
+        'x-messages': {
+            required: 'validation.invalidSku',
+            type: 'validation.invalidSku',
+            pattern: 'validation.invalidSku',
+            maxLength: 'validation.invalidSku'
+        },
+        'x-sanitizers': ['trim']
+    },
+    options: {
+        type: 'object',
+        minProperties: 1,
+        description: 'The value of each attribute, existing attributes with one of their allowed values',
+        additionalProperties: {
+            type: 'string'
+        },
+        example: { size: '27', color: 'black' },
+        'x-messages': {
+            required: 'validation.invalidOptions',
+            type: 'validation.invalidOptions',
+            minProperties: 'validation.invalidOptions',
+            additionalProperties: 'validation.invalidOptions'
+        }
+    },
+    price: {
+        ...amount,
+        nullable: true,
+        description: 'Price in the product currency, null uses the product price',
+        example: 349.9
+    },
+    availability: {
+        type: 'boolean',
+        example: true,
+        'x-messages': {
+            type: 'validation.invalidAvailability'
+        }
+    }
+} satisfies Record<string, SchemaObject>
+
+export const schemas = {
+    Currency: {
+        type: 'string',
+        enum: SUPPORTED_CURRENCIES,
+        description: 'ISO 4217 code of the price currency, the base currency by default when creating a product',
+        example: 'USD',
+        'x-messages': {
+            type: 'validation.invalidCurrency',
+            enum: 'validation.invalidCurrency'
+        },
+        'x-sanitizers': ['toUpperCase']
+    },
+    Product: {
+        type: 'object',
+        required: ['id', 'name', 'price', 'currency', 'availability', 'stock', 'version'],
+        properties: {
+            id: {
+                type: 'integer',
+                description: 'The product ID',
+                example: 1
+            },
+            name: productFields.name,
+            price: productFields.price,
+            currency: productFields.currency,
+            availability: productFields.availability,
+            stock: {
+                type: 'integer',
+                description: 'Units in stock, updated through inventory movements',
+                example: 25
+            },
+            lowStockThreshold: productFields.lowStockThreshold,
+            version: {
+                type: 'integer',
+                description: 'Incremented on every change, part of the ETag header',
+                example: 3
+            },
+            createdAt: {
+                type: 'string',
+                format: 'date-time'
+            },
+            updatedAt: {
+                type: 'string',
+                format: 'date-time'
+            },
+            deletedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+                description: 'Only set on deleted products, listed in the trash'
+            },
+            categories: {
+                type: 'array',
+                description: 'The product categories, only present when requested with include=categories',
+                items: ref('Category')
+            },
+            images: {
+                type: 'array',
+                description: 'The product images ordered by position',
+                items: ref('ProductImage')
+            },
+            variants: {
+                type: 'array',
+                description: 'The product variants',
+                items: ref('ProductVariant')
+            },
+            variantSummary: ref('VariantSummary'),
+            schedules: {
+                type: 'array',
+                description: 'Upcoming scheduled changes: pending, or applied and waiting to be reverted',
+                items: ref('ProductSchedule')
+            }
+        }
+    },
+    ProductInput: {
+        type: 'object',
+        required: ['name', 'price'],
+        properties: {
+            ...productFields,
+            categories: categoryIds
+        }
+    },
+    ProductUpdate: {
+        type: 'object',
+        required: ['name', 'price', 'availability'],
+        properties: {
+            ...productFields,
+            categories: categoryIds
+        }
+    },
+    ProductImage: {
+        type: 'object',
+        required: ['id', 'key', 'url', 'position', 'isPrimary'],
+        properties: {
+            id: {
+                type: 'integer',
+                example: 1
+            },
+            key: {
+                type: 'string',
+                description: 'Location of the file in the storage',
+                example: 'products/1/1f0c7d1e-5a7b-4c0e-9d2a-6f1c2b3a4d5e.jpg'
+            },
+            url: {
+                type: 'string',
+                example: '/uploads/products/1/1f0c7d1e-5a7b-4c0e-9d2a-6f1c2b3a4d5e.jpg'
+            },
+            filename: {
+                type: 'string',
+                example: 'monitor.jpg'
+            },
+            mimeType: {
+                type: 'string',
+                example: 'image/jpeg'
+            },
+            size: {
+                type: 'integer',
+                description: 'Size in bytes',
+                example: 204800
+            },
+            position: {
+                type: 'integer',
+                description: 'Order in the product gallery, starting at 0',
+                example: 0
+            },
+            isPrimary: {
+                type: 'boolean',
+                example: true
+            }
+        }
+    },
+    ProductImageUpdate: {
+        type: 'object',
+        properties: {
+            position: {
+                type: 'integer',
+                minimum: 0,
+                example: 0,
+                'x-messages': {
+                    type: 'validation.invalidPosition',
+                    minimum: 'validation.invalidPosition'
+                }
+            },
+            isPrimary: {
+                type: 'boolean',
+                example: true,
+                'x-messages': {
+                    type: 'validation.invalidPrimary'
+                }
+            }
+        }
+    },
+    ProductVariant: {
+        type: 'object',
+        required: ['id', 'sku', 'options', 'price', 'availability'],
+        properties: {
+            id: {
+                type: 'integer',
+                example: 1
+            },
+            productId: {
+                type: 'integer',
+                example: 1
+            },
+            sku: {
+                type: 'string',
+                description: 'Unique code of the variant',
+                example: 'P1-27-BLACK'
+            },
+            options: {
+                type: 'object',
+                description: 'The value of each attribute',
+                additionalProperties: {
+                    type: 'string'
+                },
+                example: { size: '27', color: 'black' }
+            },
+            price: {
+                type: 'number',
+                nullable: true,
+                description: 'Price in the product currency, null uses the product price',
+                example: 349.9
+            },
+            availability: {
+                type: 'boolean',
+                example: true
+            }
+        }
+    },
+    ProductVariantInput: {
+        type: 'object',
+        required: ['sku', 'options'],
+        properties: variantFields
+    },
+    ProductVariantUpdate: {
+        type: 'object',
+        description: 'Only the fields sent are changed',
+        properties: variantFields
+    },
+    VariantGenerationInput: {
+        type: 'object',
+        required: ['attributes'],
+        properties: {
+            attributes: {
+                type: 'object',
+                minProperties: 1,
+                description: 'The values of each attribute to combine',
+                additionalProperties: {
+                    type: 'array',
+                    minItems: 1,
+                    uniqueItems: true,
+                    items: {
+                        type: 'string'
+                    }
+                },
+                example: { size: ['24', '27'], color: ['black', 'white'] },
+                'x-messages': {
+                    required: 'validation.invalidSelection',
+                    type: 'validation.invalidSelection',
+                    minProperties: 'validation.invalidSelection',
+                    additionalProperties: 'validation.invalidSelection'
+                }
+            },
+            skuPrefix: {
+                type: 'string',
+                pattern: '^[A-Za-z0-9][\\w.-]{0,19}$',
+                description: 'P followed by the product id by default',
+                example: 'MON',
+                'x-messages': {
+                    type: 'validation.invalidSkuPrefix',
+                    pattern: 'validation.invalidSkuPrefix'
+                }
+            },
+            price: {
+                ...amount,
+                nullable: true,
+                description: 'Price of every generated variant, null uses the product price'
+            }
+        }
+    },
+    ProductSchedule: {
+        type: 'object',
+        required: ['id', 'price', 'availability', 'startsAt', 'endsAt', 'status'],
+        properties: {
+            id: {
+                type: 'integer',
+                example: 1
+            },
+            productId: {
+                type: 'integer',
+                example: 1
+            },
+            price: {
+                type: 'number',
+                nullable: true,
+                description: 'Price in the product currency, null keeps the price',
+                example: 249.9
+            },
+            availability: {
+                type: 'boolean',
+                nullable: true,
+                description: 'Null keeps the availability. A product without stock stays unavailable',
+                example: null
+            },
+            startsAt: {
+                type: 'string',
+                format: 'date-time',
+                example: '2026-11-27T00:00:00.000Z'
+            },
+            endsAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+                description: 'The previous values are restored at this date, null makes the change permanent',
+                example: '2026-11-30T00:00:00.000Z'
+            },
+            status: {
+                type: 'string',
+                enum: [...SCHEDULE_STATUSES],
+                description: 'pending until startsAt, active until endsAt, completed once applied and reverted. Expired when the window passed before it could be applied',
+                example: 'pending'
+            },
+            previousPrice: {
+                type: 'number',
+                nullable: true,
+                description: 'Product price when the change was applied, restored at endsAt'
+            },
+            previousAvailability: {
+                type: 'boolean',
+                nullable: true,
+                description: 'Product availability when the change was applied, restored at endsAt'
+            },
+            appliedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true
+            },
+            revertedAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true
+            },
+            userId: {
+                type: 'integer',
+                nullable: true,
+                description: 'The user who scheduled the change'
+            },
+            createdAt: {
+                type: 'string',
+                format: 'date-time'
+            },
+            updatedAt: {
+                type: 'string',
+                format: 'date-time'
+            }
+        }
+    },
+    ProductScheduleInput: {
+        type: 'object',
+        description: 'A change of the price, the availability or both',
+        required: ['startsAt'],
+        properties: {
+            price: {
+                ...productFields.price,
+                description: 'New price in the product currency'
+            },
+            availability: {
+                ...productFields.availability,
+                description: 'New availability'
+            },
+            startsAt: {
+                type: 'string',
+                format: 'date-time',
+                description: 'When the change is applied, must be in the future',
+                example: '2026-11-27T00:00:00.000Z',
+                'x-after': 'now',
+                'x-messages': {
+                    required: 'validation.scheduleStartRequired',
+                    type: 'validation.invalidScheduleDate',
+                    format: 'validation.invalidScheduleDate',
+                    after: 'validation.scheduleStartInPast'
+                }
+            },
+            endsAt: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+                description: 'When the previous values are restored, omit it to make the change permanent',
+                example: '2026-11-30T00:00:00.000Z',
+                'x-after': 'startsAt',
+                'x-messages': {
+                    type: 'validation.invalidScheduleDate',
+                    format: 'validation.invalidScheduleDate',
+                    after: 'validation.scheduleEndBeforeStart'
+                }
+            }
+        }
+    },
+    InventoryMovement: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'integer',
+                example: 1
+            },
+            productId: {
+                type: 'integer',
+                example: 1
+            },
+            type: {
+                type: 'string',
+                enum: [...MOVEMENT_TYPES],
+                example: 'sale'
+            },
+            quantity: {
+                type: 'integer',
+                description: 'Signed change applied to the stock',
+                example: -2
+            },
+            stockAfter: {
+                type: 'integer',
+                description: 'The product stock after the movement',
+                example: 23
+            },
+            reason: {
+                type: 'string',
+                nullable: true,
+                example: 'Pedido 1042'
+            },
+            userId: {
+                type: 'integer',
+                nullable: true,
+                example: 1
+            },
+            createdAt: {
+                type: 'string',
+                format: 'date-time'
+            }
+        }
+    },
+    InventoryMovementInput: {
+        type: 'object',
+        required: ['type', 'quantity'],
+        properties: {
+            type: {
+                type: 'string',
+                enum: [...MOVEMENT_TYPES],
+                example: 'receipt',
+                'x-messages': {
+                    required: 'validation.invalidMovementType',
+                    type: 'validation.invalidMovementType',
+                    enum: 'validation.invalidMovementType'
+                }
+            },
+            quantity: {
+                type: 'integer',
+                description: 'Units moved, adjustments accept negative values',
+                example: 10,
+                'x-messages': {
+                    required: 'validation.invalidQuantity',
+                    type: 'validation.invalidQuantity'
+                }
+            },
+            reason: {
+                type: 'string',
+                maxLength: 255,
+                nullable: true,
+                description: 'Required for adjustments',
+                example: 'Conteo físico',
+                'x-messages': {
+                    type: 'validation.invalidReason',
+                    maxLength: 'validation.invalidReason'
+                }
+            }
+        }
+    },
+    ProductPrice: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'integer',
+                example: 1
+            },
+            productId: {
+                type: 'integer',
+                example: 1
+            },
+            priceList: {
+                type: 'string',
+                example: 'wholesale'
+            },
+            currency: {
+                type: 'string',
+                description: 'ISO 4217 currency code',
+                example: 'EUR'
+            },
+            amount: {
+                type: 'number',
+                example: 249.9
+            }
+        }
+    },
+    ProductPriceInput: {
+        type: 'object',
+        required: ['amount'],
+        properties: {
+            amount: {
+                ...amount,
+                example: 249.9
+            }
+        }
+    },
+    PriceHistory: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'integer',
+                example: 1
+            },
+            productId: {
+                type: 'integer',
+                example: 1
+            },
+            priceList: {
+                type: 'string',
+                description: 'The main product price belongs to the default list',
+                example: 'default'
+            },
+            currency: {
+                type: 'string',
+                example: 'USD'
+            },
+            amount: {
+                type: 'number',
+                example: 300
+            },
+            effectiveFrom: {
+                type: 'string',
+                format: 'date-time'
+            },
+            effectiveTo: {
+                type: 'string',
+                format: 'date-time',
+                nullable: true,
+                description: 'Null while the price is still in effect'
+            },
+            userId: {
+                type: 'integer',
+                nullable: true,
+                example: 1
+            }
+        }
+    },
+    ProductRevision: {
+        type: 'object',
+        properties: {
+            id: {
+                type: 'integer',
+                example: 3
+            },
+            productId: {
+                type: 'integer',
+                example: 1
+            },
+            action: {
+                type: 'string',
+                enum: [...REVISION_ACTIONS],
+                example: 'update'
+            },
+            before: {
+                type: 'object',
+                nullable: true,
+                description: 'The product before the change, null for creations'
+            },
+            after: {
+                type: 'object',
+                nullable: true,
+                description: 'The product after the change, null for deletions'
+            },
+            changes: {
+                type: 'object',
+                description: 'Changed fields with their previous and new values',
+                example: { price: { from: 300, to: 250 } }
+            },
+            userId: {
+                type: 'integer',
+                nullable: true,
+                example: 1
+            },
+            createdAt: {
+                type: 'string',
+                format: 'date-time'
+            }
+        }
+    },
+    BatchResult: {
+        type: 'object',
+        properties: {
+            index: {
+                type: 'integer',
+                description: 'Position of the operation in the request',
+                example: 0
+            },
+            op: {
+                type: 'string',
+                example: 'create'
+            },
+            status: {
+                type: 'integer',
+                description: 'Status the single item endpoint would return, 424 when rolled back because of another operation',
+                example: 201
+            },
+            data: {
+                description: 'The product or the confirmation message'
+            },
+            error: {
+                type: 'string'
+            },
+            code: {
+                type: 'string',
+                description: 'Same code as the problem returned by the single item endpoint',
+                example: 'PRODUCT_NOT_FOUND'
+            },
+            errors: {
+                type: 'array',
+                items: {
+                    type: 'string'
+                }
+            }
+        }
+    },
+    ExchangeRate: {
+        type: 'object',
+        properties: {
+            currency: {
+                type: 'string',
+                description: 'ISO 4217 currency code',
+                example: 'EUR'
+            },
+            rate: {
+                type: 'number',
+                description: 'Units of this currency per unit of the base currency',
+                example: 0.92
+            },
+            updatedAt: {
+                type: 'string',
+                format: 'date-time'
+            }
+        }
+    },
+    ExchangeRateInput: {
+        type: 'object',
+        required: ['rate'],
+        properties: {
+            rate: {
+                type: 'number',
+                minimum: 0,
+                exclusiveMinimum: true,
+                description: 'Units of this currency per unit of the base currency',
+                example: 0.92,
+                'x-messages': {
+                    required: 'validation.invalidRate',
+                    type: 'validation.invalidRate',
+                    minimum: 'validation.invalidRate'
+                }
+            }
+        }
+    },
+    VariantSummary: {
+        type: 'object',
+        nullable: true,
+        description: 'Null when the product has no variants',
+        required: ['count', 'minPrice', 'maxPrice', 'availability'],
+        properties: {
+            count: {
+                type: 'integer',
+                example: 4
+            },
+            minPrice: {
+                type: 'number',
+                example: 300
+            },
+            maxPrice: {
+                type: 'number',
+                example: 349.9
+            },
+            availability: {
+                type: 'boolean',
+                description: 'True when the product and at least one of its variants are available',
+                example: true
+            }
+        }
+    },
+    PaginationMeta: {
+        type: 'object',
+        required: ['total', 'limit', 'page', 'totalPages'],
+        properties: {
+            total: {
+                type: 'integer',
+                description: 'Total number of products matching the filters',
+                example: 42
+            },
+            limit: {
+                type: 'integer',
+                example: 10
+            },
+            page: {
+                type: 'integer',
+                nullable: true,
+                description: 'Current page, null when paginating with a cursor',
+                example: 1
+            },
+            totalPages: {
+                type: 'integer',
+                example: 5
+            },
+            nextCursor: {
+                type: 'string',
+                nullable: true,
+                description: 'Opaque cursor to request the next page, only in the product list',
+                example: 'WzMwMCwxXQ'
+            }
+        }
+    },
+    PaginationLinks: {
+        type: 'object',
+        required: ['self', 'first', 'last', 'prev', 'next'],
+        properties: {
+            self: {
+                type: 'string',
+                example: '/api/products?page=1'
+            },
+            first: {
+                type: 'string',
+                example: '/api/products?page=1'
+            },
+            last: {
+                type: 'string',
+                example: '/api/products?page=5'
+            },
+            prev: {
+                type: 'string',
+                nullable: true
+            },
+            next: {
+                type: 'string',
+                nullable: true,
+                example: '/api/products?page=2'
+            }
+        }
+    }
+} satisfies Record<string, SchemaObject>
+
+// Parámetros compartidos por las rutas de productos (openapi/paths.ts) y las reglas de validators/product.ts
+export const parameters = {
+    productId: {
+        in: 'path',
+        name: 'id',
+        description: 'The Id of the product',
+        required: true,
+        schema: {
+            type: 'integer',
+            'x-messages': {
+                type: 'validation.invalidId'
+            }
+        }
+    },
+    page: {
+        in: 'query',
+        name: 'page',
+        description: 'Page number (ignored when a cursor is sent)',
+        schema: {
+            type: 'integer',
+            minimum: 1,
+            default: 1,
+            'x-messages': {
+                type: 'validation.invalidPage',
+                minimum: 'validation.invalidPage'
+            }
+        }
+    },
+    limit: {
+        in: 'query',
+        name: 'limit',
+        description: 'Number of products per page',
+        schema: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_LIMIT,
+            default: 10,
+            'x-messages': {
+                type: 'validation.limitRange',
+                minimum: 'validation.limitRange',
+                maximum: 'validation.limitRange'
+            }
+        }
+    },
+    cursor: {
+        in: 'query',
+        name: 'cursor',
+        description: 'Cursor returned in meta.nextCursor',
+        schema: {
+            type: 'string',
+            'x-messages': {
+                type: 'validation.invalidCursor'
+            }
+        }
+    },
+    sort: {
+        in: 'query',
+        name: 'sort',
+        description: 'Comma separated list of product fields, prefix with - for descending order. Products without a value in a field go last in either order',
+        schema: {
+            type: 'string',
+            default: DEFAULT_SORT,
+            example: '-price,name',
+            'x-messages': {
+                type: 'validation.invalidSort'
+            }
+        }
+    },
+    minPrice: {
+        in: 'query',
+        name: 'minPrice',
+        schema: {
+            type: 'number',
+            minimum: 0,
+            example: 100,
+            'x-messages': {
+                type: 'validation.invalidMinPrice',
+                minimum: 'validation.invalidMinPrice'
+            }
+        }
+    },
+    maxPrice: {
+        in: 'query',
+        name: 'maxPrice',
+        schema: {
+            type: 'number',
+            minimum: 0,
+            example: 500,
+            'x-messages': {
+                type: 'validation.invalidMaxPrice',
+                minimum: 'validation.invalidMaxPrice'
+            }
+        }
+    },
+    availability: {
+        in: 'query',
+        name: 'availability',
+        schema: {
+            type: 'boolean',
+            'x-messages': {
+                type: 'validation.invalidAvailability'
+            }
+        }
+    },
+    include: {
+        in: 'query',
+        name: 'include',
+        description: 'Related data to include in each product',
+        schema: {
+            type: 'string',
+            enum: ['categories'],
+            'x-messages': {
+                type: 'validation.invalidInclude',
+                enum: 'validation.invalidInclude'
+            }
+        }
+    },
+    currency: {
+        in: 'query',
+        name: 'currency',
+        description: 'Convert the price to this currency with the local exchange rates',
+        schema: ref('Currency')
+    }
+} satisfies Record<string, ParameterObject>
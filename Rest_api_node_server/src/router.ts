@@ -1,266 +1,296 @@
 import { Router } from "express";
-import { body, param } from "express-validator";
-import { createProduct, deleteProduct, getProductById, getProducts, updateAvailability, updateProduct } from "./handlers/product";
-import { handleInputErrors } from "./middleware";
+import { body } from "express-validator";
+import { createProduct, deleteProduct, getProductById, getProducts, getTrashedProducts, purgeProduct, restoreProduct, searchProducts, updateAvailability, updateProduct } from "./handlers/product";
+import { getMovements, recordMovement } from "./handlers/inventory";
+import { exportProducts, importProducts } from "./handlers/catalog";
+import { BATCH_OPERATIONS, batchProducts } from "./handlers/batch";
+import { getProductHistory, revertProduct } from "./handlers/revision";
+import { deletePrice, getPriceHistory, getPrices, setPrice } from "./handlers/price";
+import { deleteImage, updateImage, uploadImage } from "./handlers/image";
+import { createVariant, deleteVariant, generateVariants, getVariant, getVariants, updateVariant } from "./handlers/variant";
+import { cancelSchedule, createSchedule, getSchedules, getUpcomingSchedules } from "./handlers/schedule";
+import { streamProducts } from "./handlers/stream";
+import { asyncHandler, authenticate, authorize, cacheCatalog, handleInputErrors } from "./middleware";
+import { productDetailTtl, productListTtl } from "./config/cache";
+import { operations } from "./openapi/paths";
+import { operationValidation } from "./validators/schema";
+import { categoriesExistValidation, movementValidation, scheduleChangeValidation, sortValidation, variantOptionsValidation, variantSelectionValidation } from "./validators/product";
+import { message } from "./i18n";
+
+// La documentación de cada ruta y la validación de sus parámetros y su cuerpo salen de openapi/paths.ts,
+// aquí solo se añaden las reglas que un esquema no puede expresar
 
 const router = Router();
-/**
- * @swagger
- * components:
- *      schemas:
- *          Product:
- *              type: object
- *              properties:
- *                  id:
- *                      type: integer
- *                      description: The product ID
- *                      example: 1
- *                  name:
- *                      type: string
- *                      description: The product name
- *                      example: Monitor curvo de 40 pulgadas
- *                  price:
- *                      type: number
- *                      description: The product price
- *                      example: 300
- *                  availability:
- *                      type: boolean
- *                      description: The product availability
- *                      example: true
- */
-
-/**
- * @swagger
- * /api/products:
- *       get:
- *          summary: Get a list of products
- *          tags:
- *              - Products
- *          description: Return a list of products
- *          responses:
- *              200:
- *                  description: Successful response
- *                  content:
- *                      application/json:
- *                          schema:
- *                              type: array
- *                              items:
- *                                  $ref: '#/components/schemas/Product'
- *              
- */
-
-router.get('/', getProducts );
-
-/**
- * @swagger
- * /api/products/{id}:
- *      get:
- *          summary: Get a list of products
- *          tags:
- *              - Products
- *          description: Return a product based on its unique ID
- *          parameters:
- *            - in: path
- *              name: id
- *              description: The Id of the product to retrieve
- *              required: true
- *              schema: 
- *                  type: integer
- *          responses:
- *              200:
- *                  description: Successful response
- *                  content:
- *                      application/json:
- *                          schema:
- *                              $ref: '#/components/schemas/Product'
- *              404:
- *                  description: Not found
- *              400:
- *                  description: Bad Request - Invalid ID
- * 
- */
+
+router.get('/',
+    ...operationValidation(operations.listProducts),
+    ...sortValidation,
+    handleInputErrors,
+    cacheCatalog(productListTtl),
+    asyncHandler(getProducts)
+);
+
+router.get('/search',
+    ...operationValidation(operations.searchProducts),
+    handleInputErrors,
+    asyncHandler(searchProducts)
+);
+
+router.get('/export',
+    ...operationValidation(operations.exportProducts),
+    handleInputErrors,
+    asyncHandler(exportProducts)
+);
+
+router.post('/import',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.importProducts),
+    handleInputErrors,
+    asyncHandler(importProducts)
+);
+
+router.post('/batch',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.batchProducts),
+    body('operations.*.op')
+        .isIn(BATCH_OPERATIONS).withMessage(message('validation.invalidOperation')),
+    handleInputErrors,
+    asyncHandler(batchProducts)
+);
+
+router.get('/stream',
+    ...operationValidation(operations.streamProducts),
+    handleInputErrors,
+    asyncHandler(streamProducts)
+);
+
+router.get('/trash',
+    authenticate,
+    authorize('admin', 'editor'),
+    asyncHandler(getTrashedProducts)
+);
+
+router.get('/schedules',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.listUpcomingSchedules),
+    handleInputErrors,
+    asyncHandler(getUpcomingSchedules)
+);
 
 router.get('/:id',
-    param('id').isInt().withMessage('ID in not valid'),
-    handleInputErrors,
-    getProductById 
-);
-
-/**
- * @swagger
- * /api/products:
- *      post:
- *          summary: Create a new product
- *          tags:
- *              - Products
- *          description: return a new record in the database
- *          requestBody:
- *              required: true
- *              content:
- *                  application/json:
- *                      schema: 
- *                          type: object
- *                          properties:
- *                              name:
- *                                  type: string
- *                                  example: 'Monitor Curvo 49 pulgadas'
- *                              price:
- *                                  type: number
- *                                  example: 399
- *          responses:
- *              201:
- *                  description: Successfull response
- *                  content:
- *                      application/json:
- *                          schema: 
- *                              $ref: '#/components/schemas/Product'
- *              400:
- *                  description: Bad Request - invalid input data
- */
-
-router.post('/', 
-    // Validación
-    body('name')
-        .notEmpty().withMessage('El nombre del Producto no puede ir vacio'),
-        
-    body('price')
-        .isNumeric().withMessage('Valor no válido')
-        .notEmpty().withMessage('El precio del Producto no puede ir vacio')
-        .custom(value => value > 0 ).withMessage('Precio no válido'),
-    handleInputErrors,
-    createProduct
-);
-
-/**
- * @swagger
- * /api/products/{id}:
- *      put:
- *          summary: Updates a product with user input
- *          tags:
- *              - Products
- *          description: Returns the updated product
- *          parameters:
- *            - in: path
- *              name: id
- *              description: The Id of the product to retrieve
- *              required: true
- *              schema: 
- *                  type: integer
- *          requestBody:
- *              required: true
- *              content:
- *                  application/json:
- *                      schema: 
- *                          type: object
- *                          properties:
- *                              name:
- *                                  type: string
- *                                  example: 'Monitor Curvo 49 pulgadas'
- *                              price:
- *                                  type: number
- *                                  example: 399
- *                              availability:
- *                                  type: boolean
- *                                  example: true
- *          responses:
- *              200:
- *                  description: Successfull response
- *                  content:
- *                      application/json:
- *                          schema: 
- *                              $ref: '#/components/schemas/Product'
- *              400:
- *                  description: Bad request - Invalid Id or invalid input data
- *              404:
- *                  description: Product not fund
- */
-
-router.put('/:id', 
-    // Validación
-    param('id').isInt().withMessage('ID in not valid'),
-    body('name')
-        .notEmpty().withMessage('El nombre del Producto no puede ir vacio'),
-        
-    body('price')
-        .isNumeric().withMessage('Valor no válido')
-        .notEmpty().withMessage('El precio del Producto no puede ir vacio')
-        .custom(value => value > 0 ).withMessage('Precio no válido'),
-    body('availability')
-        .isBoolean().withMessage('Valor no válido para disponibilidad'),
-    handleInputErrors,
-    updateProduct
-);
-
-/**
- * @swagger
- * /api/products/{id}:
- *      patch:
- *          summary: Update Product availability
- *          tags:
- *              - Products
- *          description: Returns the updated availability
- *          parameters:
- *            - in: path
- *              name: id
- *              description: The Id of the product to retrieve
- *              required: true
- *              schema: 
- *                  type: integer
- *          
- *          responses:
- *              200:
- *                  description: Successfull response
- *                  content:
- *                      application/json:
- *                          schema: 
- *                              $ref: '#/components/schemas/Product'
- *              400:
- *                  description: Bad request - Invalid Id 
- *              404:
- *                  description: Product not fund
- * 
- */
-
-router.patch('/:id', 
-    param('id').isInt().withMessage('ID in not valid'),
-    handleInputErrors,
-    updateAvailability
-);
-
-/**
- * @swagger
- * /api/products/{id}:
- *      delete:
- *          summary: Delete a product by ID
- *          tags:
- *              - Products
- *          description: Returns a confirmation message
- *          parameters:
- *            - in: path
- *              name: id
- *              description: The Id of the product to delete
- *              required: true
- *              schema: 
- *                  type: integer
- *          responses:
- *              200:
- *                  description: Successfull response
- *                  content:
- *                      application/json:
- *                          schema: 
- *                              type: string
- *                              value: 'Product deleted'
- *              400:
- *                  description: Bad request - Invalid Id 
- *              404:
- *                  description: Product not fund
- * 
- */
-
-router.delete('/:id', 
-    param('id').isInt().withMessage('ID in not valid'),
-    handleInputErrors,
-    deleteProduct
-);
-
-export default router;
\ No newline at end of file
+    ...operationValidation(operations.getProduct),
+    handleInputErrors,
+    cacheCatalog(productDetailTtl),
+    asyncHandler(getProductById)
+);
+
+router.post('/',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.createProduct),
+    categoriesExistValidation,
+    handleInputErrors,
+    asyncHandler(createProduct)
+);
+
+router.put('/:id',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.updateProduct),
+    categoriesExistValidation,
+    handleInputErrors,
+    asyncHandler(updateProduct)
+);
+
+router.patch('/:id',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.toggleProductAvailability),
+    handleInputErrors,
+    asyncHandler(updateAvailability)
+);
+
+router.delete('/:id',
+    authenticate,
+    authorize('admin'),
+    ...operationValidation(operations.deleteProduct),
+    handleInputErrors,
+    asyncHandler(deleteProduct)
+);
+
+router.get('/:id/movements',
+    authenticate,
+    ...operationValidation(operations.listMovements),
+    handleInputErrors,
+    asyncHandler(getMovements)
+);
+
+router.post('/:id/movements',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.recordMovement),
+    ...movementValidation,
+    handleInputErrors,
+    asyncHandler(recordMovement)
+);
+
+router.get('/:id/prices',
+    ...operationValidation(operations.listPrices),
+    handleInputErrors,
+    asyncHandler(getPrices)
+);
+
+router.get('/:id/prices/history',
+    ...operationValidation(operations.getPriceHistory),
+    handleInputErrors,
+    asyncHandler(getPriceHistory)
+);
+
+router.put('/:id/prices/:priceList/:currency',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.setPrice),
+    handleInputErrors,
+    asyncHandler(setPrice)
+);
+
+router.delete('/:id/prices/:priceList/:currency',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.deletePrice),
+    handleInputErrors,
+    asyncHandler(deletePrice)
+);
+
+router.get('/:id/history',
+    authenticate,
+    ...operationValidation(operations.getProductHistory),
+    handleInputErrors,
+    asyncHandler(getProductHistory)
+);
+
+router.post('/:id/revert/:revisionId',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.revertProduct),
+    handleInputErrors,
+    asyncHandler(revertProduct)
+);
+
+router.post('/:id/restore',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.restoreProduct),
+    handleInputErrors,
+    asyncHandler(restoreProduct)
+);
+
+router.delete('/:id/purge',
+    authenticate,
+    authorize('admin'),
+    ...operationValidation(operations.purgeProduct),
+    handleInputErrors,
+    asyncHandler(purgeProduct)
+);
+
+// Los campos del formulario los valida el handler, llegan mientras se lee la subida
+router.post('/:id/images',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.uploadImage),
+    handleInputErrors,
+    asyncHandler(uploadImage)
+);
+
+router.patch('/:id/images/:imageId',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.updateImage),
+    handleInputErrors,
+    asyncHandler(updateImage)
+);
+
+router.delete('/:id/images/:imageId',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.deleteImage),
+    handleInputErrors,
+    asyncHandler(deleteImage)
+);
+
+router.get('/:id/variants',
+    ...operationValidation(operations.listVariants),
+    handleInputErrors,
+    asyncHandler(getVariants)
+);
+
+router.get('/:id/variants/:variantId',
+    ...operationValidation(operations.getVariant),
+    handleInputErrors,
+    asyncHandler(getVariant)
+);
+
+router.post('/:id/variants',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.createVariant),
+    variantOptionsValidation,
+    handleInputErrors,
+    asyncHandler(createVariant)
+);
+
+router.post('/:id/variants/generate',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.generateVariants),
+    variantSelectionValidation,
+    handleInputErrors,
+    asyncHandler(generateVariants)
+);
+
+router.patch('/:id/variants/:variantId',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.updateVariant),
+    variantOptionsValidation,
+    handleInputErrors,
+    asyncHandler(updateVariant)
+);
+
+router.delete('/:id/variants/:variantId',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.deleteVariant),
+    handleInputErrors,
+    asyncHandler(deleteVariant)
+);
+
+router.get('/:id/schedules',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.listSchedules),
+    handleInputErrors,
+    asyncHandler(getSchedules)
+);
+
+router.post('/:id/schedules',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.createSchedule),
+    scheduleChangeValidation,
+    handleInputErrors,
+    asyncHandler(createSchedule)
+);
+
+router.delete('/:id/schedules/:scheduleId',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...operationValidation(operations.cancelSchedule),
+    handleInputErrors,
+    asyncHandler(cancelSchedule)
+);
+
+export default router;
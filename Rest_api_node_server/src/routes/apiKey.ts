@@ -0,0 +1,411 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { createApiKey, getApiKeys, getUsage, revokeApiKey, updateApiKey } from "../handlers/apiKey";
+import { asyncHandler, authenticate, authorize, handleInputErrors } from "../middleware";
+import { message } from "../i18n";
+
+const router = Router();
+
+const idValidation = param('id').isInt().withMessage(message('validation.invalidId'))
+
+// null en los límites usa los valores predeterminados del servidor
+const limitsValidation = [
+    body('readLimit')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 }).withMessage(message('validation.readLimit')),
+    body('writeLimit')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 }).withMessage(message('validation.writeLimit')),
+    body('dailyQuota')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 }).withMessage(message('validation.dailyQuota'))
+]
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          ApiKey:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      example: 1
+ *                  name:
+ *                      type: string
+ *                      example: Store integration
+ *                  prefix:
+ *                      type: string
+ *                      description: Start of the key, to recognize it
+ *                      example: pk_Qm9yZ2Vz
+ *                  userId:
+ *                      type: integer
+ *                      description: Requests made with the key are authenticated as this user
+ *                      example: 1
+ *                  readLimit:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: Read requests (GET, HEAD, OPTIONS) per minute, the server default when null
+ *                      example: 120
+ *                  writeLimit:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: Write requests per minute, the server default when null
+ *                      example: 30
+ *                  dailyQuota:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: Requests per day (UTC), the server default when null
+ *                      example: 10000
+ *                  revokedAt:
+ *                      type: string
+ *                      format: date-time
+ *                      nullable: true
+ *                  createdAt:
+ *                      type: string
+ *                      format: date-time
+ *                  updatedAt:
+ *                      type: string
+ *                      format: date-time
+ *          ApiKeyInput:
+ *              type: object
+ *              properties:
+ *                  name:
+ *                      type: string
+ *                      example: Store integration
+ *                  readLimit:
+ *                      type: integer
+ *                      nullable: true
+ *                  writeLimit:
+ *                      type: integer
+ *                      nullable: true
+ *                  dailyQuota:
+ *                      type: integer
+ *                      nullable: true
+ *          ApiKeyUsage:
+ *              type: object
+ *              properties:
+ *                  apiKeyId:
+ *                      type: integer
+ *                      example: 1
+ *                  date:
+ *                      type: string
+ *                      format: date
+ *                      example: '2026-10-19'
+ *                  requests:
+ *                      type: integer
+ *                      example: 1520
+ *                  apiKey:
+ *                      type: object
+ *                      properties:
+ *                          id:
+ *                              type: integer
+ *                          name:
+ *                              type: string
+ *                          prefix:
+ *                              type: string
+ */
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *      get:
+ *          summary: Get the issued API keys, including the revoked ones
+ *          tags:
+ *              - API keys
+ *          security:
+ *              - bearerAuth: []
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/ApiKey'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/',
+    authenticate,
+    authorize('admin'),
+    asyncHandler(getApiKeys)
+);
+
+/**
+ * @swagger
+ * /api/api-keys/usage:
+ *      get:
+ *          summary: Get the requests made with each API key per day
+ *          tags:
+ *              - API keys
+ *          security:
+ *              - bearerAuth: []
+ *          description: Days are in UTC, the last 30 days when no range is given
+ *          parameters:
+ *            - in: query
+ *              name: apiKeyId
+ *              schema:
+ *                  type: integer
+ *            - in: query
+ *              name: from
+ *              schema:
+ *                  type: string
+ *                  format: date
+ *            - in: query
+ *              name: to
+ *              schema:
+ *                  type: string
+ *                  format: date
+ *          responses:
+ *              200:
+ *                  description: Successful response, most recent days first
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/ApiKeyUsage'
+ *              400:
+ *                  description: Bad request - Invalid API key ID or dates
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/usage',
+    authenticate,
+    authorize('admin'),
+    query('apiKeyId')
+        .optional()
+        .isInt().withMessage(message('validation.invalidId')),
+    query('from')
+        .optional()
+        .isDate({ format: 'YYYY-MM-DD', strictMode: true }).withMessage(message('validation.invalidDate')),
+    query('to')
+        .optional()
+        .isDate({ format: 'YYYY-MM-DD', strictMode: true }).withMessage(message('validation.invalidDate')),
+    handleInputErrors,
+    asyncHandler(getUsage)
+);
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *      post:
+ *          summary: Issue an API key
+ *          tags:
+ *              - API keys
+ *          security:
+ *              - bearerAuth: []
+ *          description: |
+ *              Clients send the key in the X-API-Key header and are authenticated as its user (the admin issuing it by default).
+ *              Only a hash is stored, the key is returned in this response and cannot be recovered later.
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          allOf:
+ *                            - $ref: '#/components/schemas/ApiKeyInput'
+ *                            - type: object
+ *                              required: [name]
+ *                              properties:
+ *                                  userId:
+ *                                      type: integer
+ *                                      description: User the key acts as
+ *          responses:
+ *              201:
+ *                  description: API key issued
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              allOf:
+ *                                - $ref: '#/components/schemas/ApiKey'
+ *                                - type: object
+ *                                  properties:
+ *                                      key:
+ *                                          type: string
+ *              400:
+ *                  description: Bad request - Invalid name, user or limits
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: User not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/',
+    authenticate,
+    authorize('admin'),
+    body('name')
+        .notEmpty().withMessage(message('validation.nameRequired')),
+    body('userId')
+        .optional()
+        .isInt().withMessage(message('validation.invalidUser')),
+    ...limitsValidation,
+    handleInputErrors,
+    asyncHandler(createApiKey)
+);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *      patch:
+ *          summary: Update the name or limits of an API key
+ *          tags:
+ *              - API keys
+ *          security:
+ *              - bearerAuth: []
+ *          description: A null limit goes back to the server default
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/ApiKeyInput'
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/ApiKey'
+ *              400:
+ *                  description: Bad request - Invalid ID, name or limits
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: API key not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.patch('/:id',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    body('name')
+        .optional()
+        .notEmpty().withMessage(message('validation.nameRequired')),
+    ...limitsValidation,
+    handleInputErrors,
+    asyncHandler(updateApiKey)
+);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *      delete:
+ *          summary: Revoke an API key
+ *          tags:
+ *              - API keys
+ *          security:
+ *              - bearerAuth: []
+ *          description: The key stops working immediately, its usage is kept
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: The revoked API key
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/ApiKey'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: API key not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.delete('/:id',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    handleInputErrors,
+    asyncHandler(revokeApiKey)
+);
+
+export default router;
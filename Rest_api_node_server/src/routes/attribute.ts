@@ -0,0 +1,316 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import { createAttribute, deleteAttribute, getAttributeById, getAttributes, updateAttribute } from "../handlers/attribute";
+import { asyncHandler, authenticate, authorize, handleInputErrors } from "../middleware";
+import { message } from "../i18n";
+
+const router = Router();
+
+const attributeValidation = [
+    body('name')
+        .isString().withMessage(message('validation.invalidAttributeName'))
+        .bail()
+        .matches(/^[a-z][a-z0-9_]{0,49}$/).withMessage(message('validation.invalidAttributeName')),
+    body('values')
+        .isArray({ min: 1, max: 100 }).withMessage(message('validation.invalidAttributeValues'))
+        .bail()
+        .custom((values: unknown[]) => values.every(value => typeof value === 'string' && value.trim().length > 0 && value.length <= 50)
+            && new Set(values).size === values.length).withMessage(message('validation.invalidAttributeValues'))
+]
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          Attribute:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      example: 1
+ *                  name:
+ *                      type: string
+ *                      description: Key of the attribute in the variant options
+ *                      example: size
+ *                  values:
+ *                      type: array
+ *                      description: The allowed values
+ *                      items:
+ *                          type: string
+ *                      example: ['24', '27', '32']
+ */
+
+/**
+ * @swagger
+ * /api/attributes:
+ *      get:
+ *          summary: Get the variant attributes
+ *          tags:
+ *              - Attributes
+ *          description: Return the attributes ordered by name
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/Attribute'
+ */
+
+router.get('/',
+    asyncHandler(getAttributes)
+);
+
+/**
+ * @swagger
+ * /api/attributes/{id}:
+ *      get:
+ *          summary: Get an attribute by ID
+ *          tags:
+ *              - Attributes
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Attribute'
+ *              400:
+ *                  description: Bad Request - Invalid ID
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/:id',
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    handleInputErrors,
+    asyncHandler(getAttributeById)
+);
+
+/**
+ * @swagger
+ * /api/attributes:
+ *      post:
+ *          summary: Create an attribute
+ *          tags:
+ *              - Attributes
+ *          security:
+ *              - bearerAuth: []
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          required: [name, values]
+ *                          properties:
+ *                              name:
+ *                                  type: string
+ *                                  description: Lowercase letters, numbers and underscores
+ *                                  example: color
+ *                              values:
+ *                                  type: array
+ *                                  items:
+ *                                      type: string
+ *                                  example: [black, white]
+ *          responses:
+ *              201:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Attribute'
+ *              400:
+ *                  description: Bad Request - Invalid input data
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              409:
+ *                  description: An attribute with the same name already exists
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...attributeValidation,
+    handleInputErrors,
+    asyncHandler(createAttribute)
+);
+
+/**
+ * @swagger
+ * /api/attributes/{id}:
+ *      put:
+ *          summary: Update an attribute
+ *          tags:
+ *              - Attributes
+ *          security:
+ *              - bearerAuth: []
+ *          description: An attribute used by variants cannot be renamed and its used values cannot be removed
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          required: [name, values]
+ *                          properties:
+ *                              name:
+ *                                  type: string
+ *                                  example: color
+ *                              values:
+ *                                  type: array
+ *                                  items:
+ *                                      type: string
+ *                                  example: [black, white, silver]
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Attribute'
+ *              400:
+ *                  description: Bad Request - Invalid ID or invalid input data
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              409:
+ *                  description: The attribute or the removed values are used by variants, or the name already exists
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.put('/:id',
+    authenticate,
+    authorize('admin', 'editor'),
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    ...attributeValidation,
+    handleInputErrors,
+    asyncHandler(updateAttribute)
+);
+
+/**
+ * @swagger
+ * /api/attributes/{id}:
+ *      delete:
+ *          summary: Delete an attribute
+ *          tags:
+ *              - Attributes
+ *          security:
+ *              - bearerAuth: []
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: string
+ *                              example: 'Atributo Eliminado'
+ *              400:
+ *                  description: Bad Request - Invalid ID
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              409:
+ *                  description: The attribute is used by variants
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.delete('/:id',
+    authenticate,
+    authorize('admin'),
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    handleInputErrors,
+    asyncHandler(deleteAttribute)
+);
+
+export default router;
@@ -0,0 +1,296 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import { getAuthenticatedUser, login, refresh, register, updateRole } from "../handlers/auth";
+import { asyncHandler, authenticate, authorize, handleInputErrors } from "../middleware";
+import { ROLES } from "../models/User.model";
+import { message } from "../i18n";
+
+const router = Router();
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          User:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The user ID
+ *                      example: 1
+ *                  name:
+ *                      type: string
+ *                      description: The user name
+ *                      example: Juan Pérez
+ *                  email:
+ *                      type: string
+ *                      description: The user email
+ *                      example: juan@correo.com
+ *                  role:
+ *                      type: string
+ *                      enum: [admin, editor, viewer]
+ *                      description: The user role
+ *                      example: viewer
+ *          Tokens:
+ *              type: object
+ *              properties:
+ *                  accessToken:
+ *                      type: string
+ *                      description: Short lived token to send in the Authorization header
+ *                  refreshToken:
+ *                      type: string
+ *                      description: Long lived token to request a new pair of tokens
+ */
+
+/**
+ * @swagger
+ * /api/auth/register:
+ *      post:
+ *          summary: Register a new user
+ *          tags:
+ *              - Auth
+ *          description: Creates a user with the viewer role
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              name:
+ *                                  type: string
+ *                                  example: 'Juan Pérez'
+ *                              email:
+ *                                  type: string
+ *                                  example: 'juan@correo.com'
+ *                              password:
+ *                                  type: string
+ *                                  example: 'password123'
+ *          responses:
+ *              201:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/User'
+ *              400:
+ *                  description: Bad Request - invalid input data
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              409:
+ *                  description: Email already registered
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/register',
+    body('name')
+        .notEmpty().withMessage(message('validation.nameRequired')),
+    body('email')
+        .isEmail().withMessage(message('validation.invalidEmail')),
+    body('password')
+        .isLength({ min: 8 }).withMessage(message('validation.passwordLength', { min: 8 })),
+    handleInputErrors,
+    asyncHandler(register)
+);
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *      post:
+ *          summary: Log in a user
+ *          tags:
+ *              - Auth
+ *          description: Returns an access token and a refresh token
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              email:
+ *                                  type: string
+ *                                  example: 'juan@correo.com'
+ *                              password:
+ *                                  type: string
+ *                                  example: 'password123'
+ *          responses:
+ *              200:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Tokens'
+ *              400:
+ *                  description: Bad Request - invalid input data
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Invalid credentials
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/login',
+    body('email')
+        .isEmail().withMessage(message('validation.invalidEmail')),
+    body('password')
+        .notEmpty().withMessage(message('validation.passwordRequired')),
+    handleInputErrors,
+    asyncHandler(login)
+);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *      post:
+ *          summary: Refresh the tokens
+ *          tags:
+ *              - Auth
+ *          description: Exchanges a refresh token for a new pair of tokens
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              refreshToken:
+ *                                  type: string
+ *          responses:
+ *              200:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Tokens'
+ *              400:
+ *                  description: Bad Request - missing refresh token
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Invalid refresh token
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/refresh',
+    body('refreshToken')
+        .notEmpty().withMessage(message('validation.tokenRequired')),
+    handleInputErrors,
+    asyncHandler(refresh)
+);
+
+/**
+ * @swagger
+ * /api/auth/user:
+ *      get:
+ *          summary: Get the authenticated user
+ *          tags:
+ *              - Auth
+ *          security:
+ *              - bearerAuth: []
+ *          responses:
+ *              200:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/User'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/user',
+    authenticate,
+    asyncHandler(getAuthenticatedUser)
+);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/role:
+ *      patch:
+ *          summary: Change the role of a user
+ *          tags:
+ *              - Auth
+ *          description: Only admins can change roles
+ *          security:
+ *              - bearerAuth: []
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              description: The Id of the user
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              role:
+ *                                  type: string
+ *                                  enum: [admin, editor, viewer]
+ *                                  example: editor
+ *          responses:
+ *              200:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/User'
+ *              400:
+ *                  description: Bad request - Invalid Id or role
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: User not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.patch('/users/:id/role',
+    authenticate,
+    authorize('admin'),
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    body('role')
+        .isIn(ROLES).withMessage(message('validation.invalidRole')),
+    handleInputErrors,
+    asyncHandler(updateRole)
+);
+
+export default router;
@@ -0,0 +1,391 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { createCategory, deleteCategory, getCategories, getCategoryById, getCategoryProducts, updateCategory } from "../handlers/category";
+import { asyncHandler, authenticate, authorize, handleInputErrors } from "../middleware";
+import Category from "../models/Category.model";
+import { message } from "../i18n";
+
+const router = Router();
+
+const categoryValidation = [
+    body('name')
+        .notEmpty().withMessage(message('validation.categoryNameRequired')),
+    body('parentId')
+        .optional({ values: 'null' })
+        .isInt().withMessage(message('validation.invalidParent'))
+        .bail()
+        .custom(async value => {
+            if(!await Category.findByPk(value)) throw new Error()
+        }).withMessage(message('validation.parentNotFound'))
+]
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          Category:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      description: The category ID
+ *                      example: 1
+ *                  name:
+ *                      type: string
+ *                      description: The category name
+ *                      example: Monitores
+ *                  parentId:
+ *                      type: integer
+ *                      nullable: true
+ *                      description: The ID of the parent category
+ *                      example: null
+ *          CategoryTree:
+ *              allOf:
+ *                  - $ref: '#/components/schemas/Category'
+ *                  - type: object
+ *                    properties:
+ *                      children:
+ *                          type: array
+ *                          items:
+ *                              $ref: '#/components/schemas/CategoryTree'
+ */
+
+/**
+ * @swagger
+ * /api/categories:
+ *      get:
+ *          summary: Get a list of categories
+ *          tags:
+ *              - Categories
+ *          description: Return a flat list of categories or the category tree
+ *          parameters:
+ *            - in: query
+ *              name: tree
+ *              description: Return the categories nested under their parents
+ *              schema:
+ *                  type: boolean
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/CategoryTree'
+ *              400:
+ *                  description: Bad Request - Invalid query parameters
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/',
+    query('tree')
+        .optional()
+        .isBoolean({ loose: false }).withMessage(message('validation.invalidTree'))
+        .toBoolean(true),
+    handleInputErrors,
+    asyncHandler(getCategories)
+);
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *      get:
+ *          summary: Get a category by ID
+ *          tags:
+ *              - Categories
+ *          description: Return a category with its parent and direct children
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              description: The Id of the category to retrieve
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Category'
+ *              404:
+ *                  description: Not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              400:
+ *                  description: Bad Request - Invalid ID
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/:id',
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    handleInputErrors,
+    asyncHandler(getCategoryById)
+);
+
+/**
+ * @swagger
+ * /api/categories/{id}/products:
+ *      get:
+ *          summary: Get the products of a category
+ *          tags:
+ *              - Categories
+ *          description: Return the products assigned to a category, optionally including its subcategories
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              description: The Id of the category
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *            - in: query
+ *              name: includeDescendants
+ *              description: Also return products of every subcategory
+ *              schema:
+ *                  type: boolean
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/Product'
+ *              404:
+ *                  description: Not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              400:
+ *                  description: Bad Request - Invalid ID
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/:id/products',
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    query('includeDescendants')
+        .optional()
+        .isBoolean({ loose: false }).withMessage(message('validation.invalidDescendants'))
+        .toBoolean(true),
+    handleInputErrors,
+    asyncHandler(getCategoryProducts)
+);
+
+/**
+ * @swagger
+ * /api/categories:
+ *      post:
+ *          summary: Create a new category
+ *          tags:
+ *              - Categories
+ *          security:
+ *              - bearerAuth: []
+ *          description: return a new record in the database
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              name:
+ *                                  type: string
+ *                                  example: 'Monitores'
+ *                              parentId:
+ *                                  type: integer
+ *                                  nullable: true
+ *                                  example: 1
+ *          responses:
+ *              201:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Category'
+ *              400:
+ *                  description: Bad Request - invalid input data
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/',
+    authenticate,
+    authorize('admin', 'editor'),
+    ...categoryValidation,
+    handleInputErrors,
+    asyncHandler(createCategory)
+);
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *      put:
+ *          summary: Updates a category with user input
+ *          tags:
+ *              - Categories
+ *          security:
+ *              - bearerAuth: []
+ *          description: Returns the updated category
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              description: The Id of the category
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          type: object
+ *                          properties:
+ *                              name:
+ *                                  type: string
+ *                                  example: 'Monitores curvos'
+ *                              parentId:
+ *                                  type: integer
+ *                                  nullable: true
+ *                                  example: 1
+ *          responses:
+ *              200:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Category'
+ *              400:
+ *                  description: Bad request - Invalid Id or invalid input data
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Category not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              409:
+ *                  description: The new parent is the category itself or one of its subcategories
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.put('/:id',
+    authenticate,
+    authorize('admin', 'editor'),
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    ...categoryValidation,
+    handleInputErrors,
+    asyncHandler(updateCategory)
+);
+
+/**
+ * @swagger
+ * /api/categories/{id}:
+ *      delete:
+ *          summary: Delete a category by ID
+ *          tags:
+ *              - Categories
+ *          security:
+ *              - bearerAuth: []
+ *          description: Returns a confirmation message
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              description: The Id of the category to delete
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: Successfull response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: string
+ *                              example: 'Categoría Eliminada'
+ *              400:
+ *                  description: Bad request - Invalid Id
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Category not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              409:
+ *                  description: The category has subcategories
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.delete('/:id',
+    authenticate,
+    authorize('admin'),
+    param('id').isInt().withMessage(message('validation.invalidId')),
+    handleInputErrors,
+    asyncHandler(deleteCategory)
+);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { param } from "express-validator";
+import { deleteExchangeRate, getExchangeRates, setExchangeRate } from "../handlers/exchangeRate";
+import { asyncHandler, authenticate, authorize, handleInputErrors } from "../middleware";
+import { baseCurrency } from "../config/currency";
+import { operations } from "../openapi/paths";
+import { operationValidation } from "../validators/schema";
+import { message } from "../i18n";
+
+// Documentadas en openapi/paths.ts junto con las rutas de productos
+
+const router = Router();
+
+router.get('/',
+    asyncHandler(getExchangeRates)
+);
+
+router.put('/:currency',
+    authenticate,
+    authorize('admin'),
+    ...operationValidation(operations.setExchangeRate),
+    param('currency')
+        .custom(value => value !== baseCurrency()).withMessage(message('validation.baseCurrencyRate')),
+    handleInputErrors,
+    asyncHandler(setExchangeRate)
+);
+
+router.delete('/:currency',
+    authenticate,
+    authorize('admin'),
+    ...operationValidation(operations.deleteExchangeRate),
+    handleInputErrors,
+    asyncHandler(deleteExchangeRate)
+);
+
+export default router;
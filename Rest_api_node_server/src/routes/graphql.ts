@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { GraphQLError } from "graphql";
+import { createHandler } from "graphql-http/lib/use/express";
+import { GraphQLContext, schema } from "../graphql/schema";
+import { userFromRequest } from "../middleware";
+import { toAppError } from "../utils/errors";
+
+const router = Router();
+
+// GraphiQL desde CDN, se sirve a los navegadores que piden /graphql
+const playground = `<!doctype html>
+<html lang="en">
+<head>
+    <meta charset="utf-8" />
+    <title>GraphiQL</title>
+    <link rel="stylesheet" href="https://unpkg.com/graphiql@3/graphiql.min.css" />
+</head>
+<body style="margin: 0">
+    <div id="graphiql" style="height: 100vh"></div>
+    <script crossorigin src="https://unpkg.com/react@18/umd/react.production.min.js"></script>
+    <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.production.min.js"></script>
+    <script crossorigin src="https://unpkg.com/graphiql@3/graphiql.min.js"></script>
+    <script>
+        const fetcher = GraphiQL.createFetcher({ url: window.location.pathname })
+        ReactDOM.createRoot(document.getElementById('graphiql'))
+            .render(React.createElement(GraphiQL, { fetcher, defaultEditorToolsVisibility: true }))
+    </script>
+</body>
+</html>`
+
+// Los errores de los resolvers llevan el mismo code y status que las respuestas problem+json
+const formatError = (error: Readonly<GraphQLError | Error>) => {
+    if(!(error instanceof GraphQLError) || !error.originalError) {
+        return error
+    }
+    const problem = toAppError(error.originalError)
+    return new GraphQLError(problem.message, {
+        nodes: error.nodes,
+        source: error.source,
+        positions: error.positions,
+        path: error.path,
+        originalError: problem,
+        extensions: {
+            code: problem.code,
+            status: problem.status,
+            ...problem.extensions
+        }
+    })
+}
+
+router.get('/', (req, res, next) => {
+    if(req.accepts(['application/graphql-response+json', 'application/json', 'text/html']) !== 'text/html') {
+        return next()
+    }
+    res.type('html').send(playground)
+})
+
+router.all('/', createHandler<GraphQLContext>({
+    schema,
+    formatError,
+    // Las consultas son públicas, las mutaciones comprueban el rol en el resolver
+    context: async req => ({ user: await userFromRequest(req.raw) })
+}))
+
+export default router
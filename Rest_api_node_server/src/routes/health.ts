@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { getLiveness, getReadiness } from "../handlers/health";
+import { asyncHandler } from "../middleware";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          Health:
+ *              type: object
+ *              properties:
+ *                  status:
+ *                      type: string
+ *                      enum: [ok, unavailable]
+ *                  checks:
+ *                      type: object
+ *                      properties:
+ *                          database:
+ *                              type: string
+ *                              enum: [up, down]
+ *                          shuttingDown:
+ *                              type: boolean
+ */
+
+/**
+ * @swagger
+ * /health/live:
+ *      get:
+ *          summary: Liveness probe
+ *          tags:
+ *              - Health
+ *          description: The process is running, it does not check the database
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: object
+ *                              properties:
+ *                                  status:
+ *                                      type: string
+ *                                      example: ok
+ */
+
+router.get('/live',
+    asyncHandler(getLiveness)
+);
+
+/**
+ * @swagger
+ * /health/ready:
+ *      get:
+ *          summary: Readiness probe
+ *          tags:
+ *              - Health
+ *          description: The server can take traffic, the database answers and it is not shutting down
+ *          responses:
+ *              200:
+ *                  description: Ready
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Health'
+ *              503:
+ *                  description: Not ready - the database is down or the server is shutting down
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Health'
+ */
+
+router.get('/ready',
+    asyncHandler(getReadiness)
+);
+
+export default router;
@@ -0,0 +1,507 @@
+import { Router } from "express";
+import { body, param, query } from "express-validator";
+import { createWebhook, deleteWebhook, getDeliveries, getWebhookById, getWebhooks, redeliver, updateWebhook } from "../handlers/webhook";
+import { asyncHandler, authenticate, authorize, handleInputErrors } from "../middleware";
+import { WEBHOOK_EVENTS } from "../models/Webhook.model";
+import { DELIVERY_STATUSES } from "../models/WebhookDelivery.model";
+import { MAX_LIMIT } from "../utils/pagination";
+import { message } from "../i18n";
+
+const router = Router();
+
+const idValidation = param('id').isInt().withMessage(message('validation.invalidId'))
+
+const webhookValidation = [
+    body('url')
+        .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false }).withMessage(message('validation.invalidUrl')),
+    body('events')
+        .isArray({ min: 1 }).withMessage(message('validation.eventsRequired'))
+        .bail()
+        .custom((events: string[]) => events.every(event => (WEBHOOK_EVENTS as readonly string[]).includes(event))).withMessage(message('validation.invalidEvent')),
+    body('secret')
+        .optional()
+        .isString()
+        .isLength({ min: 16, max: 100 }).withMessage(message('validation.secretLength', { min: 16, max: 100 })),
+    body('active')
+        .optional()
+        .isBoolean().withMessage(message('validation.invalidActive'))
+]
+
+/**
+ * @swagger
+ * components:
+ *      schemas:
+ *          Webhook:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      example: 1
+ *                  url:
+ *                      type: string
+ *                      example: https://store.example.com/hooks/products
+ *                  events:
+ *                      type: array
+ *                      items:
+ *                          type: string
+ *                          enum: [product.created, product.updated, product.availability_changed, product.deleted]
+ *                  active:
+ *                      type: boolean
+ *                      example: true
+ *                  createdAt:
+ *                      type: string
+ *                      format: date-time
+ *                  updatedAt:
+ *                      type: string
+ *                      format: date-time
+ *          WebhookInput:
+ *              type: object
+ *              required: [url, events]
+ *              properties:
+ *                  url:
+ *                      type: string
+ *                      example: https://store.example.com/hooks/products
+ *                  events:
+ *                      type: array
+ *                      items:
+ *                          type: string
+ *                          enum: [product.created, product.updated, product.availability_changed, product.deleted]
+ *                  secret:
+ *                      type: string
+ *                      description: Signing key, a random one is generated when omitted
+ *                  active:
+ *                      type: boolean
+ *          WebhookDelivery:
+ *              type: object
+ *              properties:
+ *                  id:
+ *                      type: integer
+ *                      example: 1
+ *                  webhookId:
+ *                      type: integer
+ *                      example: 1
+ *                  event:
+ *                      type: string
+ *                      example: product.updated
+ *                  payload:
+ *                      type: object
+ *                      description: Body sent to the subscriber with id, event, createdAt and data
+ *                  status:
+ *                      type: string
+ *                      enum: [pending, succeeded, failed]
+ *                  attempts:
+ *                      type: integer
+ *                      example: 1
+ *                  nextAttemptAt:
+ *                      type: string
+ *                      format: date-time
+ *                      nullable: true
+ *                  lastAttemptAt:
+ *                      type: string
+ *                      format: date-time
+ *                      nullable: true
+ *                  responseStatus:
+ *                      type: integer
+ *                      nullable: true
+ *                      example: 200
+ *                  error:
+ *                      type: string
+ *                      nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *      get:
+ *          summary: Get the webhook subscriptions
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/Webhook'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/',
+    authenticate,
+    authorize('admin'),
+    asyncHandler(getWebhooks)
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *      get:
+ *          summary: Get a webhook subscription by ID
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Webhook'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Webhook not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/:id',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    handleInputErrors,
+    asyncHandler(getWebhookById)
+);
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *      post:
+ *          summary: Subscribe a URL to product events
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          description: |
+ *              Each delivery is a POST with the JSON payload and the headers X-Webhook-Event, X-Webhook-Delivery,
+ *              X-Webhook-Timestamp and X-Webhook-Signature (sha256=HMAC-SHA256 of "<timestamp>.<body>" with the secret).
+ *              The secret is only returned in this response.
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/WebhookInput'
+ *          responses:
+ *              201:
+ *                  description: Webhook created
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              allOf:
+ *                                - $ref: '#/components/schemas/Webhook'
+ *                                - type: object
+ *                                  properties:
+ *                                      secret:
+ *                                          type: string
+ *              400:
+ *                  description: Bad request - Invalid URL or events
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/',
+    authenticate,
+    authorize('admin'),
+    ...webhookValidation,
+    handleInputErrors,
+    asyncHandler(createWebhook)
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *      put:
+ *          summary: Update a webhook subscription
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          description: The secret is kept unless a new one is sent
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          requestBody:
+ *              required: true
+ *              content:
+ *                  application/json:
+ *                      schema:
+ *                          $ref: '#/components/schemas/WebhookInput'
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Webhook'
+ *              400:
+ *                  description: Bad request - Invalid ID, URL or events
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Webhook not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.put('/:id',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    ...webhookValidation,
+    handleInputErrors,
+    asyncHandler(updateWebhook)
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *      delete:
+ *          summary: Delete a webhook subscription and its delivery log
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: string
+ *                              example: 'Webhook Eliminado'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Webhook not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.delete('/:id',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    handleInputErrors,
+    asyncHandler(deleteWebhook)
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *      get:
+ *          summary: Get the delivery log of a webhook
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          description: Most recent deliveries first, failed deliveries are retried with exponential backoff
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *            - in: query
+ *              name: status
+ *              schema:
+ *                  type: string
+ *                  enum: [pending, succeeded, failed]
+ *            - in: query
+ *              name: limit
+ *              schema:
+ *                  type: integer
+ *                  default: 10
+ *                  maximum: 100
+ *          responses:
+ *              200:
+ *                  description: Successful response
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              type: array
+ *                              items:
+ *                                  $ref: '#/components/schemas/WebhookDelivery'
+ *              400:
+ *                  description: Bad request - Invalid ID, status or limit
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Webhook not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.get('/:id/deliveries',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    query('status')
+        .optional()
+        .isIn(DELIVERY_STATUSES).withMessage(message('validation.invalidStatus')),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: MAX_LIMIT }).withMessage(message('validation.limitRange', { max: MAX_LIMIT })),
+    handleInputErrors,
+    asyncHandler(getDeliveries)
+);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries/{deliveryId}/redeliver:
+ *      post:
+ *          summary: Send a delivery again
+ *          tags:
+ *              - Webhooks
+ *          security:
+ *              - bearerAuth: []
+ *          description: Attempts the delivery immediately, if it fails again it starts a new retry cycle
+ *          parameters:
+ *            - in: path
+ *              name: id
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *            - in: path
+ *              name: deliveryId
+ *              required: true
+ *              schema:
+ *                  type: integer
+ *          responses:
+ *              200:
+ *                  description: The delivery with the result of the attempt
+ *                  content:
+ *                      application/json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/WebhookDelivery'
+ *              401:
+ *                  description: Not authenticated
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              403:
+ *                  description: Not authorized
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ *              404:
+ *                  description: Delivery not found
+ *                  content:
+ *                      application/problem+json:
+ *                          schema:
+ *                              $ref: '#/components/schemas/Problem'
+ */
+
+router.post('/:id/deliveries/:deliveryId/redeliver',
+    authenticate,
+    authorize('admin'),
+    idValidation,
+    param('deliveryId').isInt().withMessage(message('validation.invalidId')),
+    handleInputErrors,
+    asyncHandler(redeliver)
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import User from '../../models/User.model'
+
+const users = [
+    { name: 'Admin', email: 'admin@example.com', role: 'admin' },
+    { name: 'Editor', email: 'editor@example.com', role: 'editor' },
+    { name: 'Viewer', email: 'viewer@example.com', role: 'viewer' }
+] as const
+
+export const up: MigrationFn<QueryInterface> = async () => {
+    // Se crean con el modelo para que el hook hashee el password
+    for (const user of users) {
+        await User.create({ ...user, password: 'password' })
+    }
+}
+
+export const down: MigrationFn<QueryInterface> = async () => {
+    await User.destroy({ where: { email: users.map(user => user.email) } })
+}
@@ -0,0 +1,32 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import Category from '../../models/Category.model'
+import Product from '../../models/Product.model'
+
+const catalog = {
+    'Computación': [
+        { name: 'Monitor Curvo 49 Pulgadas', price: 400, stock: 12 },
+        { name: 'Teclado Mecánico', price: 85, stock: 40 },
+        { name: 'Mouse Inalámbrico', price: 25, stock: 0, availability: false }
+    ],
+    'Audio': [
+        { name: 'Audífonos Bluetooth', price: 120, stock: 18 },
+        { name: 'Parlante Portátil', price: 60, stock: 5, lowStockThreshold: 10 }
+    ]
+}
+
+export const up: MigrationFn<QueryInterface> = async () => {
+    for (const [name, products] of Object.entries(catalog)) {
+        const category = await Category.create({ name })
+        for (const data of products) {
+            const product = await Product.create(data)
+            await product.$set('categories', [category])
+        }
+    }
+}
+
+export const down: MigrationFn<QueryInterface> = async () => {
+    const names = Object.values(catalog).flat().map(product => product.name)
+    await Product.destroy({ where: { name: names }, force: true })
+    await Category.destroy({ where: { name: Object.keys(catalog) } })
+}
@@ -0,0 +1,18 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import ExchangeRate from '../../models/ExchangeRate.model'
+
+// Unidades de cada moneda por dólar
+const rates = [
+    { currency: 'EUR', rate: 0.92 },
+    { currency: 'MXN', rate: 17.05 },
+    { currency: 'ARS', rate: 350.5 }
+]
+
+export const up: MigrationFn<QueryInterface> = async () => {
+    await ExchangeRate.bulkCreate(rates)
+}
+
+export const down: MigrationFn<QueryInterface> = async () => {
+    await ExchangeRate.destroy({ where: { currency: rates.map(rate => rate.currency) } })
+}
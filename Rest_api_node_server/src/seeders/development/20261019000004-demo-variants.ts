@@ -0,0 +1,43 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import Attribute from '../../models/Attribute.model'
+import Product from '../../models/Product.model'
+import ProductVariant, { variantSku } from '../../models/ProductVariant.model'
+
+const attributes = {
+    size: ['27', '32', '49'],
+    color: ['negro', 'blanco', 'gris']
+}
+
+// Variantes de los productos del catálogo de ejemplo, con precio propio solo donde cambia
+const variants = {
+    'Monitor Curvo 49 Pulgadas': [
+        { options: { size: '27' }, price: 250 },
+        { options: { size: '32' }, price: 320 },
+        { options: { size: '49' } }
+    ],
+    'Mouse Inalámbrico': [
+        { options: { color: 'negro' } },
+        { options: { color: 'blanco' } },
+        { options: { color: 'gris' }, availability: false }
+    ]
+}
+
+export const up: MigrationFn<QueryInterface> = async () => {
+    for (const [name, values] of Object.entries(attributes)) {
+        await Attribute.create({ name, values })
+    }
+    for (const [name, items] of Object.entries(variants)) {
+        const product = await Product.findOne({ where: { name } })
+        if (!product) continue
+        for (const item of items) {
+            await ProductVariant.create({ ...item, productId: product.id, sku: variantSku(`P${product.id}`, item.options) })
+        }
+    }
+}
+
+export const down: MigrationFn<QueryInterface> = async () => {
+    const products = await Product.findAll({ where: { name: Object.keys(variants) }, paranoid: false })
+    await ProductVariant.destroy({ where: { productId: products.map(product => product.id) } })
+    await Attribute.destroy({ where: { name: Object.keys(attributes) } })
+}
@@ -0,0 +1,19 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import User from '../../models/User.model'
+
+// El primer administrador se toma de ADMIN_EMAIL y ADMIN_PASSWORD
+export const up: MigrationFn<QueryInterface> = async () => {
+    const { ADMIN_EMAIL: email, ADMIN_PASSWORD: password } = process.env
+    if(!email || !password) {
+        throw new Error('ADMIN_EMAIL y ADMIN_PASSWORD son obligatorios')
+    }
+    await User.findOrCreate({
+        where: { email },
+        defaults: { name: 'Admin', email, password, role: 'admin' }
+    })
+}
+
+export const down: MigrationFn<QueryInterface> = async () => {
+    await User.destroy({ where: { email: process.env.ADMIN_EMAIL ?? '' } })
+}
@@ -0,0 +1,19 @@
+import { QueryInterface } from 'sequelize'
+import { MigrationFn } from 'umzug'
+import User from '../../models/User.model'
+
+// Los tests crean sus propios usuarios, estos solo verifican que el seed corre
+const users = [
+    { name: 'Seed Admin', email: 'admin@seed.test', role: 'admin' },
+    { name: 'Seed Viewer', email: 'viewer@seed.test', role: 'viewer' }
+] as const
+
+export const up: MigrationFn<QueryInterface> = async () => {
+    for (const user of users) {
+        await User.create({ ...user, password: 'password' })
+    }
+}
+
+export const down: MigrationFn<QueryInterface> = async () => {
+    await User.destroy({ where: { email: users.map(user => user.email) } })
+}
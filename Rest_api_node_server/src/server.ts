@@ -1,33 +1,90 @@
 import express from 'express'
-import colors from 'colors'
 import swaggerUI from 'swagger-ui-express'
 import swaggerSpec from './config/swagger'
 import router from './router'
+import authRouter from './routes/auth'
+import categoryRouter from './routes/category'
+import attributeRouter from './routes/attribute'
+import exchangeRateRouter from './routes/exchangeRate'
+import webhookRouter from './routes/webhook'
+import apiKeyRouter from './routes/apiKey'
+import healthRouter from './routes/health'
+import graphqlRouter from './routes/graphql'
 import db from './config/db'
+import { storageDriver, uploadsDir, uploadsUrl } from './config/storage'
+import { dbConnectRetries, dbConnectRetryDelay } from './config/server'
+import { asyncHandler, createRequestContext, errorHandler, identifyClient, notFound, observeRequests, rateLimit, recordMountPath, validateResponses } from './middleware'
+import { invalidateCatalogOnWrite } from './services/catalogCache'
+import { registry } from './services/metrics'
+import { logger } from './utils/logger'
 
-// Conectar a base de datos
-export async function connectDB() {
-    try {
-        await db.authenticate()
-        db.sync()
-        //console.log(colors.blue('Conexión exitosa a la DB'))
-    } catch (error) {
-        console.log(error)
-        console.log(colors.red.bold("Hubo un error al conectar la base de datos"))
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Conectar a base de datos, reintenta con espera exponencial mientras la base no esté disponible
+export async function connectDB(retries = dbConnectRetries(), delay = dbConnectRetryDelay()) {
+    for(let attempt = 1; ; attempt++) {
+        try {
+            await db.authenticate()
+            logger.info('Conexión exitosa a la DB')
+            return
+        } catch (error) {
+            if(attempt > retries) {
+                logger.error({ err: error }, 'Hubo un error al conectar la base de datos')
+                throw error
+            }
+            const retryIn = delay * 2 ** (attempt - 1)
+            logger.warn({ err: error, attempt, retryIn }, 'La base de datos no está disponible, reintentando')
+            await wait(retryIn)
+        }
     }
 }
 
-connectDB()
+// Las escrituras del catálogo invalidan las respuestas en caché
+invalidateCatalogOnWrite(db)
 
 // Instancia de Express
 const server = express()
 
+// Antes del body parser para que sus errores usen el idioma de la petición
+server.use(createRequestContext)
+server.use(observeRequests)
+
 // Leer datos de formulario
 server.use(express.json())
 
-server.use('/api/products', router)
+// Contrato OpenAPI de las respuestas, activo en los tests
+server.use(validateResponses)
+
+// Sondas de Kubernetes o del balanceador
+server.use('/health', recordMountPath, healthRouter)
+
+// Métricas para Prometheus
+server.get('/metrics', asyncHandler(async (req, res) => {
+    res.type(registry.contentType).send(await registry.metrics())
+}))
+
+// Clientes con API key: identificación, límites de peticiones y uso diario
+server.use(identifyClient, rateLimit)
+
+server.use('/api/products', recordMountPath, router)
+server.use('/api/auth', recordMountPath, authRouter)
+server.use('/api/categories', recordMountPath, categoryRouter)
+server.use('/api/attributes', recordMountPath, attributeRouter)
+server.use('/api/exchange-rates', recordMountPath, exchangeRateRouter)
+server.use('/api/webhooks', recordMountPath, webhookRouter)
+server.use('/api/api-keys', recordMountPath, apiKeyRouter)
+server.use('/graphql', recordMountPath, graphqlRouter)
+
+// Imágenes del almacenamiento local
+if(storageDriver() === 'local' && uploadsUrl().startsWith('/')) {
+    server.use(uploadsUrl(), express.static(uploadsDir()))
+}
 
 // Docs
 server.use('/docs', swaggerUI.serve, swaggerUI.setup(swaggerSpec))
 
+// Errores
+server.use(notFound)
+server.use(errorHandler)
+
 export default server
\ No newline at end of file
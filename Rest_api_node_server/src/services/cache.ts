@@ -0,0 +1,71 @@
+import { cacheDriver, cacheMaxEntries } from "../config/cache";
+
+// Las respuestas se guardan a través de un adaptador para poder compartirlas
+// entre instancias (Redis o compatibles) sin tocar los handlers
+export interface CacheAdapter {
+    get<T>(key: string): Promise<T | undefined>
+    // ttl en segundos, sin ttl la entrada no expira
+    set<T>(key: string, value: T, ttl?: number): Promise<void>
+    delete(key: string): Promise<void>
+}
+
+type Entry = {
+    value: unknown
+    expiresAt: number
+}
+
+// LRU en memoria: Map conserva el orden de inserción, la primera clave es la menos usada
+export const createMemoryCache = (maxEntries: number) : CacheAdapter => {
+    const entries = new Map<string, Entry>()
+
+    return {
+        async get<T>(key: string) {
+            const entry = entries.get(key)
+            if(!entry) return undefined
+            entries.delete(key)
+            if(entry.expiresAt <= Date.now()) return undefined
+            entries.set(key, entry)
+            return entry.value as T
+        },
+        async set(key, value, ttl) {
+            entries.delete(key)
+            entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : Infinity })
+            while(entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value)
+            }
+        },
+        async delete(key) {
+            entries.delete(key)
+        }
+    }
+}
+
+// No guarda nada, para desactivar la caché
+export const createNullCache = () : CacheAdapter => ({
+    async get() {
+        return undefined
+    },
+    async set() {},
+    async delete() {}
+})
+
+const drivers : Record<string, () => CacheAdapter> = {
+    memory: () => createMemoryCache(cacheMaxEntries()),
+    none: () => createNullCache()
+}
+
+let adapter : CacheAdapter | null = null
+
+export const cache = () => {
+    if(!adapter) {
+        const driver = drivers[cacheDriver()]
+        if(!driver) throw new Error(`Unknown cache driver: ${cacheDriver()}`)
+        adapter = driver()
+    }
+    return adapter
+}
+
+// Permite registrar otro adaptador (Redis, memoria en tests...)
+export const setCache = (custom: CacheAdapter | null) => {
+    adapter = custom
+}
@@ -0,0 +1,53 @@
+import { randomUUID } from "node:crypto";
+import { Model, ModelStatic, Transaction } from "sequelize";
+import { Sequelize } from "sequelize-typescript";
+import { cache } from "./cache";
+import { logger } from "../utils/logger";
+import { onCommit } from "../utils/transaction";
+
+// Las claves de las respuestas del catálogo incluyen una generación: invalidar es cambiarla,
+// las respuestas anteriores quedan inaccesibles y se descartan por TTL o por LRU
+const GENERATION_KEY = 'catalog:generation'
+
+// Modelos que forman parte de las respuestas de productos (precios convertidos, imágenes, categorías...)
+const CATALOG_MODELS = ['Product', 'ProductImage', 'ProductVariant', 'ProductSchedule', 'ProductPrice', 'ProductCategory', 'Category', 'ExchangeRate']
+
+// Los hooks de instancia reciben la instancia y las opciones, afterBulkCreate las instancias creadas y las opciones
+const INSTANCE_HOOKS = ['afterCreate', 'afterUpdate', 'afterDestroy', 'afterRestore'] as const
+// Los hooks bulk de update, destroy y restore solo reciben las opciones, que incluyen el modelo
+const BULK_HOOKS = ['afterBulkUpdate', 'afterBulkDestroy', 'afterBulkRestore'] as const
+
+type WriteOptions = {
+    model?: ModelStatic<Model>
+    transaction?: Transaction | null
+}
+
+export const catalogGeneration = async () => {
+    const generation = await cache().get<string>(GENERATION_KEY)
+    if(generation) return generation
+
+    const created = randomUUID()
+    await cache().set(GENERATION_KEY, created)
+    return created
+}
+
+export const invalidateCatalog = () => cache().set(GENERATION_KEY, randomUUID())
+
+const invalidateOnCommit = ({ model, transaction }: WriteOptions) => {
+    if(!CATALOG_MODELS.includes(model?.name)) return
+
+    onCommit(transaction, () => invalidateCatalog().catch(error => logger.error({ err: error }, 'catalog cache invalidation failed')))
+}
+
+// Cualquier escritura en un modelo del catálogo invalida la caché cuando se confirma la transacción
+export const invalidateCatalogOnWrite = (db: Sequelize) => {
+    INSTANCE_HOOKS.forEach(hook => {
+        db.addHook(hook, 'invalidateCatalog', (instance: Model, options: WriteOptions) => {
+            invalidateOnCommit({ ...options, model: instance.constructor as ModelStatic<Model> })
+        })
+    })
+    db.addHook('afterBulkCreate', 'invalidateCatalog', (instances: Model[], options: WriteOptions) => invalidateOnCommit(options))
+    BULK_HOOKS.forEach(hook => {
+        db.addHook(hook, 'invalidateCatalog', (options: WriteOptions) => invalidateOnCommit(options))
+    })
+}
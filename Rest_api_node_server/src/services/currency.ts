@@ -0,0 +1,36 @@
+import ExchangeRate from "../models/ExchangeRate.model";
+import { baseCurrency } from "../config/currency";
+import { BadRequestError } from "../utils/errors";
+import { convertAmount, currencyDigits, toAmount } from "../utils/money";
+import { t } from "../i18n";
+
+// Conversión de precios al leer (?currency=) con las tasas de exchange_rates
+
+export type Converter = (amount: number | null, from: string) => number | null
+
+export const loadRates = async () => {
+    const rates = await ExchangeRate.findAll()
+    return new Map<string, string>([
+        [baseCurrency(), '1'],
+        ...rates.map(rate => [rate.currency, rate.getDataValue('rate')] as [string, string])
+    ])
+}
+
+export const currencyConverter = async (currency: string) : Promise<Converter> => {
+    const rates = await loadRates()
+    const missing = (code: string) => new BadRequestError(t('errors.noExchangeRate', { currency: code }), 'EXCHANGE_RATE_NOT_FOUND')
+    if(!rates.has(currency)) throw missing(currency)
+
+    return (amount, from) => {
+        if(amount === null || from === currency) return amount
+        if(!rates.has(from)) throw missing(from)
+        return toAmount(convertAmount(amount, rates.get(from), rates.get(currency), currencyDigits(currency)))
+    }
+}
+
+// Copia serializable con el importe expresado en otra moneda, la instancia no se modifica
+export const inCurrency = <T extends { currency: string, toJSON(): object }>(item: T, field: keyof T & string, currency: string, convert: Converter) => ({
+    ...item.toJSON(),
+    [field]: convert(item[field] as number, item.currency),
+    currency
+})
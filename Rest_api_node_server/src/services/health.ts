@@ -0,0 +1,30 @@
+import db from "../config/db";
+import { healthCheckTimeout } from "../config/server";
+
+// Estado del proceso para las sondas de disponibilidad
+
+let shuttingDown = false
+
+// Desde este momento /health/ready responde 503 para que el balanceador deje de enviar tráfico
+export const markShuttingDown = () => {
+    shuttingDown = true
+}
+
+export const isShuttingDown = () => shuttingDown
+
+// false si la base no responde dentro del tiempo límite (por ejemplo, con el pool agotado)
+export const checkDatabase = async () => {
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((resolve, reject) => {
+        timer = setTimeout(() => reject(new Error('Database health check timed out')), healthCheckTimeout())
+    })
+
+    try {
+        await Promise.race([db.query('SELECT 1'), timeout])
+        return true
+    } catch (error) {
+        return false
+    } finally {
+        clearTimeout(timer)
+    }
+}
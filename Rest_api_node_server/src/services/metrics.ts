@@ -0,0 +1,55 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from "prom-client";
+import db from "../config/db";
+
+// Métricas en formato Prometheus, se exponen en /metrics
+
+export const registry = new Registry()
+
+// Memoria, CPU, event loop y GC del proceso
+collectDefaultMetrics({ register: registry })
+
+const httpRequests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests by method, route and status',
+    labelNames: ['method', 'route', 'status'],
+    registers: [registry]
+})
+
+const httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency by method, route and status',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [registry]
+})
+
+type PoolStats = {
+    size: number
+    available: number
+    using: number
+    waiting: number
+    maxSize: number
+}
+
+// Se leen al momento de cada consulta a /metrics
+new Gauge({
+    name: 'db_pool_connections',
+    help: 'Database pool connections by state',
+    labelNames: ['state'],
+    registers: [registry],
+    collect() {
+        const pool = (db.connectionManager as unknown as { pool?: PoolStats }).pool
+        if(!pool) return
+        this.set({ state: 'open' }, pool.size)
+        this.set({ state: 'idle' }, pool.available)
+        this.set({ state: 'in_use' }, pool.using)
+        this.set({ state: 'waiting' }, pool.waiting)
+        this.set({ state: 'max' }, pool.maxSize)
+    }
+})
+
+export const recordRequest = (method: string, route: string, status: number, seconds: number) => {
+    const labels = { method, route, status: String(status) }
+    httpRequests.inc(labels)
+    httpRequestDuration.observe(labels, seconds)
+}
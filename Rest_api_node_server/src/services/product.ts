@@ -0,0 +1,285 @@
+import { col, fn, Includeable, literal, Op, OrderItem, ProjectionAlias, Transaction, WhereOptions } from "sequelize";
+import db from "../config/db";
+import Product from "../models/Product.model";
+import Category from "../models/Category.model";
+import ExchangeRate from "../models/ExchangeRate.model";
+import ProductImage from "../models/ProductImage.model";
+import ProductVariant from "../models/ProductVariant.model";
+import ProductSchedule, { UPCOMING_STATUSES } from "../models/ProductSchedule.model";
+import { Converter, inCurrency } from "./currency";
+import { searchSimilarityThreshold } from "../config/search";
+import { ConflictError } from "../utils/errors";
+import { t } from "../i18n";
+import { cursorWhere, decodeCursor, DEFAULT_LIMIT, encodeCursor, nullsLast, parseSort, withTieBreaker } from "../utils/pagination";
+
+// Consultas y operaciones de escritura de productos compartidas por REST, GraphQL y el endpoint batch
+
+type Options = {
+    transaction?: Transaction
+}
+
+export type ProductInput = {
+    name?: string
+    price?: number
+    currency?: string
+    availability?: boolean
+    lowStockThreshold?: number | null
+    categories?: number[]
+}
+
+// El stock solo cambia a través de movimientos de inventario
+export const editableFields = ['name', 'price', 'currency', 'availability', 'lowStockThreshold']
+
+export const categoriesInclude = {
+    model: Category,
+    attributes: ['id', 'name', 'parentId'],
+    through: { attributes: [] }
+}
+
+// Las imágenes se incluyen siempre en las respuestas de productos, ordenadas por posición
+export const imagesInclude = {
+    model: ProductImage,
+    attributes: ['id', 'key', 'position', 'isPrimary', 'url']
+}
+
+// Las variantes también, con el resumen de precios y disponibilidad (variantSummary)
+export const variantsInclude = {
+    model: ProductVariant,
+    attributes: ['id', 'sku', 'options', 'price', 'availability']
+}
+
+// Y los cambios programados que todavía se aplicarán o revertirán
+export const schedulesInclude = {
+    model: ProductSchedule,
+    attributes: ['id', 'price', 'availability', 'startsAt', 'endsAt', 'status'],
+    where: { status: UPCOMING_STATUSES },
+    required: false
+}
+
+// Orden de las imágenes, variantes y cambios programados incluidos
+export const includesOrder : OrderItem[] = [
+    [{ model: ProductImage, as: 'images' }, 'position', 'ASC'],
+    [{ model: ProductVariant, as: 'variants' }, 'id', 'ASC'],
+    [{ model: ProductSchedule, as: 'schedules' }, 'startsAt', 'ASC']
+]
+
+export const DEFAULT_SORT = '-price'
+
+// Filtros comunes del listado y la exportación
+export const buildFilters = (query: Record<string, unknown>) : WhereOptions => {
+    const { name, minPrice, maxPrice, availability } = query as Record<string, string>
+    const filters : WhereOptions = {}
+    if(name) {
+        filters['name'] = { [Op.iLike]: `%${name}%` }
+    }
+    if(minPrice || maxPrice) {
+        filters['price'] = {
+            ...(minPrice && { [Op.gte]: Number(minPrice) }),
+            ...(maxPrice && { [Op.lte]: Number(maxPrice) })
+        }
+    }
+    if(availability !== undefined && availability !== null) {
+        filters['availability'] = String(availability) === 'true'
+    }
+    return filters
+}
+
+type FindOptions = {
+    filters?: Record<string, unknown>
+    sort?: string
+    cursor?: string
+    page?: number
+    limit?: number
+    include?: Includeable[]
+}
+
+// Listado paginado por página o por cursor (keyset)
+export const findProducts = async ({ filters = {}, sort = DEFAULT_SORT, cursor, page = 1, limit = DEFAULT_LIMIT, include = [imagesInclude, variantsInclude, schedulesInclude] }: FindOptions) => {
+    const where = buildFilters(filters)
+    const order = withTieBreaker(parseSort(sort))
+
+    const [total, products] = await Promise.all([
+        Product.count({ where }),
+        Product.findAll({
+            where: cursor ? { [Op.and]: [where, cursorWhere(order, decodeCursor(cursor))] } : where,
+            include,
+            order: [...nullsLast(order), ...includesOrder],
+            limit: limit + 1,
+            offset: cursor ? 0 : (page - 1) * limit
+        })
+    ])
+
+    const hasMore = products.length > limit
+    const data = products.slice(0, limit)
+    const last = data[data.length - 1]
+
+    return {
+        data,
+        total,
+        limit,
+        page: cursor ? null : page,
+        totalPages: Math.ceil(total / limit),
+        nextCursor: hasMore && last ? encodeCursor(order.map(([field]) => last.get(field))) : null
+    }
+}
+
+// Total y fechas de los últimos cambios de una tabla
+export type TableState = {
+    count: string
+    updatedAt: Date | null
+    deletedAt?: Date | null
+}
+
+type ListStateOptions = {
+    filters?: Record<string, unknown>
+    withCategories?: boolean
+    withRates?: boolean
+}
+
+const stateAttributes = (...dates: string[]) : ProjectionAlias[] => [
+    [fn('count', literal('*')), 'count'],
+    ...dates.map((date) : ProjectionAlias => [fn('max', col(date)), date])
+]
+
+// Estado de la lista filtrada calculado en la base de datos, cambia también con las escrituras que no pasan por este
+// proceso (purga, seed, SQL directo u otra instancia). Se cuentan los productos eliminados: eliminar uno cambia la fecha.
+// Con las categorías o con otra moneda la lista también depende de esas tablas
+export const productListState = async ({ filters = {}, withCategories = false, withRates = false }: ListStateOptions = {}) => {
+    const states = await Promise.all([
+        Product.findOne({
+            where: buildFilters(filters),
+            paranoid: false,
+            attributes: stateAttributes('updatedAt', 'deletedAt'),
+            raw: true
+        }),
+        withCategories && Category.findOne({ attributes: stateAttributes('updatedAt'), raw: true }),
+        withRates && ExchangeRate.findOne({ attributes: stateAttributes('updatedAt'), raw: true })
+    ])
+    return states.filter(Boolean) as unknown as TableState[]
+}
+
+type SearchOptions = Omit<FindOptions, 'sort' | 'cursor'> & {
+    q: string
+}
+
+// Búsqueda de texto completo (columna "searchVector") con coincidencia aproximada por trigramas para errores
+// de tipeo, ambas sin distinguir acentos. Relevancia = rango del texto completo + similitud del nombre
+export const searchProducts = async ({ q, filters = {}, page = 1, limit = DEFAULT_LIMIT, include = [imagesInclude, variantsInclude, schedulesInclude] }: SearchOptions) => {
+    const text = `product_search_text(${db.escape(q)})`
+    const tsquery = `websearch_to_tsquery('product_search', ${text})`
+    const name = `product_search_text("Product"."name")`
+    const relevance = `ts_rank_cd("Product"."searchVector", ${tsquery}) + word_similarity(${text}, ${name})`
+    const highlight = `ts_headline('product_search', "Product"."name", ${tsquery}, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')`
+
+    // Coincidencia aproximada: cada palabra se parece a alguna palabra del nombre (operador <% con índice)
+    const fuzzy = q.split(/\s+/).filter(Boolean)
+        .map(word => `product_search_text(${db.escape(word)}) <% ${name}`)
+        .join(' AND ')
+
+    const where = {
+        [Op.and]: [
+            buildFilters(filters),
+            literal(`("Product"."searchVector" @@ ${tsquery} OR (${fuzzy}))`)
+        ]
+    }
+
+    return db.transaction(async transaction => {
+        // El umbral del operador <% solo cambia dentro de esta transacción
+        await db.query(`SELECT set_config('pg_trgm.word_similarity_threshold', :threshold, true)`, {
+            replacements: { threshold: String(searchSimilarityThreshold()) },
+            transaction
+        })
+
+        const total = await Product.count({ where, transaction })
+        const data = await Product.findAll({
+            attributes: {
+                include: [
+                    [literal(relevance), 'relevance'],
+                    [literal(highlight), 'highlight']
+                ]
+            },
+            where,
+            include,
+            order: [[literal('"relevance"'), 'DESC'], ['id', 'ASC'], ...includesOrder],
+            limit,
+            offset: (page - 1) * limit,
+            transaction
+        })
+
+        return {
+            data,
+            total,
+            limit,
+            page,
+            totalPages: Math.ceil(total / limit)
+        }
+    })
+}
+
+// Copia con el precio, los precios de las variantes, su resumen y los precios programados en otra moneda
+export const productInCurrency = (product: Product, currency: string, convert: Converter) => {
+    const { variants, variantSummary, schedules } = product
+    return {
+        ...inCurrency(product, 'price', currency, convert),
+        ...(variants && {
+            variants: variants.map(variant => ({ ...variant.toJSON(), price: convert(variant.price, product.currency) }))
+        }),
+        ...(schedules && {
+            schedules: schedules.map(schedule => ({ ...schedule.toJSON(), price: convert(schedule.price, product.currency) }))
+        }),
+        ...(variantSummary && {
+            variantSummary: {
+                ...variantSummary,
+                minPrice: convert(variantSummary.minPrice, product.currency),
+                maxPrice: convert(variantSummary.maxPrice, product.currency)
+            }
+        })
+    }
+}
+
+// Los cambios en imágenes, variantes y cambios programados no modifican columnas del producto, se fuerza el guardado
+// para que cambie su versión (ETag) y se invalide la caché del catálogo
+export const touchProduct = (product: Product, transaction?: Transaction) => {
+    product.changed('updatedAt', true)
+    return product.save({ transaction })
+}
+
+const assignCategories = async (product: Product, categories: number[] | undefined, transaction?: Transaction) => {
+    if(!categories) return
+    await product.$set('categories', categories, { transaction })
+    await product.reload({ include: [categoriesInclude], transaction })
+}
+
+export const createProduct = async (data: ProductInput, { transaction }: Options = {}) => {
+    const product = await Product.create(data, { fields: editableFields, transaction })
+    await assignCategories(product, data.categories, transaction)
+    return product
+}
+
+export const updateProduct = async (product: Product, data: ProductInput, { transaction }: Options = {}) => {
+    await product.update(data, { fields: editableFields, transaction })
+    if(data.categories) {
+        const assigned = new Set((await product.$get('categories', { attributes: ['id'], transaction })).map(category => category.id))
+        const categories = new Set(data.categories)
+        await assignCategories(product, data.categories, transaction)
+        // Igual que las imágenes y las variantes, reasignar las categorías cambia la versión del producto
+        if(assigned.size !== categories.size || [...categories].some(id => !assigned.has(id))) {
+            await touchProduct(product, transaction)
+        }
+    }
+    return product
+}
+
+export const toggleAvailability = async (product: Product, { transaction }: Options = {}) => {
+    // Un producto sin stock no se puede marcar como disponible
+    if(!product.dataValues.availability && !product.inStock) {
+        throw new ConflictError(t('errors.outOfStock'), 'OUT_OF_STOCK')
+    }
+    product.availability = !product.dataValues.availability
+    await product.save({ transaction })
+    return product
+}
+
+export const deleteProduct = async (product: Product, { transaction }: Options = {}) => {
+    await product.destroy({ transaction })
+}
@@ -0,0 +1,31 @@
+import { EventEmitter } from "node:events";
+import { WebhookEvent } from "../models/Webhook.model";
+
+// Canal en memoria de los cambios de productos ya confirmados, alimenta los streams SSE y WebSocket
+
+export type ProductEvent = {
+    // id de la revisión, sirve como Last-Event-ID para reanudar el stream
+    id: number
+    event: WebhookEvent
+    productId: number
+    data: {
+        product: Record<string, unknown>
+        changes: Record<string, unknown>
+        createdAt: string
+    }
+}
+
+const emitter = new EventEmitter()
+// Un listener por conexión abierta
+emitter.setMaxListeners(0)
+
+export const publishProductEvent = (event: ProductEvent) => {
+    emitter.emit('product', event)
+}
+
+export const subscribeProductEvents = (listener: (event: ProductEvent) => void) => {
+    emitter.on('product', listener)
+    return () => {
+        emitter.off('product', listener)
+    }
+}
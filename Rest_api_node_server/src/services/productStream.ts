@@ -0,0 +1,87 @@
+import { Op } from "sequelize";
+import ProductRevision, { PRODUCT_EVENTS } from "../models/ProductRevision.model";
+import { ProductEvent, subscribeProductEvents } from "./productEvents";
+import { streamHeartbeatInterval, streamReplayLimit } from "../config/stream";
+
+// Conexiones de larga duración (SSE y WebSocket) que reciben los cambios de productos
+
+export type StreamClient = {
+    send: (event: ProductEvent) => void
+    heartbeat: () => void
+    close: () => void
+}
+
+export type StreamOptions = {
+    // Solo los eventos de estos productos, todos si se omite
+    ids?: number[]
+    // Reenvía los eventos posteriores a este id antes de los nuevos
+    lastEventId?: number
+}
+
+// Cada cliente con la función que libera su suscripción
+const clients = new Map<StreamClient, () => void>()
+
+// Eventos perdidos durante la desconexión, a partir de las revisiones guardadas
+export const eventsSince = async (lastEventId: number, ids?: number[]) => {
+    const revisions = await ProductRevision.findAll({
+        where: {
+            id: { [Op.gt]: lastEventId },
+            action: Object.keys(PRODUCT_EVENTS),
+            ...(ids && { productId: ids })
+        },
+        order: [['id', 'ASC']],
+        limit: streamReplayLimit()
+    })
+    return revisions.map(revision => revision.toEvent())
+}
+
+// Devuelve la función que cierra la suscripción, se llama al desconectarse el cliente
+export const openProductStream = async (client: StreamClient, { ids, lastEventId }: StreamOptions = {}) => {
+    const matches = (event: ProductEvent) => !ids || ids.includes(event.productId)
+
+    // Los eventos que llegan mientras se reenvía el historial se guardan para no perderlos ni duplicarlos.
+    // Los ids salen de una secuencia pero las transacciones pueden confirmarse en otro orden: un evento en vivo
+    // con un id menor que el último enviado no se descarta, solo los que ya se reenviaron desde el historial
+    let pending : ProductEvent[] | null = []
+    const replayed = new Set<number>()
+
+    const unsubscribe = subscribeProductEvents(event => {
+        if(!matches(event)) return
+        if(pending) {
+            pending.push(event)
+            return
+        }
+        client.send(event)
+    })
+    const heartbeat = setInterval(() => client.heartbeat(), streamHeartbeatInterval())
+
+    const close = () => {
+        clients.delete(client)
+        clearInterval(heartbeat)
+        unsubscribe()
+    }
+    clients.set(client, close)
+
+    try {
+        if(lastEventId !== undefined) {
+            (await eventsSince(lastEventId, ids)).forEach(event => {
+                replayed.add(event.id)
+                client.send(event)
+            })
+        }
+        pending.filter(event => !replayed.has(event.id)).forEach(event => client.send(event))
+        pending = null
+    } catch (error) {
+        close()
+        throw error
+    }
+    return close
+}
+
+// Cierra todas las conexiones abiertas, al apagar el servidor
+export const closeProductStreams = () => {
+    clients.forEach((close, client) => {
+        close()
+        client.close()
+    })
+}
@@ -0,0 +1,49 @@
+// Token bucket en memoria: la capacidad es el límite por minuto y se recarga de forma continua.
+// Cada instancia del servidor lleva sus propios contadores
+
+export const RATE_LIMIT_WINDOW = 60
+
+type Bucket = {
+    tokens: number
+    updatedAt: number
+}
+
+export type RateLimitResult = {
+    allowed: boolean
+    limit: number
+    remaining: number
+    // Segundos hasta que el bucket vuelve a estar lleno
+    reset: number
+    // Segundos hasta que haya un token disponible, 0 si la petición se aceptó
+    retryAfter: number
+}
+
+const buckets = new Map<string, Bucket>()
+
+export const takeToken = (key: string, limit: number, now = Date.now()) : RateLimitResult => {
+    const perSecond = limit / RATE_LIMIT_WINDOW
+    const bucket = buckets.get(key) ?? { tokens: limit, updatedAt: now }
+
+    // Un límite menor que los tokens acumulados se aplica en el momento
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) / 1000 * perSecond)
+    bucket.updatedAt = now
+
+    const allowed = bucket.tokens >= 1
+    if(allowed) bucket.tokens -= 1
+    buckets.set(key, bucket)
+
+    return {
+        allowed,
+        limit,
+        remaining: Math.floor(bucket.tokens),
+        reset: Math.ceil((limit - bucket.tokens) / perSecond),
+        retryAfter: allowed ? 0 : Math.ceil((1 - bucket.tokens) / perSecond)
+    }
+}
+
+// Libera los buckets de un cliente que ya no puede hacer peticiones
+export const resetRateLimit = (prefix: string) => {
+    for(const key of buckets.keys()) {
+        if(key.startsWith(prefix)) buckets.delete(key)
+    }
+}
@@ -0,0 +1,145 @@
+import { literal, Op, Order, Transaction } from "sequelize";
+import db from "../config/db";
+import Product from "../models/Product.model";
+import ProductSchedule, { ScheduledField } from "../models/ProductSchedule.model";
+import User from "../models/User.model";
+import { touchProduct } from "./product";
+import { requestContext } from "../utils/context";
+import { toDecimal } from "../utils/money";
+import { logger } from "../utils/logger";
+import { schedulePollInterval } from "../config/schedules";
+
+// Aplicación de los cambios programados. Cada cambio vencido se procesa en su propia transacción con el registro
+// bloqueado (FOR UPDATE SKIP LOCKED): varias instancias no aplican dos veces el mismo cambio y, si el proceso
+// se detiene a mitad, la transacción se revierte y el cambio sigue vencido para la siguiente ronda
+
+const previousField = { price: 'previousPrice', availability: 'previousAvailability' } as const
+
+const sameValue = (field: ScheduledField, current: unknown, scheduled: unknown) => {
+    return field === 'price' ? toDecimal(current as number) === toDecimal(scheduled as number) : current === scheduled
+}
+
+// Pendientes cuyo inicio llegó y activos cuyo fin llegó
+const dueWhere = (now: Date) => ({
+    [Op.or]: [
+        { status: 'pending', startsAt: { [Op.lte]: now } },
+        { status: 'active', endsAt: { [Op.lte]: now } }
+    ]
+})
+
+// Por la fecha en que vencen; a la misma hora se revierte antes de aplicar el siguiente cambio
+const dueOrder : Order = [
+    [literal(`CASE WHEN "status" = 'active' THEN "endsAt" ELSE "startsAt" END`), 'ASC'],
+    [literal(`"status" = 'active'`), 'DESC'],
+    ['id', 'ASC']
+]
+
+// Guarda los valores actuales y aplica los nuevos
+const start = async (schedule: ProductSchedule, product: Product, now: Date, transaction: Transaction) => {
+    // El worker estuvo detenido durante todo el periodo: no se aplica un cambio que ya terminó
+    if(schedule.endsAt && schedule.endsAt <= now) {
+        schedule.status = 'expired'
+        return touchProduct(product, transaction)
+    }
+
+    for(const field of schedule.fields) {
+        schedule.set(previousField[field], product[field])
+        product.set(field, schedule[field])
+    }
+    // El hook del producto no marca como disponible un producto sin stock
+    await touchProduct(product, transaction)
+
+    schedule.status = schedule.endsAt ? 'active' : 'completed'
+    schedule.appliedAt = now
+}
+
+// Restaura los valores anteriores, salvo los campos que se cambiaron a mano mientras el cambio estaba activo
+const revert = async (schedule: ProductSchedule, product: Product, now: Date, transaction: Transaction) => {
+    for(const field of schedule.fields) {
+        if(sameValue(field, product[field], schedule[field])) {
+            product.set(field, schedule[previousField[field]])
+        }
+    }
+    await touchProduct(product, transaction)
+
+    schedule.status = 'completed'
+    schedule.revertedAt = now
+}
+
+// Aplica o revierte el siguiente cambio vencido que ninguna otra instancia tenga bloqueado
+const processNext = (skip: number[]) => db.transaction(async transaction => {
+    const now = new Date()
+    const schedule = await ProductSchedule.findOne({
+        where: { ...dueWhere(now), ...(skip.length && { id: { [Op.notIn]: skip } }) },
+        order: dueOrder,
+        lock: transaction.LOCK.UPDATE,
+        skipLocked: true,
+        transaction
+    })
+    if(!schedule) return null
+
+    try {
+        // Un fallo deshace solo este cambio (savepoint), se reintenta en la siguiente ronda
+        await db.transaction({ transaction }, async savepoint => {
+            // El producto también se bloquea para que los cambios del mismo producto se apliquen uno tras otro.
+            // Los productos en la papelera también se actualizan, así se restauran con los valores correctos
+            const product = await Product.findByPk(schedule.productId, { paranoid: false, lock: savepoint.LOCK.UPDATE, transaction: savepoint })
+            const user = schedule.userId ? await User.findByPk(schedule.userId, { transaction: savepoint }) : null
+
+            // Las revisiones y el historial de precios se atribuyen a quien programó el cambio
+            await requestContext.run({ user: user ?? undefined }, () => schedule.status === 'pending'
+                ? start(schedule, product!, now, savepoint)
+                : revert(schedule, product!, now, savepoint))
+            await schedule.save({ transaction: savepoint })
+        })
+    } catch (error) {
+        logger.error({ err: error, scheduleId: schedule.id }, 'scheduled change failed')
+        return { schedule, failed: true }
+    }
+    return { schedule, failed: false }
+})
+
+// Procesa hasta limit cambios vencidos, los que fallan no se vuelven a intentar en la misma ronda
+export const processSchedules = async (limit = 50) => {
+    const processed : ProductSchedule[] = []
+    const failed : number[] = []
+
+    while(processed.length + failed.length < limit) {
+        const result = await processNext(failed)
+        if(!result) break
+        if(result.failed) {
+            failed.push(result.schedule.id)
+        } else {
+            processed.push(result.schedule)
+        }
+    }
+    return processed
+}
+
+let worker: NodeJS.Timeout | null = null
+// Ronda en curso, se espera al detener el worker
+let running : Promise<void> | null = null
+
+const runRound = () => {
+    if(running) return
+    running = processSchedules()
+        .then(() => undefined)
+        .catch(error => logger.error({ err: error }, 'schedule worker failed'))
+        .finally(() => running = null)
+}
+
+export const startScheduleWorker = () => {
+    const interval = schedulePollInterval()
+    if(worker || interval <= 0) return
+
+    // Al arrancar se aplican los cambios que vencieron mientras el servidor estaba detenido
+    runRound()
+    worker = setInterval(runRound, interval)
+    worker.unref()
+}
+
+export const stopScheduleWorker = async () => {
+    if(worker) clearInterval(worker)
+    worker = null
+    await running
+}
@@ -0,0 +1,56 @@
+import path from "node:path";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { storageDriver, uploadsDir, uploadsUrl } from "../config/storage";
+
+// Los archivos se guardan a través de un adaptador para poder cambiar de proveedor
+// (sistema de archivos, S3 o compatibles) sin tocar los handlers
+export interface StorageAdapter {
+    put(key: string, data: Buffer, contentType: string): Promise<void>
+    delete(key: string): Promise<void>
+    url(key: string): string
+}
+
+export const createLocalStorage = (directory: string, baseUrl: string) : StorageAdapter => {
+    const resolve = (key: string) => {
+        const file = path.resolve(directory, key)
+        // Las claves nunca pueden salir de la carpeta de uploads
+        if(!file.startsWith(directory + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`)
+        }
+        return file
+    }
+
+    return {
+        async put(key, data) {
+            const file = resolve(key)
+            await mkdir(path.dirname(file), { recursive: true })
+            await writeFile(file, data)
+        },
+        async delete(key) {
+            await rm(resolve(key), { force: true })
+        },
+        url(key) {
+            return `${baseUrl}/${key}`
+        }
+    }
+}
+
+const drivers : Record<string, () => StorageAdapter> = {
+    local: () => createLocalStorage(uploadsDir(), uploadsUrl())
+}
+
+let adapter : StorageAdapter | null = null
+
+export const storage = () => {
+    if(!adapter) {
+        const driver = drivers[storageDriver()]
+        if(!driver) throw new Error(`Unknown storage driver: ${storageDriver()}`)
+        adapter = driver()
+    }
+    return adapter
+}
+
+// Permite registrar otro adaptador (S3, memoria en tests...)
+export const setStorage = (custom: StorageAdapter | null) => {
+    adapter = custom
+}
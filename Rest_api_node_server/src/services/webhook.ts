@@ -0,0 +1,117 @@
+import { createHmac } from "node:crypto";
+import { Op } from "sequelize";
+import db from "../config/db";
+import Webhook from "../models/Webhook.model";
+import WebhookDelivery from "../models/WebhookDelivery.model";
+import { logger } from "../utils/logger";
+import { webhookMaxAttempts, webhookPollInterval, webhookRetryDelay, webhookTimeout } from "../config/webhooks";
+
+// Envío de las entregas pendientes con firma HMAC y reintentos con espera exponencial
+
+// El receptor recalcula la firma con su secreto: HMAC-SHA256 de "<timestamp>.<body>"
+export const signPayload = (secret: string, timestamp: number, body: string) => {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+// 30s, 1m, 2m, 4m... con la espera base predeterminada
+export const retryDelay = (attempts: number) => webhookRetryDelay() * 2 ** (attempts - 1)
+
+const send = async (webhook: Webhook, delivery: WebhookDelivery) => {
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(Date.now() / 1000)
+    return fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Products-API-Webhooks',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': String(delivery.id),
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(webhookTimeout())
+    })
+}
+
+// Un intento de entrega, deja la entrega reprogramada o en su estado final
+export const deliver = async (delivery: WebhookDelivery) => {
+    const webhook = delivery.webhook ?? await delivery.$get('webhook')
+    delivery.attempts += 1
+    delivery.lastAttemptAt = new Date()
+
+    try {
+        const response = await send(webhook, delivery)
+        delivery.responseStatus = response.status
+        delivery.error = response.ok ? null : `Unexpected response status ${response.status}`
+    } catch (error) {
+        delivery.responseStatus = null
+        delivery.error = error.message
+    }
+
+    if(!delivery.error) {
+        delivery.status = 'succeeded'
+        delivery.nextAttemptAt = null
+    } else if(delivery.attempts >= webhookMaxAttempts()) {
+        delivery.status = 'failed'
+        delivery.nextAttemptAt = null
+    } else {
+        delivery.status = 'pending'
+        delivery.nextAttemptAt = new Date(Date.now() + retryDelay(delivery.attempts))
+    }
+    return delivery.save()
+}
+
+// Margen sobre el timeout del envío para guardar el resultado antes de que venza la reserva
+const LEASE_MARGIN = 5000
+
+// Reserva la siguiente entrega vencida para que otra instancia del worker no la tome. Se reserva de una en una:
+// la reserva dura lo que un envío, si se reservaran varias las últimas vencerían antes de enviarse y se duplicarían
+const claimNext = () => db.transaction(async transaction => {
+    const delivery = await WebhookDelivery.findOne({
+        where: { status: 'pending', nextAttemptAt: { [Op.lte]: new Date() } },
+        // Las suscripciones desactivadas conservan sus entregas hasta que se reactiven
+        include: [{ model: Webhook, where: { active: true } }],
+        order: [['nextAttemptAt', 'ASC'], ['id', 'ASC']],
+        lock: { level: transaction.LOCK.UPDATE, of: WebhookDelivery },
+        skipLocked: true,
+        transaction
+    })
+    await delivery?.update({ nextAttemptAt: new Date(Date.now() + webhookTimeout() + LEASE_MARGIN) }, { transaction })
+    return delivery
+})
+
+export const processDeliveries = async (limit = 20) => {
+    const deliveries : WebhookDelivery[] = []
+    while(deliveries.length < limit) {
+        const delivery = await claimNext()
+        if(!delivery) break
+        deliveries.push(await deliver(delivery))
+    }
+    return deliveries
+}
+
+let worker: NodeJS.Timeout | null = null
+// Ronda de entregas en curso, se espera al detener el worker
+let running : Promise<void> | null = null
+
+export const startDeliveryWorker = () => {
+    const interval = webhookPollInterval()
+    if(worker || interval <= 0) return
+
+    worker = setInterval(() => {
+        if(running) return
+        running = processDeliveries()
+            .then(() => undefined)
+            .catch(error => logger.error({ err: error }, 'webhook delivery worker failed'))
+            .finally(() => running = null)
+    }, interval)
+    worker.unref()
+}
+
+export const stopDeliveryWorker = async () => {
+    if(worker) clearInterval(worker)
+    worker = null
+    await running
+}
@@ -0,0 +1,14 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import User from "../models/User.model";
+import { Locale } from "../i18n";
+
+type RequestContext = {
+    requestId?: string
+    user?: User
+    locale?: Locale
+}
+
+// Datos de la petición en curso, accesibles desde hooks de modelos y otros módulos sin pasar req
+export const requestContext = new AsyncLocalStorage<RequestContext>()
+
+export const getCurrentUser = () => requestContext.getStore()?.user
@@ -0,0 +1,109 @@
+import { STATUS_CODES } from "node:http";
+import { ForeignKeyConstraintError, OptimisticLockError, UniqueConstraintError } from "sequelize";
+import { logger } from "./logger";
+import { t } from "../i18n";
+
+// Errores de dominio, el middleware de errores los convierte en respuestas problem+json (RFC 7807)
+
+export class AppError extends Error {
+    constructor(
+        readonly status: number,
+        readonly code: string,
+        readonly title: string,
+        detail?: string,
+        // Miembros adicionales del problema (errores de validación, resultados parciales...)
+        readonly extensions: Record<string, unknown> = {}
+    ) {
+        super(detail ?? title)
+        this.name = new.target.name
+    }
+}
+
+export class BadRequestError extends AppError {
+    constructor(detail: string, code = 'BAD_REQUEST', extensions?: Record<string, unknown>) {
+        super(400, code, 'Bad Request', detail, extensions)
+    }
+}
+
+export class ValidationError extends AppError {
+    constructor(errors: unknown[], detail = t('errors.validationFailed')) {
+        super(400, 'VALIDATION_FAILED', 'Bad Request', detail, { errors })
+    }
+}
+
+export class UnauthorizedError extends AppError {
+    constructor(detail = t('errors.notAuthenticated'), code = 'NOT_AUTHENTICATED') {
+        super(401, code, 'Unauthorized', detail)
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(detail = t('errors.notAuthorized'), code = 'NOT_AUTHORIZED') {
+        super(403, code, 'Forbidden', detail)
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(detail: string, code = 'NOT_FOUND') {
+        super(404, code, 'Not Found', detail)
+    }
+}
+
+export class ConflictError extends AppError {
+    constructor(detail: string, code = 'CONFLICT') {
+        super(409, code, 'Conflict', detail)
+    }
+}
+
+export class PreconditionFailedError extends AppError {
+    constructor(detail = t('errors.preconditionFailed'), code = 'PRECONDITION_FAILED') {
+        super(412, code, 'Precondition Failed', detail)
+    }
+}
+
+export class PayloadTooLargeError extends AppError {
+    constructor(detail: string, code = 'PAYLOAD_TOO_LARGE') {
+        super(413, code, 'Payload Too Large', detail)
+    }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+    constructor(detail: string, code = 'UNSUPPORTED_MEDIA_TYPE') {
+        super(415, code, 'Unsupported Media Type', detail)
+    }
+}
+
+export class TooManyRequestsError extends AppError {
+    constructor(detail: string, code = 'RATE_LIMITED') {
+        super(429, code, 'Too Many Requests', detail)
+    }
+}
+
+// Solo con RESPONSE_VALIDATION=error: la respuesta no coincide con la especificación OpenAPI
+export class ResponseValidationError extends AppError {
+    constructor(errors: unknown[]) {
+        super(500, 'RESPONSE_VALIDATION_FAILED', 'Internal Server Error', t('errors.responseValidationFailed'), { errors })
+    }
+}
+
+// Errores de body-parser y demás middlewares basados en http-errors
+type HttpError = Error & { type?: string, expose?: boolean, status?: number }
+
+const isHttpError = (error: unknown) : error is HttpError => {
+    return error instanceof Error && ('type' in error || 'expose' in error || 'status' in error)
+}
+
+// Traduce errores de Sequelize y de body-parser a errores de dominio
+export const toAppError = (error: unknown) : AppError => {
+    if(error instanceof AppError) return error
+    if(error instanceof OptimisticLockError) return new PreconditionFailedError()
+    if(error instanceof UniqueConstraintError) return new ConflictError(t('errors.resourceExists'), 'UNIQUE_VIOLATION')
+    if(error instanceof ForeignKeyConstraintError) return new ConflictError(t('errors.resourceReferenced'), 'FOREIGN_KEY_VIOLATION')
+    if(isHttpError(error)) {
+        if(error.type === 'entity.parse.failed') return new BadRequestError(t('errors.malformedJson'), 'MALFORMED_JSON')
+        if(error.expose && error.status < 500) return new AppError(error.status, 'BAD_REQUEST', STATUS_CODES[error.status], error.message)
+    }
+
+    logger.error({ err: error }, 'unexpected error')
+    return new AppError(500, 'INTERNAL_ERROR', STATUS_CODES[500], t('errors.unexpected'))
+}
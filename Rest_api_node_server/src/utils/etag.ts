@@ -0,0 +1,48 @@
+import { createHash } from "node:crypto";
+import { Request, Response } from "express";
+import Product from "../models/Product.model";
+import type { TableState } from "../services/product";
+
+// Las categorías no cambian la versión del producto: la representación con ?include=categories añade
+// un resumen de las categorías cargadas, así renombrarlas o reasignarlas cambia la ETag
+const categoriesDigest = (product: Product) => {
+    const categories = (product.categories ?? []).map(category => [category.id, category.name, category.parentId])
+    return createHash('sha1').update(JSON.stringify(categories)).digest('hex').slice(0, 12)
+}
+
+export const productETag = (product: Product, withCategories = false) => withCategories
+    ? `"${product.id}-${product.version}-${categoriesDigest(product)}"`
+    : `"${product.id}-${product.version}"`
+
+// Devuelve true cuando el cliente envió If-Match y ninguna de sus ETags coincide
+export const ifMatchFails = (req: Request, etag: string) => {
+    const header = req.headers['if-match']
+    if(!header || header.trim() === '*') return false
+
+    return !header
+        .split(',')
+        // Se compara la versión del producto, sin el resumen de las categorías
+        .map(tag => tag.trim().replace(/^W\//, '').replace(/^"(\d+-\d+)-[0-9a-f]+"$/, '"$1"'))
+        .includes(etag)
+}
+
+// Con las categorías no se envía Last-Modified: la fecha del producto no cambia al renombrarlas
+export const setProductHeaders = (res: Response, product: Product, withCategories = false) => {
+    res.set('ETag', productETag(product, withCategories))
+    if(!withCategories) {
+        res.set('Last-Modified', product.updatedAt.toUTCString())
+    }
+}
+
+// La ETag de la lista resume el estado de sus tablas y Last-Modified es el cambio más reciente entre ellas
+export const setListHeaders = (res: Response, states: TableState[]) => {
+    res.set('ETag', `W/"${createHash('sha1').update(JSON.stringify(states)).digest('hex').slice(0, 20)}"`)
+
+    const dates = states
+        .flatMap(({ updatedAt, deletedAt }) => [updatedAt, deletedAt])
+        .filter(date => date)
+        .map(date => new Date(date).getTime())
+    if(dates.length) {
+        res.set('Last-Modified', new Date(Math.max(...dates)).toUTCString())
+    }
+}
@@ -0,0 +1,37 @@
+import jwt from "jsonwebtoken";
+import User, { Role } from "../models/User.model";
+import { accessTokenExpiration, jwtSecret, refreshTokenExpiration } from "../config/auth";
+
+export type TokenType = 'access' | 'refresh'
+
+export type TokenPayload = {
+    id: number
+    role: Role
+    type: TokenType
+}
+
+// Se leen al firmar, no al importar el módulo (antes de cargar el .env)
+const expiration : Record<TokenType, () => string> = {
+    access: accessTokenExpiration,
+    refresh: refreshTokenExpiration
+}
+
+export const generateToken = (user: User, type: TokenType) => {
+    const payload : TokenPayload = { id: user.id, role: user.role, type }
+    return jwt.sign(payload, jwtSecret(), { expiresIn: expiration[type]() } as jwt.SignOptions)
+}
+
+export const generateTokens = (user: User) => ({
+    accessToken: generateToken(user, 'access'),
+    refreshToken: generateToken(user, 'refresh')
+})
+
+// Devuelve null si el token es inválido, expiró o no es del tipo esperado
+export const verifyToken = (token: string, type: TokenType) : TokenPayload | null => {
+    try {
+        const payload = jwt.verify(token, jwtSecret()) as TokenPayload
+        return payload.type === type ? payload : null
+    } catch (error) {
+        return null
+    }
+}
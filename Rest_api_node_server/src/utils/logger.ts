@@ -0,0 +1,16 @@
+import pino from "pino";
+import { requestContext } from "./context";
+import { logLevel } from "../config/logging";
+
+// Logs JSON en stdout, cada línea lleva el id de la petición en curso si la hay
+export const logger = pino({
+    level: logLevel(),
+    timestamp: pino.stdTimeFunctions.isoTime,
+    formatters: {
+        level: label => ({ level: label })
+    },
+    mixin: () => {
+        const requestId = requestContext.getStore()?.requestId
+        return requestId ? { requestId } : {}
+    }
+})
@@ -0,0 +1,67 @@
+// Importes exactos: las columnas son DECIMAL y la aritmética se hace con enteros (BigInt),
+// nunca con números de punto flotante
+
+export const PRICE_SCALE = 2
+export const RATE_SCALE = 8
+
+// Decimales de la moneda según ISO 4217 (JPY 0, USD 2...)
+export const currencyDigits = (currency: string) => {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits
+}
+
+// Los precios se guardan con 2 decimales, las monedas con más decimales no se admiten
+export const SUPPORTED_CURRENCIES = Intl.supportedValuesOf('currency')
+    .filter(currency => currencyDigits(currency) <= PRICE_SCALE)
+
+// Cambia la escala de un entero decimal redondeando la mitad hacia arriba
+const rescale = (value: bigint, from: number, to: number) => {
+    if(to >= from) return value * 10n ** BigInt(to - from)
+    const divisor = 10n ** BigInt(from - to)
+    const rounded = ((value < 0n ? -value : value) * 2n + divisor) / (2n * divisor)
+    return value < 0n ? -rounded : rounded
+}
+
+// "19.99" => 1999n con escala 2
+const parseDecimal = (value: string | number, scale: number) : bigint => {
+    const text = typeof value === 'number' ? value.toFixed(12) : String(value).trim()
+    const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text)
+    if(!match || !(match[2] || match[3])) {
+        throw new RangeError(`Invalid decimal value: ${value}`)
+    }
+    const [, sign, integer, fraction = ''] = match
+    const parsed = rescale(BigInt(`${integer || '0'}${fraction}`), fraction.length, scale)
+    return sign ? -parsed : parsed
+}
+
+const formatDecimal = (value: bigint, scale: number) => {
+    const sign = value < 0n ? '-' : ''
+    const digits = (value < 0n ? -value : value).toString().padStart(scale + 1, '0')
+    return scale ? `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}` : `${sign}${digits}`
+}
+
+export const toDecimal = (value: string | number | null | undefined, scale = PRICE_SCALE) => {
+    if(value === null || value === undefined || value === '') return null
+    return formatDecimal(parseDecimal(value, scale), scale)
+}
+
+// Postgres devuelve DECIMAL como texto, la API lo expone como número
+export const toAmount = (value: string | number | null | undefined) => {
+    if(value === null || value === undefined) return null
+    return Number(value)
+}
+
+// Getter y setter para columnas DECIMAL
+export const decimalAccessors = (field: string, scale = PRICE_SCALE) => ({
+    get(this: { getDataValue(key: string): string }) {
+        return toAmount(this.getDataValue(field))
+    },
+    set(this: { setDataValue(key: string, value: unknown): void }, value: string | number | null) {
+        this.setDataValue(field, toDecimal(value, scale))
+    }
+})
+
+// Las tasas expresan unidades de cada moneda por unidad de la moneda base
+export const convertAmount = (amount: string | number, fromRate: string | number, toRate: string | number, digits = PRICE_SCALE) => {
+    const value = parseDecimal(amount, RATE_SCALE) * parseDecimal(toRate, RATE_SCALE) / parseDecimal(fromRate, RATE_SCALE)
+    return formatDecimal(rescale(value, RATE_SCALE, digits), digits)
+}
@@ -0,0 +1,62 @@
+import { Op, WhereOptions } from "sequelize";
+
+export type SortDirection = 'ASC' | 'DESC'
+export type SortField = [string, SortDirection]
+
+export const DEFAULT_LIMIT = 10
+export const MAX_LIMIT = 100
+
+// "-price,name" => [['price', 'DESC'], ['name', 'ASC']]
+export const parseSort = (sort: string) : SortField[] => {
+    return sort
+        .split(',')
+        .map(field => field.trim())
+        .filter(field => field.length > 0)
+        .map(field => field.startsWith('-')
+            ? [field.slice(1), 'DESC'] as SortField
+            : [field.replace(/^\+/, ''), 'ASC'] as SortField
+        )
+}
+
+// Siempre se agrega la clave primaria para que el orden sea estable entre páginas
+export const withTieBreaker = (order: SortField[], key = 'id') : SortField[] => {
+    if(order.some(([field]) => field === key)) {
+        return order
+    }
+    return [...order, [key, 'ASC']]
+}
+
+// Los NULL van al final en ambas direcciones, igual que los ordena cursorWhere
+export const nullsLast = (order: SortField[]) : [string, string][] => {
+    return order.map(([field, direction]) => [field, `${direction} NULLS LAST`])
+}
+
+export const encodeCursor = (values: unknown[]) : string => {
+    return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+export const decodeCursor = (cursor: string) : unknown[] | null => {
+    try {
+        const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+        return Array.isArray(values) ? values : null
+    } catch (error) {
+        return null
+    }
+}
+
+// Condición de keyset: (a > x) OR (a = x AND b > y) OR ...
+// Con los NULL al final, después de x también están los NULL y después de NULL solo los empates (a IS NULL AND b > y)
+export const cursorWhere = (order: SortField[], values: unknown[]) : WhereOptions => {
+    const conditions = order
+        .map(([field, direction], index) => {
+            if(values[index] === null) return null
+            const condition = {}
+            order.slice(0, index).forEach(([previous], i) => {
+                condition[previous] = values[i]
+            })
+            condition[field] = { [Op.or]: { [direction === 'DESC' ? Op.lt : Op.gt]: values[index], [Op.is]: null } }
+            return condition
+        })
+        .filter(condition => condition !== null)
+    return { [Op.or]: conditions }
+}
@@ -0,0 +1,17 @@
+import { Transaction } from "sequelize";
+
+// Sequelize no declara el savepoint padre en sus tipos
+type Savepoint = Transaction & { parent?: Transaction }
+
+// Efectos fuera de la base de datos (caché, streams, archivos) que solo deben ocurrir si la escritura se confirma.
+// Un savepoint ejecuta sus hooks afterCommit al liberarse, antes de que se confirme la transacción que lo
+// contiene: el efecto se pasa al nivel superior y se descarta si cualquiera de los niveles se revierte
+export const onCommit = (transaction: Transaction | null | undefined, effect: () => void | Promise<void>) => {
+    if(!transaction) return effect()
+
+    const { parent } = transaction as Savepoint
+    transaction.afterCommit(() => {
+        if(parent) return onCommit(parent, effect)
+        return effect()
+    })
+}
@@ -0,0 +1,38 @@
+import { Request } from "express";
+import { Readable } from "node:stream";
+import busboy, { FileInfo } from "busboy";
+
+export type Upload = {
+    file: Readable
+    info: FileInfo
+    // Campos de texto enviados antes que el archivo
+    fields: Record<string, string>
+}
+
+// Entrega el primer archivo de una petición multipart como stream, sin cargarlo en memoria
+export const readUpload = (req: Request, field = 'file', limits: busboy.Limits = {}) => {
+    return new Promise<Upload | null>((resolve, reject) => {
+        let parser: busboy.Busboy
+        try {
+            parser = busboy({ headers: req.headers, limits: { ...limits, files: 1 } })
+        } catch (error) {
+            // Content-Type ausente o distinto de multipart
+            return resolve(null)
+        }
+
+        const fields : Record<string, string> = {}
+        parser.on('field', (name, value) => {
+            fields[name] = value
+        })
+        parser.on('file', (name, file, info) => {
+            if(name !== field) {
+                file.resume()
+                return
+            }
+            resolve({ file, info, fields })
+        })
+        parser.on('close', () => resolve(null))
+        parser.on('error', reject)
+        req.pipe(parser)
+    })
+}
@@ -0,0 +1,9 @@
+import { ValidationChain, validationResult } from "express-validator";
+
+// Ejecuta reglas fuera de la cadena de middlewares (filas importadas, operaciones batch)
+export const runValidation = async (rules: ValidationChain[], req: Record<string, unknown>) => {
+    for(const rule of rules) {
+        await rule.run(req)
+    }
+    return validationResult(req).array().map(error => error.msg as string)
+}
@@ -0,0 +1,129 @@
+import { body, query } from "express-validator";
+import { DataTypes } from "sequelize";
+import { DEFAULT_SORT } from "../services/product";
+import Product, { INTERNAL_FIELDS } from "../models/Product.model";
+import Category from "../models/Category.model";
+import Attribute from "../models/Attribute.model";
+import { SCHEDULED_FIELDS } from "../models/ProductSchedule.model";
+import { AttributeSelection, VariantOptions } from "../models/ProductVariant.model";
+import { MAX_GENERATED_VARIANTS } from "../handlers/variant";
+import { decodeCursor, parseSort, withTieBreaker } from "../utils/pagination";
+import { parameters, SchemaObject, schemas } from "../openapi/schemas";
+import { matchesSchema, parameterValidation, schemaValidation, SchemaValidationOptions } from "./schema";
+import { message } from "../i18n";
+
+// Reglas compartidas por las rutas de productos, GraphQL y la importación masiva. La forma de los datos
+// la validan los esquemas de openapi/schemas.ts, aquí se añade lo que un esquema no puede expresar
+
+export const idValidation = parameterValidation(parameters.productId)
+
+export const currencyQueryValidation = parameterValidation(parameters.currency)
+
+// La forma de las categorías la valida el esquema, aquí solo que existan
+export const categoriesExistValidation = body('categories')
+    .optional()
+    .custom(async (ids: unknown) => {
+        if(!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) return
+        const count = await Category.count({ where: { id: ids } })
+        if(count !== new Set(ids).size) throw new Error()
+    }).withMessage(message('validation.invalidCategories'))
+
+export const createProductValidation = [
+    ...schemaValidation(schemas.ProductInput),
+    categoriesExistValidation
+]
+
+export const updateProductValidation = [
+    ...schemaValidation(schemas.ProductUpdate),
+    categoriesExistValidation
+]
+
+// Las fechas las valida el esquema, aquí que se cambie algo
+export const scheduleChangeValidation = body()
+    .custom(values => SCHEDULED_FIELDS.some(field => values?.[field] !== undefined && values?.[field] !== null))
+    .withMessage(message('validation.scheduleChangeRequired'))
+
+// Los ajustes pueden restar stock y necesitan un motivo, el resto de movimientos suman o restan según su tipo
+export const movementValidation = [
+    body('quantity')
+        .if(body('quantity').isInt())
+        .custom((value, { req }) => req.body.type === 'adjustment' ? Number(value) !== 0 : Number(value) > 0)
+        .withMessage(message('validation.invalidQuantity')),
+    body('reason')
+        .if(body('type').equals('adjustment'))
+        .notEmpty().withMessage(message('validation.reasonRequired'))
+]
+
+// Las opciones y la selección con la forma del esquema usan atributos existentes con sus valores permitidos
+const hasShape = (schema: SchemaObject) => (value: unknown) => matchesSchema(schema, value)
+
+export const variantOptionsValidation = body('options')
+    .if(hasShape(schemas.ProductVariantInput.properties.options))
+    .custom(async (options: VariantOptions) => {
+        const selection = Object.fromEntries(Object.entries(options).map(([name, value]) => [name, [value]]))
+        if(!await Attribute.allowsValues(selection)) throw new Error()
+    }).withMessage(message('validation.invalidOptions'))
+
+export const variantSelectionValidation = body('attributes')
+    .if(hasShape(schemas.VariantGenerationInput.properties.attributes))
+    .custom(async (selection: AttributeSelection) => {
+        if(!await Attribute.allowsValues(selection)) throw new Error()
+    }).withMessage(message('validation.invalidSelection'))
+    .bail()
+    .custom((selection: AttributeSelection) => Object.values(selection).reduce((count, values) => count * values.length, 1) <= MAX_GENERATED_VARIANTS)
+    .withMessage(message('validation.matrixSize', { max: MAX_GENERATED_VARIANTS }))
+
+export const filterValidation = [parameters.minPrice, parameters.maxPrice, parameters.availability].map(parameterValidation)
+
+export const pageValidation = [parameters.page, parameters.limit].map(parameterValidation)
+
+// El cursor depende del orden y el orden de los campos del modelo
+// Cada valor del cursor tiene el tipo de su columna o es NULL: un cursor alterado no llega a la consulta.
+// Los campos desconocidos los rechaza la validación del orden
+const matchesColumn = (field: string, value: unknown) => {
+    const attribute = Product.getAttributes()[field]
+    if(value === null || !attribute) return true
+    if(attribute.type instanceof DataTypes.INTEGER) return Number.isInteger(value)
+    if(attribute.type instanceof DataTypes.NUMBER) return typeof value === 'number' && Number.isFinite(value)
+    if(attribute.type instanceof DataTypes.BOOLEAN) return typeof value === 'boolean'
+    if(attribute.type instanceof DataTypes.DATE) return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+    return typeof value === 'string'
+}
+
+export const sortValidation = [
+    query('cursor')
+        .optional()
+        .custom((value, { req }) => {
+            const order = withTieBreaker(parseSort(req.query.sort ?? DEFAULT_SORT))
+            const values = decodeCursor(value)
+            return values?.length === order.length && order.every(([field], index) => matchesColumn(field, values[index]))
+        }).withMessage(message('validation.invalidCursor')),
+    query('sort')
+        .optional()
+        .custom(value => {
+            const fields = Object.keys(Product.getAttributes()).filter(field => !INTERNAL_FIELDS.includes(field))
+            const order = parseSort(value)
+            return order.length > 0 && order.every(([field]) => fields.includes(field))
+        }).withMessage(message('validation.invalidSort'))
+]
+
+export const paginationValidation = [
+    ...pageValidation,
+    ...[parameters.cursor, parameters.sort].map(parameterValidation),
+    ...sortValidation
+]
+
+// En un CSV las columnas vacías llegan como cadenas vacías
+const importRowOptions: SchemaValidationOptions = {
+    fields: ['name', 'price', 'currency', 'availability', 'lowStockThreshold'],
+    emptyValues: 'falsy',
+    text: true
+}
+
+export const importRowValidation = schemaValidation(schemas.ProductInput, importRowOptions)
+
+// Las filas con el id de un producto lo actualizan y solo llevan las columnas que cambian
+export const importUpdateRowValidation = [
+    body('id').isInt({ min: 1 }).withMessage(message('validation.invalidId')),
+    ...schemaValidation(schemas.ProductInput, { ...importRowOptions, partial: true })
+]
@@ -0,0 +1,181 @@
+import { body, cookie, header, param, query, ValidationChain } from "express-validator";
+import { SchemaObject, SchemaRule, schemas, SchemaType } from "../openapi/schemas";
+import { OperationObject, ParameterObject } from "../openapi/document";
+import { message, MessageParams } from "../i18n";
+import { PRICE_SCALE } from "../utils/money";
+
+// Reglas de express-validator generadas desde los esquemas OpenAPI, con el mensaje de x-messages
+
+export type SchemaValidationOptions = {
+    // Solo se validan estos campos
+    fields?: string[]
+    // Valores que cuentan como ausentes en los campos opcionales
+    emptyValues?: 'null' | 'falsy'
+    // Los valores llegan como texto (filas de un CSV), igual que en la query y en los parámetros
+    text?: boolean
+    // Ningún campo es obligatorio, solo se validan los que llegan
+    partial?: boolean
+}
+
+type Location = 'body' | ParameterObject['in']
+
+const selectors = { body, path: param, query, header, cookie }
+
+// Parte de la petición en la que x-after busca el otro campo
+const requestKeys = { body: 'body', path: 'params', query: 'query', header: 'headers', cookie: 'cookies' } as const
+
+export const hasValidDecimals = (value: unknown, scale = PRICE_SCALE) => {
+    return new RegExp(`^\\d*(\\.\\d{0,${scale}})?$`).test(String(value))
+}
+
+// 0.01 => 2
+const decimalsOf = (multipleOf: number) => Math.max(0, Math.round(-Math.log10(multipleOf)))
+
+const typeChecks: Record<SchemaType, (value: unknown) => boolean> = {
+    object: value => typeof value === 'object' && value !== null && !Array.isArray(value),
+    array: value => Array.isArray(value),
+    string: value => typeof value === 'string',
+    number: value => typeof value === 'number' && Number.isFinite(value),
+    integer: value => Number.isInteger(value),
+    boolean: value => typeof value === 'boolean'
+}
+
+// Los campos con $ref usan el esquema de componentes
+const resolve = (schema: SchemaObject) : SchemaObject => {
+    return schema.$ref ? schemas[schema.$ref.split('/').pop() as keyof typeof schemas] : schema
+}
+
+// Valores anidados (elementos de una lista, valores de un objeto), sin mensaje propio: el error es el del campo
+export const matchesSchema = (property: SchemaObject, value: unknown) : boolean => {
+    const schema = resolve(property)
+    if(schema.type && !typeChecks[schema.type](value)) return false
+    if(schema.enum && !schema.enum.includes(value as string | number)) return false
+
+    if(Array.isArray(value)) {
+        const { items, minItems = 0, uniqueItems } = schema
+        return value.length >= minItems
+            && (!uniqueItems || new Set(value).size === value.length)
+            && (!items || value.every(item => matchesSchema(items, item)))
+    }
+    if(typeChecks.object(value)) {
+        const { minProperties = 0, additionalProperties } = schema
+        const values = Object.values(value as object)
+        return values.length >= minProperties
+            && (typeof additionalProperties !== 'object' || values.every(item => matchesSchema(additionalProperties, item)))
+    }
+    return true
+}
+
+const propertyValidation = (field: string, property: SchemaObject, required: boolean, options: SchemaValidationOptions, location: Location = 'body') => {
+    const schema = resolve(property)
+    const text = options.text || location !== 'body'
+    const max = schema.maxLength ?? schema.maximum ?? schema.maxItems
+    const params: MessageParams = {
+        ...(max !== undefined && { max }),
+        ...(schema.minLength !== undefined && { min: schema.minLength }),
+        ...(schema.multipleOf !== undefined && { scale: decimalsOf(schema.multipleOf) })
+    }
+    const ruleMessage = (rule: SchemaRule) => message(schema['x-messages']?.[rule] ?? 'validation.invalidValue', params)
+
+    // Los nombres de las cabeceras llegan en minúsculas
+    let chain = selectors[location](location === 'header' ? field.toLowerCase() : field)
+    chain = required
+        ? chain.notEmpty().withMessage(ruleMessage('required')).bail()
+        : chain.optional({ values: options.emptyValues ?? (schema.nullable ? 'null' : 'undefined') })
+
+    // El tipo primero, el resto de reglas solo tienen sentido con el tipo correcto.
+    // En JSON un booleano tiene que serlo, en texto se aceptan 'true' y 'false'
+    switch(schema.type) {
+        case 'string': chain = chain.isString(); break
+        case 'number': chain = text ? chain.isFloat() : chain.isNumeric(); break
+        case 'integer': chain = chain.isInt(); break
+        case 'boolean': chain = chain.isBoolean(text ? { loose: false } : { strict: true }); break
+        case 'array': chain = chain.isArray(); break
+        case 'object': chain = chain.isObject(); break
+    }
+    if(schema.type) {
+        chain = chain.withMessage(ruleMessage('type')).bail()
+    }
+
+    for(const sanitizer of schema['x-sanitizers'] ?? []) {
+        chain = chain[sanitizer]()
+    }
+
+    if(schema.format === 'date-time') {
+        chain = chain.isISO8601({ strict: true, strictSeparator: true }).withMessage(ruleMessage('format')).bail()
+    }
+    const after = schema['x-after']
+    if(after) {
+        // Si el otro campo no es una fecha ya tiene su propio error
+        chain = chain.custom((value, { req }) => {
+            const limit = after === 'now' ? Date.now() : Date.parse(req[requestKeys[location]]?.[after])
+            return Number.isNaN(limit) || Date.parse(value) > limit
+        }).withMessage(ruleMessage('after'))
+    }
+
+    const { minimum, exclusiveMinimum, maximum, multipleOf } = schema
+    if(minimum !== undefined) {
+        chain = chain.custom(value => exclusiveMinimum ? Number(value) > minimum : Number(value) >= minimum).withMessage(ruleMessage('minimum'))
+    }
+    if(maximum !== undefined) {
+        chain = chain.custom(value => Number(value) <= maximum).withMessage(ruleMessage('maximum'))
+    }
+    if(multipleOf !== undefined) {
+        chain = chain.custom(value => hasValidDecimals(value, decimalsOf(multipleOf))).withMessage(ruleMessage('multipleOf'))
+    }
+    if(schema.minLength !== undefined) {
+        chain = chain.isLength({ min: schema.minLength }).withMessage(ruleMessage('minLength'))
+    }
+    if(schema.maxLength !== undefined) {
+        chain = chain.isLength({ max: schema.maxLength }).withMessage(ruleMessage('maxLength'))
+    }
+    if(schema.pattern) {
+        chain = chain.matches(new RegExp(schema.pattern)).withMessage(ruleMessage('pattern'))
+    }
+    if(schema.enum) {
+        chain = chain.isIn(schema.enum).withMessage(ruleMessage('enum'))
+    }
+
+    const { items, minItems, maxItems, minProperties, additionalProperties } = schema
+    if(items) {
+        chain = chain.custom((values: unknown[]) => values.every(value => matchesSchema(items, value))).withMessage(ruleMessage('items'))
+    }
+    if(minItems !== undefined) {
+        chain = chain.custom((values: unknown[]) => values.length >= minItems).withMessage(ruleMessage('minItems'))
+    }
+    if(maxItems !== undefined) {
+        chain = chain.custom((values: unknown[]) => values.length <= maxItems).withMessage(ruleMessage('maxItems'))
+    }
+    if(minProperties !== undefined) {
+        chain = chain.custom((value: object) => Object.keys(value).length >= minProperties).withMessage(ruleMessage('minProperties'))
+    }
+    if(typeof additionalProperties === 'object') {
+        chain = chain.custom((value: object) => Object.values(value).every(item => matchesSchema(additionalProperties, item)))
+            .withMessage(ruleMessage('additionalProperties'))
+    }
+
+    if(text && schema.type === 'boolean') {
+        chain = chain.toBoolean(true)
+    }
+    return chain
+}
+
+// Una regla por propiedad del esquema, en el orden en que se declaran
+export const schemaValidation = (schema: SchemaObject, options: SchemaValidationOptions = {}) : ValidationChain[] => {
+    return Object.entries(schema.properties ?? {})
+        .filter(([field]) => !options.fields || options.fields.includes(field))
+        .map(([field, property]) => propertyValidation(field, property, !options.partial && (schema.required?.includes(field) ?? false), options))
+}
+
+export const parameterValidation = (parameter: ParameterObject) : ValidationChain => {
+    return propertyValidation(parameter.name, parameter.schema ?? {}, parameter.required ?? false, {}, parameter.in)
+}
+
+// Los parámetros y después el cuerpo JSON de una operación de openapi/paths.ts
+export const operationValidation = (operation: OperationObject) : ValidationChain[] => {
+    const body = operation.requestBody?.content?.['application/json']?.schema
+    return [
+        ...(operation.parameters ?? []).map(parameterValidation),
+        ...(body ? schemaValidation(resolve(body)) : [])
+    ]
+}